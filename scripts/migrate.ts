@@ -0,0 +1,80 @@
+import { execFileSync } from 'child_process';
+import { config } from 'dotenv';
+import {
+  SCHEMA_MIGRATIONS_TABLE,
+  loadMigrations,
+  markBaseline,
+  recordMigrationSql,
+  runMigrations,
+  type Migration,
+  type MigrationTarget,
+} from '../src/lib/migrations';
+
+/**
+ * Apply pending migrations from supabase/migrations with psql
+ *
+ *   npm run db:migrate                 apply pending migrations
+ *   npm run db:migrate -- --baseline   record the baseline as applied without
+ *                                      running it (databases set up from
+ *                                      schema.sql before migrations existed)
+ *
+ * DATABASE_URL (from the environment or .env.local) is the Postgres
+ * connection string from the Supabase project's database settings.
+ */
+
+config({ path: '.env.local', quiet: true });
+
+const databaseUrl = process.env.DATABASE_URL;
+if (!databaseUrl) {
+  console.error('DATABASE_URL is not set');
+  process.exit(1);
+}
+
+function psql(args: string[], input?: string): string {
+  return execFileSync('psql', [databaseUrl!, '--no-psqlrc', '--quiet', '-v', 'ON_ERROR_STOP=1', ...args], {
+    input,
+    encoding: 'utf8',
+    stdio: ['pipe', 'pipe', 'inherit'],
+  });
+}
+
+const target: MigrationTarget = {
+  async appliedVersions() {
+    psql(['-c', SCHEMA_MIGRATIONS_TABLE]);
+    return psql(['--tuples-only', '--no-align', '-c', 'SELECT version FROM schema_migrations ORDER BY version'])
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .map(Number);
+  },
+  async apply(migration) {
+    psql(['--single-transaction', '-f', '-'], `${migration.sql}\n${recordMigrationSql(migration)}\n`);
+  },
+  async record(migration) {
+    psql(['-c', recordMigrationSql(migration)]);
+  },
+};
+
+function fileName(migration: Migration): string {
+  return `${String(migration.version).padStart(4, '0')}_${migration.name}.sql`;
+}
+
+async function main() {
+  const migrations = loadMigrations();
+
+  if (process.argv.includes('--baseline')) {
+    await markBaseline(target, migrations);
+    console.log(`Recorded ${fileName(migrations[0])} as applied`);
+    return;
+  }
+
+  const applied = await runMigrations(target, migrations);
+  for (const migration of applied) {
+    console.log(`Applied ${fileName(migration)}`);
+  }
+  console.log(applied.length > 0 ? 'Database is up to date' : 'No pending migrations');
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
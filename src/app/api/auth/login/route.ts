@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { verifyPassword, createSessionToken, setSessionCookie } from '@/lib/auth';
+import { verifyPassword, createSession, describeDevice, setSessionCookie } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -30,8 +30,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
     }
 
-    // Create session with user ID
-    const token = createSessionToken(user.id);
+    // Create a session for this device
+    const token = await createSession(user.id, describeDevice(request.headers.get('user-agent')));
     await setSessionCookie(token);
 
     return NextResponse.json({ success: true });
@@ -1,8 +1,13 @@
 import { NextResponse } from 'next/server';
-import { clearSessionCookie } from '@/lib/auth';
+import { clearSessionCookie, getSession, revokeSession } from '@/lib/auth';
 
 export async function POST() {
   try {
+    const session = await getSession();
+    if (session) {
+      await revokeSession(session.userId, session.sessionId);
+    }
+
     await clearSessionCookie();
     return NextResponse.json({ success: true });
   } catch (error) {
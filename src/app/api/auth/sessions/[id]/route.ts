@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { clearSessionCookie, getSession, revokeSession } from '@/lib/auth';
+
+/**
+ * DELETE /api/auth/sessions/[id] - Sign out a single device
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const revoked = await revokeSession(session.userId, id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+
+    if (id === session.sessionId) {
+      await clearSessionCookie();
+    }
+
+    return NextResponse.json({ success: true, current: id === session.sessionId });
+  } catch (error) {
+    console.error('Session DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to sign out device' }, { status: 500 });
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { clearSessionCookie, getSession, revokeAllSessions } from '@/lib/auth';
+
+/**
+ * GET /api/auth/sessions - List the user's active sessions (signed-in devices)
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServerClient();
+    const { data: sessions, error } = await supabase
+      .from('sessions')
+      .select('id, device_label, created_at, last_seen_at, expires_at')
+      .eq('user_id', session.userId)
+      .is('revoked_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('last_seen_at', { ascending: false });
+
+    if (error) {
+      console.error('Sessions fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch sessions' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      sessions: (sessions || []).map((s) => ({ ...s, current: s.id === session.sessionId })),
+    });
+  } catch (error) {
+    console.error('Sessions GET error:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions - Sign out all devices, including this one
+ */
+export async function DELETE() {
+  try {
+    const session = await getSession();
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await revokeAllSessions(session.userId);
+    await clearSessionCookie();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Sessions DELETE error:', error);
+    return NextResponse.json({ error: 'Failed to sign out devices' }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { hashPassword, createSessionToken, setSessionCookie } from '@/lib/auth';
+import { hashPassword, createSession, describeDevice, setSessionCookie } from '@/lib/auth';
 
 /**
  * Setup endpoint - creates a new user account
@@ -60,7 +60,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Auto-login after setup
-    const token = createSessionToken(newUser.id);
+    const token = await createSession(newUser.id, describeDevice(request.headers.get('user-agent')));
     await setSessionCookie(token);
 
     return NextResponse.json({ success: true });
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { getUserId } from '@/lib/auth';
+import { dashboardNutrients } from '@/lib/nutrients';
 
 /**
  * GET /api/auth/status - Check authentication status and get user settings
@@ -37,6 +38,7 @@ export async function GET() {
           sex: data.sex,
           calorie_deficit: data.calorie_deficit,
           timezone: data.timezone,
+          dashboard_nutrients: dashboardNutrients(data.dashboard_nutrients),
         };
       }
     }
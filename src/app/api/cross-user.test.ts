@@ -0,0 +1,1375 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { exactFoodItem } from '@/lib/entries';
+import * as activityRoute from './activity/route';
+import * as dailyTotalsRoute from './daily-totals/route';
+import * as exportRoute from './export/route';
+import * as importRoute from './import/route';
+import * as importBatchRoute from './import/[id]/route';
+import * as customFoodsRoute from './custom-foods/route';
+import * as customFoodRoute from './custom-foods/[id]/route';
+import * as recipesRoute from './recipes/route';
+import * as recipeRoute from './recipes/[id]/route';
+import * as savedMealsRoute from './saved-meals/route';
+import * as savedMealRoute from './saved-meals/[id]/route';
+import * as logSavedMealRoute from './saved-meals/[id]/log/route';
+import * as entriesRoute from './entries/route';
+import * as entryRoute from './entries/[id]/route';
+import * as copyEntriesRoute from './entries/copy/route';
+import * as entryItemsRoute from './entries/[id]/items/route';
+import * as itemRoute from './entries/items/[id]/route';
+import * as foodsRoute from './foods/route';
+import * as parseCacheRoute from './parse-cache/route';
+import * as settingsRoute from './settings/route';
+import * as trendsRoute from './trends/route';
+import * as tdeeRoute from './tdee/route';
+import * as weightRoute from './weight/route';
+import * as weightLogRoute from './weight/[id]/route';
+import * as statusRoute from './auth/status/route';
+import * as logoutRoute from './auth/logout/route';
+import * as sessionsRoute from './auth/sessions/route';
+import * as sessionRoute from './auth/sessions/[id]/route';
+
+/**
+ * Cross-user regression suite: user B is signed in and tries to read or
+ * change user A's data through every /api route that touches user data.
+ */
+
+type Row = Record<string, unknown>;
+
+const { db, currentUser, failingTables } = vi.hoisted(() => ({
+  db: {} as Record<string, Row[]>,
+  currentUser: { userId: '', sessionId: '' },
+  // Tables whose queries return an error, as when the database is unreachable
+  failingTables: new Set<string>(),
+}));
+
+// PostgREST's default max-rows: a response never has more rows than this
+const MAX_ROWS = 1000;
+
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => createFakeSupabase(),
+}));
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getUserId: async () => currentUser.userId || null,
+  getSession: async () => (currentUser.userId ? { ...currentUser } : null),
+  clearSessionCookie: async () => {},
+}));
+
+// ---------------------------------------------------------------------------
+// In-memory stand-in for the handful of PostgREST features the routes use
+// ---------------------------------------------------------------------------
+
+function dailyTotalsView(): Row[] {
+  const totals = new Map<string, Row>();
+  for (const entry of db.entries) {
+    const key = `${entry.user_id}|${entry.resolved_date}`;
+    const total = totals.get(key) ?? {
+      user_id: entry.user_id,
+      resolved_date: entry.resolved_date,
+      entry_count: 0,
+      total_calories: 0,
+      total_calories_low: 0,
+      total_calories_high: 0,
+    };
+    total.entry_count = (total.entry_count as number) + 1;
+    // Ranges add end to end here; the fixtures have one item a day
+    for (const item of db.entry_items.filter((i) => i.entry_id === entry.id)) {
+      for (const column of ['calories', 'calories_low', 'calories_high']) {
+        total[`total_${column}`] = (total[`total_${column}`] as number) + ((item[column] ?? item.calories) as number);
+      }
+    }
+    totals.set(key, total);
+  }
+  return [...totals.values()];
+}
+
+function createFakeSupabase() {
+  return {
+    from: (table: string) => fakeQuery(table),
+    rpc: async (fn: string, args: Row) => fakeRpc(fn, args),
+  };
+}
+
+function fakeQuery(table: string) {
+  let op: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  let payload: Row[] = [];
+  let conflictColumns: string[] = [];
+  let returning = false;
+  let embedItems = false;
+  let head = false;
+  let mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  const orderBy: { column: string; ascending: boolean }[] = [];
+  let maxRows: number | null = null;
+  let skipRows = 0;
+  const filters: ((row: Row) => boolean)[] = [];
+
+  const execute = async () => {
+    if (failingTables.has(table)) return { data: null, error: { message: `${table} is unavailable` } };
+    const rows = table === 'daily_totals' ? dailyTotalsView() : (db[table] ??= []);
+    let result: Row[];
+
+    if (op === 'insert' || op === 'upsert') {
+      result = payload.map((values) => {
+        const existing = op === 'upsert'
+          ? rows.find((row) => conflictColumns.every((c) => row[c] === values[c]))
+          : undefined;
+        if (existing) return Object.assign(existing, values);
+        const row = { id: randomUUID(), created_at: new Date().toISOString(), ...values };
+        rows.push(row);
+        return row;
+      });
+    } else {
+      result = rows.filter((row) => filters.every((match) => match(row)));
+      if (op === 'update') {
+        result.forEach((row) => Object.assign(row, payload[0]));
+      } else if (op === 'delete') {
+        db[table] = rows.filter((row) => !result.includes(row));
+        if (table === 'import_batches') {
+          const batchIds = result.map((row) => row.id);
+          const entryIds = db.entries.filter((e) => batchIds.includes(e.import_batch_id)).map((e) => e.id);
+          db.entries = db.entries.filter((e) => !entryIds.includes(e.id));
+          db.entry_items = db.entry_items.filter((item) => !entryIds.includes(item.entry_id));
+        }
+        if (table === 'entries') {
+          const ids = result.map((row) => row.id);
+          db.entry_items = db.entry_items.filter((item) => !ids.includes(item.entry_id));
+        }
+      }
+    }
+
+    if (orderBy.length > 0) {
+      result = [...result].sort((a, b) => {
+        for (const { column, ascending } of orderBy) {
+          const order = String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1);
+          if (order !== 0) return order;
+        }
+        return 0;
+      });
+    }
+    const count = result.length;
+    result = result.slice(skipRows, skipRows + Math.min(maxRows ?? MAX_ROWS, MAX_ROWS));
+    if (embedItems) {
+      result = result.map((row) => ({
+        ...row,
+        entry_items: db.entry_items.filter((item) => item.entry_id === row.id),
+      }));
+    }
+
+    if (head) return { data: null, error: null, count };
+    if (op !== 'select' && !returning) return { data: null, error: null };
+    if (mode === 'single' && result.length !== 1) {
+      return { data: null, error: { code: 'PGRST116', message: 'expected a single row' } };
+    }
+    if (mode !== 'many') return { data: result[0] ?? null, error: null };
+    return { data: result, error: null };
+  };
+
+  const query = {
+    select(columns = '*', options?: { head?: boolean }) {
+      returning = true;
+      embedItems = columns.includes('entry_items');
+      head = options?.head === true;
+      return query;
+    },
+    insert(values: Row | Row[]) {
+      op = 'insert';
+      payload = Array.isArray(values) ? values : [values];
+      return query;
+    },
+    upsert(values: Row | Row[], options?: { onConflict?: string }) {
+      op = 'upsert';
+      payload = Array.isArray(values) ? values : [values];
+      conflictColumns = options?.onConflict?.split(',') ?? ['id'];
+      return query;
+    },
+    update(values: Row) {
+      op = 'update';
+      payload = [values];
+      return query;
+    },
+    delete() {
+      op = 'delete';
+      return query;
+    },
+    eq(column: string, value: unknown) {
+      filters.push((row) => row[column] === value);
+      return query;
+    },
+    match(values: Row) {
+      Object.entries(values).forEach(([column, value]) => query.eq(column, value));
+      return query;
+    },
+    is(column: string, value: unknown) {
+      filters.push((row) => (row[column] ?? null) === value);
+      return query;
+    },
+    gt(column: string, value: string) {
+      filters.push((row) => String(row[column]) > value);
+      return query;
+    },
+    gte(column: string, value: string) {
+      filters.push((row) => String(row[column]) >= value);
+      return query;
+    },
+    lte(column: string, value: string) {
+      filters.push((row) => String(row[column]) <= value);
+      return query;
+    },
+    order(column: string, options?: { ascending?: boolean }) {
+      orderBy.push({ column, ascending: options?.ascending ?? true });
+      return query;
+    },
+    limit(count: number) {
+      maxRows = count;
+      return query;
+    },
+    range(from: number, to: number) {
+      skipRows = from;
+      maxRows = to - from + 1;
+      return query;
+    },
+    single() {
+      mode = 'single';
+      return query;
+    },
+    maybeSingle() {
+      mode = 'maybeSingle';
+      return query;
+    },
+    then<T>(resolve: (value: Awaited<ReturnType<typeof execute>>) => T, reject?: (reason: unknown) => T) {
+      return execute().then(resolve, reject);
+    },
+  };
+
+  return query;
+}
+
+async function fakeRpc(fn: string, args: Row) {
+  if (fn === 'create_entry_with_items') {
+    const entry = { id: randomUUID(), created_at: new Date().toISOString(), ...(args.p_entry as Row) };
+    db.entries.push(entry);
+    for (const item of args.p_items as Row[]) {
+      db.entry_items.push({ id: randomUUID(), entry_id: entry.id, has_override: false, ...item });
+    }
+    return { data: entry, error: null };
+  }
+
+  if (fn === 'insert_entry_items') {
+    for (const item of args.p_items as Row[]) {
+      db.entry_items.push({ id: randomUUID(), entry_id: args.p_entry_id, has_override: false, ...item });
+    }
+    return { data: null, error: null };
+  }
+
+  if (fn === 'import_entries') {
+    const entries = args.p_entries as Row[];
+    const batch: Row = { id: randomUUID(), created_at: new Date().toISOString(), ...(args.p_batch as Row), entry_count: entries.length };
+    db.import_batches.push(batch);
+    for (const { items, ...entry } of entries) {
+      await fakeRpc('create_entry_with_items', {
+        p_entry: { ...entry, user_id: batch.user_id, import_batch_id: batch.id },
+        p_items: items,
+      });
+    }
+    return { data: batch, error: null };
+  }
+
+  if (fn === 'copy_entries') {
+    const sources = db.entries.filter(
+      (e) => (args.p_entry_ids as string[]).includes(e.id as string) && e.user_id === args.p_user_id
+    );
+    const copies = sources.map((source) => {
+      const copy = {
+        id: randomUUID(),
+        user_id: args.p_user_id,
+        raw_text: source.raw_text,
+        resolved_date: args.p_date,
+        explicit_date_in_text: false,
+        copied_from_entry_id: source.id,
+        meal_slot: source.meal_slot ?? null,
+        eaten_at: source.eaten_at ?? null,
+        created_at: new Date().toISOString(),
+      };
+      db.entries.push(copy);
+      for (const item of db.entry_items.filter((i) => i.entry_id === source.id)) {
+        db.entry_items.push({ ...item, id: randomUUID(), entry_id: copy.id });
+      }
+      return copy;
+    });
+    return { data: copies, error: null };
+  }
+
+  if (fn === 'record_saved_meal_use') {
+    const meal = db.saved_meals.find((m) => m.id === args.p_meal_id && m.user_id === args.p_user_id);
+    if (meal) Object.assign(meal, { use_count: (meal.use_count as number) + 1, last_used_at: new Date().toISOString() });
+    return { data: null, error: null };
+  }
+
+  if (fn === 'replace_entry_items') {
+    const entry = db.entries.find((e) => e.id === args.p_entry_id && e.user_id === args.p_user_id);
+    if (!entry) return { data: null, error: { code: 'P0002', message: 'entry not found' } };
+
+    entry.raw_text = args.p_raw_text;
+    Object.assign(entry, args.p_timing ?? {});
+    db.entry_items = db.entry_items.filter(
+      (item) => item.entry_id !== entry.id || (args.p_keep_overrides && item.has_override)
+    );
+    for (const item of args.p_items as Row[]) {
+      db.entry_items.push({ id: randomUUID(), entry_id: entry.id, has_override: false, ...item });
+    }
+    return { data: db.entry_items.filter((item) => item.entry_id === entry.id), error: null };
+  }
+
+  return { data: null, error: { message: `unknown function ${fn}` } };
+}
+
+// ---------------------------------------------------------------------------
+// Fixtures: two users with the same kinds of data
+// ---------------------------------------------------------------------------
+
+const today = new Date().toISOString().split('T')[0];
+
+function seedUser(name: string, calories: number) {
+  const userId = randomUUID();
+  const entryId = randomUUID();
+  const itemId = randomUUID();
+  const sessionId = randomUUID();
+  const weightLogId = randomUUID();
+  const importBatchId = randomUUID();
+  const savedMealId = randomUUID();
+  const customFoodId = randomUUID();
+  const recipeId = randomUUID();
+
+  db.user_settings.push({
+    id: userId,
+    email: `${name}@example.com`,
+    password_hash: 'hash',
+    name,
+    weight_kg: 70,
+    height_cm: 175,
+    age_years: 30,
+    sex: 'male',
+    calorie_deficit: 500,
+    timezone: 'UTC',
+  });
+  db.entries.push({
+    id: entryId,
+    user_id: userId,
+    raw_text: `${name}'s lunch`,
+    resolved_date: today,
+    explicit_date_in_text: false,
+    import_batch_id: importBatchId,
+    created_at: new Date().toISOString(),
+  });
+  db.entry_items.push({
+    id: itemId,
+    entry_id: entryId,
+    food_name: `${name}'s sandwich`,
+    calories,
+    calories_low: calories - 50,
+    calories_high: calories + 50,
+    protein_g: 20,
+    carbs_g: 40,
+    fat_g: 15,
+    fiber_g: 3,
+    has_override: false,
+    override_fields: null,
+  });
+  db.daily_activity.push({ id: randomUUID(), user_id: userId, resolved_date: today, activity_level_id: 3 });
+  db.weight_logs.push({ id: weightLogId, user_id: userId, logged_date: today, weight_kg: 70 });
+  db.parse_cache.push({
+    id: randomUUID(),
+    user_id: userId,
+    normalized_text: `${name}'s lunch`,
+    image_hash: '',
+    prompt_version: 'v1',
+    parsed_items: [],
+    hit_count: 0,
+  });
+  db.import_batches.push({ id: importBatchId, user_id: userId, source: 'loseit', entry_count: 1 });
+  db.saved_meals.push({
+    id: savedMealId,
+    user_id: userId,
+    name: `${name}'s usual`,
+    items: [{ food_name: `${name}'s sandwich`, calories, calories_low: calories, calories_high: calories, assumptions: [] }],
+    use_count: 0,
+    last_used_at: null,
+  });
+  db.custom_foods.push({
+    id: customFoodId,
+    user_id: userId,
+    name: `${name}'s burrito bowl`,
+    aliases: [],
+    serving_description: '1 bowl',
+    serving_grams: 450,
+    per_serving: { calories: 700 },
+    per_100g: null,
+  });
+  db.recipes.push({
+    id: recipeId,
+    user_id: userId,
+    name: `${name}'s chili`,
+    ingredients_text: '',
+    ingredients: [],
+    yield_servings: 6,
+    yield_grams: null,
+    per_serving: exactFoodItem({
+      food_name: `${name}'s chili`,
+      grams: null,
+      calories: 360,
+      protein_g: 25,
+      carbs_g: 30,
+      fat_g: 15,
+      saturated_fat_g: 6,
+      unsaturated_fat_g: 9,
+      fiber_g: 8,
+      sodium_mg: 700,
+      added_sugar_g: 2,
+      assumptions: [],
+    }),
+    per_100g: null,
+  });
+  db.sessions.push({
+    id: sessionId,
+    user_id: userId,
+    token_hash: 'hash',
+    device_label: `${name}'s phone`,
+    last_seen_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    revoked_at: null,
+  });
+
+  return { userId, entryId, itemId, sessionId, weightLogId, importBatchId, savedMealId, customFoodId, recipeId };
+}
+
+function request(path: string, method = 'GET', body?: unknown) {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function params(id: string) {
+  return { params: Promise.resolve({ id }) };
+}
+
+let alice: ReturnType<typeof seedUser>;
+let bob: ReturnType<typeof seedUser>;
+
+beforeEach(() => {
+  for (const table of ['user_settings', 'entries', 'entry_items', 'daily_activity', 'weight_logs', 'parse_cache', 'sessions', 'import_batches', 'saved_meals', 'custom_foods', 'recipes']) {
+    db[table] = [];
+  }
+  failingTables.clear();
+  alice = seedUser('alice', 400);
+  bob = seedUser('bob', 250);
+
+  // Bob is signed in for every request below
+  currentUser.userId = bob.userId;
+  currentUser.sessionId = bob.sessionId;
+
+  vi.stubEnv('MEAL_PARSER_PROVIDER', 'fixture');
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+const aliceEntry = () => db.entries.find((e) => e.id === alice.entryId);
+const aliceItem = () => db.entry_items.find((i) => i.id === alice.itemId);
+
+// ---------------------------------------------------------------------------
+
+describe('cross-user reads', () => {
+  it('GET /api/entries only returns the session user\'s entries', async () => {
+    const res = await entriesRoute.GET(request(`/api/entries?date=${today}`));
+    const { entries } = await res.json();
+
+    expect(entries.map((e: Row) => e.id)).toEqual([bob.entryId]);
+  });
+
+  it('GET /api/daily-totals only returns the session user\'s totals', async () => {
+    const res = await dailyTotalsRoute.GET(request(`/api/daily-totals?date=${today}`));
+    const { totals } = await res.json();
+
+    expect(totals).toHaveLength(1);
+    expect(totals[0].user_id).toBe(bob.userId);
+    expect(totals[0].total_calories).toBe(250);
+  });
+
+  it('GET /api/daily-totals?date= adds the day\'s ranges and chances for the dashboard', async () => {
+    const res = await dailyTotalsRoute.GET(request(`/api/daily-totals?date=${today}`));
+    const { day } = await res.json();
+
+    expect(day).toMatchObject({ date: today, entryCount: 1 });
+    expect(day.totals.calories).toEqual({ value: 250, low: 200, high: 300 });
+    expect(day.pUnderTarget).toBe(1);
+    expect(day.pDeficit).toBe(1);
+  });
+
+  it('GET /api/daily-totals?date= has no chances for an empty day', async () => {
+    const res = await dailyTotalsRoute.GET(request('/api/daily-totals?date=2020-01-01'));
+    const { day } = await res.json();
+
+    expect(day).toMatchObject({ entryCount: 0, pUnderTarget: null, pDeficit: null });
+    expect(day.totals.calories.value).toBe(0);
+  });
+
+  it('GET /api/daily-totals?period= rolls up the session user\'s days', async () => {
+    const res = await dailyTotalsRoute.GET(request(`/api/daily-totals?from=${today}&to=${today}&period=month`));
+    const { rollups } = await res.json();
+
+    expect(rollups).toHaveLength(1);
+    expect(rollups[0]).toMatchObject({ start: `${today.slice(0, 7)}-01`, days: 1, entryCount: 1 });
+    expect(rollups[0].totals.calories.value).toBe(250);
+  });
+
+  it('GET /api/activity ignores other users\' activity', async () => {
+    db.daily_activity = db.daily_activity.filter((a) => a.user_id !== bob.userId);
+
+    const res = await activityRoute.GET(request(`/api/activity?date=${today}`));
+
+    expect((await res.json()).activity).toBeNull();
+  });
+
+  it('GET /api/settings returns the session user\'s settings', async () => {
+    const res = await settingsRoute.GET();
+    const { settings } = await res.json();
+
+    expect(settings.id).toBe(bob.userId);
+    expect(settings.email).toBe('bob@example.com');
+  });
+
+  it('GET /api/trends only counts the session user\'s entries', async () => {
+    const res = await trendsRoute.GET(request('/api/trends?days=7'));
+    const { chartData } = await res.json();
+    const logged = chartData.filter((d: { entryCount: number }) => d.entryCount > 0);
+
+    expect(logged).toHaveLength(1);
+    expect(logged[0].calories).toBe(250);
+  });
+
+  it('GET /api/weight only returns the session user\'s weigh-ins', async () => {
+    const res = await weightRoute.GET(request(`/api/weight?date=${today}`));
+    const { logs } = await res.json();
+
+    expect(logs.map((w: Row) => w.id)).toEqual([bob.weightLogId]);
+  });
+
+  it('GET /api/tdee only uses the session user\'s data', async () => {
+    db.user_settings.find((u) => u.id === alice.userId)!.weight_kg = 120;
+    db.weight_logs.find((w) => w.user_id === alice.userId)!.weight_kg = 120;
+
+    const res = await tdeeRoute.GET(request(`/api/tdee?date=${today}`));
+    const { weight_kg } = await res.json();
+
+    expect(weight_kg).toBe(70);
+  });
+
+  it('GET /api/export only exports the session user\'s log', async () => {
+    const json = await (await exportRoute.GET(request('/api/export?format=json'))).json();
+    const csv = await (await exportRoute.GET(request('/api/export?format=csv'))).text();
+
+    expect(json.settings.email).toBe('bob@example.com');
+    expect(json.entries.map((e: Row) => e.id)).toEqual([bob.entryId]);
+    expect(json.daily_activity).toHaveLength(1);
+    expect(csv).toContain(bob.itemId);
+    expect(csv).not.toContain(alice.itemId);
+  });
+
+  it('GET /api/import only lists the session user\'s imports', async () => {
+    const res = await importRoute.GET();
+    const { batches } = await res.json();
+
+    expect(batches.map((b: Row) => b.id)).toEqual([bob.importBatchId]);
+  });
+
+  it('GET /api/saved-meals only lists the session user\'s saved meals', async () => {
+    const res = await savedMealsRoute.GET();
+    const { meals } = await res.json();
+
+    expect(meals.map((m: Row) => m.id)).toEqual([bob.savedMealId]);
+  });
+
+  it('GET /api/custom-foods only lists the session user\'s custom foods', async () => {
+    const res = await customFoodsRoute.GET();
+    const { foods } = await res.json();
+
+    expect(foods.map((f: Row) => f.id)).toEqual([bob.customFoodId]);
+  });
+
+  it('GET /api/recipes only lists the session user\'s recipes', async () => {
+    const res = await recipesRoute.GET();
+    const { recipes } = await res.json();
+
+    expect(recipes.map((r: Row) => r.id)).toEqual([bob.recipeId]);
+  });
+
+  it('GET /api/auth/status returns the session user\'s settings', async () => {
+    const res = await statusRoute.GET();
+    const { settings } = await res.json();
+
+    expect(settings.name).toBe('bob');
+  });
+
+  it('GET /api/auth/sessions only lists the session user\'s devices', async () => {
+    const res = await sessionsRoute.GET();
+    const { sessions } = await res.json();
+
+    expect(sessions.map((s: Row) => s.id)).toEqual([bob.sessionId]);
+  });
+});
+
+describe('cross-user writes', () => {
+  it('POST /api/entries always saves under the session user', async () => {
+    const res = await entriesRoute.POST(
+      request('/api/entries', 'POST', { raw_text: '1 large egg', user_id: alice.userId })
+    );
+    const { entry } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(entry.user_id).toBe(bob.userId);
+    expect(db.entries.filter((e) => e.user_id === alice.userId)).toHaveLength(1);
+  });
+
+  it('POST /api/entries stores the meal slot and time read from the text', async () => {
+    const res = await entriesRoute.POST(
+      request('/api/entries', 'POST', { raw_text: '1 medium banana as a snack at 3:30pm' })
+    );
+    const { entry } = await res.json();
+
+    expect(entry).toMatchObject({ user_id: bob.userId, meal_slot: 'snack', eaten_at: '15:30' });
+  });
+
+  it('POST /api/entries records reference-grounded items', async () => {
+    const res = await entriesRoute.POST(request('/api/entries', 'POST', { raw_text: '1 large egg' }));
+    const { entry } = await res.json();
+
+    expect(db.entry_items.find((i) => i.entry_id === entry.id)).toMatchObject({
+      source: 'reference',
+      reference_food_id: 'egg-whole-raw',
+    });
+  });
+
+  it('POST /api/entries saves manual items under the session user without parsing', async () => {
+    const res = await entriesRoute.POST(
+      request('/api/entries', 'POST', {
+        manual_items: [{ food_name: 'Greek yogurt', grams: 170, calories: 100, protein_g: 17 }],
+        meal_slot: 'breakfast',
+        user_id: alice.userId,
+      })
+    );
+    const { entry } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(entry).toMatchObject({ user_id: bob.userId, raw_text: 'Greek yogurt', meal_slot: 'breakfast' });
+    expect(db.entry_items.find((i) => i.entry_id === entry.id)).toMatchObject({
+      calories: 100,
+      calories_low: 100,
+      calories_high: 100,
+      grams_low: 170,
+    });
+  });
+
+  it('POST /api/entries rejects invalid manual items', async () => {
+    const res = await entriesRoute.POST(
+      request('/api/entries', 'POST', { manual_items: [{ food_name: 'Greek yogurt', calories: -1 }] })
+    );
+
+    expect(res.status).toBe(400);
+    expect(db.entries).toHaveLength(2);
+  });
+
+  it('PATCH /api/entries/[id] rejects another user\'s entry', async () => {
+    const res = await entryRoute.PATCH(
+      request(`/api/entries/${alice.entryId}`, 'PATCH', { raw_text: '1 large egg', overrides: 'discard' }),
+      params(alice.entryId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(aliceEntry()?.raw_text).toBe("alice's lunch");
+    expect(aliceItem()).toBeDefined();
+  });
+
+  describe('PATCH /api/entries/[id] with a hand-edited item', () => {
+    const bobItems = () => db.entry_items.filter((i) => i.entry_id === bob.entryId);
+    const reparse = (body: Row) =>
+      entryRoute.PATCH(request(`/api/entries/${bob.entryId}`, 'PATCH', { raw_text: 'grilled chicken with rice', ...body }), params(bob.entryId));
+
+    beforeEach(() => {
+      Object.assign(db.entry_items.find((i) => i.id === bob.itemId)!, {
+        food_name: 'Cooked White Rice',
+        calories: 300,
+        has_override: true,
+        override_fields: ['calories'],
+      });
+    });
+
+    it('asks whether to keep the edits', async () => {
+      const res = await reparse({});
+      const body = await res.json();
+
+      expect(res.status).toBe(409);
+      expect(body.overridden_items.map((i: Row) => i.food_name)).toEqual(['Cooked White Rice']);
+      expect(bobItems()).toHaveLength(1);
+    });
+
+    it('keeps the edited item in place of the same re-parsed food', async () => {
+      const res = await reparse({ overrides: 'keep' });
+      const { kept_items } = await res.json();
+
+      expect(res.status).toBe(200);
+      expect(kept_items).toHaveLength(1);
+      expect(bobItems().map((i) => i.food_name).sort()).toEqual(['Cooked White Rice', 'grilled chicken breast']);
+      expect(bobItems().find((i) => i.food_name === 'Cooked White Rice')?.calories).toBe(300);
+    });
+
+    it('replaces the edited item when discarding', async () => {
+      const res = await reparse({ overrides: 'discard' });
+
+      expect(res.status).toBe(200);
+      expect(bobItems().map((i) => i.food_name).sort()).toEqual(['cooked white rice', 'grilled chicken breast']);
+      expect(bobItems().every((i) => !i.has_override)).toBe(true);
+    });
+  });
+
+  it('DELETE /api/entries/[id] rejects another user\'s entry', async () => {
+    const res = await entryRoute.DELETE(request(`/api/entries/${alice.entryId}`, 'DELETE'), params(alice.entryId));
+
+    expect(res.status).toBe(404);
+    expect(aliceEntry()).toBeDefined();
+    expect(aliceItem()).toBeDefined();
+  });
+
+  it('PATCH /api/entries/items/[id] rejects another user\'s item', async () => {
+    const res = await itemRoute.PATCH(
+      request(`/api/entries/items/${alice.itemId}`, 'PATCH', { calories: 10 }),
+      params(alice.itemId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(aliceItem()?.calories).toBe(400);
+    expect(aliceItem()?.has_override).toBe(false);
+  });
+
+  it('PATCH /api/entries/items/[id] edits every nutrient on the session user\'s item', async () => {
+    const res = await itemRoute.PATCH(
+      request(`/api/entries/items/${bob.itemId}`, 'PATCH', { sodium_mg: 600, added_sugar_g: 8, grams: 250 }),
+      params(bob.itemId)
+    );
+    const { item } = await res.json();
+
+    expect(res.status).toBe(200);
+    expect(item).toMatchObject({ sodium_mg: 600, added_sugar_g: 8, grams: 250, has_override: true });
+    expect(item.override_fields).toEqual(['grams', 'sodium_mg', 'added_sugar_g']);
+  });
+
+  it('PATCH /api/entries/items/[id] refuses to rescale an item without a weight', async () => {
+    const res = await itemRoute.PATCH(
+      request(`/api/entries/items/${bob.itemId}`, 'PATCH', { grams: 250, rescale: true }),
+      params(bob.itemId)
+    );
+
+    expect(res.status).toBe(400);
+  });
+
+  it('POST /api/entries/[id]/items rejects another user\'s entry', async () => {
+    const res = await entryItemsRoute.POST(
+      request(`/api/entries/${alice.entryId}/items`, 'POST', { items: [{ food_name: 'Gum', calories: 5 }] }),
+      params(alice.entryId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.entry_items.filter((i) => i.entry_id === alice.entryId)).toHaveLength(1);
+  });
+
+  it('POST /api/entries/[id]/items adds exact items to the session user\'s entry', async () => {
+    const res = await entryItemsRoute.POST(
+      request(`/api/entries/${bob.entryId}/items`, 'POST', { items: [{ food_name: 'Protein bar', calories: 210, protein_g: 20 }] }),
+      params(bob.entryId)
+    );
+    const { items } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(items).toHaveLength(2);
+    expect(items.find((i: Row) => i.food_name === 'Protein bar')).toMatchObject({ food_name: 'Protein bar', calories_low: 210, calories_high: 210, protein_low: 20, fat_g: 0 });
+  });
+
+  it('DELETE /api/entries/items/[id] rejects another user\'s item', async () => {
+    const res = await itemRoute.DELETE(request(`/api/entries/items/${alice.itemId}`, 'DELETE'), params(alice.itemId));
+
+    expect(res.status).toBe(404);
+    expect(aliceItem()).toBeDefined();
+  });
+
+  it('POST /api/activity leaves other users\' activity alone', async () => {
+    const res = await activityRoute.POST(
+      request('/api/activity', 'POST', { date: today, activity_level_id: 5, user_id: alice.userId })
+    );
+
+    expect(res.status).toBe(200);
+    const aliceActivity = db.daily_activity.filter((a) => a.user_id === alice.userId);
+    expect(aliceActivity).toHaveLength(1);
+    expect(aliceActivity[0].activity_level_id).toBe(3);
+  });
+
+  it('PATCH /api/settings only updates the session user', async () => {
+    const res = await settingsRoute.PATCH(
+      request('/api/settings', 'PATCH', { name: 'mallory', id: alice.userId })
+    );
+
+    expect(res.status).toBe(200);
+    expect(db.user_settings.find((u) => u.id === alice.userId)?.name).toBe('alice');
+    expect(db.user_settings.find((u) => u.id === bob.userId)?.name).toBe('mallory');
+  });
+
+  it('POST /api/weight only logs for the session user', async () => {
+    const res = await weightRoute.POST(
+      request('/api/weight', 'POST', { date: today, weight_kg: 65, user_id: alice.userId })
+    );
+
+    expect(res.status).toBe(201);
+    expect(db.weight_logs.find((w) => w.id === alice.weightLogId)?.weight_kg).toBe(70);
+    expect(db.user_settings.find((u) => u.id === alice.userId)?.weight_kg).toBe(70);
+    expect(db.user_settings.find((u) => u.id === bob.userId)?.weight_kg).toBe(65);
+  });
+
+  it('DELETE /api/weight/[id] rejects another user\'s weigh-in', async () => {
+    const res = await weightLogRoute.DELETE(
+      request(`/api/weight/${alice.weightLogId}`, 'DELETE'),
+      params(alice.weightLogId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.weight_logs.find((w) => w.id === alice.weightLogId)).toBeDefined();
+  });
+
+  it('POST /api/import saves under the session user and skips duplicates', async () => {
+    const csv = [
+      'Date,Name,Type,Quantity,Units,Calories,Fat (g),Protein (g),Carbohydrates (g)',
+      `${today},"alice's sandwich",Lunch,1,Each,400,15,20,40`,
+      `${today},"bob's sandwich",Lunch,1,Each,250,15,20,40`,
+    ].join('\n');
+
+    const res = await importRoute.POST(request('/api/import', 'POST', { csv, user_id: alice.userId }));
+    const body = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(body.duplicate_count).toBe(0);
+    expect(body.batch.user_id).toBe(bob.userId);
+    expect(db.entries.filter((e) => e.user_id === alice.userId)).toHaveLength(1);
+
+    // Importing the same file again finds only duplicates
+    const again = await importRoute.POST(request('/api/import', 'POST', { csv, dry_run: true }));
+    expect((await again.json()).duplicate_count).toBe(1);
+  });
+
+  it('POST /api/import rejects a source that is only an object property', async () => {
+    const res = await importRoute.POST(request('/api/import', 'POST', { csv: 'Date,Meal,Calories', source: 'toString' }));
+
+    expect(res.status).toBe(400);
+    expect(db.import_batches).toHaveLength(2);
+  });
+
+  it('DELETE /api/import/[id] rejects another user\'s import', async () => {
+    const res = await importBatchRoute.DELETE(
+      request(`/api/import/${alice.importBatchId}`, 'DELETE'),
+      params(alice.importBatchId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.import_batches.find((b) => b.id === alice.importBatchId)).toBeDefined();
+    expect(aliceEntry()).toBeDefined();
+  });
+
+  it('DELETE /api/import/[id] rolls back the session user\'s import', async () => {
+    const res = await importBatchRoute.DELETE(
+      request(`/api/import/${bob.importBatchId}`, 'DELETE'),
+      params(bob.importBatchId)
+    );
+
+    expect(res.status).toBe(200);
+    expect(db.entries.find((e) => e.id === bob.entryId)).toBeUndefined();
+    expect(aliceEntry()).toBeDefined();
+  });
+
+  it('POST /api/entries uses the session user\'s custom foods in place of estimates', async () => {
+    const customEgg = (userId: string, calories: number) => ({
+      id: randomUUID(),
+      user_id: userId,
+      name: 'large egg',
+      aliases: [],
+      serving_description: null,
+      serving_grams: 50,
+      per_serving: { calories },
+      per_100g: null,
+    });
+    db.custom_foods.push(customEgg(alice.userId, 90));
+
+    const estimated = await entriesRoute.POST(request('/api/entries', 'POST', { raw_text: '1 large egg' }));
+    const { entry: estimatedEntry } = await estimated.json();
+    expect(db.entry_items.find((i) => i.entry_id === estimatedEntry.id)?.source).toBe('reference');
+
+    const bobEgg = customEgg(bob.userId, 80);
+    db.custom_foods.push(bobEgg);
+    const res = await entriesRoute.POST(request('/api/entries', 'POST', { raw_text: '1 large egg' }));
+    const { entry } = await res.json();
+
+    expect(db.entry_items.find((i) => i.entry_id === entry.id)).toMatchObject({
+      source: 'custom',
+      custom_food_id: bobEgg.id,
+      calories: 80,
+      grams: 50,
+    });
+  });
+
+  it('PATCH and DELETE /api/custom-foods/[id] reject another user\'s custom food', async () => {
+    const patch = await customFoodRoute.PATCH(
+      request(`/api/custom-foods/${alice.customFoodId}`, 'PATCH', { name: 'renamed' }),
+      params(alice.customFoodId)
+    );
+    const del = await customFoodRoute.DELETE(
+      request(`/api/custom-foods/${alice.customFoodId}`, 'DELETE'),
+      params(alice.customFoodId)
+    );
+
+    expect(patch.status).toBe(404);
+    expect(del.status).toBe(404);
+    expect(db.custom_foods.find((f) => f.id === alice.customFoodId)?.name).toBe("alice's burrito bowl");
+  });
+
+  it('POST and PATCH /api/custom-foods save under the session user', async () => {
+    const res = await customFoodsRoute.POST(
+      request('/api/custom-foods', 'POST', { name: 'Protein shake', per_serving: { calories: 160 }, user_id: alice.userId })
+    );
+    const { food } = await res.json();
+    expect(res.status).toBe(201);
+    expect(db.custom_foods.find((f) => f.id === food.id)?.user_id).toBe(bob.userId);
+
+    const patch = await customFoodRoute.PATCH(
+      request(`/api/custom-foods/${food.id}`, 'PATCH', { aliases: ['shake'] }),
+      params(food.id)
+    );
+    expect(patch.status).toBe(200);
+    expect(db.custom_foods.find((f) => f.id === food.id)).toMatchObject({ name: 'Protein shake', aliases: ['shake'] });
+  });
+
+  it('POST /api/entries logs a portion of the session user\'s recipe without parsing', async () => {
+    const res = await entriesRoute.POST(request('/api/entries', 'POST', { raw_text: "1.5 servings of bob's chili" }));
+    const { entry } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(db.entry_items.filter((i) => i.entry_id === entry.id)).toEqual([
+      expect.objectContaining({ source: 'recipe', recipe_id: bob.recipeId, calories: 540 }),
+    ]);
+
+    // Another user's recipe is just text for the parser
+    await entriesRoute.POST(request('/api/entries', 'POST', { raw_text: "1.5 servings of alice's chili" }));
+    expect(db.entry_items.filter((i) => i.recipe_id === alice.recipeId)).toHaveLength(0);
+  });
+
+  it('PATCH and DELETE /api/recipes/[id] reject another user\'s recipe', async () => {
+    const patch = await recipeRoute.PATCH(
+      request(`/api/recipes/${alice.recipeId}`, 'PATCH', { yield_servings: 12 }),
+      params(alice.recipeId)
+    );
+    const del = await recipeRoute.DELETE(request(`/api/recipes/${alice.recipeId}`, 'DELETE'), params(alice.recipeId));
+
+    expect(patch.status).toBe(404);
+    expect(del.status).toBe(404);
+    expect(db.recipes.find((r) => r.id === alice.recipeId)?.yield_servings).toBe(6);
+  });
+
+  it('POST and PATCH /api/recipes save under the session user', async () => {
+    const res = await recipesRoute.POST(
+      request('/api/recipes', 'POST', {
+        name: 'Rice',
+        ingredients_text: '1 cup of cooked white rice',
+        yield_servings: 2,
+        user_id: alice.userId,
+      })
+    );
+    const { recipe } = await res.json();
+    expect(res.status).toBe(201);
+    expect(db.recipes.find((r) => r.id === recipe.id)?.user_id).toBe(bob.userId);
+    expect(recipe.ingredients).toHaveLength(1);
+
+    const patch = await recipeRoute.PATCH(
+      request(`/api/recipes/${recipe.id}`, 'PATCH', { yield_servings: 4 }),
+      params(recipe.id)
+    );
+    const { recipe: updated } = await patch.json();
+    expect(patch.status).toBe(200);
+    expect(updated.per_serving.calories).toBeCloseTo(recipe.per_serving.calories / 2, 1);
+  });
+
+  it('POST /api/saved-meals rejects another user\'s entry', async () => {
+    const res = await savedMealsRoute.POST(
+      request('/api/saved-meals', 'POST', { entry_id: alice.entryId, name: 'stolen' })
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.saved_meals.filter((m) => m.name === 'stolen')).toHaveLength(0);
+  });
+
+  it('POST /api/saved-meals snapshots the session user\'s entry', async () => {
+    const res = await savedMealsRoute.POST(
+      request('/api/saved-meals', 'POST', { entry_id: bob.entryId, name: 'Lunch again', user_id: alice.userId })
+    );
+    const { meal } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(db.saved_meals.find((m) => m.id === meal.id)?.user_id).toBe(bob.userId);
+    expect(meal.items.map((item: Row) => item.food_name)).toEqual(["bob's sandwich"]);
+    expect(meal.items[0]).not.toHaveProperty('id');
+  });
+
+  it('PATCH and DELETE /api/saved-meals/[id] reject another user\'s saved meal', async () => {
+    const patch = await savedMealRoute.PATCH(
+      request(`/api/saved-meals/${alice.savedMealId}`, 'PATCH', { name: 'renamed' }),
+      params(alice.savedMealId)
+    );
+    const del = await savedMealRoute.DELETE(
+      request(`/api/saved-meals/${alice.savedMealId}`, 'DELETE'),
+      params(alice.savedMealId)
+    );
+
+    expect(patch.status).toBe(404);
+    expect(del.status).toBe(404);
+    expect(db.saved_meals.find((m) => m.id === alice.savedMealId)?.name).toBe("alice's usual");
+  });
+
+  it('POST /api/saved-meals/[id]/log rejects another user\'s saved meal', async () => {
+    const res = await logSavedMealRoute.POST(
+      request(`/api/saved-meals/${alice.savedMealId}/log`, 'POST', { date: today }),
+      params(alice.savedMealId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.entries).toHaveLength(2);
+    expect(db.saved_meals.find((m) => m.id === alice.savedMealId)?.use_count).toBe(0);
+  });
+
+  it('POST /api/saved-meals/[id]/log logs the session user\'s saved meal', async () => {
+    const res = await logSavedMealRoute.POST(
+      request(`/api/saved-meals/${bob.savedMealId}/log`, 'POST', { date: today, servings: 2 }),
+      params(bob.savedMealId)
+    );
+    const { entry } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(entry.user_id).toBe(bob.userId);
+    expect(entry.raw_text).toBe("2 × bob's usual");
+    expect(db.entry_items.find((i) => i.entry_id === entry.id)?.calories).toBe(500);
+    expect(db.saved_meals.find((m) => m.id === bob.savedMealId)?.use_count).toBe(1);
+  });
+
+  it('PATCH /api/entries/[id] rejects a meal slot change on another user\'s entry', async () => {
+    const res = await entryRoute.PATCH(
+      request(`/api/entries/${alice.entryId}`, 'PATCH', { meal_slot: 'dinner', eaten_at: '19:00' }),
+      params(alice.entryId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(aliceEntry()?.meal_slot).toBeUndefined();
+  });
+
+  it('PATCH /api/entries/[id] sets the session user\'s meal slot and time', async () => {
+    const res = await entryRoute.PATCH(
+      request(`/api/entries/${bob.entryId}`, 'PATCH', { meal_slot: 'lunch', eaten_at: '12:45' }),
+      params(bob.entryId)
+    );
+
+    expect(res.status).toBe(200);
+    expect(db.entries.find((e) => e.id === bob.entryId)).toMatchObject({ meal_slot: 'lunch', eaten_at: '12:45' });
+  });
+
+  it('PATCH /api/entries/[id] re-parses with the meal slot and time in the same update', async () => {
+    const res = await entryRoute.PATCH(
+      request(`/api/entries/${bob.entryId}`, 'PATCH', { raw_text: '1 large egg', meal_slot: 'breakfast', eaten_at: '08:15' }),
+      params(bob.entryId)
+    );
+
+    expect(res.status).toBe(200);
+    expect(db.entries.find((e) => e.id === bob.entryId)).toMatchObject({
+      raw_text: '1 large egg',
+      meal_slot: 'breakfast',
+      eaten_at: '08:15',
+    });
+  });
+
+  it('POST /api/entries/copy ignores another user\'s entries', async () => {
+    const res = await copyEntriesRoute.POST(
+      request('/api/entries/copy', 'POST', { from_date: today, to_date: '2020-01-01', entry_ids: [alice.entryId] })
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.entries.filter((e) => e.copied_from_entry_id === alice.entryId)).toHaveLength(0);
+  });
+
+  it('POST /api/entries/copy copies the session user\'s day with its items', async () => {
+    const res = await copyEntriesRoute.POST(
+      request('/api/entries/copy', 'POST', { from_date: today, to_date: '2020-01-01' })
+    );
+    const { entries } = await res.json();
+
+    expect(res.status).toBe(201);
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ user_id: bob.userId, resolved_date: '2020-01-01', copied_from_entry_id: bob.entryId });
+    expect(db.entry_items.filter((i) => i.entry_id === entries[0].id).map((i) => i.calories)).toEqual([250]);
+  });
+
+  it('DELETE /api/parse-cache only clears the session user\'s cache', async () => {
+    const res = await parseCacheRoute.DELETE(
+      request('/api/parse-cache', 'DELETE', { raw_text: "alice's lunch" })
+    );
+
+    expect((await res.json()).removed).toBe(0);
+    expect(db.parse_cache.filter((c) => c.user_id === alice.userId)).toHaveLength(1);
+  });
+
+  it('DELETE /api/auth/sessions/[id] rejects another user\'s session', async () => {
+    const res = await sessionRoute.DELETE(
+      request(`/api/auth/sessions/${alice.sessionId}`, 'DELETE'),
+      params(alice.sessionId)
+    );
+
+    expect(res.status).toBe(404);
+    expect(db.sessions.find((s) => s.id === alice.sessionId)?.revoked_at).toBeNull();
+  });
+
+  it('DELETE /api/auth/sessions/[id] responds 404 for an id that isn\'t a session id', async () => {
+    const res = await sessionRoute.DELETE(request('/api/auth/sessions/not-a-uuid', 'DELETE'), params('not-a-uuid'));
+
+    expect(res.status).toBe(404);
+    expect(db.sessions.every((s) => s.revoked_at === null)).toBe(true);
+  });
+
+  it('DELETE /api/auth/sessions only signs out the session user\'s devices', async () => {
+    await sessionsRoute.DELETE();
+
+    expect(db.sessions.find((s) => s.id === alice.sessionId)?.revoked_at).toBeNull();
+    expect(db.sessions.find((s) => s.id === bob.sessionId)?.revoked_at).not.toBeNull();
+  });
+
+  it('POST /api/auth/logout only revokes the current session', async () => {
+    await logoutRoute.POST();
+
+    expect(db.sessions.find((s) => s.id === alice.sessionId)?.revoked_at).toBeNull();
+    expect(db.sessions.find((s) => s.id === bob.sessionId)?.revoked_at).not.toBeNull();
+  });
+});
+
+describe('unauthenticated requests', () => {
+  beforeEach(() => {
+    currentUser.userId = '';
+    currentUser.sessionId = '';
+  });
+
+  it('are rejected by every user-data route', async () => {
+    const responses = await Promise.all([
+      entriesRoute.GET(request('/api/entries')),
+      entriesRoute.POST(request('/api/entries', 'POST', { raw_text: '1 large egg' })),
+      entryItemsRoute.POST(request('/api/entries/x/items', 'POST', { items: [{ food_name: 'x', calories: 5 }] }), params(alice.entryId)),
+      copyEntriesRoute.POST(request('/api/entries/copy', 'POST', { from_date: today, to_date: '2020-01-01' })),
+      entryRoute.PATCH(request('/api/entries/x', 'PATCH', { raw_text: 'x' }), params(alice.entryId)),
+      entryRoute.DELETE(request('/api/entries/x', 'DELETE'), params(alice.entryId)),
+      itemRoute.PATCH(request('/api/entries/items/x', 'PATCH', { calories: 10 }), params(alice.itemId)),
+      itemRoute.DELETE(request('/api/entries/items/x', 'DELETE'), params(alice.itemId)),
+      foodsRoute.GET(request('/api/foods?q=egg')),
+      dailyTotalsRoute.GET(request('/api/daily-totals')),
+      exportRoute.GET(request('/api/export')),
+      importRoute.GET(),
+      importRoute.POST(request('/api/import', 'POST', { csv: 'Date,Meal,Calories' })),
+      importBatchRoute.DELETE(request('/api/import/x', 'DELETE'), params(alice.importBatchId)),
+      customFoodsRoute.GET(),
+      customFoodsRoute.POST(request('/api/custom-foods', 'POST', { name: 'x', per_serving: { calories: 5 } })),
+      customFoodRoute.PATCH(request('/api/custom-foods/x', 'PATCH', { name: 'x' }), params(alice.customFoodId)),
+      customFoodRoute.DELETE(request('/api/custom-foods/x', 'DELETE'), params(alice.customFoodId)),
+      recipesRoute.GET(),
+      recipesRoute.POST(request('/api/recipes', 'POST', { name: 'x', yield_servings: 1, manual_ingredients: [{ food_name: 'x', calories: 5 }] })),
+      recipeRoute.PATCH(request('/api/recipes/x', 'PATCH', { yield_servings: 2 }), params(alice.recipeId)),
+      recipeRoute.DELETE(request('/api/recipes/x', 'DELETE'), params(alice.recipeId)),
+      savedMealsRoute.GET(),
+      savedMealsRoute.POST(request('/api/saved-meals', 'POST', { entry_id: alice.entryId, name: 'x' })),
+      savedMealRoute.PATCH(request('/api/saved-meals/x', 'PATCH', { name: 'x' }), params(alice.savedMealId)),
+      savedMealRoute.DELETE(request('/api/saved-meals/x', 'DELETE'), params(alice.savedMealId)),
+      logSavedMealRoute.POST(request('/api/saved-meals/x/log', 'POST', { date: today }), params(alice.savedMealId)),
+      activityRoute.GET(request(`/api/activity?date=${today}`)),
+      activityRoute.POST(request('/api/activity', 'POST', { date: today, activity_level_id: 1 })),
+      settingsRoute.GET(),
+      settingsRoute.PATCH(request('/api/settings', 'PATCH', { name: 'x' })),
+      trendsRoute.GET(request('/api/trends')),
+      tdeeRoute.GET(request('/api/tdee')),
+      weightRoute.GET(request('/api/weight')),
+      weightRoute.POST(request('/api/weight', 'POST', { date: today, weight_kg: 70 })),
+      weightLogRoute.DELETE(request('/api/weight/x', 'DELETE'), params(alice.weightLogId)),
+      parseCacheRoute.DELETE(request('/api/parse-cache', 'DELETE', { raw_text: 'x' })),
+      sessionsRoute.GET(),
+      sessionsRoute.DELETE(),
+      sessionRoute.DELETE(request('/api/auth/sessions/x', 'DELETE'), params(alice.sessionId)),
+    ]);
+
+    expect(responses.map((res) => res.status)).toEqual(responses.map(() => 401));
+    expect(aliceEntry()).toBeDefined();
+    expect(aliceItem()?.calories).toBe(400);
+  });
+});
+
+describe('date windows in the session user\'s timezone', () => {
+  // 11:30pm on March 8 in Los Angeles, the day clocks sprang forward; in UTC
+  // it is already March 9
+  const now = new Date('2026-03-09T06:30:00Z');
+
+  function logOn(userId: string, date: string, calories: number) {
+    const entryId = randomUUID();
+    db.entries.push({
+      id: entryId,
+      user_id: userId,
+      raw_text: `lunch on ${date}`,
+      resolved_date: date,
+      explicit_date_in_text: false,
+      created_at: now.toISOString(),
+    });
+    db.entry_items.push({
+      id: randomUUID(),
+      entry_id: entryId,
+      food_name: 'sandwich',
+      calories,
+      calories_low: calories,
+      calories_high: calories,
+      protein_g: 20,
+      carbs_g: 40,
+      fat_g: 15,
+    });
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    db.user_settings.find((s) => s.id === bob.userId)!.timezone = 'America/Los_Angeles';
+    db.entries = db.entries.filter((e) => e.user_id !== bob.userId);
+
+    logOn(bob.userId, '2026-03-01', 1000);
+    logOn(bob.userId, '2026-03-02', 1500);
+    logOn(bob.userId, '2026-03-08', 2000);
+    logOn(bob.userId, '2026-03-09', 9000); // tomorrow in Los Angeles
+    logOn(alice.userId, '2026-03-08', 5000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('GET /api/trends ends the range and averages on the user\'s today', async () => {
+    const res = await trendsRoute.GET(request('/api/trends?days=30'));
+    const { chartData, averages } = await res.json();
+    const logged = chartData.filter((d: { entryCount: number }) => d.entryCount > 0);
+
+    expect(chartData).toHaveLength(30);
+    expect(chartData[0].date).toBe('2026-02-07');
+    expect(chartData.at(-1).date).toBe('2026-03-08');
+    expect(logged.map((d: { date: string }) => d.date)).toEqual(['2026-03-01', '2026-03-02', '2026-03-08']);
+    expect(averages.week).toMatchObject({ daysTracked: 2, avgCalories: 1750 });
+    expect(averages.month).toMatchObject({ daysTracked: 2, avgCalories: 1750 });
+  });
+
+  it('GET /api/trends fills unlogged days and averages complete days only', async () => {
+    const res = await trendsRoute.GET(request('/api/trends?days=8'));
+    const { chartData, averages, tracking } = await res.json();
+
+    // 03-01 to 03-08: 1000 kcal is short of the default 1200 kcal rule
+    expect(chartData).toHaveLength(8);
+    expect(chartData.map((d: { status: string }) => d.status)).toEqual([
+      'partial', 'logged', 'unlogged', 'unlogged', 'unlogged', 'unlogged', 'unlogged', 'logged',
+    ]);
+    expect(chartData[2]).toMatchObject({ calories: 0, entryCount: 0, deficit: null });
+    expect(chartData[7].ranges.calories).toEqual({ low: 2000, high: 2000 });
+    expect(averages.week.coverage).toEqual({ days: 7, logged: 2, partial: 0, unlogged: 5, percent: 29 });
+    expect(tracking.coverage).toMatchObject({ days: 8, logged: 2, partial: 1 });
+    expect(tracking.streaks).toEqual({ current: 1, longest: 1 });
+  });
+
+  it('GET /api/trends gives the average deficit a range', async () => {
+    const res = await trendsRoute.GET(request('/api/trends?days=8'));
+    const { chartData, averages } = await res.json();
+    const deficits = chartData.filter((d: { deficit: number | null }) => d.deficit !== null).map((d: { deficit: number }) => d.deficit);
+    const { avgDeficit, avgDeficitRange } = averages.week;
+
+    expect(deficits).toHaveLength(2);
+    expect(avgDeficit).toBe(Math.round((deficits[0] + deficits[1]) / 2));
+    expect(avgDeficitRange.low).toBeLessThan(avgDeficit);
+    expect(avgDeficitRange.high).toBeGreaterThan(avgDeficit);
+  });
+
+  it('GET /api/trends uses the user\'s complete-day rule', async () => {
+    db.user_settings.find((s) => s.id === bob.userId)!.complete_day_min_calories = 800;
+
+    const res = await trendsRoute.GET(request('/api/trends?days=8'));
+    const { averages, tracking } = await res.json();
+
+    expect(tracking.rule).toEqual({ minEntries: 1, minCalories: 800 });
+    expect(averages.month).toMatchObject({ daysTracked: 3, avgCalories: 1500 });
+  });
+
+  it('GET /api/trends includes every entry of a range longer than one response', async () => {
+    for (let i = 0; i < MAX_ROWS; i++) logOn(bob.userId, '2026-03-08', 10);
+
+    const res = await trendsRoute.GET(request('/api/trends?days=365'));
+    const { chartData } = await res.json();
+
+    expect(chartData.at(-1)).toMatchObject({ date: '2026-03-08', entryCount: MAX_ROWS + 1, calories: 2000 + MAX_ROWS * 10 });
+  });
+
+  it.each([1, 7, 30, 365])('GET /api/trends returns exactly days=%i days', async (days) => {
+    const res = await trendsRoute.GET(request(`/api/trends?days=${days}`));
+    const { chartData, tracking } = await res.json();
+
+    expect(chartData).toHaveLength(days);
+    expect(chartData.at(-1).date).toBe('2026-03-08');
+    expect(tracking.coverage.days).toBe(days);
+  });
+
+  it.each(['entries', 'daily_activity', 'weight_logs', 'user_settings'])(
+    'GET /api/trends responds 500 when the %s query fails',
+    async (table) => {
+      failingTables.add(table);
+
+      const res = await trendsRoute.GET(request('/api/trends?days=7'));
+
+      expect(res.status).toBe(500);
+      expect((await res.json()).error).toBe('Failed to fetch trends');
+    }
+  );
+
+  it.each(['0', '366', '-7', 'abc', '7.5'])('GET /api/trends rejects days=%s', async (days) => {
+    const res = await trendsRoute.GET(request(`/api/trends?days=${days}`));
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('days must be a whole number from 1 to 365');
+  });
+
+  it('PATCH /api/settings validates the complete-day rule', async () => {
+    const res = await settingsRoute.PATCH(
+      request('/api/settings', 'PATCH', { complete_day_min_calories: -5 })
+    );
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('complete_day_min_calories must be a whole number from 0 to 5000');
+  });
+
+  it('GET /api/entries?days= returns the dates up to the user\'s today', async () => {
+    const res = await entriesRoute.GET(request('/api/entries?days=1'));
+    const { entries } = await res.json();
+
+    expect(entries.map((e: { resolved_date: string }) => e.resolved_date)).toEqual(['2026-03-08']);
+  });
+
+  it('GET /api/entries rejects malformed dates', async () => {
+    const res = await entriesRoute.GET(request('/api/entries?from=2026-3-1&to=2026-03-08'));
+
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { CUSTOM_FOOD_COLUMNS, parseCustomFood } from '@/lib/custom-foods';
+
+/**
+ * PATCH /api/custom-foods/[id] - Update a custom food
+ * Body: any of the fields accepted by POST /api/custom-foods; the rest are kept.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const { data: current } = await supabase
+      .from('custom_foods')
+      .select(CUSTOM_FOOD_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!current) {
+      return NextResponse.json({ error: 'Custom food not found' }, { status: 404 });
+    }
+
+    const parsed = parseCustomFood({ ...current, ...body });
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { data: foods, error } = await supabase
+      .from('custom_foods')
+      .update({ ...parsed.food, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(CUSTOM_FOOD_COLUMNS);
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a custom food with that name' }, { status: 409 });
+    }
+    if (error) {
+      console.error('Custom food update error:', error);
+      return NextResponse.json({ error: 'Failed to update custom food' }, { status: 500 });
+    }
+
+    if (!foods || foods.length === 0) {
+      return NextResponse.json({ error: 'Custom food not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ food: foods[0] });
+  } catch (error) {
+    console.error('Custom food update error:', error);
+    return NextResponse.json({ error: 'Failed to update custom food' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/custom-foods/[id] - Delete a custom food
+ * Entries already logged with it keep their values.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const { data: deleted, error } = await supabase
+      .from('custom_foods')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Custom food delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete custom food' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Custom food not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Custom food delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete custom food' }, { status: 500 });
+  }
+}
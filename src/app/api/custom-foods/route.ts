@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { CUSTOM_FOOD_COLUMNS, parseCustomFood } from '@/lib/custom-foods';
+
+/**
+ * GET /api/custom-foods - List the user's custom foods by name
+ */
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: foods, error } = await supabase
+      .from('custom_foods')
+      .select(CUSTOM_FOOD_COLUMNS)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Custom foods fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch custom foods' }, { status: 500 });
+    }
+
+    return NextResponse.json({ foods });
+  } catch (error) {
+    console.error('Custom foods fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch custom foods' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/custom-foods - Create a custom food
+ * Body: { name, aliases?, serving_description?, serving_grams?, per_serving?, per_100g? }
+ * At least one of per_serving and per_100g ({ calories, protein_g, ... }) is required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const parsed = parseCustomFood(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: food, error } = await supabase
+      .from('custom_foods')
+      .insert({ ...parsed.food, user_id: userId })
+      .select(CUSTOM_FOOD_COLUMNS)
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a custom food with that name' }, { status: 409 });
+    }
+    if (error || !food) {
+      console.error('Custom food create error:', error);
+      return NextResponse.json({ error: 'Failed to save custom food' }, { status: 500 });
+    }
+
+    return NextResponse.json({ food }, { status: 201 });
+  } catch (error) {
+    console.error('Custom food create error:', error);
+    return NextResponse.json({ error: 'Failed to save custom food' }, { status: 500 });
+  }
+}
@@ -1,15 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
-import { isAuthenticated } from '@/lib/auth';
+import { getUserId } from '@/lib/auth';
+import { getTDEEEstimates } from '@/lib/adaptive-tdee';
+import {
+  dailyRollupFromView,
+  deficitProbability,
+  periodRollups,
+  probabilityBelow,
+} from '@/lib/aggregation';
+import { emptyNutrientTotals } from '@/lib/nutrients';
+
+const roundProbability = (p: number) => Math.round(p * 100) / 100;
 
 /**
  * GET /api/daily-totals?date=YYYY-MM-DD or ?from=YYYY-MM-DD&to=YYYY-MM-DD
- * Get daily nutrition totals
+ * Get the current user's daily nutrition totals. With &period=week or
+ * &period=month, returns weekly (Monday to Sunday) or monthly rollups of
+ * the days in range instead.
+ *
+ * For a single date the response also has `day`: its totals with ranges and
+ * the chances, given those ranges, of being under the calorie target and in
+ * deficit against formula maintenance (null until something is logged).
  */
 export async function GET(request: NextRequest) {
   try {
-    const authenticated = await isAuthenticated();
-    if (!authenticated) {
+    const userId = await getUserId();
+    if (!userId) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
@@ -17,12 +33,18 @@ export async function GET(request: NextRequest) {
     const date = searchParams.get('date');
     const from = searchParams.get('from');
     const to = searchParams.get('to');
+    const period = searchParams.get('period');
+
+    if (period !== null && period !== 'week' && period !== 'month') {
+      return NextResponse.json({ error: 'period must be week or month' }, { status: 400 });
+    }
 
     const supabase = createServerClient();
 
     let query = supabase
       .from('daily_totals')
       .select('*')
+      .eq('user_id', userId)
       .order('resolved_date', { ascending: false });
 
     if (date) {
@@ -38,6 +60,31 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to fetch totals' }, { status: 500 });
     }
 
+    if (period) {
+      return NextResponse.json({ rollups: periodRollups((totals || []).map(dailyRollupFromView), period) });
+    }
+
+    if (date) {
+      const rollup = totals?.[0] ? dailyRollupFromView(totals[0]) : null;
+      const dayTotals = rollup?.totals ?? emptyNutrientTotals();
+      const { formula } = await getTDEEEstimates(supabase, userId, date);
+      const logged = dayTotals.calories.value > 0;
+
+      return NextResponse.json({
+        totals,
+        day: {
+          date,
+          entryCount: rollup?.entryCount ?? 0,
+          itemCount: rollup?.itemCount ?? 0,
+          totals: dayTotals,
+          pUnderTarget: logged && formula
+            ? roundProbability(probabilityBelow(dayTotals.calories, formula.target_calories))
+            : null,
+          pDeficit: logged && formula ? roundProbability(deficitProbability(formula, dayTotals.calories)) : null,
+        },
+      });
+    }
+
     return NextResponse.json({ totals });
   } catch (error) {
     console.error('Daily totals fetch error:', error);
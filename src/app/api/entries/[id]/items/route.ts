@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { appendEntryItems, toEntryItemRow } from '@/lib/entries';
+import { parseManualItems } from '@/lib/manual-entry';
+
+/**
+ * POST /api/entries/[id]/items - Add manually entered items to an entry
+ * Body: { items: [{ food_name, calories, grams?, protein_g?, ... }] }
+ *
+ * Values are stored as exact (zero-width ranges). Responds with all of the
+ * entry's items.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { items } = await request.json();
+
+    const parsed = parseManualItems(items);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: entry } = await supabase
+      .from('entries')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    await appendEntryItems(supabase, id, parsed.items.map(toEntryItemRow));
+
+    const { data: entryItems, error } = await supabase
+      .from('entry_items')
+      .select('*')
+      .eq('entry_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Entry items fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch entry items' }, { status: 500 });
+    }
+
+    return NextResponse.json({ items: entryItems }, { status: 201 });
+  } catch (error) {
+    console.error('Entry item insert error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to add items'
+    }, { status: 500 });
+  }
+}
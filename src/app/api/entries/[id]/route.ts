@@ -1,6 +1,176 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { getUserId } from '@/lib/auth';
+import { validateParsedMeal } from '@/lib/meal-parser';
+import { parseMealWithCache } from '@/lib/parse-cache';
+import { toEntryItemRow, withoutKeptFoods } from '@/lib/entries';
+import { groundFoodItems } from '@/lib/reference-foods';
+import { applyCustomFoods, listCustomFoods } from '@/lib/custom-foods';
+import { applyRecipes, listRecipes } from '@/lib/recipes';
+import { getTodayInTimezone } from '@/lib/date-resolution';
+import { isMealSlot, isValidEatenAt, normalizeEatenAt, resolveMealTiming } from '@/lib/meal-timing';
+import type { Database } from '@/types/database';
+
+type EntryTiming = Pick<Database['public']['Tables']['entries']['Update'], 'meal_slot' | 'eaten_at'>;
+
+/**
+ * PATCH /api/entries/[id] - Re-parse an entry after editing its raw text,
+ * and/or change its meal slot and eating time
+ * Body: { raw_text?, overrides?: 'keep' | 'discard', bypass_cache?, meal_slot?, eaten_at? }
+ *
+ * Items, raw_text and the meal slot and time are replaced in one transaction. If the entry has
+ * manually overridden items and `overrides` is not given, responds 409 with
+ * those items so the client can ask whether to keep or discard them. Kept
+ * items stand in for the new text's items of the same food.
+ * The entry keeps its resolved_date. A slot or time read from the new text
+ * replaces the old one unless meal_slot/eaten_at are given.
+ *
+ * Without raw_text only meal_slot and eaten_at (null to clear) are updated.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { raw_text, overrides, bypass_cache, meal_slot, eaten_at } = await request.json();
+
+    const timing: EntryTiming = {};
+    if (meal_slot !== undefined) {
+      if (meal_slot !== null && !isMealSlot(meal_slot)) {
+        return NextResponse.json({ error: 'meal_slot must be breakfast, lunch, dinner, snack or null' }, { status: 400 });
+      }
+      timing.meal_slot = meal_slot;
+    }
+    if (eaten_at !== undefined) {
+      if (eaten_at !== null && !isValidEatenAt(eaten_at)) {
+        return NextResponse.json({ error: 'eaten_at must be HH:MM or null' }, { status: 400 });
+      }
+      timing.eaten_at = normalizeEatenAt(eaten_at);
+    }
+
+    const supabase = createServerClient();
+
+    if (raw_text === undefined && Object.keys(timing).length > 0) {
+      const { data: updated, error } = await supabase
+        .from('entries')
+        .update(timing)
+        .eq('id', id)
+        .eq('user_id', userId)
+        .select('id, meal_slot, eaten_at');
+
+      if (error) {
+        console.error('Entry timing update error:', error);
+        return NextResponse.json({ error: 'Failed to update entry' }, { status: 500 });
+      }
+      if (!updated || updated.length === 0) {
+        return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+      }
+
+      return NextResponse.json({ entry: updated[0] });
+    }
+
+    if (!raw_text || typeof raw_text !== 'string' || raw_text.trim().length === 0) {
+      return NextResponse.json({ error: 'Food description required' }, { status: 400 });
+    }
+    if (overrides !== undefined && overrides !== 'keep' && overrides !== 'discard') {
+      return NextResponse.json({ error: "overrides must be 'keep' or 'discard'" }, { status: 400 });
+    }
+
+    const { data: entry } = await supabase
+      .from('entries')
+      .select('id, entry_items (id, food_name, has_override, override_fields)')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
+    const overriddenItems = (entry.entry_items || []).filter(
+      (item: { has_override: boolean | null }) => item.has_override
+    );
+
+    if (overriddenItems.length > 0 && overrides === undefined) {
+      return NextResponse.json({
+        error: 'Entry has manually edited items',
+        overridden_items: overriddenItems,
+      }, { status: 409 });
+    }
+
+    const { data: settings } = await supabase
+      .from('user_settings')
+      .select('timezone')
+      .eq('id', userId)
+      .single();
+
+    const today = getTodayInTimezone(settings?.timezone || 'America/New_York');
+
+    const { meal: parsedMeal, cached } = await parseMealWithCache(supabase, {
+      userId,
+      text: raw_text.trim(),
+      todayDate: today,
+      bypassCache: bypass_cache === true,
+    });
+
+    const validation = validateParsedMeal(parsedMeal);
+    if (!validation.valid) {
+      console.warn('Parsed meal validation warnings:', validation.errors);
+    }
+
+    const customFoods = await listCustomFoods(supabase, userId);
+    const recipes = await listRecipes(supabase, userId);
+    const keptItems = overrides === 'discard' ? [] : overriddenItems;
+    const newItems = withoutKeptFoods(
+      groundFoodItems(applyRecipes(raw_text, applyCustomFoods(raw_text, parsedMeal.items, customFoods), recipes)),
+      keptItems
+    );
+
+    // Slot and time from the new text, unless the request set them
+    const parsedTiming = resolveMealTiming(parsedMeal);
+    const newTiming: EntryTiming = {
+      ...(parsedTiming.meal_slot ? { meal_slot: parsedTiming.meal_slot } : {}),
+      ...(parsedTiming.eaten_at ? { eaten_at: parsedTiming.eaten_at } : {}),
+      ...timing,
+    };
+
+    const { data: items, error } = await supabase.rpc('replace_entry_items', {
+      p_entry_id: id,
+      p_user_id: userId,
+      p_raw_text: raw_text.trim(),
+      p_items: newItems.map(toEntryItemRow),
+      p_keep_overrides: overrides !== 'discard',
+      p_timing: newTiming,
+    });
+
+    if (error) {
+      if (error.code === 'P0002') {
+        return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+      }
+      console.error('Entry re-parse error:', error);
+      return NextResponse.json({ error: 'Failed to update entry' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      items,
+      cached,
+      kept_items: keptItems,
+      validation_warnings: validation.errors.length > 0 ? validation.errors : undefined,
+    });
+
+  } catch (error) {
+    console.error('Entry re-parse error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to update entry'
+    }, { status: 500 });
+  }
+}
 
 /**
  * DELETE /api/entries/[id] - Delete an entry and its items
@@ -19,17 +189,22 @@ export async function DELETE(
     const supabase = createServerClient();
 
     // Delete entry (only if it belongs to this user, items will cascade delete)
-    const { error } = await supabase
+    const { data: deleted, error } = await supabase
       .from('entries')
       .delete()
       .eq('id', id)
-      .eq('user_id', userId);
+      .eq('user_id', userId)
+      .select('id');
 
     if (error) {
       console.error('Entry deletion error:', error);
       return NextResponse.json({ error: 'Failed to delete entry' }, { status: 500 });
     }
 
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+
     return NextResponse.json({ success: true });
 
   } catch (error) {
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { copyEntries } from '@/lib/entries';
+import { isValidDateString } from '@/lib/date-resolution';
+
+/**
+ * POST /api/entries/copy - Copy entries from one day to another
+ * Body: { from_date, to_date, entry_ids? }
+ *
+ * Copies every entry on from_date, or only entry_ids when given (they must
+ * be on from_date). Items are duplicated; copies record their source entry.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { from_date, to_date, entry_ids } = await request.json();
+
+    if (!from_date || !isValidDateString(from_date) || !to_date || !isValidDateString(to_date)) {
+      return NextResponse.json({ error: 'from_date and to_date must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (from_date === to_date) {
+      return NextResponse.json({ error: 'Pick a different day to copy from' }, { status: 400 });
+    }
+    if (entry_ids !== undefined && (!Array.isArray(entry_ids) || entry_ids.length === 0 || entry_ids.some((id) => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'entry_ids must be a non-empty list of entry ids' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: sources, error } = await supabase
+      .from('entries')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('resolved_date', from_date);
+
+    if (error) {
+      console.error('Entry copy error:', error);
+      return NextResponse.json({ error: 'Failed to copy entries' }, { status: 500 });
+    }
+
+    const sourceIds = (sources || [])
+      .map((entry) => entry.id as string)
+      .filter((id) => entry_ids === undefined || entry_ids.includes(id));
+
+    if (sourceIds.length === 0) {
+      return NextResponse.json({ error: 'No entries to copy on that day' }, { status: 404 });
+    }
+
+    const entries = await copyEntries(supabase, userId, sourceIds, to_date);
+
+    return NextResponse.json({ entries }, { status: 201 });
+  } catch (error) {
+    console.error('Entry copy error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to copy entries'
+    }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getUserId } from '@/lib/auth';
+import { parseItemEdit, itemEditUpdates } from '@/lib/item-edits';
 
 function getSupabase() {
   return createClient(
@@ -33,6 +34,9 @@ async function verifyItemOwnership(supabase: ReturnType<typeof getSupabase>, ite
 
 /**
  * PATCH /api/entries/items/[id] - Update a food item (manual override)
+ *
+ * Accepts food_name and any amount (grams, calories and every nutrient).
+ * With rescale: true, a new grams value rescales every amount and range.
  */
 export async function PATCH(
   request: NextRequest,
@@ -47,30 +51,9 @@ export async function PATCH(
     const { id } = await params;
     const body = await request.json();
 
-    const {
-      food_name,
-      calories,
-      protein_g,
-      carbs_g,
-      fat_g,
-      fiber_g,
-    } = body;
-
-    // Validation: no negatives, minimum 5 calories
-    if (calories !== undefined && (calories < 5 || calories < 0)) {
-      return NextResponse.json({ error: 'Calories must be at least 5' }, { status: 400 });
-    }
-    if (protein_g !== undefined && protein_g < 0) {
-      return NextResponse.json({ error: 'Protein cannot be negative' }, { status: 400 });
-    }
-    if (carbs_g !== undefined && carbs_g < 0) {
-      return NextResponse.json({ error: 'Carbs cannot be negative' }, { status: 400 });
-    }
-    if (fat_g !== undefined && fat_g < 0) {
-      return NextResponse.json({ error: 'Fat cannot be negative' }, { status: 400 });
-    }
-    if (fiber_g !== undefined && fiber_g < 0) {
-      return NextResponse.json({ error: 'Fiber cannot be negative' }, { status: 400 });
+    const parsed = parseItemEdit(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
 
     const supabase = getSupabase();
@@ -92,63 +75,17 @@ export async function PATCH(
       return NextResponse.json({ error: 'Item not found' }, { status: 404 });
     }
 
-    // Build update object and track overridden fields
-    const updates: Record<string, unknown> = {
-      updated_at: new Date().toISOString(),
-      has_override: true,
-    };
-
-    const overriddenFields: string[] = current.override_fields 
-      ? (Array.isArray(current.override_fields) ? current.override_fields : [])
-      : [];
-
-    if (food_name !== undefined && food_name !== current.food_name) {
-      updates.food_name = food_name;
-      if (!overriddenFields.includes('food_name')) overriddenFields.push('food_name');
-    }
-
-    if (calories !== undefined && calories !== current.calories) {
-      updates.calories = calories;
-      // Adjust low/high proportionally or set to same value
-      const ratio = current.calories > 0 ? calories / current.calories : 1;
-      updates.calories_low = Math.round(current.calories_low * ratio);
-      updates.calories_high = Math.round(current.calories_high * ratio);
-      if (!overriddenFields.includes('calories')) overriddenFields.push('calories');
+    if (parsed.edit.rescale && !(current.grams > 0)) {
+      return NextResponse.json(
+        { error: 'This item has no weight to rescale from. Edit its grams without rescaling first.' },
+        { status: 400 }
+      );
     }
 
-    if (protein_g !== undefined && protein_g !== current.protein_g) {
-      updates.protein_g = protein_g;
-      const ratio = current.protein_g > 0 ? protein_g / current.protein_g : 1;
-      updates.protein_low = Math.round(current.protein_low * ratio * 10) / 10;
-      updates.protein_high = Math.round(current.protein_high * ratio * 10) / 10;
-      if (!overriddenFields.includes('protein_g')) overriddenFields.push('protein_g');
-    }
-
-    if (carbs_g !== undefined && carbs_g !== current.carbs_g) {
-      updates.carbs_g = carbs_g;
-      const ratio = current.carbs_g > 0 ? carbs_g / current.carbs_g : 1;
-      updates.carbs_low = Math.round(current.carbs_low * ratio * 10) / 10;
-      updates.carbs_high = Math.round(current.carbs_high * ratio * 10) / 10;
-      if (!overriddenFields.includes('carbs_g')) overriddenFields.push('carbs_g');
-    }
-
-    if (fat_g !== undefined && fat_g !== current.fat_g) {
-      updates.fat_g = fat_g;
-      const ratio = current.fat_g > 0 ? fat_g / current.fat_g : 1;
-      updates.fat_low = Math.round(current.fat_low * ratio * 10) / 10;
-      updates.fat_high = Math.round(current.fat_high * ratio * 10) / 10;
-      // Also adjust saturated/unsaturated proportionally
-      updates.saturated_fat_g = Math.round(current.saturated_fat_g * ratio * 10) / 10;
-      updates.unsaturated_fat_g = Math.round(current.unsaturated_fat_g * ratio * 10) / 10;
-      if (!overriddenFields.includes('fat_g')) overriddenFields.push('fat_g');
-    }
-
-    if (fiber_g !== undefined && fiber_g !== current.fiber_g) {
-      updates.fiber_g = fiber_g;
-      if (!overriddenFields.includes('fiber_g')) overriddenFields.push('fiber_g');
-    }
-
-    updates.override_fields = overriddenFields;
+    const updates = {
+      ...itemEditUpdates(current, parsed.edit),
+      updated_at: new Date().toISOString(),
+    };
 
     // Update item
     const { data: updated, error: updateError } = await supabase
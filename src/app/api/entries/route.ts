@@ -1,11 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase';
 import { getUserId } from '@/lib/auth';
-import { parseMealDescription, validateParsedMeal } from '@/lib/openai';
-import { resolveDate, getTodayInTimezone } from '@/lib/date-resolution';
+import { validateParsedMeal } from '@/lib/meal-parser';
+import { parseMealWithCache } from '@/lib/parse-cache';
+import { toEntryItemRow, createEntryWithItems } from '@/lib/entries';
+import { resolveDate, getTodayInTimezone, getDateWindow, isValidDateString } from '@/lib/date-resolution';
+import { isMealSlot, isValidEatenAt, resolveMealTiming } from '@/lib/meal-timing';
+import { parseManualItems, manualRawText } from '@/lib/manual-entry';
+import { groundFoodItems } from '@/lib/reference-foods';
+import { applyCustomFoods, listCustomFoods } from '@/lib/custom-foods';
+import { applyRecipes, findRecipePortion, listRecipes, recipeFoodItem } from '@/lib/recipes';
 
 /**
  * POST /api/entries - Create a new food entry
+ *
+ * With manual_items, the items are stored as given (exact values, zero-width
+ * ranges) and the parser is not called. raw_text is then optional, and
+ * meal_slot/eaten_at can be set directly.
+ *
+ * A description that is only a portion of one of the user's recipes
+ * ("1.5 servings of chili", "350 g of chili") is logged from the recipe's
+ * stored nutrition, also without calling the parser.
  */
 export async function POST(request: NextRequest) {
   try {
@@ -15,10 +30,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    const { raw_text, image, client_timestamp, override_date } = await request.json();
+    const {
+      raw_text,
+      image,
+      client_timestamp,
+      override_date,
+      bypass_cache,
+      manual_items,
+      meal_slot,
+      eaten_at,
+    } = await request.json();
+
+    const manual = manual_items !== undefined ? parseManualItems(manual_items) : null;
+    if (manual && 'error' in manual) {
+      return NextResponse.json({ error: manual.error }, { status: 400 });
+    }
+    if (manual && meal_slot != null && !isMealSlot(meal_slot)) {
+      return NextResponse.json({ error: 'meal_slot must be breakfast, lunch, dinner, snack or null' }, { status: 400 });
+    }
+    if (manual && eaten_at != null && !isValidEatenAt(eaten_at)) {
+      return NextResponse.json({ error: 'eaten_at must be HH:MM or null' }, { status: 400 });
+    }
 
     // Need either text or image
-    if ((!raw_text || raw_text.trim().length === 0) && !image) {
+    if (!manual && (!raw_text || raw_text.trim().length === 0) && !image) {
       return NextResponse.json({ error: 'Food description or image required' }, { status: 400 });
     }
 
@@ -34,12 +69,55 @@ export async function POST(request: NextRequest) {
     const timezone = settings?.timezone || 'America/New_York';
     const today = getTodayInTimezone(timezone);
 
-    // Parse the meal with GPT-4o (with optional image)
-    const parsedMeal = await parseMealDescription(
-      raw_text?.trim() || '1 serving', 
-      today, 
-      image || undefined
-    );
+    // Manual entry: no parsing, the date comes from the picker or the client clock
+    if (manual) {
+      const entry = await createEntryWithItems(
+        supabase,
+        {
+          user_id: userId,
+          raw_text: raw_text?.trim() || manualRawText(manual.items),
+          resolved_date: override_date
+            || resolveDate(null, client_timestamp || new Date().toISOString(), timezone).resolved_date,
+          explicit_date_in_text: false,
+          ...resolveMealTiming({ meal_slot: meal_slot ?? null, eaten_at: eaten_at ?? null }),
+        },
+        manual.items.map(toEntryItemRow)
+      );
+
+      return NextResponse.json({ entry, items: manual.items }, { status: 201 });
+    }
+
+    const recipes = await listRecipes(supabase, userId);
+
+    // A recipe portion: logged from the recipe, dated like a manual entry
+    const portion = !image && raw_text ? findRecipePortion(raw_text, recipes) : null;
+    const portionItem = portion && recipeFoodItem(portion.recipe, portion.quantity);
+    if (portionItem) {
+      const entry = await createEntryWithItems(
+        supabase,
+        {
+          user_id: userId,
+          raw_text: raw_text.trim(),
+          resolved_date: override_date
+            || resolveDate(null, client_timestamp || new Date().toISOString(), timezone).resolved_date,
+          explicit_date_in_text: false,
+          ...resolveMealTiming({ meal_slot: meal_slot ?? null, eaten_at: eaten_at ?? null }),
+        },
+        [toEntryItemRow(portionItem)]
+      );
+
+      return NextResponse.json({ entry, items: [portionItem] }, { status: 201 });
+    }
+
+    // Parse the meal with the configured provider (with optional image),
+    // reusing a cached parse of the same description when available
+    const { meal: parsedMeal, cached } = await parseMealWithCache(supabase, {
+      userId,
+      text: raw_text?.trim() || '1 serving',
+      todayDate: today,
+      imageBase64: image || undefined,
+      bypassCache: bypass_cache === true,
+    });
 
     // Validate the response
     const validation = validateParsedMeal(parsedMeal);
@@ -48,6 +126,13 @@ export async function POST(request: NextRequest) {
       // Continue anyway - these are warnings, not blockers
     }
 
+    // Use the stored values of custom foods and recipes the text mentions,
+    // then recompute nutrients from grams for foods in the reference table
+    const customFoods = await listCustomFoods(supabase, userId);
+    const items = groundFoodItems(
+      applyRecipes(raw_text || '', applyCustomFoods(raw_text || '', parsedMeal.items, customFoods), recipes)
+    );
+
     // Resolve the date
     // Priority: override_date > explicit_date from LLM > client_timestamp
     let finalDate: string;
@@ -66,77 +151,23 @@ export async function POST(request: NextRequest) {
       explicitDateInText = resolved.explicit_date_in_text;
     }
 
-    // Create the entry with user_id
-    const { data: entry, error: entryError } = await supabase
-      .from('entries')
-      .insert({
+    // Create the entry and its items in one transaction
+    const entry = await createEntryWithItems(
+      supabase,
+      {
         user_id: userId,
         raw_text: raw_text.trim(),
         resolved_date: finalDate,
         explicit_date_in_text: explicitDateInText,
-      })
-      .select()
-      .single();
-
-    if (entryError || !entry) {
-      console.error('Entry creation error:', entryError);
-      return NextResponse.json({ error: 'Failed to create entry' }, { status: 500 });
-    }
-
-    // Create entry items
-    const entryItems = parsedMeal.items.map(item => ({
-      entry_id: entry.id,
-      food_name: item.food_name,
-      grams: item.grams,
-      grams_low: item.grams_low,
-      grams_high: item.grams_high,
-      calories: item.calories,
-      calories_low: item.calories_low,
-      calories_high: item.calories_high,
-      protein_g: item.protein_g,
-      protein_low: item.protein_low,
-      protein_high: item.protein_high,
-      carbs_g: item.carbs_g,
-      carbs_low: item.carbs_low,
-      carbs_high: item.carbs_high,
-      fat_g: item.fat_g,
-      fat_low: item.fat_low,
-      fat_high: item.fat_high,
-      saturated_fat_g: item.saturated_fat_g,
-      saturated_fat_low: item.saturated_fat_low,
-      saturated_fat_high: item.saturated_fat_high,
-      unsaturated_fat_g: item.unsaturated_fat_g,
-      unsaturated_fat_low: item.unsaturated_fat_low,
-      unsaturated_fat_high: item.unsaturated_fat_high,
-      fiber_g: item.fiber_g,
-      fiber_low: item.fiber_low,
-      fiber_high: item.fiber_high,
-      sodium_mg: item.sodium_mg,
-      sodium_low: item.sodium_low,
-      sodium_high: item.sodium_high,
-      added_sugar_g: item.added_sugar_g,
-      added_sugar_low: item.added_sugar_low,
-      added_sugar_high: item.added_sugar_high,
-      assumptions: item.assumptions,
-    }));
-
-    const { error: itemsError } = await supabase
-      .from('entry_items')
-      .insert(entryItems);
-
-    if (itemsError) {
-      console.error('Entry items creation error:', itemsError);
-      // Entry was created, but items failed - should we rollback?
-      // For now, return partial success
-      return NextResponse.json({ 
-        entry,
-        warning: 'Entry created but items failed to save',
-      }, { status: 201 });
-    }
+        ...resolveMealTiming(parsedMeal),
+      },
+      items.map(toEntryItemRow)
+    );
 
     return NextResponse.json({ 
       entry,
-      items: parsedMeal.items,
+      items,
+      cached,
       validation_warnings: validation.errors.length > 0 ? validation.errors : undefined,
     }, { status: 201 });
 
@@ -162,6 +193,14 @@ export async function GET(request: NextRequest) {
     const date = searchParams.get('date'); // Single date YYYY-MM-DD
     const from = searchParams.get('from'); // Range start
     const to = searchParams.get('to'); // Range end
+    const days = searchParams.get('days'); // Range ending today in the user's timezone
+
+    if ([date, from, to].some((value) => value !== null && !isValidDateString(value))) {
+      return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (days !== null && !/^\d+$/.test(days)) {
+      return NextResponse.json({ error: 'days must be a whole number' }, { status: 400 });
+    }
 
     const supabase = createServerClient();
 
@@ -178,6 +217,15 @@ export async function GET(request: NextRequest) {
       query = query.eq('resolved_date', date);
     } else if (from && to) {
       query = query.gte('resolved_date', from).lte('resolved_date', to);
+    } else if (days) {
+      const { data: settings } = await supabase
+        .from('user_settings')
+        .select('timezone')
+        .eq('id', userId)
+        .single();
+
+      const { start, end } = getDateWindow(Number(days), settings?.timezone || 'America/New_York');
+      query = query.gte('resolved_date', start).lte('resolved_date', end);
     }
 
     const { data: entries, error } = await query;
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { isValidDateString } from '@/lib/date-resolution';
+import { GOAL_COLUMNS } from '@/lib/goals';
+import { CSV_COLUMNS, csvLine, entryCsvRows, exportEntryPages, type ExportFormat } from '@/lib/export';
+
+/**
+ * GET /api/export?format=json|csv&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Download the user's food log. JSON includes settings, daily activity and
+ * entries with nested items; CSV is one row per item. from/to are optional.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'json') as ExportFormat;
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json({ error: 'format must be json or csv' }, { status: 400 });
+    }
+    if ((from && !isValidDateString(from)) || (to && !isValidDateString(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+    const pages = exportEntryPages(supabase, userId, from, to);
+    const encoder = new TextEncoder();
+
+    let body: ReadableStream<Uint8Array>;
+
+    if (format === 'csv') {
+      let started = false;
+      body = new ReadableStream({
+        async pull(controller) {
+          try {
+            if (!started) {
+              started = true;
+              controller.enqueue(encoder.encode(csvLine(CSV_COLUMNS)));
+            }
+            const { value: page, done } = await pages.next();
+            if (done) {
+              controller.close();
+              return;
+            }
+            controller.enqueue(encoder.encode(page.map(entryCsvRows).join('')));
+          } catch (error) {
+            console.error('Export error:', error);
+            controller.error(error);
+          }
+        },
+      });
+    } else {
+      let activityQuery = supabase
+        .from('daily_activity')
+        .select('resolved_date, activity_level_id')
+        .eq('user_id', userId)
+        .order('resolved_date', { ascending: true });
+      if (from) activityQuery = activityQuery.gte('resolved_date', from);
+      if (to) activityQuery = activityQuery.lte('resolved_date', to);
+
+      const [{ data: settings, error: settingsError }, { data: activity, error: activityError }] = await Promise.all([
+        supabase
+          .from('user_settings')
+          .select(`email, name, weight_kg, height_cm, age_years, sex, ${GOAL_COLUMNS}, timezone`)
+          .eq('id', userId)
+          .single(),
+        activityQuery,
+      ]);
+
+      if (settingsError || activityError) {
+        console.error('Export error:', settingsError || activityError);
+        return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+      }
+
+      // Settings and activity go out first, then entries as each page arrives
+      let started = false;
+      let first = true;
+      body = new ReadableStream({
+        async pull(controller) {
+          try {
+            if (!started) {
+              started = true;
+              const header = JSON.stringify({
+                exported_at: new Date().toISOString(),
+                from,
+                to,
+                settings,
+                daily_activity: activity,
+              });
+              controller.enqueue(encoder.encode(header.slice(0, -1) + ',"entries":['));
+            }
+            const { value: page, done } = await pages.next();
+            if (done) {
+              controller.enqueue(encoder.encode(']}'));
+              controller.close();
+              return;
+            }
+            const chunk = page.map((entry) => JSON.stringify(entry)).join(',');
+            controller.enqueue(encoder.encode((first ? '' : ',') + chunk));
+            first = false;
+          } catch (error) {
+            console.error('Export error:', error);
+            controller.error(error);
+          }
+        },
+      });
+    }
+
+    const filename = `food-log${from ? `-${from}` : ''}${to ? `-to-${to}` : ''}.${format}`;
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Export error:', error);
+    return NextResponse.json({ error: 'Failed to export data' }, { status: 500 });
+  }
+}
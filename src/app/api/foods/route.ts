@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserId } from '@/lib/auth';
+import { searchReferenceFoods } from '@/lib/reference-foods';
+
+const MAX_RESULTS = 25;
+
+/**
+ * GET /api/foods?q=chicken&limit=10 - Search the bundled reference foods
+ * Returns { foods: [{ id, description, aliases, per_100g, score }] }, best match first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() ?? '';
+    if (!query) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10', 10) || 10, 1), MAX_RESULTS);
+    const foods = searchReferenceFoods(query, limit).map(({ food, score }) => ({
+      ...food,
+      score: Math.round(score * 100) / 100,
+    }));
+
+    return NextResponse.json({ foods });
+  } catch (error) {
+    console.error('Food search error:', error);
+    return NextResponse.json({ error: 'Failed to search foods' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+
+/**
+ * DELETE /api/import/[id] - Roll back an import
+ * Deleting the batch deletes every entry (and item) it created.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const { data: deleted, error } = await supabase
+      .from('import_batches')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id, entry_count');
+
+    if (error) {
+      console.error('Import rollback error:', error);
+      return NextResponse.json({ error: 'Failed to undo import' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Import not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, removed: deleted[0].entry_count });
+  } catch (error) {
+    console.error('Import rollback error:', error);
+    return NextResponse.json({ error: 'Failed to undo import' }, { status: 500 });
+  }
+}
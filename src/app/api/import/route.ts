@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { IMPORT_FORMATS, markDuplicates, parseImportCsv, type ImportSource } from '@/lib/import';
+
+const PREVIEW_ENTRIES = 100;
+
+/**
+ * GET /api/import - List the user's import batches, newest first
+ */
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: batches, error } = await supabase
+      .from('import_batches')
+      .select('id, source, filename, entry_count, item_count, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Import batches fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch imports' }, { status: 500 });
+    }
+
+    return NextResponse.json({ batches });
+  } catch (error) {
+    console.error('Import batches fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch imports' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/import - Import a MyFitnessPal, Cronometer or Lose It CSV export
+ * Body: { csv, source?, filename?, dry_run? }
+ *
+ * source is detected from the header row when omitted. With dry_run the
+ * parsed entries are returned as a preview and nothing is saved. Entries
+ * matching one already logged are skipped as duplicates.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { csv, source, filename, dry_run } = await request.json();
+
+    if (!csv || typeof csv !== 'string') {
+      return NextResponse.json({ error: 'csv is required' }, { status: 400 });
+    }
+    if (source !== undefined && !Object.hasOwn(IMPORT_FORMATS, source)) {
+      return NextResponse.json({ error: 'source must be myfitnesspal, cronometer or loseit' }, { status: 400 });
+    }
+
+    const parsed = parseImportCsv(csv, source as ImportSource | undefined);
+    if (!parsed.source || parsed.entries.length === 0) {
+      return NextResponse.json(
+        { error: parsed.errors[0] || 'No entries found in the file', errors: parsed.errors },
+        { status: 400 }
+      );
+    }
+
+    const supabase = createServerClient();
+    const entries = await markDuplicates(supabase, userId, parsed.entries);
+    const toImport = entries.filter((entry) => !entry.duplicate);
+
+    const summary = {
+      source: parsed.source,
+      entry_count: toImport.length,
+      item_count: toImport.reduce((sum, entry) => sum + entry.items.length, 0),
+      duplicate_count: entries.length - toImport.length,
+      first_date: entries[0].resolved_date,
+      last_date: entries[entries.length - 1].resolved_date,
+      errors: parsed.errors,
+    };
+
+    if (dry_run) {
+      return NextResponse.json({
+        ...summary,
+        preview: entries.slice(0, PREVIEW_ENTRIES).map((entry) => ({
+          resolved_date: entry.resolved_date,
+          raw_text: entry.raw_text,
+          item_count: entry.items.length,
+          calories: Math.round(entry.items.reduce((sum, item) => sum + item.calories, 0)),
+          duplicate: entry.duplicate,
+        })),
+      });
+    }
+
+    if (toImport.length === 0) {
+      return NextResponse.json({ error: 'Every entry in the file has already been logged', ...summary }, { status: 409 });
+    }
+
+    const { data: batch, error } = await supabase.rpc('import_entries', {
+      p_batch: { user_id: userId, source: parsed.source, filename: typeof filename === 'string' ? filename : null },
+      p_entries: toImport.map(({ resolved_date, raw_text, meal_slot, items }) => ({ resolved_date, raw_text, meal_slot, items })),
+    });
+
+    if (error || !batch) {
+      console.error('Import error:', error);
+      return NextResponse.json({ error: 'Failed to import. Nothing was saved, please try again.' }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...summary, batch }, { status: 201 });
+  } catch (error) {
+    console.error('Import error:', error);
+    return NextResponse.json({ error: 'Failed to import' }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { invalidateParseCache } from '@/lib/parse-cache';
+
+/**
+ * DELETE /api/parse-cache - Forget cached parses of a meal description
+ * Body: { raw_text: string }
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { raw_text } = await request.json();
+
+    if (!raw_text || typeof raw_text !== 'string' || raw_text.trim().length === 0) {
+      return NextResponse.json({ error: 'raw_text required' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+    const removed = await invalidateParseCache(supabase, userId, raw_text);
+
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('Parse cache invalidation error:', error);
+    return NextResponse.json({ error: 'Failed to clear cached parse' }, { status: 500 });
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import {
+  RECIPE_COLUMNS,
+  RecipeIngredientsSchema,
+  parseRecipe,
+  recipeNutrition,
+  resolveIngredients,
+} from '@/lib/recipes';
+
+/**
+ * PATCH /api/recipes/[id] - Update a recipe
+ * Body: any of the fields accepted by POST /api/recipes; the rest are kept.
+ *
+ * The ingredients are only parsed again when ingredients_text changes or
+ * manual_ingredients are given. Nutrition is recomputed for the new yield.
+ * Entries already logged keep their values.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const supabase = createServerClient();
+
+    const { data: current } = await supabase
+      .from('recipes')
+      .select(RECIPE_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!current) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    const parsed = parseRecipe({
+      name: current.name,
+      ingredients_text: current.ingredients_text,
+      yield_servings: current.yield_servings === null ? null : Number(current.yield_servings),
+      yield_grams: current.yield_grams === null ? null : Number(current.yield_grams),
+      ...body,
+    });
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { recipe } = parsed;
+    const stored = RecipeIngredientsSchema.safeParse(current.ingredients);
+    const reparse = body.manual_ingredients !== undefined
+      || recipe.ingredients_text !== current.ingredients_text
+      || !stored.success;
+
+    const resolved = reparse
+      ? await resolveIngredients(supabase, userId, recipe.ingredients_text, body.manual_ingredients)
+      : { ingredients: stored.data };
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const { data: recipes, error } = await supabase
+      .from('recipes')
+      .update({
+        ...recipe,
+        ingredients: resolved.ingredients,
+        ...recipeNutrition(recipe.name, resolved.ingredients, recipe),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(RECIPE_COLUMNS);
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a recipe with that name' }, { status: 409 });
+    }
+    if (error) {
+      console.error('Recipe update error:', error);
+      return NextResponse.json({ error: 'Failed to update recipe' }, { status: 500 });
+    }
+
+    if (!recipes || recipes.length === 0) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ recipe: recipes[0] });
+  } catch (error) {
+    console.error('Recipe update error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to update recipe'
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/recipes/[id] - Delete a recipe
+ * Entries already logged from it keep their values.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const { data: deleted, error } = await supabase
+      .from('recipes')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Recipe delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete recipe' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Recipe not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Recipe delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete recipe' }, { status: 500 });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { RECIPE_COLUMNS, parseRecipe, recipeNutrition, resolveIngredients } from '@/lib/recipes';
+
+/**
+ * GET /api/recipes - List the user's recipes by name
+ */
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: recipes, error } = await supabase
+      .from('recipes')
+      .select(RECIPE_COLUMNS)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Recipes fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch recipes' }, { status: 500 });
+    }
+
+    return NextResponse.json({ recipes });
+  } catch (error) {
+    console.error('Recipes fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch recipes' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/recipes - Create a recipe
+ * Body: { name, ingredients_text?, manual_ingredients?, yield_servings?, yield_grams? }
+ *
+ * ingredients_text is parsed once through the meal parser unless
+ * manual_ingredients (items as for manual entry) are given. At least one of
+ * yield_servings and yield_grams (cooked weight of the batch) is required.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parseRecipe(body);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { recipe } = parsed;
+    const supabase = createServerClient();
+
+    const resolved = await resolveIngredients(supabase, userId, recipe.ingredients_text, body.manual_ingredients);
+    if ('error' in resolved) {
+      return NextResponse.json({ error: resolved.error }, { status: 400 });
+    }
+
+    const { data: saved, error } = await supabase
+      .from('recipes')
+      .insert({
+        ...recipe,
+        user_id: userId,
+        ingredients: resolved.ingredients,
+        ...recipeNutrition(recipe.name, resolved.ingredients, recipe),
+      })
+      .select(RECIPE_COLUMNS)
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a recipe with that name' }, { status: 409 });
+    }
+    if (error || !saved) {
+      console.error('Recipe create error:', error);
+      return NextResponse.json({ error: 'Failed to save recipe' }, { status: 500 });
+    }
+
+    return NextResponse.json({ recipe: saved }, { status: 201 });
+  } catch (error) {
+    console.error('Recipe create error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to save recipe'
+    }, { status: 500 });
+  }
+}
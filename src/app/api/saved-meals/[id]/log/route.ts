@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { isValidDateString } from '@/lib/date-resolution';
+import { MAX_SERVINGS, MIN_SERVINGS, isValidServings, logSavedMeal } from '@/lib/saved-meals';
+
+/**
+ * POST /api/saved-meals/[id]/log - Log a saved meal as a new entry
+ * Body: { date, servings? }
+ *
+ * Items are copied from the template and scaled by servings (default 1).
+ * No parser call is made.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { date, servings = 1 } = await request.json();
+
+    if (!date || !isValidDateString(date)) {
+      return NextResponse.json({ error: 'date must be YYYY-MM-DD' }, { status: 400 });
+    }
+    if (!isValidServings(servings)) {
+      return NextResponse.json({ error: `servings must be between ${MIN_SERVINGS} and ${MAX_SERVINGS}` }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: meal } = await supabase
+      .from('saved_meals')
+      .select('id, name, items')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!meal) {
+      return NextResponse.json({ error: 'Saved meal not found' }, { status: 404 });
+    }
+
+    const entry = await logSavedMeal(supabase, userId, meal, date, servings);
+
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    console.error('Saved meal log error:', error);
+    return NextResponse.json({
+      error: error instanceof Error ? error.message : 'Failed to log saved meal'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { MAX_SAVED_MEAL_NAME_LENGTH, SAVED_MEAL_COLUMNS, SavedMealItemsSchema } from '@/lib/saved-meals';
+import type { Database } from '@/types/database';
+
+/**
+ * PATCH /api/saved-meals/[id] - Rename a saved meal or replace its items
+ * Body: { name?, items? }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const updates: Database['public']['Tables']['saved_meals']['Update'] = {};
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || body.name.trim().length === 0) {
+        return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+      }
+      if (body.name.trim().length > MAX_SAVED_MEAL_NAME_LENGTH) {
+        return NextResponse.json({ error: `Name must be at most ${MAX_SAVED_MEAL_NAME_LENGTH} characters` }, { status: 400 });
+      }
+      updates.name = body.name.trim();
+    }
+
+    if (body.items !== undefined) {
+      const parsed = SavedMealItemsSchema.safeParse(body.items);
+      if (!parsed.success) {
+        return NextResponse.json({ error: 'items must be a non-empty list of food items' }, { status: 400 });
+      }
+      updates.items = parsed.data;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: meals, error } = await supabase
+      .from('saved_meals')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(SAVED_MEAL_COLUMNS);
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a saved meal with that name' }, { status: 409 });
+    }
+    if (error) {
+      console.error('Saved meal update error:', error);
+      return NextResponse.json({ error: 'Failed to update saved meal' }, { status: 500 });
+    }
+
+    if (!meals || meals.length === 0) {
+      return NextResponse.json({ error: 'Saved meal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ meal: meals[0] });
+  } catch (error) {
+    console.error('Saved meal update error:', error);
+    return NextResponse.json({ error: 'Failed to update saved meal' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/saved-meals/[id] - Delete a saved meal
+ * Entries already logged from it are kept.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const { data: deleted, error } = await supabase
+      .from('saved_meals')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Saved meal delete error:', error);
+      return NextResponse.json({ error: 'Failed to delete saved meal' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Saved meal not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Saved meal delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete saved meal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { MAX_SAVED_MEAL_NAME_LENGTH, SAVED_MEAL_COLUMNS, snapshotItems } from '@/lib/saved-meals';
+
+/**
+ * GET /api/saved-meals - List the user's saved meals, most used first
+ */
+export async function GET() {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: meals, error } = await supabase
+      .from('saved_meals')
+      .select(SAVED_MEAL_COLUMNS)
+      .eq('user_id', userId)
+      .order('use_count', { ascending: false })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Saved meals fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch saved meals' }, { status: 500 });
+    }
+
+    return NextResponse.json({ meals });
+  } catch (error) {
+    console.error('Saved meals fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch saved meals' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/saved-meals - Save an entry's items as a named meal
+ * Body: { entry_id, name }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { entry_id, name } = await request.json();
+
+    if (!entry_id || typeof entry_id !== 'string') {
+      return NextResponse.json({ error: 'entry_id is required' }, { status: 400 });
+    }
+    if (!name || typeof name !== 'string' || name.trim().length === 0) {
+      return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    }
+    if (name.trim().length > MAX_SAVED_MEAL_NAME_LENGTH) {
+      return NextResponse.json({ error: `Name must be at most ${MAX_SAVED_MEAL_NAME_LENGTH} characters` }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: entry } = await supabase
+      .from('entries')
+      .select('id, entry_items (*)')
+      .eq('id', entry_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!entry) {
+      return NextResponse.json({ error: 'Entry not found' }, { status: 404 });
+    }
+    if (!entry.entry_items || entry.entry_items.length === 0) {
+      return NextResponse.json({ error: 'Entry has no items to save' }, { status: 400 });
+    }
+
+    const { data: meal, error } = await supabase
+      .from('saved_meals')
+      .insert({ user_id: userId, name: name.trim(), items: snapshotItems(entry.entry_items) })
+      .select(SAVED_MEAL_COLUMNS)
+      .single();
+
+    if (error?.code === '23505') {
+      return NextResponse.json({ error: 'You already have a saved meal with that name' }, { status: 409 });
+    }
+    if (error || !meal) {
+      console.error('Saved meal create error:', error);
+      return NextResponse.json({ error: 'Failed to save meal' }, { status: 500 });
+    }
+
+    return NextResponse.json({ meal }, { status: 201 });
+  } catch (error) {
+    console.error('Saved meal create error:', error);
+    return NextResponse.json({ error: 'Failed to save meal' }, { status: 500 });
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getUserId, hashPassword, verifyPassword } from '@/lib/auth';
+import { GOAL_COLUMNS, validateMacroTarget } from '@/lib/goals';
+import { parseDashboardNutrients } from '@/lib/nutrients';
+import { validateCompletenessRule } from '@/lib/completeness';
+import type { MacroTarget } from '@/types/nutrition';
+
+const SETTINGS_COLUMNS = `id, email, name, weight_kg, height_cm, age_years, sex, ${GOAL_COLUMNS}, timezone, dashboard_nutrients, complete_day_min_entries, complete_day_min_calories`;
+const GOAL_TYPES = ['lose', 'maintain', 'gain'];
 
 function getSupabase() {
   return createClient(
@@ -23,7 +30,7 @@ export async function GET() {
 
     const { data: settings, error } = await supabase
       .from('user_settings')
-      .select('id, email, name, weight_kg, height_cm, age_years, sex, calorie_deficit, timezone, created_at')
+      .select(`${SETTINGS_COLUMNS}, created_at`)
       .eq('id', userId)
       .single();
 
@@ -56,7 +63,19 @@ export async function PATCH(request: NextRequest) {
       age_years,
       sex,
       calorie_deficit,
+      goal_type,
+      target_weight_kg,
+      target_date,
+      protein_target_mode,
+      protein_target_value,
+      fat_target_mode,
+      fat_target_value,
+      carb_target_mode,
+      carb_target_value,
       timezone,
+      dashboard_nutrients,
+      complete_day_min_entries,
+      complete_day_min_calories,
       current_password,
       new_password,
     } = body;
@@ -87,6 +106,69 @@ export async function PATCH(request: NextRequest) {
     if (calorie_deficit !== undefined) updates.calorie_deficit = calorie_deficit;
     if (timezone !== undefined) updates.timezone = timezone;
 
+    // Goal
+    if (goal_type !== undefined) {
+      if (!GOAL_TYPES.includes(goal_type)) {
+        return NextResponse.json({ error: 'goal_type must be lose, maintain or gain' }, { status: 400 });
+      }
+      updates.goal_type = goal_type;
+    }
+    if (calorie_deficit !== undefined && (typeof calorie_deficit !== 'number' || calorie_deficit < 0)) {
+      return NextResponse.json({ error: 'calorie_deficit must be a non-negative number' }, { status: 400 });
+    }
+    if (target_weight_kg !== undefined) {
+      if (target_weight_kg !== null && (typeof target_weight_kg !== 'number' || target_weight_kg < 20 || target_weight_kg > 400)) {
+        return NextResponse.json({ error: 'target_weight_kg must be between 20 and 400' }, { status: 400 });
+      }
+      updates.target_weight_kg = target_weight_kg;
+    }
+    if (target_date !== undefined) {
+      if (target_date !== null && (typeof target_date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(target_date))) {
+        return NextResponse.json({ error: 'target_date must be YYYY-MM-DD' }, { status: 400 });
+      }
+      updates.target_date = target_date;
+    }
+
+    // Macro targets: validate the merged mode/value so a partial update can't leave a bad pair
+    const macroTargets: [string, string, unknown, unknown, boolean][] = [
+      ['Protein', 'protein', protein_target_mode, protein_target_value, false],
+      ['Fat', 'fat', fat_target_mode, fat_target_value, false],
+      ['Carb', 'carb', carb_target_mode, carb_target_value, true],
+    ];
+    for (const [label, prefix, mode, value, allowRemainder] of macroTargets) {
+      if (mode === undefined && value === undefined) continue;
+
+      const target = {
+        mode: mode ?? current[`${prefix}_target_mode`],
+        value: value !== undefined ? value : current[`${prefix}_target_value`],
+      } as MacroTarget;
+      if (target.mode === 'remainder') target.value = null;
+
+      const message = validateMacroTarget(label, target, allowRemainder);
+      if (message) {
+        return NextResponse.json({ error: message }, { status: 400 });
+      }
+      updates[`${prefix}_target_mode`] = target.mode;
+      updates[`${prefix}_target_value`] = target.value;
+    }
+
+    // Dashboard nutrients
+    if (dashboard_nutrients !== undefined) {
+      const parsed = parseDashboardNutrients(dashboard_nutrients);
+      if ('error' in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      updates.dashboard_nutrients = parsed.nutrients;
+    }
+
+    // Complete-day rule
+    const ruleError = validateCompletenessRule({ complete_day_min_entries, complete_day_min_calories });
+    if (ruleError) {
+      return NextResponse.json({ error: ruleError }, { status: 400 });
+    }
+    if (complete_day_min_entries !== undefined) updates.complete_day_min_entries = complete_day_min_entries;
+    if (complete_day_min_calories !== undefined) updates.complete_day_min_calories = complete_day_min_calories;
+
     // Handle password change
     if (new_password) {
       if (!current_password) {
@@ -110,7 +192,7 @@ export async function PATCH(request: NextRequest) {
       .from('user_settings')
       .update(updates)
       .eq('id', userId)
-      .select('id, email, name, weight_kg, height_cm, age_years, sex, calorie_deficit, timezone')
+      .select(SETTINGS_COLUMNS)
       .single();
 
     if (updateError) {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { getTDEEEstimates } from '@/lib/adaptive-tdee';
+import { getTodayInTimezone, isValidDateString } from '@/lib/date-resolution';
+
+/**
+ * GET /api/tdee?date=YYYY-MM-DD - Formula and observed TDEE for a date
+ * Returns { weight_kg, formula, adaptive }; adaptive is null until there
+ * are enough weigh-ins and logged days in the window.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    let date = searchParams.get('date');
+
+    const supabase = createServerClient();
+
+    if (!date || !isValidDateString(date)) {
+      const { data: settings } = await supabase
+        .from('user_settings')
+        .select('timezone')
+        .eq('id', userId)
+        .single();
+      date = getTodayInTimezone(settings?.timezone || 'America/New_York');
+    }
+
+    const estimates = await getTDEEEstimates(supabase, userId, date);
+
+    return NextResponse.json(estimates);
+  } catch (error) {
+    console.error('TDEE fetch error:', error);
+    return NextResponse.json({ error: 'Failed to calculate TDEE' }, { status: 500 });
+  }
+}
@@ -1,6 +1,52 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getUserId } from '@/lib/auth';
+import { getTDEEEstimates, trendWeights } from '@/lib/adaptive-tdee';
+import { mealTimingSummary } from '@/lib/meal-timing';
+import { getDateWindow, shiftDate } from '@/lib/date-resolution';
+import { completenessRule, coverage, dayStatus, streaks } from '@/lib/completeness';
+import {
+  aggregateNutrients,
+  averageNutrients,
+  dailyRollups,
+  deficitProbability,
+  differenceInterval,
+  probabilityBelow,
+  targetsForDay,
+} from '@/lib/aggregation';
+import {
+  NUTRIENTS,
+  dashboardNutrients,
+  emptyNutrientTotals,
+  nutrientReference,
+  type NutrientField,
+  type NutrientKey,
+  type NutrientRange,
+  type NutrientRangeField,
+  type NutrientReference,
+  type NutrientTotal,
+  type NutrientTotals,
+} from '@/lib/nutrients';
+import type { MealSlot, TDEECalculation } from '@/types/nutrition';
+
+// Entries with every registry nutrient of their items, and its range
+const ENTRY_COLUMNS = `resolved_date, created_at, meal_slot, eaten_at, entry_items (${NUTRIENTS.flatMap(({ field, low, high }) => [field, low, high]).join(', ')})`;
+
+interface TrendEntry {
+  resolved_date: string;
+  created_at: string;
+  meal_slot: MealSlot | null;
+  eaten_at: string | null;
+  entry_items: Record<NutrientField | NutrientRangeField, number | null>[] | null;
+}
+
+// Longest range a chart can ask for
+const MAX_TREND_DAYS = 365;
+
+// Entries per request; a long range has more than one response returns
+const ENTRY_PAGE_SIZE = 1000;
+
+const roundProbability = (p: number) => Math.round(p * 100) / 100;
 
 function getSupabase() {
   return createClient(
@@ -9,204 +55,256 @@ function getSupabase() {
   );
 }
 
-export async function GET(request: NextRequest) {
-  const userId = await getUserId();
-  if (!userId) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+/**
+ * Every entry in the date range, in date order, fetched a page at a time
+ */
+async function fetchTrendEntries(
+  supabase: ReturnType<typeof getSupabase>,
+  userId: string,
+  start: string,
+  end: string
+): Promise<{ entries: TrendEntry[]; error: unknown }> {
+  const entries: TrendEntry[] = [];
+  for (let offset = 0; ; offset += ENTRY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('entries')
+      .select(ENTRY_COLUMNS)
+      .eq('user_id', userId)
+      .gte('resolved_date', start)
+      .lte('resolved_date', end)
+      .order('resolved_date', { ascending: true })
+      // Unique last, so entries on the same date can't shift between pages
+      .order('id', { ascending: true })
+      .range(offset, offset + ENTRY_PAGE_SIZE - 1);
+
+    if (error) return { entries, error };
+
+    const page = (data || []) as unknown as TrendEntry[];
+    entries.push(...page);
+    if (page.length < ENTRY_PAGE_SIZE) return { entries, error: null };
   }
+}
 
-  const { searchParams } = new URL(request.url);
-  const days = parseInt(searchParams.get('days') || '30');
-
-  const supabase = getSupabase();
-
-  // Get user settings for TDEE calculation
-  const { data: settings } = await supabase
-    .from('user_settings')
-    .select('*')
-    .eq('id', userId)
-    .single();
-
-  // Calculate date range
-  const endDate = new Date();
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - days);
-
-  const startDateStr = startDate.toISOString().split('T')[0];
-  const endDateStr = endDate.toISOString().split('T')[0];
-
-  // Get daily totals for the date range (only days with entries)
-  const { data: entries } = await supabase
-    .from('entries')
-    .select(`
-      resolved_date,
-      entry_items (
-        calories,
-        protein_g,
-        carbs_g,
-        fat_g,
-        saturated_fat_g,
-        fiber_g,
-        added_sugar_g,
-        sodium_mg
-      )
-    `)
-    .eq('user_id', userId)
-    .gte('resolved_date', startDateStr)
-    .lte('resolved_date', endDateStr)
-    .order('resolved_date', { ascending: true });
-
-  // Get activity levels for each day
-  const { data: activities } = await supabase
-    .from('daily_activity')
-    .select('resolved_date, activity_level_id')
-    .eq('user_id', userId)
-    .gte('resolved_date', startDateStr)
-    .lte('resolved_date', endDateStr);
-
-  // Build activity lookup
-  const activityMap: Record<string, number> = {};
-  activities?.forEach((a) => {
-    activityMap[a.resolved_date] = a.activity_level_id;
-  });
-
-  // Activity multipliers
-  const multipliers = [1.2, 1.375, 1.55, 1.725, 1.9];
-
-  // Calculate BMR if we have settings
-  let bmr: number | null = null;
-  if (settings?.weight_kg && settings?.height_cm && settings?.age_years && settings?.sex) {
-    if (settings.sex === 'male') {
-      bmr = 10 * settings.weight_kg + 6.25 * settings.height_cm - 5 * settings.age_years + 5;
-    } else {
-      bmr = 10 * settings.weight_kg + 6.25 * settings.height_cm - 5 * settings.age_years - 161;
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-  }
 
-  // Aggregate by date
-  const dailyData: Record<string, {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    saturatedFat: number;
-    fiber: number;
-    addedSugar: number;
-    sodium: number;
-    tdee: number | null;
-    targetCalories: number | null;
-    targetProtein: number | null;
-  }> = {};
-
-  entries?.forEach((entry) => {
-    const date = entry.resolved_date;
-    if (!dailyData[date]) {
-      // Calculate TDEE for this day
-      const activityLevel = activityMap[date] || 3; // Default to moderate
-      const multiplier = multipliers[activityLevel - 1];
-      const tdee = bmr ? Math.round(bmr * multiplier) : null;
-      const targetCalories = tdee && settings?.calorie_deficit 
-        ? tdee - settings.calorie_deficit 
-        : null;
-      const targetProtein = settings?.weight_kg 
-        ? Math.round(settings.weight_kg * 1.6) 
-        : null;
-
-      dailyData[date] = {
-        calories: 0,
-        protein: 0,
-        carbs: 0,
-        fat: 0,
-        saturatedFat: 0,
-        fiber: 0,
-        addedSugar: 0,
-        sodium: 0,
+    const { searchParams } = new URL(request.url);
+    const daysParam = searchParams.get('days') ?? '30';
+    if (!/^\d+$/.test(daysParam) || Number(daysParam) < 1 || Number(daysParam) > MAX_TREND_DAYS) {
+      return NextResponse.json({ error: `days must be a whole number from 1 to ${MAX_TREND_DAYS}` }, { status: 400 });
+    }
+    const days = Number(daysParam);
+
+    const supabase = getSupabase();
+
+    // Get user settings for TDEE calculation
+    const { data: settings, error: settingsError } = await supabase
+      .from('user_settings')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle();
+
+    if (settingsError) {
+      console.error('Trends settings fetch error:', settingsError);
+      return NextResponse.json({ error: 'Failed to fetch trends' }, { status: 500 });
+    }
+
+    // The last `days` days, today included, in the user's timezone
+    const timezone = settings?.timezone || 'America/New_York';
+    const { start: startDateStr, end: endDateStr } = getDateWindow(days - 1, timezone);
+
+    // Entries of the date range (only days with entries have any)
+    const { entries, error: entriesError } = await fetchTrendEntries(supabase, userId, startDateStr, endDateStr);
+
+    // Get activity levels for each day
+    const { data: activities, error: activitiesError } = await supabase
+      .from('daily_activity')
+      .select('resolved_date, activity_level_id')
+      .eq('user_id', userId)
+      .gte('resolved_date', startDateStr)
+      .lte('resolved_date', endDateStr);
+
+    // Get weigh-ins for the weight trend chart
+    const { data: weightLogs, error: weightError } = await supabase
+      .from('weight_logs')
+      .select('logged_date, weight_kg')
+      .eq('user_id', userId)
+      .gte('logged_date', startDateStr)
+      .lte('logged_date', endDateStr)
+      .order('logged_date', { ascending: true });
+
+    // Missing rows would show as unlogged days rather than an error
+    const fetchError = entriesError || activitiesError || weightError;
+    if (fetchError) {
+      console.error('Trends fetch error:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch trends' }, { status: 500 });
+    }
+
+    const weights = trendWeights(
+      (weightLogs || []).map((w) => ({ date: w.logged_date, weight_kg: Number(w.weight_kg) }))
+    );
+
+    // Formula vs observed maintenance calories as of the end of the range
+    const { formula, adaptive } = await getTDEEEstimates(supabase, userId, endDateStr);
+
+    // Build activity lookup
+    const activityMap: Record<string, number> = {};
+    activities?.forEach((a) => {
+      activityMap[a.resolved_date] = a.activity_level_id;
+    });
+
+    // Totals of each logged day
+    const rollups = new Map(dailyRollups(entries).map((day) => [day.date, day]));
+
+    // Calorie distribution across the day (by meal slot and hour eaten)
+    const mealTiming = mealTimingSummary(
+      entries.map((entry) => ({
+        resolved_date: entry.resolved_date,
+        created_at: entry.created_at,
+        meal_slot: entry.meal_slot,
+        eaten_at: entry.eaten_at,
+        calories: aggregateNutrients(entry.entry_items || []).calories.value,
+      })),
+      timezone
+    );
+
+    // Every calendar day of the range, logged or not
+    const rule = completenessRule(settings);
+    const dates: string[] = [];
+    for (let date = startDateStr; date <= endDateStr; date = shiftDate(date, 1)) {
+      dates.push(date);
+    }
+
+    const dailyTotals: Record<string, NutrientTotals> = {};
+    const dailyTargets: Record<string, TDEECalculation | null> = {};
+    const chartData = dates.map((date) => {
+      const rollup = rollups.get(date);
+      const entryCount = rollup?.entryCount ?? 0;
+      const totals = (dailyTotals[date] = rollup?.totals ?? emptyNutrientTotals());
+      const data = Object.fromEntries(NUTRIENTS.map(({ key }) => [key, totals[key].value])) as Record<NutrientKey, number>;
+      const status = dayStatus({ entryCount, calories: data.calories }, rule);
+
+      // TDEE and goal targets for this day
+      const dayTDEE = (dailyTargets[date] = targetsForDay(settings, activityMap[date], date));
+      const tdee = dayTDEE?.tdee ?? null;
+      const targetProtein = dayTDEE?.protein_target_g ?? null;
+
+      // A deficit is only meaningful when the day's intake is all there
+      const complete = status === 'logged';
+      return {
+        date,
+        ...data,
+        // Each day's 90% range, from its items' ranges
+        ranges: Object.fromEntries(NUTRIENTS.map(({ key }) => [key, { low: totals[key].low, high: totals[key].high }])) as Record<NutrientKey, NutrientRange>,
+        entryCount,
+        status,
         tdee,
-        targetCalories,
+        targetCalories: dayTDEE?.target_calories ?? null,
         targetProtein,
+        deficit: complete && tdee ? tdee - data.calories : null,
+        // Chances, given the ranges, of a deficit and of being under target
+        pDeficit: complete && dayTDEE ? roundProbability(deficitProbability(dayTDEE, totals.calories)) : null,
+        pUnderTarget: complete && dayTDEE ? roundProbability(probabilityBelow(totals.calories, dayTDEE.target_calories)) : null,
+        proteinPercent: complete && targetProtein
+          ? Math.round((data.protein / targetProtein) * 100)
+          : null,
       };
-    }
-
-    entry.entry_items?.forEach((item: Record<string, number>) => {
-      dailyData[date].calories += item.calories || 0;
-      dailyData[date].protein += item.protein_g || 0;
-      dailyData[date].carbs += item.carbs_g || 0;
-      dailyData[date].fat += item.fat_g || 0;
-      dailyData[date].saturatedFat += item.saturated_fat_g || 0;
-      dailyData[date].fiber += item.fiber_g || 0;
-      dailyData[date].addedSugar += item.added_sugar_g || 0;
-      dailyData[date].sodium += item.sodium_mg || 0;
     });
-  });
-
-  // Convert to array and sort
-  const chartData = Object.entries(dailyData)
-    .map(([date, data]) => ({
-      date,
-      ...data,
-      deficit: data.tdee ? data.tdee - data.calories : null,
-      proteinPercent: data.targetProtein 
-        ? Math.round((data.protein / data.targetProtein) * 100) 
-        : null,
-    }))
-    .sort((a, b) => a.date.localeCompare(b.date));
-
-  // Calculate averages for last 7 and 30 days
-  const now = new Date();
-  const sevenDaysAgo = new Date(now);
-  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-  const thirtyDaysAgo = new Date(now);
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-  const last7Days = chartData.filter(d => new Date(d.date) >= sevenDaysAgo);
-  const last30Days = chartData.filter(d => new Date(d.date) >= thirtyDaysAgo);
-
-  const calculateAverages = (data: typeof chartData) => {
-    if (data.length === 0) return null;
+
+    // Calculate averages for the last 7 and 30 days, today included
+    const last7Days = chartData.filter(d => d.date >= shiftDate(endDateStr, -6));
+    const last30Days = chartData.filter(d => d.date >= shiftDate(endDateStr, -29));
+
+    // Averages over complete days only, with how many days that covers
+    const calculateAverages = (days: typeof chartData) => {
+      const data = days.filter(d => d.status === 'logged');
+      if (data.length === 0) return null;
     
-    const withDeficit = data.filter(d => d.deficit !== null);
-    const withProtein = data.filter(d => d.proteinPercent !== null);
-
-    return {
-      avgCalories: Math.round(data.reduce((sum, d) => sum + d.calories, 0) / data.length),
-      avgProtein: Math.round(data.reduce((sum, d) => sum + d.protein, 0) / data.length),
-      avgDeficit: withDeficit.length > 0 
-        ? Math.round(withDeficit.reduce((sum, d) => sum + (d.deficit || 0), 0) / withDeficit.length)
-        : null,
-      avgProteinPercent: withProtein.length > 0
-        ? Math.round(withProtein.reduce((sum, d) => sum + (d.proteinPercent || 0), 0) / withProtein.length)
-        : null,
-      avgSaturatedFat: Math.round(data.reduce((sum, d) => sum + d.saturatedFat, 0) / data.length),
-      avgAddedSugar: Math.round(data.reduce((sum, d) => sum + d.addedSugar, 0) / data.length),
-      avgSodium: Math.round(data.reduce((sum, d) => sum + d.sodium, 0) / data.length),
-      avgFiber: Math.round(data.reduce((sum, d) => sum + d.fiber, 0) / data.length),
-      daysTracked: data.length,
+      const average = averageNutrients(data.map(d => dailyTotals[d.date]));
+      const withDeficit = data.filter(d => d.deficit !== null);
+      const withProtein = data.filter(d => d.proteinPercent !== null);
+
+      // Average maintenance minus average intake. Every day's maintenance
+      // comes from the same formula, so its error doesn't average out over
+      // days the way intake's does: its range is the mean of the days' ranges.
+      let averageDeficit: NutrientTotal | null = null;
+      if (withDeficit.length > 0) {
+        const targets = withDeficit.map(d => dailyTargets[d.date]!);
+        const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+        const tdee = {
+          value: mean(targets.map(t => t.tdee)),
+          low: mean(targets.map(t => t.tdee_low)),
+          high: mean(targets.map(t => t.tdee_high)),
+        };
+        averageDeficit = differenceInterval(tdee, averageNutrients(withDeficit.map(d => dailyTotals[d.date])).calories);
+      }
+
+      return {
+        avgCalories: Math.round(average.calories.value),
+        avgProtein: Math.round(average.protein.value),
+        avgFat: Math.round(average.fat.value),
+        avgCarbs: Math.round(average.carbs.value),
+        avgDeficit: averageDeficit ? Math.round(averageDeficit.value) : null,
+        avgDeficitRange: averageDeficit
+          ? { low: Math.round(averageDeficit.low), high: Math.round(averageDeficit.high) }
+          : null,
+        avgProteinPercent: withProtein.length > 0
+          ? Math.round(withProtein.reduce((sum, d) => sum + (d.proteinPercent || 0), 0) / withProtein.length)
+          : null,
+        // Every registry nutrient, to 0.1 (iron and vitamin D are single digits)
+        avgNutrients: Object.fromEntries(NUTRIENTS.map(({ key }) => [
+          key,
+          Math.round(average[key].value * 10) / 10,
+        ])) as Record<NutrientKey, number>,
+        // The average's range, which days of independent estimates narrow
+        avgRanges: Object.fromEntries(NUTRIENTS.map(({ key }) => [key, {
+          low: Math.round(average[key].low * 10) / 10,
+          high: Math.round(average[key].high * 10) / 10,
+        }])) as Record<NutrientKey, NutrientRange>,
+        daysTracked: data.length,
+        coverage: coverage(days.map(d => d.status)),
+      };
     };
-  };
-
-  // Get recommendations for comparison
-  const isMale = settings?.sex === 'male';
-  const targetCalories = bmr && settings?.calorie_deficit
-    ? Math.round(bmr * 1.55 - settings.calorie_deficit) // Use moderate activity for baseline
-    : 2000;
-
-  const recommendations = {
-    saturatedFatLimit: Math.round((targetCalories * 0.10) / 9),
-    addedSugarLimit: isMale ? 36 : 25,
-    sodiumLimit: 2300,
-    fiberTarget: isMale ? 38 : 25,
-  };
-
-  return NextResponse.json({
-    chartData,
-    averages: {
-      week: calculateAverages(last7Days),
-      month: calculateAverages(last30Days),
-    },
-    recommendations,
-    settings: settings ? {
-      targetProtein: settings.weight_kg ? Math.round(settings.weight_kg * 1.6) : null,
-      calorieDeficit: settings.calorie_deficit,
-    } : null,
-  });
+
+    // Daily limits and targets for every nutrient that has one
+    const profile = { sex: settings?.sex, targetCalories: formula?.target_calories };
+    const recommendations = Object.fromEntries(
+      NUTRIENTS.flatMap(({ key }) => {
+        const reference = nutrientReference(key, profile);
+        return reference ? [[key, reference]] : [];
+      })
+    ) as Partial<Record<NutrientKey, NutrientReference>>;
+
+    return NextResponse.json({
+      chartData,
+      averages: {
+        week: calculateAverages(last7Days),
+        month: calculateAverages(last30Days),
+      },
+      tracking: {
+        rule,
+        coverage: coverage(chartData.map(d => d.status)),
+        streaks: streaks(chartData.map(d => d.status)),
+      },
+      recommendations,
+      nutrients: dashboardNutrients(settings?.dashboard_nutrients),
+      weights,
+      mealTiming,
+      maintenance: { formula, adaptive },
+      settings: settings ? {
+        targetCalories: formula?.target_calories ?? null,
+        targetProtein: formula?.protein_target_g ?? null,
+        targetFat: formula?.fat_target_g ?? null,
+        targetCarbs: formula?.carbs_target_g ?? null,
+        calorieDeficit: formula ? -formula.calorie_adjustment : null,
+      } : null,
+    });
+  } catch (error) {
+    console.error('Trends fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch trends' }, { status: 500 });
+  }
 }
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+
+/**
+ * DELETE /api/weight/[id] - Delete a weigh-in
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = createServerClient();
+
+    const { data: deleted, error } = await supabase
+      .from('weight_logs')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      console.error('Weight deletion error:', error);
+      return NextResponse.json({ error: 'Failed to delete weigh-in' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Weigh-in not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Weight deletion error:', error);
+    return NextResponse.json({ error: 'Failed to delete weigh-in' }, { status: 500 });
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerClient } from '@/lib/supabase';
+import { getUserId } from '@/lib/auth';
+import { isValidDateString } from '@/lib/date-resolution';
+
+/**
+ * GET /api/weight?date=YYYY-MM-DD or ?from=YYYY-MM-DD&to=YYYY-MM-DD
+ * Get the user's weigh-ins, oldest first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const date = searchParams.get('date');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    const supabase = createServerClient();
+
+    let query = supabase
+      .from('weight_logs')
+      .select('id, logged_date, weight_kg')
+      .eq('user_id', userId)
+      .order('logged_date', { ascending: true });
+
+    if (date) {
+      query = query.eq('logged_date', date);
+    } else if (from && to) {
+      query = query.gte('logged_date', from).lte('logged_date', to);
+    }
+
+    const { data: logs, error } = await query;
+
+    if (error) {
+      console.error('Weight fetch error:', error);
+      return NextResponse.json({ error: 'Failed to fetch weigh-ins' }, { status: 500 });
+    }
+
+    return NextResponse.json({ logs });
+  } catch (error) {
+    console.error('Weight fetch error:', error);
+    return NextResponse.json({ error: 'Failed to fetch weigh-ins' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/weight - Log (or replace) the weigh-in for a date
+ * Body: { date: YYYY-MM-DD, weight_kg }
+ *
+ * When this is the most recent weigh-in, user_settings.weight_kg is kept in
+ * sync so the formula TDEE and protein target follow the current weight.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserId();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { date, weight_kg } = await request.json();
+
+    if (!date || !isValidDateString(date)) {
+      return NextResponse.json({ error: 'Valid date required' }, { status: 400 });
+    }
+    if (typeof weight_kg !== 'number' || weight_kg < 20 || weight_kg > 400) {
+      return NextResponse.json({ error: 'Weight must be between 20 and 400 kg' }, { status: 400 });
+    }
+
+    const supabase = createServerClient();
+
+    const { data: log, error } = await supabase
+      .from('weight_logs')
+      .upsert(
+        {
+          user_id: userId,
+          logged_date: date,
+          weight_kg: Math.round(weight_kg * 100) / 100,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,logged_date' }
+      )
+      .select('id, logged_date, weight_kg')
+      .single();
+
+    if (error || !log) {
+      console.error('Weight log error:', error);
+      return NextResponse.json({ error: 'Failed to log weight' }, { status: 500 });
+    }
+
+    const { data: latest } = await supabase
+      .from('weight_logs')
+      .select('logged_date')
+      .eq('user_id', userId)
+      .order('logged_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latest?.logged_date === date) {
+      await supabase
+        .from('user_settings')
+        .update({ weight_kg: log.weight_kg, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+    }
+
+    return NextResponse.json({ log }, { status: 201 });
+  } catch (error) {
+    console.error('Weight log error:', error);
+    return NextResponse.json({ error: 'Failed to log weight' }, { status: 500 });
+  }
+}
@@ -6,7 +6,18 @@ import { LoginForm } from '@/components/LoginForm';
 import { FoodEntryForm } from '@/components/FoodEntryForm';
 import { DailySummary } from '@/components/DailySummary';
 import { EntryList } from '@/components/EntryList';
+import { CopyEntries } from '@/components/CopyEntries';
 import { ActivitySelector } from '@/components/ActivitySelector';
+import { WeightLog } from '@/components/WeightLog';
+import type { AdaptiveTDEE, MealSlot, TDEECalculation } from '@/types/nutrition';
+import {
+  DEFAULT_DASHBOARD_NUTRIENTS,
+  emptyNutrientTotals,
+  type NutrientField,
+  type NutrientKey,
+  type NutrientRangeField,
+  type NutrientTotals,
+} from '@/lib/nutrients';
 
 interface AuthStatus {
   authenticated: boolean;
@@ -19,44 +30,47 @@ interface AuthStatus {
     sex: 'male' | 'female' | null;
     calorie_deficit: number;
     timezone: string;
+    dashboard_nutrients: NutrientKey[];
   } | null;
 }
 
+interface Maintenance {
+  weight_kg: number | null;
+  formula: TDEECalculation | null;
+  adaptive: AdaptiveTDEE | null;
+}
+
+// The selected day's totals from /api/daily-totals
+interface DayTotals {
+  totals: NutrientTotals;
+  pUnderTarget: number | null;
+  pDeficit: number | null;
+}
+
 interface Entry {
   id: string;
   raw_text: string;
   created_at: string;
   resolved_date: string;
-  entry_items: {
+  meal_slot: MealSlot | null;
+  eaten_at: string | null;
+  entry_items: ({
     id: string;
     food_name: string;
     calories: number;
     calories_low: number;
     calories_high: number;
     protein_g: number;
-    protein_low: number;
-    protein_high: number;
     carbs_g: number;
-    carbs_low: number;
-    carbs_high: number;
     fat_g: number;
-    fat_low: number;
-    fat_high: number;
     saturated_fat_g: number;
-    saturated_fat_low: number;
-    saturated_fat_high: number;
+    unsaturated_fat_g: number;
     fiber_g: number;
-    fiber_low: number;
-    fiber_high: number;
     added_sugar_g: number;
-    added_sugar_low: number;
-    added_sugar_high: number;
     sodium_mg: number;
-    sodium_low: number;
-    sodium_high: number;
     grams: number | null;
     assumptions: string[];
-  }[];
+  } & Partial<Record<NutrientField | NutrientRangeField, number>>)[];
 }
 
 export default function Home() {
@@ -69,6 +83,11 @@ export default function Home() {
   const [entries, setEntries] = useState<Entry[]>([]);
   const [activityLevel, setActivityLevel] = useState<number>(3); // Default to Moderate
   const [loadingEntries, setLoadingEntries] = useState(false);
+  const [maintenance, setMaintenance] = useState<Maintenance | null>(null);
+  const [day, setDay] = useState<DayTotals | null>(null);
+  // Bumped when an entry is starred so the entry form refetches saved meals
+  const [savedMealsKey, setSavedMealsKey] = useState(0);
+  const [copyingFrom, setCopyingFrom] = useState(false);
 
   // Check auth status on mount
   useEffect(() => {
@@ -99,6 +118,20 @@ export default function Home() {
     }
   }, [selectedDate, authStatus?.authenticated]);
 
+  // Formula TDEE depends on the day's activity level, observed TDEE on recent logs
+  useEffect(() => {
+    if (selectedDate && authStatus?.authenticated) {
+      fetchMaintenance();
+    }
+  }, [selectedDate, activityLevel, authStatus?.authenticated]);
+
+  // Totals follow the entries; the chances also follow the activity level
+  useEffect(() => {
+    if (selectedDate && authStatus?.authenticated) {
+      fetchDayTotals();
+    }
+  }, [entries, activityLevel]);
+
   const checkAuth = async () => {
     try {
       const res = await fetch('/api/auth/status');
@@ -135,6 +168,26 @@ export default function Home() {
     }
   };
 
+  const fetchMaintenance = async () => {
+    try {
+      const res = await fetch(`/api/tdee?date=${selectedDate}`);
+      if (!res.ok) return;
+      setMaintenance(await res.json());
+    } catch (error) {
+      console.error('Failed to fetch TDEE:', error);
+    }
+  };
+
+  const fetchDayTotals = async () => {
+    try {
+      const res = await fetch(`/api/daily-totals?date=${selectedDate}`);
+      if (!res.ok) return;
+      setDay((await res.json()).day);
+    } catch (error) {
+      console.error('Failed to fetch daily totals:', error);
+    }
+  };
+
   const handleLogout = async () => {
     await fetch('/api/auth/logout', { method: 'POST' });
     setAuthStatus({ authenticated: false, isSetUp: true, settings: null });
@@ -145,71 +198,9 @@ export default function Home() {
     setEntries((prev) => prev.filter((e) => e.id !== id));
   };
 
-  // Calculate totals from entries
-  const totals = entries.reduce(
-    (acc, entry) => {
-      entry.entry_items.forEach((item) => {
-        acc.calories.value += item.calories;
-        acc.calories.low += item.calories_low;
-        acc.calories.high += item.calories_high;
-        acc.protein.value += item.protein_g;
-        acc.protein.low += item.protein_low;
-        acc.protein.high += item.protein_high;
-        acc.carbs.value += item.carbs_g;
-        acc.carbs.low += item.carbs_low;
-        acc.carbs.high += item.carbs_high;
-        acc.fat.value += item.fat_g;
-        acc.fat.low += item.fat_low;
-        acc.fat.high += item.fat_high;
-        acc.saturatedFat.value += item.saturated_fat_g || 0;
-        acc.saturatedFat.low += item.saturated_fat_low || 0;
-        acc.saturatedFat.high += item.saturated_fat_high || 0;
-        acc.fiber.value += item.fiber_g || 0;
-        acc.fiber.low += item.fiber_low || 0;
-        acc.fiber.high += item.fiber_high || 0;
-        acc.addedSugar.value += item.added_sugar_g || 0;
-        acc.addedSugar.low += item.added_sugar_low || 0;
-        acc.addedSugar.high += item.added_sugar_high || 0;
-        acc.sodium.value += item.sodium_mg || 0;
-        acc.sodium.low += item.sodium_low || 0;
-        acc.sodium.high += item.sodium_high || 0;
-      });
-      return acc;
-    },
-    {
-      calories: { value: 0, low: 0, high: 0 },
-      protein: { value: 0, low: 0, high: 0 },
-      carbs: { value: 0, low: 0, high: 0 },
-      fat: { value: 0, low: 0, high: 0 },
-      saturatedFat: { value: 0, low: 0, high: 0 },
-      fiber: { value: 0, low: 0, high: 0 },
-      addedSugar: { value: 0, low: 0, high: 0 },
-      sodium: { value: 0, low: 0, high: 0 },
-    }
-  );
-
-  // Calculate TDEE targets if settings available
-  let targetCalories: number | undefined;
-  let targetProtein: number | undefined;
-
-  if (authStatus?.settings) {
-    const { weight_kg, height_cm, age_years, sex, calorie_deficit } = authStatus.settings;
-    if (weight_kg && height_cm && age_years && sex) {
-      // Mifflin-St Jeor
-      let bmr: number;
-      if (sex === 'male') {
-        bmr = 10 * weight_kg + 6.25 * height_cm - 5 * age_years + 5;
-      } else {
-        bmr = 10 * weight_kg + 6.25 * height_cm - 5 * age_years - 161;
-      }
-      // Use activity multiplier (default to sedentary if not set)
-      const multipliers = [1.2, 1.375, 1.55, 1.725, 1.9];
-      const multiplier = activityLevel ? multipliers[activityLevel - 1] : 1.2;
-      const tdee = bmr * multiplier;
-      targetCalories = Math.round(tdee - calorie_deficit);
-      targetProtein = Math.round(weight_kg * 1.6);
-    }
-  }
+  // Targets follow the formula TDEE for the selected day's activity level
+  const targetCalories = maintenance?.formula?.target_calories;
+  const targetProtein = maintenance?.formula?.protein_target_g;
 
   // Loading state
   if (loading) {
@@ -283,6 +274,7 @@ export default function Home() {
               onEntryCreated={fetchEntries}
               today={today}
               yesterday={yesterday}
+              savedMealsKey={savedMealsKey}
             />
           </section>
 
@@ -293,18 +285,28 @@ export default function Home() {
             onSelect={setActivityLevel}
           />
 
+          {/* Weigh-in */}
+          <WeightLog
+            date={selectedDate}
+            onChange={() => {
+              fetchMaintenance();
+              fetchDayTotals();
+            }}
+          />
+
           {/* Daily Summary */}
           <section>
             <DailySummary
-              calories={totals.calories}
-              protein={totals.protein}
-              saturatedFat={totals.saturatedFat}
-              fiber={totals.fiber}
-              addedSugar={totals.addedSugar}
-              sodium={totals.sodium}
+              totals={day?.totals ?? emptyNutrientTotals()}
+              nutrients={authStatus.settings?.dashboard_nutrients ?? DEFAULT_DASHBOARD_NUTRIENTS}
               targetCalories={targetCalories}
               targetProtein={targetProtein}
+              targetFat={maintenance?.formula?.fat_target_g}
+              targetCarbs={maintenance?.formula?.carbs_target_g}
               sex={authStatus.settings?.sex}
+              pUnderTarget={day?.pUnderTarget}
+              pDeficit={day?.pDeficit}
+              maintenance={maintenance ?? undefined}
             />
           </section>
 
@@ -314,11 +316,33 @@ export default function Home() {
               <h2 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">
                 {dateLabel}&apos;s Entries
               </h2>
-              {loadingEntries && (
-                <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
-              )}
+              <div className="flex items-center gap-3">
+                {loadingEntries && (
+                  <div className="h-4 w-4 animate-spin rounded-full border-2 border-blue-600 border-t-transparent" />
+                )}
+                <button
+                  onClick={() => setCopyingFrom(!copyingFrom)}
+                  className="text-sm text-zinc-500 hover:text-blue-600 dark:text-zinc-400 dark:hover:text-blue-400"
+                >
+                  Copy from…
+                </button>
+              </div>
             </div>
-            <EntryList entries={entries} onDelete={handleEntryDeleted} onUpdate={fetchEntries} />
+            {copyingFrom && (
+              <CopyEntries
+                key={selectedDate}
+                targetDate={selectedDate}
+                today={today}
+                onCopied={fetchEntries}
+                onClose={() => setCopyingFrom(false)}
+              />
+            )}
+            <EntryList
+              entries={entries}
+              onDelete={handleEntryDeleted}
+              onUpdate={fetchEntries}
+              onMealSaved={() => setSavedMealsKey((key) => key + 1)}
+            />
           </section>
         </div>
       </main>
@@ -2,6 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { ImportData } from '@/components/ImportData';
+import { SavedMeals } from '@/components/SavedMeals';
+import { CustomFoods } from '@/components/CustomFoods';
+import { Recipes } from '@/components/Recipes';
+import { goalFromSettings } from '@/lib/goals';
+import { DASHBOARD_NUTRIENTS, dashboardNutrients, type NutrientKey } from '@/lib/nutrients';
+import { completenessRule } from '@/lib/completeness';
+import type { GoalType, MacroTargetMode } from '@/types/nutrition';
 
 interface Settings {
   id: string;
@@ -11,7 +19,27 @@ interface Settings {
   age_years: number | null;
   sex: 'male' | 'female' | null;
   calorie_deficit: number;
+  goal_type: GoalType | null;
+  target_weight_kg: number | null;
+  target_date: string | null;
+  protein_target_mode: MacroTargetMode;
+  protein_target_value: number;
+  fat_target_mode: MacroTargetMode;
+  fat_target_value: number;
+  carb_target_mode: MacroTargetMode | 'remainder';
+  carb_target_value: number | null;
   timezone: string;
+  dashboard_nutrients: NutrientKey[] | null;
+  complete_day_min_entries: number;
+  complete_day_min_calories: number;
+}
+
+interface DeviceSession {
+  id: string;
+  device_label: string | null;
+  created_at: string;
+  last_seen_at: string;
+  current: boolean;
 }
 
 export default function SettingsPage() {
@@ -28,17 +56,83 @@ export default function SettingsPage() {
   const [ageYears, setAgeYears] = useState('');
   const [sex, setSex] = useState<'male' | 'female' | ''>('');
   const [calorieDeficit, setCalorieDeficit] = useState('');
+  const [goalType, setGoalType] = useState<GoalType>('lose');
+  const [targetWeightKg, setTargetWeightKg] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [proteinMode, setProteinMode] = useState<MacroTargetMode>('g_per_kg');
+  const [proteinValue, setProteinValue] = useState('');
+  const [fatMode, setFatMode] = useState<MacroTargetMode>('percent');
+  const [fatValue, setFatValue] = useState('');
+  const [carbMode, setCarbMode] = useState<MacroTargetMode | 'remainder'>('remainder');
+  const [carbValue, setCarbValue] = useState('');
   const [timezone, setTimezone] = useState('America/New_York');
+  const [nutrients, setNutrients] = useState<NutrientKey[]>([]);
+  const [minEntries, setMinEntries] = useState('');
+  const [minCalories, setMinCalories] = useState('');
 
   // Password change
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
 
+  // Signed-in devices
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [signingOut, setSigningOut] = useState(false);
+
+  // Data export
+  const [exportFormat, setExportFormat] = useState<'csv' | 'json'>('csv');
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+
   useEffect(() => {
     fetchSettings();
+    fetchSessions();
   }, []);
 
+  const fetchSessions = async () => {
+    try {
+      const res = await fetch('/api/auth/sessions');
+      if (!res.ok) return;
+      const data = await res.json();
+      setSessions(data.sessions || []);
+    } catch (err) {
+      console.error('Failed to fetch sessions:', err);
+    }
+  };
+
+  const handleSignOutDevice = async (session: DeviceSession) => {
+    if (session.current) {
+      if (!confirm('Sign out of this device?')) return;
+    }
+
+    try {
+      const res = await fetch(`/api/auth/sessions/${session.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to sign out device');
+
+      if (session.current) {
+        router.push('/');
+        return;
+      }
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out device');
+    }
+  };
+
+  const handleSignOutAll = async () => {
+    if (!confirm('Sign out of all devices, including this one?')) return;
+
+    setSigningOut(true);
+    try {
+      const res = await fetch('/api/auth/sessions', { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to sign out devices');
+      router.push('/');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out devices');
+      setSigningOut(false);
+    }
+  };
+
   const fetchSettings = async () => {
     try {
       const res = await fetch('/api/settings');
@@ -56,8 +150,22 @@ export default function SettingsPage() {
       setHeightCm(s.height_cm?.toString() || '');
       setAgeYears(s.age_years?.toString() || '');
       setSex(s.sex || '');
-      setCalorieDeficit(s.calorie_deficit?.toString() || '500');
+      const goal = goalFromSettings(s);
+      setGoalType(goal.goal_type);
+      setCalorieDeficit(goal.calorie_deficit.toString());
+      setTargetWeightKg(goal.target_weight_kg?.toString() || '');
+      setTargetDate(goal.target_date || '');
+      setProteinMode(goal.protein_target.mode as MacroTargetMode);
+      setProteinValue(goal.protein_target.value?.toString() || '');
+      setFatMode(goal.fat_target.mode as MacroTargetMode);
+      setFatValue(goal.fat_target.value?.toString() || '');
+      setCarbMode(goal.carb_target.mode);
+      setCarbValue(goal.carb_target.value?.toString() || '');
       setTimezone(s.timezone || 'America/New_York');
+      setNutrients(dashboardNutrients(s.dashboard_nutrients));
+      const rule = completenessRule(s);
+      setMinEntries(rule.minEntries.toString());
+      setMinCalories(rule.minCalories.toString());
     } catch (err) {
       setError('Failed to load settings');
     } finally {
@@ -95,8 +203,20 @@ export default function SettingsPage() {
           height_cm: heightCm ? parseFloat(heightCm) : null,
           age_years: ageYears ? parseInt(ageYears) : null,
           sex: sex || null,
-          calorie_deficit: parseInt(calorieDeficit) || 500,
+          goal_type: goalType,
+          calorie_deficit: parseInt(calorieDeficit) || 0,
+          target_weight_kg: targetWeightKg ? parseFloat(targetWeightKg) : null,
+          target_date: targetDate || null,
+          protein_target_mode: proteinMode,
+          protein_target_value: parseFloat(proteinValue),
+          fat_target_mode: fatMode,
+          fat_target_value: parseFloat(fatValue),
+          carb_target_mode: carbMode,
+          carb_target_value: carbMode === 'remainder' ? null : parseFloat(carbValue),
           timezone,
+          dashboard_nutrients: nutrients,
+          complete_day_min_entries: parseInt(minEntries) || 0,
+          complete_day_min_calories: parseInt(minCalories) || 0,
           current_password: currentPassword || undefined,
           new_password: newPassword || undefined,
         }),
@@ -118,6 +238,12 @@ export default function SettingsPage() {
     }
   };
 
+  const toggleNutrient = (key: NutrientKey) => {
+    setNutrients((current) => dashboardNutrients(
+      current.includes(key) ? current.filter((k) => k !== key) : [...current, key]
+    ));
+  };
+
   if (loading) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-zinc-50 dark:bg-zinc-950">
@@ -240,21 +366,212 @@ export default function SettingsPage() {
             <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
               Goals
             </h2>
-            <div>
-              <label htmlFor="deficit" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                Daily Calorie Deficit
-              </label>
-              <input
-                id="deficit"
-                type="number"
-                value={calorieDeficit}
-                onChange={(e) => setCalorieDeficit(e.target.value)}
-                className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
-                placeholder="500"
-              />
-              <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
-                Subtracted from TDEE. Use 0 for maintenance, negative for surplus.
-              </p>
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="goal-type" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Goal
+                </label>
+                <select
+                  id="goal-type"
+                  value={goalType}
+                  onChange={(e) => setGoalType(e.target.value as GoalType)}
+                  className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                >
+                  <option value="lose">Lose weight</option>
+                  <option value="maintain">Maintain</option>
+                  <option value="gain">Gain weight</option>
+                </select>
+              </div>
+              {goalType !== 'maintain' && (
+                <>
+                  <div>
+                    <label htmlFor="deficit" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                      {goalType === 'lose' ? 'Daily Calorie Deficit' : 'Daily Calorie Surplus'}
+                    </label>
+                    <input
+                      id="deficit"
+                      type="number"
+                      min="0"
+                      value={calorieDeficit}
+                      onChange={(e) => setCalorieDeficit(e.target.value)}
+                      className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                      placeholder="500"
+                    />
+                    <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400">
+                      Used when no target date is set.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label htmlFor="target-weight" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                        Target Weight (kg)
+                      </label>
+                      <input
+                        id="target-weight"
+                        type="number"
+                        step="0.1"
+                        value={targetWeightKg}
+                        onChange={(e) => setTargetWeightKg(e.target.value)}
+                        className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                        placeholder="Optional"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="target-date" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                        Target Date
+                      </label>
+                      <input
+                        id="target-date"
+                        type="date"
+                        value={targetDate}
+                        onChange={(e) => setTargetDate(e.target.value)}
+                        className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-sm text-zinc-500 dark:text-zinc-400">
+                    With both set, the daily deficit or surplus is worked out from the time left. Rates are capped at about 1% of body weight per week for loss and 0.5% for gain.
+                  </p>
+                </>
+              )}
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label htmlFor="protein-mode" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Protein
+                  </label>
+                  <select
+                    id="protein-mode"
+                    value={proteinMode}
+                    onChange={(e) => setProteinMode(e.target.value as MacroTargetMode)}
+                    className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                  >
+                    <option value="g_per_kg">g per kg</option>
+                    <option value="percent">% of calories</option>
+                  </select>
+                  <input
+                    id="protein-value"
+                    type="number"
+                    step="0.1"
+                    value={proteinValue}
+                    onChange={(e) => setProteinValue(e.target.value)}
+                    className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                    placeholder={proteinMode === 'percent' ? '%' : 'g/kg'}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="fat-mode" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Fat
+                  </label>
+                  <select
+                    id="fat-mode"
+                    value={fatMode}
+                    onChange={(e) => setFatMode(e.target.value as MacroTargetMode)}
+                    className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                  >
+                    <option value="g_per_kg">g per kg</option>
+                    <option value="percent">% of calories</option>
+                  </select>
+                  <input
+                    id="fat-value"
+                    type="number"
+                    step="0.1"
+                    value={fatValue}
+                    onChange={(e) => setFatValue(e.target.value)}
+                    className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                    placeholder={fatMode === 'percent' ? '%' : 'g/kg'}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="carbs-mode" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                    Carbs
+                  </label>
+                  <select
+                    id="carbs-mode"
+                    value={carbMode}
+                    onChange={(e) => setCarbMode(e.target.value as MacroTargetMode | 'remainder')}
+                    className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                  >
+                    <option value="g_per_kg">g per kg</option>
+                    <option value="percent">% of calories</option>
+                    <option value="remainder">Remaining calories</option>
+                  </select>
+                  {carbMode !== 'remainder' && (
+                    <input
+                      id="carbs-value"
+                      type="number"
+                      step="0.1"
+                      value={carbValue}
+                      onChange={(e) => setCarbValue(e.target.value)}
+                      className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                      placeholder={carbMode === 'percent' ? '%' : 'g/kg'}
+                    />
+                  )}
+                </div>
+              </div>
+            </div>
+          </section>
+
+          {/* Dashboard Nutrients Section */}
+          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+            <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+              Dashboard Nutrients
+            </h2>
+            <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+              Shown under calories and macros on the dashboard and charted on the trends page
+            </p>
+            <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+              {DASHBOARD_NUTRIENTS.map(({ key, label }) => (
+                <label key={key} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={nutrients.includes(key)}
+                    onChange={() => toggleNutrient(key)}
+                    className="rounded border-zinc-300 dark:border-zinc-600"
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {/* Complete Days Section */}
+          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+            <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+              Complete Days
+            </h2>
+            <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+              Trends only average days that meet both minimums; days with less logged show as partial
+            </p>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="minEntries" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Minimum entries
+                </label>
+                <input
+                  id="minEntries"
+                  type="number"
+                  min="0"
+                  max="20"
+                  value={minEntries}
+                  onChange={(e) => setMinEntries(e.target.value)}
+                  className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                />
+              </div>
+              <div>
+                <label htmlFor="minCalories" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Minimum calories
+                </label>
+                <input
+                  id="minCalories"
+                  type="number"
+                  min="0"
+                  max="5000"
+                  step="50"
+                  value={minCalories}
+                  onChange={(e) => setMinCalories(e.target.value)}
+                  className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                />
+              </div>
             </div>
           </section>
 
@@ -353,6 +670,119 @@ export default function SettingsPage() {
             {saving ? 'Saving...' : 'Save Changes'}
           </button>
         </form>
+
+        {/* Devices Section */}
+        <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Devices
+          </h2>
+          <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+            Devices currently signed in to your account
+          </p>
+          <ul className="mb-4 divide-y divide-zinc-100 dark:divide-zinc-800">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between py-3">
+                <div>
+                  <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                    {session.device_label || 'Unknown device'}
+                    {session.current && (
+                      <span className="ml-2 text-xs font-normal text-blue-600 dark:text-blue-400">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    Last active {new Date(session.last_seen_at).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleSignOutDevice(session)}
+                  className="text-sm text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+                >
+                  Sign out
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleSignOutAll}
+            disabled={signingOut}
+            className="w-full rounded-lg border border-red-300 px-4 py-2.5 text-sm font-medium text-red-600 transition-colors hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50 dark:border-red-900 dark:text-red-400 dark:hover:bg-red-950"
+          >
+            {signingOut ? 'Signing out...' : 'Sign out all devices'}
+          </button>
+        </section>
+
+        <SavedMeals />
+
+        <CustomFoods />
+
+        <Recipes />
+
+        {/* Export Section */}
+        <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Export Data
+          </h2>
+          <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+            Download your food log. CSV has one row per food item; JSON also includes settings and activity. Leave the dates empty to export everything.
+          </p>
+          <div className="mb-4 grid grid-cols-3 gap-4">
+            <div>
+              <label htmlFor="export-format" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                Format
+              </label>
+              <select
+                id="export-format"
+                value={exportFormat}
+                onChange={(e) => setExportFormat(e.target.value as 'csv' | 'json')}
+                className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="export-from" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                From
+              </label>
+              <input
+                id="export-from"
+                type="date"
+                value={exportFrom}
+                onChange={(e) => setExportFrom(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+              />
+            </div>
+            <div>
+              <label htmlFor="export-to" className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                To
+              </label>
+              <input
+                id="export-to"
+                type="date"
+                value={exportTo}
+                onChange={(e) => setExportTo(e.target.value)}
+                className="mt-1 block w-full rounded-lg border border-zinc-300 px-4 py-2.5 text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+              />
+            </div>
+          </div>
+          <a
+            href={`/api/export?${new URLSearchParams({
+              format: exportFormat,
+              ...(exportFrom && { from: exportFrom }),
+              ...(exportTo && { to: exportTo }),
+            })}`}
+            download
+            className="block w-full rounded-lg bg-blue-600 px-4 py-2.5 text-center text-sm font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            Download
+          </a>
+        </section>
+
+        <ImportData />
       </main>
     </div>
   );
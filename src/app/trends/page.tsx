@@ -16,34 +16,86 @@ import {
   ComposedChart,
   Bar,
 } from 'recharts';
+import type { AdaptiveTDEE, MealSlot, TDEECalculation } from '@/types/nutrition';
+import { getNutrient, roundNutrient, type NutrientKey, type NutrientRange, type NutrientReference } from '@/lib/nutrients';
+import type { CompletenessRule, Coverage, DayStatus, Streaks } from '@/lib/completeness';
 
-interface ChartDataPoint {
+type ChartDataPoint = Record<NutrientKey, number> & {
   date: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fat: number;
-  saturatedFat: number;
-  fiber: number;
-  addedSugar: number;
-  sodium: number;
+  ranges: Record<NutrientKey, NutrientRange>;
+  entryCount: number;
+  status: DayStatus;
   tdee: number | null;
   targetCalories: number | null;
   targetProtein: number | null;
   deficit: number | null;
   proteinPercent: number | null;
-}
+};
 
 interface Averages {
   avgCalories: number;
   avgProtein: number;
+  avgFat: number;
+  avgCarbs: number;
   avgDeficit: number | null;
+  avgDeficitRange: NutrientRange | null;
   avgProteinPercent: number | null;
-  avgSaturatedFat: number;
-  avgAddedSugar: number;
-  avgSodium: number;
-  avgFiber: number;
+  avgNutrients: Record<NutrientKey, number>;
+  avgRanges: Record<NutrientKey, NutrientRange>;
   daysTracked: number;
+  coverage: Coverage;
+}
+
+interface WeightPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number;
+}
+
+interface MealTiming {
+  days: number;
+  bySlot: { slot: MealSlot | 'unassigned'; calories: number; percent: number }[];
+  byHour: { hour: number; calories: number }[];
+}
+
+const STATUS_STYLES: Record<DayStatus, { label: string; className: string }> = {
+  logged: { label: 'Complete', className: 'bg-green-500' },
+  partial: { label: 'Partly logged', className: 'bg-amber-400' },
+  unlogged: { label: 'Not logged', className: 'bg-zinc-200 dark:bg-zinc-700' },
+};
+
+const SLOT_LABELS: Record<MealTiming['bySlot'][number]['slot'], string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snacks',
+  unassigned: 'No meal set',
+};
+
+// Where a nutrient chart draws its guideline: the ideal limit where there is
+// one (sodium), else the limit or target
+function referenceLine(reference: NutrientReference | undefined): number | null {
+  if (!reference) return null;
+  return reference.type === 'limit' ? reference.warning ?? reference.limit : reference.target;
+}
+
+function referenceLabel(reference: NutrientReference): string {
+  return reference.type === 'limit' ? `<${referenceLine(reference)}` : `>${reference.target}`;
+}
+
+// A nutrient's daily 90% range, as a pair Recharts shades between
+function rangeOf(key: NutrientKey) {
+  return (d: ChartDataPoint) => [d.ranges[key].low, d.ranges[key].high];
+}
+
+// Tooltip text for a value, or a range's low–high
+function formatTooltipValue(value: number | number[] | undefined, format: (value: number) => string | number): string {
+  return Array.isArray(value) ? `${format(value[0])}–${format(value[1])}` : String(format(value || 0));
+}
+
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'am' : 'pm';
+  return `${hour % 12 === 0 ? 12 : hour % 12}${suffix}`;
 }
 
 interface TrendsData {
@@ -52,15 +104,25 @@ interface TrendsData {
     week: Averages | null;
     month: Averages | null;
   };
-  recommendations: {
-    saturatedFatLimit: number;
-    addedSugarLimit: number;
-    sodiumLimit: number;
-    fiberTarget: number;
+  tracking: {
+    rule: CompletenessRule;
+    coverage: Coverage;
+    streaks: Streaks;
+  };
+  recommendations: Partial<Record<NutrientKey, NutrientReference>>;
+  nutrients: NutrientKey[];
+  weights: WeightPoint[];
+  mealTiming: MealTiming;
+  maintenance: {
+    formula: TDEECalculation | null;
+    adaptive: AdaptiveTDEE | null;
   };
   settings: {
+    targetCalories: number | null;
     targetProtein: number | null;
-    calorieDeficit: number;
+    targetFat: number | null;
+    targetCarbs: number | null;
+    calorieDeficit: number | null;
   } | null;
 }
 
@@ -114,7 +176,12 @@ export default function TrendsPage() {
     );
   }
 
-  const { chartData, averages, recommendations, settings } = data;
+  const { averages, tracking, recommendations, nutrients, weights, maintenance, settings } = data;
+  // Charts leave out days with nothing logged rather than plotting them as zero
+  const chartData = data.chartData.filter(d => d.status !== 'unlogged');
+  // Averages only count complete days, so say how many there were
+  const periodLabel = (period: string, stats: Averages | null) =>
+    stats ? `${period} · ${stats.coverage.logged}/${stats.coverage.days} complete` : period;
 
   return (
     <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
@@ -166,7 +233,7 @@ export default function TrendsPage() {
         <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
           <StatCard
             label="Avg Daily Deficit"
-            period="7 days"
+            period={periodLabel('7 days', averages.week)}
             value={averages.week?.avgDeficit}
             unit="kcal"
             isGood={(v) => v !== null && v > 0}
@@ -174,7 +241,7 @@ export default function TrendsPage() {
           />
           <StatCard
             label="Avg Daily Deficit"
-            period="30 days"
+            period={periodLabel('30 days', averages.month)}
             value={averages.month?.avgDeficit}
             unit="kcal"
             isGood={(v) => v !== null && v > 0}
@@ -182,20 +249,164 @@ export default function TrendsPage() {
           />
           <StatCard
             label="Protein Goal"
-            period="7 days"
+            period={periodLabel('7 days', averages.week)}
             value={averages.week?.avgProteinPercent}
             unit="%"
             isGood={(v) => v !== null && v >= 100}
           />
           <StatCard
             label="Protein Goal"
-            period="30 days"
+            period={periodLabel('30 days', averages.month)}
             value={averages.month?.avgProteinPercent}
             unit="%"
             isGood={(v) => v !== null && v >= 100}
           />
         </div>
 
+        {/* Tracking */}
+        <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-2 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Tracking
+          </h2>
+          <p className="mb-4 text-xs text-zinc-500">
+            A day is complete with at least {tracking.rule.minEntries} {tracking.rule.minEntries === 1 ? 'entry' : 'entries'} and {tracking.rule.minCalories} kcal logged. Averages only count complete days.
+          </p>
+          <div className="mb-4 grid grid-cols-3 gap-4">
+            <div>
+              <p className="text-xs text-zinc-500">Complete days</p>
+              <p className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100">
+                {tracking.coverage.logged}
+                <span className="text-sm font-normal text-zinc-500">/{tracking.coverage.days}</span>
+              </p>
+              <p className="text-xs text-zinc-500">{tracking.coverage.percent}% · {tracking.coverage.partial} partial</p>
+            </div>
+            <div>
+              <p className="text-xs text-zinc-500">Current streak</p>
+              <p className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100">
+                {tracking.streaks.current}
+                <span className="text-sm font-normal text-zinc-500"> days</span>
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-zinc-500">Longest streak</p>
+              <p className="text-2xl font-semibold text-zinc-900 dark:text-zinc-100">
+                {tracking.streaks.longest}
+                <span className="text-sm font-normal text-zinc-500"> days</span>
+              </p>
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {data.chartData.map((d) => (
+              <div
+                key={d.date}
+                title={`${formatDate(d.date)}: ${STATUS_STYLES[d.status].label} (${d.entryCount} ${d.entryCount === 1 ? 'entry' : 'entries'}, ${Math.round(d.calories)} kcal)`}
+                className={`h-4 w-4 rounded-sm ${STATUS_STYLES[d.status].className}`}
+              />
+            ))}
+          </div>
+        </section>
+
+        {/* Maintenance Calories */}
+        <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-2 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Maintenance Calories
+          </h2>
+          <p className="mb-4 text-xs text-zinc-500">
+            Formula uses Mifflin-St Jeor; observed compares your weight trend with logged intake
+            {maintenance.adaptive && ` over the last ${maintenance.adaptive.window_days} days`}
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="rounded-xl bg-zinc-100 p-4 dark:bg-zinc-800/50">
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Formula TDEE</p>
+              {maintenance.formula ? (
+                <>
+                  <p className="mt-1 text-2xl font-bold text-zinc-800 dark:text-zinc-100">
+                    {maintenance.formula.tdee}
+                    <span className="text-sm font-normal text-zinc-400 ml-1">kcal</span>
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {maintenance.formula.tdee_low}–{maintenance.formula.tdee_high} range
+                  </p>
+                </>
+              ) : (
+                <p className="mt-1 text-sm text-zinc-400">Add body stats in settings</p>
+              )}
+            </div>
+            <div className="rounded-xl bg-zinc-100 p-4 dark:bg-zinc-800/50">
+              <p className="text-xs text-zinc-500 dark:text-zinc-400">Observed TDEE</p>
+              {maintenance.adaptive ? (
+                <>
+                  <p className="mt-1 text-2xl font-bold text-zinc-800 dark:text-zinc-100">
+                    {maintenance.adaptive.tdee}
+                    <span className="text-sm font-normal text-zinc-400 ml-1">kcal</span>
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {maintenance.adaptive.tdee_low}–{maintenance.adaptive.tdee_high} range
+                  </p>
+                  <p className="mt-1 text-[10px] text-zinc-400">
+                    {maintenance.adaptive.weigh_ins} weigh-ins · {maintenance.adaptive.intake_days} logged days ·{' '}
+                    {maintenance.adaptive.weight_change_kg_per_week > 0 ? '+' : ''}
+                    {maintenance.adaptive.weight_change_kg_per_week} kg/week
+                  </p>
+                </>
+              ) : (
+                <p className="mt-1 text-sm text-zinc-400">
+                  Not enough data yet. Log your weight most days for two weeks.
+                </p>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {/* Weight Chart */}
+        <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Weight
+          </h2>
+          {weights.length === 0 ? (
+            <p className="py-12 text-center text-zinc-500">No weigh-ins for this period</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={200}>
+              <ComposedChart data={weights} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={formatDate}
+                  tick={{ fontSize: 12, fill: '#71717a' }}
+                />
+                <YAxis tick={{ fontSize: 12, fill: '#71717a' }} domain={['auto', 'auto']} />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: '#18181b',
+                    border: '1px solid #27272a',
+                    borderRadius: '8px',
+                  }}
+                  labelFormatter={formatTooltipLabel}
+                  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                  formatter={(value: any, name: any) => [Number(value).toFixed(1) + ' kg', name]}
+                />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="weight_kg"
+                  stroke="#94a3b8"
+                  strokeWidth={0}
+                  dot={{ fill: '#94a3b8', r: 3 }}
+                  name="Weigh-in"
+                />
+                <Line
+                  type="monotone"
+                  dataKey="trend_kg"
+                  stroke="#0ea5e9"
+                  strokeWidth={2}
+                  dot={false}
+                  name="Trend"
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </section>
+
         {/* Main Calories Chart */}
         <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
           <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
@@ -231,7 +442,7 @@ export default function TrendsPage() {
                       targetCalories: 'Target',
                       deficit: 'Deficit',
                     };
-                    return [Math.round(value || 0) + ' kcal', labels[name] || name];
+                    return [formatTooltipValue(value, Math.round) + ' kcal', labels[name] || name];
                   }}
                 />
                 <Legend />
@@ -260,6 +471,15 @@ export default function TrendsPage() {
                   name="Target"
                   connectNulls
                 />
+                <Area
+                  type="monotone"
+                  dataKey={rangeOf('calories')}
+                  fill="#3b82f6"
+                  fillOpacity={0.15}
+                  stroke="none"
+                  name="90% range"
+                  connectNulls
+                />
                 <Line
                   type="monotone"
                   dataKey="calories"
@@ -284,7 +504,7 @@ export default function TrendsPage() {
             <p className="py-12 text-center text-zinc-500">No data for this period</p>
           ) : (
             <ResponsiveContainer width="100%" height={200}>
-              <ComposedChart data={chartData.map(d => ({ ...d, proteinTarget: settings?.targetProtein }))} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
+              <ComposedChart data={chartData.map(d => ({ ...d, proteinTarget: d.targetProtein ?? settings?.targetProtein }))} margin={{ top: 5, right: 20, bottom: 5, left: 0 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
                 <XAxis 
                   dataKey="date" 
@@ -300,7 +520,7 @@ export default function TrendsPage() {
                   }}
                   labelFormatter={formatTooltipLabel}
                   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                  formatter={(value: any, name: any) => [Math.round(value || 0) + 'g', name]}
+                  formatter={(value: any, name: any) => [formatTooltipValue(value, Math.round) + 'g', name]}
                 />
                 <Legend />
                 <Line
@@ -313,6 +533,15 @@ export default function TrendsPage() {
                   name="Target"
                   connectNulls
                 />
+                <Area
+                  type="monotone"
+                  dataKey={rangeOf('protein')}
+                  fill="#22c55e"
+                  fillOpacity={0.15}
+                  stroke="none"
+                  name="90% range"
+                  connectNulls
+                />
                 <Line
                   type="monotone"
                   dataKey="protein"
@@ -327,120 +556,92 @@ export default function TrendsPage() {
           )}
         </section>
 
-        {/* Limits Charts */}
-        <div className="grid gap-6 sm:grid-cols-2">
-          {/* Saturated Fat */}
-          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
-            <h2 className="mb-2 text-base font-medium text-zinc-900 dark:text-zinc-100">
-              Saturated Fat
-            </h2>
-            <p className="mb-4 text-xs text-zinc-500">Limit: &lt;{recommendations.saturatedFatLimit}g/day</p>
-            {chartData.length === 0 ? (
-              <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
-            ) : (
-              <ResponsiveContainer width="100%" height={150}>
-                <ComposedChart data={chartData.map(d => ({ ...d, satFatLimit: recommendations.saturatedFatLimit }))} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
-                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <YAxis tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px' }}
-                    labelFormatter={formatTooltipLabel}
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    formatter={(value: any, name: any) => [Math.round(value || 0) + 'g', name]}
-                  />
-                  <Legend wrapperStyle={{ fontSize: '10px' }} />
-                  <Line type="monotone" dataKey="satFatLimit" stroke="#7f1d1d" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Limit" connectNulls />
-                  <Line type="monotone" dataKey="saturatedFat" stroke="#ef4444" strokeWidth={2} dot={{ r: 2 }} name="Consumed" connectNulls />
-                </ComposedChart>
-              </ResponsiveContainer>
-            )}
-          </section>
-
-          {/* Added Sugar */}
-          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
-            <h2 className="mb-2 text-base font-medium text-zinc-900 dark:text-zinc-100">
-              Added Sugar
-            </h2>
-            <p className="mb-4 text-xs text-zinc-500">Limit: &lt;{recommendations.addedSugarLimit}g/day</p>
-            {chartData.length === 0 ? (
-              <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
-            ) : (
-              <ResponsiveContainer width="100%" height={150}>
-                <ComposedChart data={chartData.map(d => ({ ...d, sugarLimit: recommendations.addedSugarLimit }))} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
-                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <YAxis tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px' }}
-                    labelFormatter={formatTooltipLabel}
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    formatter={(value: any, name: any) => [Math.round(value || 0) + 'g', name]}
-                  />
-                  <Legend wrapperStyle={{ fontSize: '10px' }} />
-                  <Line type="monotone" dataKey="sugarLimit" stroke="#831843" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Limit" connectNulls />
-                  <Line type="monotone" dataKey="addedSugar" stroke="#ec4899" strokeWidth={2} dot={{ r: 2 }} name="Consumed" connectNulls />
-                </ComposedChart>
-              </ResponsiveContainer>
-            )}
-          </section>
-
-          {/* Sodium */}
-          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
-            <h2 className="mb-2 text-base font-medium text-zinc-900 dark:text-zinc-100">
-              Sodium
-            </h2>
-            <p className="mb-4 text-xs text-zinc-500">Limit: &lt;{recommendations.sodiumLimit}mg/day</p>
-            {chartData.length === 0 ? (
-              <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
-            ) : (
-              <ResponsiveContainer width="100%" height={150}>
-                <ComposedChart data={chartData.map(d => ({ ...d, sodiumLimit: recommendations.sodiumLimit }))} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
-                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <YAxis tick={{ fontSize: 10, fill: '#71717a' }} />
-                  <Tooltip
-                    contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px' }}
-                    labelFormatter={formatTooltipLabel}
-                    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    formatter={(value: any, name: any) => [Math.round(value || 0) + 'mg', name]}
-                  />
-                  <Legend wrapperStyle={{ fontSize: '10px' }} />
-                  <Line type="monotone" dataKey="sodiumLimit" stroke="#581c87" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Limit" connectNulls />
-                  <Line type="monotone" dataKey="sodium" stroke="#a855f7" strokeWidth={2} dot={{ r: 2 }} name="Consumed" connectNulls />
-                </ComposedChart>
-              </ResponsiveContainer>
-            )}
-          </section>
-
-          {/* Fiber */}
-          <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
-            <h2 className="mb-2 text-base font-medium text-zinc-900 dark:text-zinc-100">
-              Fiber
-            </h2>
-            <p className="mb-4 text-xs text-zinc-500">Target: &gt;{recommendations.fiberTarget}g/day</p>
-            {chartData.length === 0 ? (
-              <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
-            ) : (
-              <ResponsiveContainer width="100%" height={150}>
-                <ComposedChart data={chartData.map(d => ({ ...d, fiberTarget: recommendations.fiberTarget }))} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+        {/* Limits and targets of the user's dashboard nutrients */}
+        {nutrients.length > 0 && (
+          <div className="grid gap-6 sm:grid-cols-2">
+            {nutrients.map((key) => {
+              const nutrient = getNutrient(key);
+              const reference = recommendations[key];
+              const line = referenceLine(reference);
+              return (
+                <section key={key} className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+                  <h2 className="mb-2 text-base font-medium text-zinc-900 dark:text-zinc-100">
+                    {nutrient.label}
+                  </h2>
+                  <p className="mb-4 text-xs text-zinc-500">
+                    {reference
+                      ? `${reference.type === 'limit' ? 'Limit' : 'Target'}: ${referenceLabel(reference)}${nutrient.unit}/day`
+                      : 'No daily guideline'}
+                  </p>
+                  {chartData.length === 0 ? (
+                    <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={150}>
+                      <ComposedChart data={chartData.map(d => ({ ...d, reference: line }))} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
+                        <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 10, fill: '#71717a' }} />
+                        <YAxis tick={{ fontSize: 10, fill: '#71717a' }} />
+                        <Tooltip
+                          contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px' }}
+                          labelFormatter={formatTooltipLabel}
+                          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+                          formatter={(value: any, name: any) => [formatTooltipValue(value, (v) => roundNutrient(key, v)) + nutrient.unit, name]}
+                        />
+                        <Legend wrapperStyle={{ fontSize: '10px' }} />
+                        {reference && (
+                          <Line type="monotone" dataKey="reference" stroke={nutrient.referenceColor} strokeWidth={2} strokeDasharray="5 5" dot={false} name={reference.type === 'limit' ? 'Limit' : 'Target'} connectNulls />
+                        )}
+                        <Area type="monotone" dataKey={rangeOf(key)} fill={nutrient.color} fillOpacity={0.15} stroke="none" name="90% range" connectNulls />
+                        <Line type="monotone" dataKey={key} stroke={nutrient.color} strokeWidth={2} dot={{ r: 2 }} name="Consumed" connectNulls />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  )}
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {/* Meal Timing */}
+        <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+          <h2 className="mb-2 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+            Meal Timing
+          </h2>
+          <p className="mb-4 text-xs text-zinc-500">
+            Average calories per logged day by hour eaten. Entries without a time are placed when they were logged.
+          </p>
+          {data.mealTiming.days === 0 ? (
+            <p className="py-8 text-center text-zinc-500 text-sm">No data</p>
+          ) : (
+            <>
+              <ResponsiveContainer width="100%" height={180}>
+                <ComposedChart data={data.mealTiming.byHour} margin={{ top: 5, right: 10, bottom: 5, left: -10 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#27272a" opacity={0.3} />
-                  <XAxis dataKey="date" tickFormatter={formatDate} tick={{ fontSize: 10, fill: '#71717a' }} />
+                  <XAxis dataKey="hour" tickFormatter={formatHour} interval={2} tick={{ fontSize: 10, fill: '#71717a' }} />
                   <YAxis tick={{ fontSize: 10, fill: '#71717a' }} />
                   <Tooltip
                     contentStyle={{ backgroundColor: '#18181b', border: '1px solid #27272a', borderRadius: '8px' }}
-                    labelFormatter={formatTooltipLabel}
+                    labelFormatter={(hour) => formatHour(Number(hour))}
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                    formatter={(value: any, name: any) => [Math.round(value || 0) + 'g', name]}
+                    formatter={(value: any) => [Math.round(value || 0) + ' kcal', 'Calories']}
                   />
-                  <Legend wrapperStyle={{ fontSize: '10px' }} />
-                  <Line type="monotone" dataKey="fiberTarget" stroke="#065f46" strokeWidth={2} strokeDasharray="5 5" dot={false} name="Target" connectNulls />
-                  <Line type="monotone" dataKey="fiber" stroke="#10b981" strokeWidth={2} dot={{ r: 2 }} name="Consumed" connectNulls />
+                  <Bar dataKey="calories" fill="#3b82f6" radius={[4, 4, 0, 0]} />
                 </ComposedChart>
               </ResponsiveContainer>
-            )}
-          </section>
-        </div>
+              <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-5">
+                {data.mealTiming.bySlot
+                  .filter((slot) => slot.slot !== 'unassigned' || slot.calories > 0)
+                  .map((slot) => (
+                    <div key={slot.slot} className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800/50">
+                      <p className="text-xs text-zinc-500">{SLOT_LABELS[slot.slot]}</p>
+                      <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{slot.calories} kcal</p>
+                      <p className="text-xs text-zinc-500">{slot.percent}%</p>
+                    </div>
+                  ))}
+              </div>
+            </>
+          )}
+        </section>
 
         {/* Detailed Averages */}
         <section className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
@@ -460,56 +661,59 @@ export default function TrendsPage() {
               <tbody className="divide-y divide-zinc-100 dark:divide-zinc-800">
                 <tr>
                   <td className="py-2 text-zinc-700 dark:text-zinc-300">Calories</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgCalories ?? '—'}</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgCalories ?? '—'}</td>
-                  <td className="py-2 text-right text-zinc-500">—</td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgCalories ?? '—'}<AverageRange range={averages.week?.avgRanges.calories} format={Math.round} /></td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgCalories ?? '—'}<AverageRange range={averages.month?.avgRanges.calories} format={Math.round} /></td>
+                  <td className="py-2 text-right text-zinc-500">{settings?.targetCalories ?? '—'}</td>
                 </tr>
                 <tr>
                   <td className="py-2 text-zinc-700 dark:text-zinc-300">Protein</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgProtein ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgProtein ?? '—'}g</td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgProtein ?? '—'}g<AverageRange range={averages.week?.avgRanges.protein} format={Math.round} unit="g" /></td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgProtein ?? '—'}g<AverageRange range={averages.month?.avgRanges.protein} format={Math.round} unit="g" /></td>
                   <td className="py-2 text-right text-zinc-500">{settings?.targetProtein ?? '—'}g</td>
                 </tr>
+                <tr>
+                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Fat</td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgFat ?? '—'}g<AverageRange range={averages.week?.avgRanges.fat} format={Math.round} unit="g" /></td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgFat ?? '—'}g<AverageRange range={averages.month?.avgRanges.fat} format={Math.round} unit="g" /></td>
+                  <td className="py-2 text-right text-zinc-500">{settings?.targetFat ?? '—'}g</td>
+                </tr>
+                <tr>
+                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Carbs</td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgCarbs ?? '—'}g<AverageRange range={averages.week?.avgRanges.carbs} format={Math.round} unit="g" /></td>
+                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgCarbs ?? '—'}g<AverageRange range={averages.month?.avgRanges.carbs} format={Math.round} unit="g" /></td>
+                  <td className="py-2 text-right text-zinc-500">{settings?.targetCarbs ?? '—'}g</td>
+                </tr>
                 <tr>
                   <td className="py-2 text-zinc-700 dark:text-zinc-300">Caloric Deficit</td>
                   <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">
                     {averages.week && averages.week.avgDeficit !== null 
                       ? (averages.week.avgDeficit > 0 ? '+' : '') + averages.week.avgDeficit 
                       : '—'}
+                    <AverageRange range={averages.week?.avgDeficitRange ?? undefined} format={Math.round} />
                   </td>
                   <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">
                     {averages.month && averages.month.avgDeficit !== null 
                       ? (averages.month.avgDeficit > 0 ? '+' : '') + averages.month.avgDeficit 
                       : '—'}
+                    <AverageRange range={averages.month?.avgDeficitRange ?? undefined} format={Math.round} />
                   </td>
                   <td className="py-2 text-right text-zinc-500">{settings?.calorieDeficit ?? '—'}</td>
                 </tr>
+                {nutrients.map((key) => {
+                  const { shortLabel, unit } = getNutrient(key);
+                  const reference = recommendations[key];
+                  const average = (value: number | undefined) => (value === undefined ? '—' : roundNutrient(key, value));
+                  return (
+                    <tr key={key}>
+                      <td className="py-2 text-zinc-700 dark:text-zinc-300">{shortLabel}</td>
+                      <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{average(averages.week?.avgNutrients[key])}{unit}<AverageRange range={averages.week?.avgRanges[key]} format={(v) => roundNutrient(key, v)} unit={unit} /></td>
+                      <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{average(averages.month?.avgNutrients[key])}{unit}<AverageRange range={averages.month?.avgRanges[key]} format={(v) => roundNutrient(key, v)} unit={unit} /></td>
+                      <td className="py-2 text-right text-zinc-500">{reference ? `${referenceLabel(reference)}${unit}` : '—'}</td>
+                    </tr>
+                  );
+                })}
                 <tr>
-                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Sat. Fat</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgSaturatedFat ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgSaturatedFat ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-500">&lt;{recommendations.saturatedFatLimit}g</td>
-                </tr>
-                <tr>
-                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Added Sugar</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgAddedSugar ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgAddedSugar ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-500">&lt;{recommendations.addedSugarLimit}g</td>
-                </tr>
-                <tr>
-                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Sodium</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgSodium ?? '—'}mg</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgSodium ?? '—'}mg</td>
-                  <td className="py-2 text-right text-zinc-500">&lt;{recommendations.sodiumLimit}mg</td>
-                </tr>
-                <tr>
-                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Fiber</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.avgFiber ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.avgFiber ?? '—'}g</td>
-                  <td className="py-2 text-right text-zinc-500">&gt;{recommendations.fiberTarget}g</td>
-                </tr>
-                <tr>
-                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Days Tracked</td>
+                  <td className="py-2 text-zinc-700 dark:text-zinc-300">Complete Days</td>
                   <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.week?.daysTracked ?? 0}</td>
                   <td className="py-2 text-right text-zinc-900 dark:text-zinc-100">{averages.month?.daysTracked ?? 0}</td>
                   <td className="py-2 text-right text-zinc-500">—</td>
@@ -523,6 +727,20 @@ export default function TrendsPage() {
   );
 }
 
+// An average's 90% range, under its value
+function AverageRange({ range, format, unit = '' }: {
+  range: NutrientRange | undefined;
+  format: (value: number) => string | number;
+  unit?: string;
+}) {
+  if (!range) return null;
+  return (
+    <span className="block text-[10px] text-zinc-400 dark:text-zinc-500">
+      {format(range.low)}–{format(range.high)}{unit}
+    </span>
+  );
+}
+
 interface StatCardProps {
   label: string;
   period: string;
@@ -0,0 +1,160 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface SourceEntry {
+  id: string;
+  raw_text: string;
+  entry_items: { calories: number }[];
+}
+
+interface CopyEntriesProps {
+  targetDate: string;
+  today: string;
+  onCopied: () => void;
+  onClose: () => void;
+}
+
+function previousDay(date: string): string {
+  const d = new Date(date + 'T00:00:00Z');
+  d.setUTCDate(d.getUTCDate() - 1);
+  return d.toISOString().split('T')[0];
+}
+
+/**
+ * Pick a day and copy some or all of its entries onto targetDate
+ */
+export function CopyEntries({ targetDate, today, onCopied, onClose }: CopyEntriesProps) {
+  const [sourceDate, setSourceDate] = useState(previousDay(targetDate));
+  const [entries, setEntries] = useState<SourceEntry[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [copying, setCopying] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!sourceDate) return;
+    let cancelled = false;
+
+    const fetchSourceEntries = async () => {
+      setLoading(true);
+      setError('');
+      try {
+        const res = await fetch(`/api/entries?date=${sourceDate}`);
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to fetch entries');
+        if (cancelled) return;
+        const fetched: SourceEntry[] = [...(data.entries || [])].reverse(); // oldest first
+        setEntries(fetched);
+        setSelected(new Set(fetched.map((entry) => entry.id)));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to fetch entries');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchSourceEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceDate]);
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const handleCopy = async () => {
+    if (selected.size === 0) return;
+    setCopying(true);
+    setError('');
+    try {
+      const res = await fetch('/api/entries/copy', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from_date: sourceDate,
+          to_date: targetDate,
+          entry_ids: selected.size === entries.length ? undefined : [...selected],
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to copy entries');
+      onCopied();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy entries');
+    } finally {
+      setCopying(false);
+    }
+  };
+
+  return (
+    <div className="mb-4 rounded-xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+          Copy from
+          <input
+            type="date"
+            value={sourceDate}
+            max={today}
+            onChange={(e) => setSourceDate(e.target.value)}
+            className="rounded-lg border border-zinc-300 px-2 py-1 text-sm text-zinc-900 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+          />
+        </label>
+        <button
+          onClick={onClose}
+          className="rounded px-2 py-1 text-sm text-zinc-500 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="mt-3 text-sm text-zinc-400">Loading...</p>
+      ) : entries.length === 0 ? (
+        <p className="mt-3 text-sm text-zinc-400 dark:text-zinc-500">Nothing logged on that day.</p>
+      ) : (
+        <>
+          <ul className="mt-3 space-y-1">
+            {entries.map((entry) => (
+              <li key={entry.id}>
+                <label className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(entry.id)}
+                    onChange={() => toggle(entry.id)}
+                    className="rounded border-zinc-300 dark:border-zinc-600"
+                  />
+                  <span className="flex-1 truncate">{entry.raw_text}</span>
+                  <span className="text-xs text-zinc-400">
+                    {Math.round(entry.entry_items.reduce((sum, item) => sum + item.calories, 0))} kcal
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleCopy}
+            disabled={copying || selected.size === 0 || sourceDate === targetDate}
+            className="mt-3 w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {copying ? 'Copying...' : `Copy ${selected.size} entr${selected.size === 1 ? 'y' : 'ies'}`}
+          </button>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
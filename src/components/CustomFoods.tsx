@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { NUTRIENT_INPUTS, type NutrientField } from '@/lib/nutrients';
+
+const NUTRIENTS = NUTRIENT_INPUTS;
+
+type Nutrient = NutrientField;
+type NutrientValues = Record<Nutrient, number>;
+
+interface CustomFood {
+  id: string;
+  name: string;
+  aliases: string[];
+  serving_description: string | null;
+  serving_grams: number | null;
+  per_serving: NutrientValues | null;
+  per_100g: NutrientValues | null;
+}
+
+interface Draft {
+  name: string;
+  aliases: string;
+  serving_description: string;
+  serving_grams: string;
+  per_serving: Record<Nutrient, string>;
+  per_100g: Record<Nutrient, string>;
+}
+
+function draftValues(values: NutrientValues | null): Record<Nutrient, string> {
+  return Object.fromEntries(
+    NUTRIENTS.map(({ field }) => [field, values ? String(values[field] ?? '') : ''])
+  ) as Record<Nutrient, string>;
+}
+
+function draftFrom(food?: CustomFood): Draft {
+  return {
+    name: food?.name ?? '',
+    aliases: food?.aliases.join(', ') ?? '',
+    serving_description: food?.serving_description ?? '',
+    serving_grams: food?.serving_grams?.toString() ?? '',
+    per_serving: draftValues(food?.per_serving ?? null),
+    per_100g: draftValues(food?.per_100g ?? null),
+  };
+}
+
+// A column of the nutrient table, or null when it was left blank
+function columnValues(column: Record<Nutrient, string>): Partial<NutrientValues> | null {
+  const entered = NUTRIENTS.filter(({ field }) => column[field].trim() !== '');
+  if (entered.length === 0) return null;
+  return Object.fromEntries(entered.map(({ field }) => [field, parseFloat(column[field])]));
+}
+
+const inputClass =
+  'block w-full rounded border border-zinc-300 px-2 py-1 text-sm dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100';
+
+/**
+ * Settings section for the user's custom foods: foods mentioned by name or
+ * alias in a description are logged with these values instead of estimates
+ */
+export function CustomFoods() {
+  const [foods, setFoods] = useState<CustomFood[]>([]);
+  // 'new' while adding a food, a food id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(draftFrom());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchFoods = async () => {
+      try {
+        const res = await fetch('/api/custom-foods');
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setFoods(data.foods || []);
+      } catch (err) {
+        console.error('Failed to fetch custom foods:', err);
+      }
+    };
+
+    fetchFoods();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startEditing = (food?: CustomFood) => {
+    setDraft(draftFrom(food));
+    setEditingId(food?.id ?? 'new');
+    setError('');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const body = {
+        name: draft.name,
+        aliases: draft.aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+        serving_description: draft.serving_description.trim() || null,
+        serving_grams: draft.serving_grams.trim() ? parseFloat(draft.serving_grams) : null,
+        per_serving: columnValues(draft.per_serving),
+        per_100g: columnValues(draft.per_100g),
+      };
+      const isNew = editingId === 'new';
+      const res = await fetch(isNew ? '/api/custom-foods' : `/api/custom-foods/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save custom food');
+
+      setFoods((prev) =>
+        [...prev.filter((food) => food.id !== data.food.id), data.food].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save custom food');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (food: CustomFood) => {
+    if (!confirm(`Delete the custom food "${food.name}"? Entries already logged with it are kept.`)) return;
+
+    try {
+      const res = await fetch(`/api/custom-foods/${food.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete custom food');
+      setFoods((prev) => prev.filter((f) => f.id !== food.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete custom food');
+    }
+  };
+
+  const setNutrient = (column: 'per_serving' | 'per_100g', field: Nutrient, value: string) => {
+    setDraft((prev) => ({ ...prev, [column]: { ...prev[column], [field]: value } }));
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">
+          Custom Foods
+        </h2>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => startEditing()}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            Add food
+          </button>
+        )}
+      </div>
+      <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+        Foods no estimate knows, like the cafeteria&apos;s burrito bowl. When a description mentions one by name or alias
+        (&ldquo;2 burrito bowls&rdquo;, &ldquo;300g burrito bowl&rdquo;), its values are used as entered.
+      </p>
+
+      {editingId !== null && (
+        <div className="mb-4 space-y-3 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800/50">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                maxLength={100}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              Aliases (comma separated)
+              <input
+                type="text"
+                value={draft.aliases}
+                onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                placeholder="e.g. cafeteria bowl"
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              One serving is
+              <input
+                type="text"
+                value={draft.serving_description}
+                onChange={(e) => setDraft({ ...draft, serving_description: e.target.value })}
+                placeholder="e.g. 1 bowl"
+                maxLength={100}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              Serving weight (g)
+              <input
+                type="number"
+                min="0"
+                value={draft.serving_grams}
+                onChange={(e) => setDraft({ ...draft, serving_grams: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400">
+                <th className="pb-1 font-medium">Nutrient</th>
+                <th className="pb-1 font-medium">Per serving</th>
+                <th className="pb-1 font-medium">Per 100 g</th>
+              </tr>
+            </thead>
+            <tbody>
+              {NUTRIENTS.map(({ field, label }) => (
+                <tr key={field}>
+                  <td className="py-0.5 pr-2 text-zinc-600 dark:text-zinc-400">{label}</td>
+                  {(['per_serving', 'per_100g'] as const).map((column) => (
+                    <td key={column} className="py-0.5 pr-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={draft[column][field]}
+                        onChange={(e) => setNutrient(column, field, e.target.value)}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500">
+            Fill in either column or both. Blank nutrients count as 0; calories are required.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded px-3 py-1.5 text-sm text-zinc-600 hover:bg-zinc-200 dark:text-zinc-400 dark:hover:bg-zinc-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              className="rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {foods.length === 0 ? (
+        editingId === null && <p className="text-sm text-zinc-400 dark:text-zinc-500">No custom foods yet.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100 border-t border-zinc-100 dark:divide-zinc-800 dark:border-zinc-800">
+          {foods.map((food) => (
+            <li key={food.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">{food.name}</p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {food.per_serving && `${Math.round(food.per_serving.calories)} kcal per ${food.serving_description || 'serving'}`}
+                  {food.per_serving && food.per_100g && ' · '}
+                  {food.per_100g && `${Math.round(food.per_100g.calories)} kcal per 100 g`}
+                  {food.aliases.length > 0 && ` · also "${food.aliases.join('", "')}"`}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => startEditing(food)}
+                  className="text-sm text-zinc-500 hover:text-blue-600 dark:text-zinc-400 dark:hover:text-blue-400"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(food)}
+                  className="text-sm text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </section>
+  );
+}
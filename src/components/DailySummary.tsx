@@ -1,69 +1,51 @@
 'use client';
 
-interface NutrientValue {
-  value: number;
-  low: number;
-  high: number;
-}
+import type { AdaptiveTDEE, TDEECalculation } from '@/types/nutrition';
+import { MIN_WEIGH_INS } from '@/lib/adaptive-tdee';
+import {
+  getNutrient,
+  nutrientReference,
+  roundNutrient,
+  type NutrientKey,
+  type NutrientReference,
+  type NutrientTotals,
+} from '@/lib/nutrients';
 
 interface DailySummaryProps {
-  calories: NutrientValue;
-  protein: NutrientValue;
-  saturatedFat: NutrientValue;
-  fiber: NutrientValue;
-  addedSugar: NutrientValue;
-  sodium: NutrientValue;
+  totals: NutrientTotals;
+  nutrients: NutrientKey[]; // cards below the macros, in order
   targetCalories?: number;
   targetProtein?: number;
+  targetFat?: number;
+  targetCarbs?: number;
   sex?: 'male' | 'female' | null;
-}
-
-// Recommended daily values based on nutrition guidelines
-function getRecommendations(targetCalories?: number, sex?: 'male' | 'female' | null) {
-  const cals = targetCalories || 2000;
-  const isMale = sex === 'male';
-  
-  return {
-    // Saturated fat: <10% of daily calories (9 cal/g of fat)
-    saturatedFat: {
-      limit: Math.round((cals * 0.10) / 9),
-      type: 'limit' as const,
-      tip: '<10% of calories',
-    },
-    // Sodium: <2750mg upper bound
-    sodium: {
-      limit: 2750,
-      warning: 2300,
-      type: 'limit' as const,
-      tip: '<2750mg (ideal <2300mg)',
-    },
-    // Added sugar: 25g women, 36g men (AHA)
-    addedSugar: {
-      limit: isMale ? 36 : 25,
-      type: 'limit' as const,
-      tip: isMale ? '<36g added sugar' : '<25g added sugar',
-    },
-    // Fiber: 38g men, 25g women
-    fiber: {
-      target: isMale ? 38 : 25,
-      type: 'target' as const,
-      tip: isMale ? '38g daily goal' : '25g daily goal',
-    },
+  // Chances, given the ranges, of being under target and in deficit
+  pUnderTarget?: number | null;
+  pDeficit?: number | null;
+  maintenance?: {
+    formula: TDEECalculation | null;
+    adaptive: AdaptiveTDEE | null;
   };
 }
 
 export function DailySummary({
-  calories,
-  protein,
-  saturatedFat,
-  fiber,
-  addedSugar,
-  sodium,
+  totals,
+  nutrients,
   targetCalories,
   targetProtein,
+  targetFat,
+  targetCarbs,
   sex,
+  pUnderTarget,
+  pDeficit,
+  maintenance,
 }: DailySummaryProps) {
-  const recs = getRecommendations(targetCalories, sex);
+  const { calories, protein, carbs, fat } = totals;
+
+  const likelihood = [
+    pUnderTarget != null && `${Math.round(pUnderTarget * 100)}% likely under target`,
+    pDeficit != null && `${Math.round(pDeficit * 100)}% likely in deficit`,
+  ].filter(Boolean).join(' · ');
 
   return (
     <div className="rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
@@ -81,6 +63,7 @@ export function DailySummary({
           target={targetCalories}
           unit="kcal"
           type="calories"
+          likelihood={likelihood}
         />
         <PrimaryCard
           label="Protein"
@@ -93,40 +76,116 @@ export function DailySummary({
         />
       </div>
 
-      {/* Secondary metrics - limits and targets */}
-      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
-        <SecondaryCard
-          label="Fiber"
-          value={fiber.value}
-          low={fiber.low}
-          high={fiber.high}
-          unit="g"
-          recommendation={recs.fiber}
-        />
-        <SecondaryCard
-          label="Added Sugar"
-          value={addedSugar.value}
-          low={addedSugar.low}
-          high={addedSugar.high}
-          unit="g"
-          recommendation={recs.addedSugar}
-        />
-        <SecondaryCard
-          label="Sat. Fat"
-          value={saturatedFat.value}
-          low={saturatedFat.low}
-          high={saturatedFat.high}
-          unit="g"
-          recommendation={recs.saturatedFat}
-        />
-        <SecondaryCard
-          label="Sodium"
-          value={sodium.value}
-          low={sodium.low}
-          high={sodium.high}
-          unit="mg"
-          recommendation={recs.sodium}
-        />
+      {/* Goal macros - within 10% of the target */}
+      {(targetFat || targetCarbs) && (
+        <div className="grid grid-cols-2 gap-3 mb-3">
+          <SecondaryCard
+            label="Fat"
+            value={fat.value}
+            low={fat.low}
+            high={fat.high}
+            unit="g"
+            recommendation={targetFat ? macroRange(targetFat) : undefined}
+          />
+          <SecondaryCard
+            label="Carbs"
+            value={carbs.value}
+            low={carbs.low}
+            high={carbs.high}
+            unit="g"
+            recommendation={targetCarbs ? macroRange(targetCarbs) : undefined}
+          />
+        </div>
+      )}
+
+      {/* Secondary metrics - the user's chosen nutrients with their limits and targets */}
+      {nutrients.length > 0 && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          {nutrients.map((key) => {
+            const nutrient = getNutrient(key);
+            return (
+              <SecondaryCard
+                key={key}
+                label={nutrient.shortLabel}
+                value={totals[key].value}
+                low={totals[key].low}
+                high={totals[key].high}
+                unit={nutrient.unit}
+                recommendation={nutrientReference(key, { sex, targetCalories }) ?? undefined}
+                format={(value) => roundNutrient(key, value)}
+              />
+            );
+          })}
+        </div>
+      )}
+
+      {maintenance && (maintenance.formula || maintenance.adaptive) && (
+        <MaintenanceRow formula={maintenance.formula} adaptive={maintenance.adaptive} />
+      )}
+
+      {maintenance?.formula && maintenance.formula.goal_warnings.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-amber-600 dark:text-amber-400">
+          {maintenance.formula.goal_warnings.map((warning) => (
+            <li key={warning}>{warning}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function macroRange(target: number): Recommendation {
+  return {
+    type: 'range',
+    min: Math.round(target * 0.9),
+    max: Math.round(target * 1.1),
+    tip: `${target}g goal`,
+  };
+}
+
+interface MaintenanceRowProps {
+  formula: TDEECalculation | null;
+  adaptive: AdaptiveTDEE | null;
+}
+
+// Formula (Mifflin-St Jeor) vs observed (weight trend) maintenance calories
+function MaintenanceRow({ formula, adaptive }: MaintenanceRowProps) {
+  return (
+    <div className="mt-4 grid grid-cols-2 gap-3 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+      <div>
+        <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Formula TDEE</p>
+        {formula ? (
+          <>
+            <p className="text-lg font-semibold text-zinc-700 dark:text-zinc-200">
+              {formula.tdee}
+              <span className="text-xs font-normal text-zinc-400 ml-0.5">kcal</span>
+            </p>
+            <p className="text-[10px] text-zinc-400 dark:text-zinc-500">
+              {formula.tdee_low}–{formula.tdee_high} range
+            </p>
+          </>
+        ) : (
+          <p className="mt-1 text-xs text-zinc-400">Add body stats in settings</p>
+        )}
+      </div>
+      <div>
+        <p className="text-xs font-medium text-zinc-500 dark:text-zinc-400">Observed TDEE</p>
+        {adaptive ? (
+          <>
+            <p className="text-lg font-semibold text-zinc-700 dark:text-zinc-200">
+              {adaptive.tdee}
+              <span className="text-xs font-normal text-zinc-400 ml-0.5">kcal</span>
+            </p>
+            <p className="text-[10px] text-zinc-400 dark:text-zinc-500">
+              {adaptive.tdee_low}–{adaptive.tdee_high} range · {adaptive.weight_change_kg_per_week > 0 ? '+' : ''}
+              {adaptive.weight_change_kg_per_week} kg/week
+            </p>
+          </>
+        ) : (
+          <p className="mt-1 text-xs text-zinc-400">
+            Needs {MIN_WEIGH_INS} weigh-ins and two weeks of logging
+          </p>
+        )}
       </div>
     </div>
   );
@@ -140,9 +199,10 @@ interface PrimaryCardProps {
   target?: number;
   unit: string;
   type: 'calories' | 'protein';
+  likelihood?: string;
 }
 
-function PrimaryCard({ label, value, low, high, target, unit, type }: PrimaryCardProps) {
+function PrimaryCard({ label, value, low, high, target, unit, type, likelihood }: PrimaryCardProps) {
   // Calories: green when under target (deficit), red when over
   // Protein: green when at/above target, red when below
   const progress = target ? Math.min((value / target) * 100, 100) : 0;
@@ -197,13 +257,16 @@ function PrimaryCard({ label, value, low, high, target, unit, type }: PrimaryCar
           </p>
         </div>
       )}
+
+      {likelihood && (
+        <p className="mt-1 text-xs text-zinc-500">{likelihood}</p>
+      )}
     </div>
   );
 }
 
 type Recommendation = 
-  | { type: 'limit'; limit: number; warning?: number; tip: string }
-  | { type: 'target'; target: number; tip: string }
+  | NutrientReference
   | { type: 'range'; min: number; max: number; tip: string };
 
 interface SecondaryCardProps {
@@ -213,9 +276,10 @@ interface SecondaryCardProps {
   high: number;
   unit: string;
   recommendation?: Recommendation;
+  format?: (value: number) => string;
 }
 
-function SecondaryCard({ label, value, low, high, unit, recommendation }: SecondaryCardProps) {
+function SecondaryCard({ label, value, low, high, unit, recommendation, format = (v) => String(Math.round(v)) }: SecondaryCardProps) {
   // Determine status based on recommendation type
   let status: 'good' | 'warning' | 'bad' | 'neutral' = 'neutral';
   let statusText = '';
@@ -228,13 +292,13 @@ function SecondaryCard({ label, value, low, high, unit, recommendation }: Second
       progressPercent = Math.min((value / recommendation.limit) * 100, 100);
       if (value > recommendation.limit) {
         status = 'bad';
-        statusText = `+${Math.round(value - recommendation.limit)} over`;
+        statusText = `+${format(value - recommendation.limit)} over`;
       } else if (recommendation.warning && value > recommendation.warning) {
         status = 'warning';
-        statusText = `${Math.round(recommendation.limit - value)} left`;
+        statusText = `${format(recommendation.limit - value)} left`;
       } else {
         status = 'good';
-        statusText = `${Math.round(recommendation.limit - value)} left`;
+        statusText = `${format(recommendation.limit - value)} left`;
       }
     } else if (recommendation.type === 'target') {
       showProgress = true;
@@ -244,15 +308,15 @@ function SecondaryCard({ label, value, low, high, unit, recommendation }: Second
         statusText = 'Goal reached!';
       } else {
         status = 'warning';
-        statusText = `${Math.round(recommendation.target - value)} to go`;
+        statusText = `${format(recommendation.target - value)} to go`;
       }
     } else if (recommendation.type === 'range') {
       if (value < recommendation.min) {
         status = 'warning';
-        statusText = `${Math.round(recommendation.min - value)} below min`;
+        statusText = `${format(recommendation.min - value)} below min`;
       } else if (value > recommendation.max) {
         status = 'warning';
-        statusText = `${Math.round(value - recommendation.max)} above max`;
+        statusText = `${format(value - recommendation.max)} above max`;
       } else {
         status = 'good';
         statusText = 'In range';
@@ -294,7 +358,7 @@ function SecondaryCard({ label, value, low, high, unit, recommendation }: Second
         )}
       </div>
       <p className={`mt-0.5 text-lg font-semibold ${statusColors[status]}`}>
-        {Math.round(value)}
+        {format(value)}
         <span className="text-xs font-normal text-zinc-400 ml-0.5">{unit}</span>
       </p>
       
@@ -319,7 +383,7 @@ function SecondaryCard({ label, value, low, high, unit, recommendation }: Second
       )}
       
       <p className="text-[10px] text-zinc-400 dark:text-zinc-500">
-        {Math.round(low)}–{Math.round(high)} range
+        {format(low)}–{format(high)} range
       </p>
     </div>
   );
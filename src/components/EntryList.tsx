@@ -1,8 +1,21 @@
 'use client';
 
 import { useState } from 'react';
+import type { MealSlot } from '@/types/nutrition';
+import { NUTRIENTS, NUTRIENT_INPUTS, roundNutrient, type NutrientField, type OptionalNutrientField } from '@/lib/nutrients';
+import { aggregateNutrients, dailyRollups } from '@/lib/aggregation';
 
-interface FoodItem {
+const SLOT_LABELS: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+  snack: 'Snacks',
+};
+
+const SLOT_ORDER = Object.keys(SLOT_LABELS) as MealSlot[];
+
+// Nutrients added to the registry later are missing from older responses
+interface FoodItem extends Partial<Record<OptionalNutrientField, number>> {
   id: string;
   food_name: string;
   calories: number;
@@ -12,6 +25,7 @@ interface FoodItem {
   carbs_g: number;
   fat_g: number;
   saturated_fat_g: number;
+  unsaturated_fat_g: number;
   fiber_g: number;
   added_sugar_g: number;
   sodium_mg: number;
@@ -19,6 +33,7 @@ interface FoodItem {
   assumptions: string[];
   has_override?: boolean;
   override_fields?: string[];
+  source?: 'estimate' | 'reference' | 'manual' | 'custom' | 'recipe';
 }
 
 interface Entry {
@@ -26,16 +41,30 @@ interface Entry {
   raw_text: string;
   created_at: string;
   resolved_date: string;
+  meal_slot: MealSlot | null;
+  eaten_at: string | null; // HH:MM[:SS] local time
   entry_items: FoodItem[];
 }
 
+// HH:MM the entry was eaten: eaten_at, else when it was logged (browser time)
+function entryTime(entry: Entry): string {
+  if (entry.eaten_at) return entry.eaten_at.slice(0, 5);
+  return new Date(entry.created_at).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+}
+
+function formatTime(hhmm: string): string {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return new Date(2000, 0, 1, hours, minutes).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
 interface EntryListProps {
   entries: Entry[];
   onDelete: (id: string) => void;
   onUpdate: () => void;
+  onMealSaved?: () => void;
 }
 
-export function EntryList({ entries, onDelete, onUpdate }: EntryListProps) {
+export function EntryList({ entries, onDelete, onUpdate, onMealSaved }: EntryListProps) {
   if (entries.length === 0) {
     return (
       <div className="rounded-2xl border border-dashed border-zinc-300 bg-zinc-50 p-8 text-center dark:border-zinc-700 dark:bg-zinc-900">
@@ -46,10 +75,39 @@ export function EntryList({ entries, onDelete, onUpdate }: EntryListProps) {
     );
   }
 
+  const renderCard = (entry: Entry) => (
+    <EntryCard key={entry.id} entry={entry} onDelete={onDelete} onUpdate={onUpdate} onMealSaved={onMealSaved} />
+  );
+
+  // Only group once something has a slot; otherwise keep the plain newest-first list
+  if (!entries.some((entry) => entry.meal_slot)) {
+    return <div className="space-y-4">{entries.map(renderCard)}</div>;
+  }
+
+  // Subtotals of each meal (the entries are all one day's)
+  const meals = dailyRollups(entries)[0]?.meals ?? {};
+  const groups = [...SLOT_ORDER, null].map((slot) => ({
+    slot,
+    calories: meals[slot ?? 'unassigned']?.calories,
+    entries: entries
+      .filter((entry) => entry.meal_slot === slot)
+      .sort((a, b) => entryTime(a).localeCompare(entryTime(b))),
+  }));
+
   return (
-    <div className="space-y-4">
-      {entries.map((entry) => (
-        <EntryCard key={entry.id} entry={entry} onDelete={onDelete} onUpdate={onUpdate} />
+    <div className="space-y-6">
+      {groups.filter((group) => group.entries.length > 0).map((group) => (
+        <div key={group.slot ?? 'other'}>
+          <h3 className="mb-2 text-sm font-medium uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+            {group.slot ? SLOT_LABELS[group.slot] : 'Other'}
+            {group.calories && (
+              <span className="ml-2 font-normal normal-case tracking-normal text-zinc-400">
+                {Math.round(group.calories.value)} kcal ({Math.round(group.calories.low)}–{Math.round(group.calories.high)})
+              </span>
+            )}
+          </h3>
+          <div className="space-y-4">{group.entries.map(renderCard)}</div>
+        </div>
       ))}
     </div>
   );
@@ -59,13 +117,30 @@ interface EntryCardProps {
   entry: Entry;
   onDelete: (id: string) => void;
   onUpdate: () => void;
+  onMealSaved?: () => void;
 }
 
-function EntryCard({ entry, onDelete, onUpdate }: EntryCardProps) {
+function EntryCard({ entry, onDelete, onUpdate, onMealSaved }: EntryCardProps) {
   const [expanded, setExpanded] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [savedAs, setSavedAs] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState('');
+
+  // Meal slot / eating time editing
+  const [editingTiming, setEditingTiming] = useState(false);
+  const [draftSlot, setDraftSlot] = useState<MealSlot | ''>(entry.meal_slot ?? '');
+  const [draftTime, setDraftTime] = useState(entryTime(entry));
+  const [savingTiming, setSavingTiming] = useState(false);
 
-  const totalCalories = entry.entry_items.reduce((sum, item) => sum + item.calories, 0);
+  // Re-parse state
+  const [editingText, setEditingText] = useState(false);
+  const [draftText, setDraftText] = useState(entry.raw_text);
+  const [reparsing, setReparsing] = useState(false);
+  const [reparseError, setReparseError] = useState('');
+  // Manually edited items the server asked us to keep or discard
+  const [conflictItems, setConflictItems] = useState<{ id: string; food_name: string }[] | null>(null);
+
+  const totalCalories = aggregateNutrients(entry.entry_items).calories.value;
   const totalProtein = entry.entry_items.reduce((sum, item) => sum + item.protein_g, 0);
 
   const handleDelete = async () => {
@@ -81,23 +156,202 @@ function EntryCard({ entry, onDelete, onUpdate }: EntryCardProps) {
     }
   };
 
-  const time = new Date(entry.created_at).toLocaleTimeString('en-US', {
-    hour: 'numeric',
-    minute: '2-digit',
-  });
+  const handleSaveMeal = async () => {
+    const name = prompt('Save this meal as:', entry.raw_text.slice(0, 100));
+    if (!name?.trim()) return;
+    setSaveError('');
+    try {
+      const res = await fetch('/api/saved-meals', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entry_id: entry.id, name: name.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save meal');
+      }
+      setSavedAs(data.meal.name);
+      onMealSaved?.();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to save meal');
+    }
+  };
+
+  const handleReparse = async (overrides?: 'keep' | 'discard') => {
+    if (!draftText.trim() || reparsing) return;
+    setReparsing(true);
+    setReparseError('');
+    try {
+      const res = await fetch(`/api/entries/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ raw_text: draftText.trim(), overrides }),
+      });
+      const data = await res.json();
+
+      if (res.status === 409) {
+        setConflictItems(data.overridden_items || []);
+        return;
+      }
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to re-parse entry');
+      }
+
+      setConflictItems(null);
+      setEditingText(false);
+      onUpdate();
+    } catch (err) {
+      setReparseError(err instanceof Error ? err.message : 'Failed to re-parse entry');
+    } finally {
+      setReparsing(false);
+    }
+  };
+
+  const handleCancelReparse = () => {
+    setDraftText(entry.raw_text);
+    setConflictItems(null);
+    setReparseError('');
+    setEditingText(false);
+  };
+
+  const handleSaveTiming = async () => {
+    setSavingTiming(true);
+    setSaveError('');
+    try {
+      const res = await fetch(`/api/entries/${entry.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ meal_slot: draftSlot || null, eaten_at: draftTime || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to update entry');
+      }
+      setEditingTiming(false);
+      onUpdate();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to update entry');
+    } finally {
+      setSavingTiming(false);
+    }
+  };
+
+  const time = formatTime(entryTime(entry));
 
   return (
     <div className="rounded-xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
       <div className="flex items-start gap-4 p-4">
         <div className="flex-1 min-w-0">
-          <div className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
-            <span>{time}</span>
-            <span>•</span>
-            <span>{entry.entry_items.length} item{entry.entry_items.length !== 1 ? 's' : ''}</span>
-          </div>
-          <p className="mt-1 text-zinc-900 dark:text-zinc-100 truncate">
-            {entry.raw_text}
-          </p>
+          {editingTiming ? (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <select
+                value={draftSlot}
+                onChange={(e) => setDraftSlot(e.target.value as MealSlot | '')}
+                disabled={savingTiming}
+                className="rounded border border-zinc-300 px-2 py-1 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+              >
+                <option value="">No meal</option>
+                {SLOT_ORDER.map((slot) => (
+                  <option key={slot} value={slot}>{SLOT_LABELS[slot]}</option>
+                ))}
+              </select>
+              <input
+                type="time"
+                value={draftTime}
+                onChange={(e) => setDraftTime(e.target.value)}
+                disabled={savingTiming}
+                className="rounded border border-zinc-300 px-2 py-1 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+              />
+              <button
+                onClick={() => setEditingTiming(false)}
+                className="rounded px-2 py-1 text-zinc-600 hover:bg-zinc-200 dark:text-zinc-400 dark:hover:bg-zinc-700"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveTiming}
+                disabled={savingTiming}
+                className="rounded bg-blue-600 px-2 py-1 font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {savingTiming ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-zinc-500 dark:text-zinc-400">
+              <button
+                onClick={() => {
+                  setDraftSlot(entry.meal_slot ?? '');
+                  setDraftTime(entryTime(entry));
+                  setEditingTiming(true);
+                }}
+                className="hover:text-blue-600 dark:hover:text-blue-400"
+                title={entry.eaten_at ? 'Time eaten (click to change meal or time)' : 'Time logged (click to set meal or time eaten)'}
+              >
+                {time}
+                {entry.meal_slot && ` · ${SLOT_LABELS[entry.meal_slot]}`}
+              </button>
+              <span>•</span>
+              <span>{entry.entry_items.length} item{entry.entry_items.length !== 1 ? 's' : ''}</span>
+            </div>
+          )}
+          {editingText ? (
+            <div className="mt-1 space-y-2">
+              <textarea
+                value={draftText}
+                onChange={(e) => setDraftText(e.target.value)}
+                rows={2}
+                disabled={reparsing}
+                className="block w-full resize-none rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+              />
+              {conflictItems ? (
+                <div className="rounded bg-amber-50 p-2 text-xs text-amber-700 dark:bg-amber-900/30 dark:text-amber-400">
+                  <p>
+                    You edited {conflictItems.map((item) => item.food_name).join(', ')} by hand.
+                    Keep those items alongside the new estimate?
+                  </p>
+                  <div className="mt-2 flex justify-end gap-2">
+                    <button
+                      onClick={() => handleReparse('discard')}
+                      disabled={reparsing}
+                      className="rounded px-2 py-1 hover:bg-amber-100 disabled:opacity-50 dark:hover:bg-amber-900/50"
+                    >
+                      Replace all
+                    </button>
+                    <button
+                      onClick={() => handleReparse('keep')}
+                      disabled={reparsing}
+                      className="rounded bg-amber-600 px-2 py-1 font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+                    >
+                      Keep my edits
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={handleCancelReparse}
+                    className="rounded px-3 py-1.5 text-sm text-zinc-600 hover:bg-zinc-200 dark:text-zinc-400 dark:hover:bg-zinc-700"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={() => handleReparse()}
+                    disabled={reparsing || !draftText.trim()}
+                    className="rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    {reparsing ? 'Parsing...' : 'Re-parse'}
+                  </button>
+                </div>
+              )}
+              {reparseError && (
+                <p className="text-xs text-red-600 dark:text-red-400">{reparseError}</p>
+              )}
+            </div>
+          ) : (
+            <p className="mt-1 text-zinc-900 dark:text-zinc-100 truncate">
+              {entry.raw_text}
+            </p>
+          )}
           <div className="mt-2 flex items-center gap-4 text-sm">
             <span className="font-medium text-blue-600 dark:text-blue-400">
               {Math.round(totalCalories)} kcal
@@ -106,9 +360,37 @@ function EntryCard({ entry, onDelete, onUpdate }: EntryCardProps) {
               {Math.round(totalProtein)}g protein
             </span>
           </div>
+          {saveError && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{saveError}</p>
+          )}
         </div>
         
         <div className="flex items-center gap-2">
+          <button
+            onClick={handleSaveMeal}
+            disabled={entry.entry_items.length === 0}
+            className={`rounded-lg p-2 transition-colors hover:bg-zinc-100 hover:text-amber-500 disabled:opacity-50 dark:hover:bg-zinc-800 ${
+              savedAs ? 'text-amber-500' : 'text-zinc-400'
+            }`}
+            title={savedAs ? `Saved as "${savedAs}"` : 'Save as a meal to log again'}
+          >
+            <svg className="h-5 w-5" fill={savedAs ? 'currentColor' : 'none'} viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+            </svg>
+          </button>
+          <button
+            onClick={() => {
+              setDraftText(entry.raw_text);
+              setEditingText(true);
+            }}
+            disabled={editingText}
+            className="rounded-lg p-2 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-blue-600 disabled:opacity-50 dark:hover:bg-zinc-800 dark:hover:text-blue-400"
+            title="Edit text and re-parse"
+          >
+            <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </svg>
+          </button>
           <button
             onClick={() => setExpanded(!expanded)}
             className="rounded-lg p-2 text-zinc-400 transition-colors hover:bg-zinc-100 hover:text-zinc-600 dark:hover:bg-zinc-800 dark:hover:text-zinc-300"
@@ -159,39 +441,74 @@ interface FoodItemRowProps {
   onUpdate: () => void;
 }
 
+const ITEM_FIELDS = NUTRIENT_INPUTS;
+
+type ItemField = NutrientField;
+
+// Nutrients outside the fixed stats, listed on an item when it has any
+const EXTRA_NUTRIENTS = NUTRIENTS.filter((nutrient) => 'optional' in nutrient);
+
+function itemValues(item: FoodItem): Record<ItemField, string> {
+  return Object.fromEntries(
+    ITEM_FIELDS.map(({ field }) => [field, (item[field] || 0).toString()])
+  ) as Record<ItemField, string>;
+}
+
 function FoodItemRow({ item, onUpdate }: FoodItemRowProps) {
   const [editing, setEditing] = useState(false);
   const [saving, setSaving] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [error, setError] = useState('');
   
   // Edit form state
   const [foodName, setFoodName] = useState(item.food_name);
-  const [calories, setCalories] = useState(item.calories.toString());
-  const [protein, setProtein] = useState(item.protein_g.toString());
-  const [carbs, setCarbs] = useState(item.carbs_g.toString());
-  const [fat, setFat] = useState(item.fat_g.toString());
-  const [fiber, setFiber] = useState((item.fiber_g || 0).toString());
+  const [grams, setGrams] = useState(item.grams?.toString() ?? '');
+  const [values, setValues] = useState(itemValues(item));
+  // Portion mode: a new weight rescales every nutrient
+  const [rescale, setRescale] = useState(!!item.grams);
+
+  const canRescale = !!item.grams && item.grams > 0;
+  const newGrams = parseFloat(grams);
+  const rescaling = rescale && canRescale && newGrams > 0 && newGrams !== item.grams;
+
+  // What the nutrients become at the new weight, shown while rescaling
+  const rescaledValue = (field: ItemField, step: string) => {
+    const scaled = (item[field] || 0) * (newGrams / (item.grams as number));
+    return (step === '1' ? Math.round(scaled) : Math.round(scaled * 10) / 10).toString();
+  };
 
   const handleSave = async () => {
     setSaving(true);
+    setError('');
     try {
+      const body: Record<string, unknown> = { food_name: foodName };
+      if (rescaling) {
+        body.grams = newGrams;
+        body.rescale = true;
+      } else {
+        if (grams.trim() === '') {
+          if (item.grams !== null) body.grams = null;
+        } else if (newGrams !== item.grams) {
+          body.grams = newGrams;
+        }
+        for (const { field } of ITEM_FIELDS) {
+          const value = parseFloat(values[field]) || 0;
+          if (value !== (item[field] || 0)) body[field] = value;
+        }
+      }
+
       const res = await fetch(`/api/entries/items/${item.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          food_name: foodName,
-          calories: parseFloat(calories) || 0,
-          protein_g: parseFloat(protein) || 0,
-          carbs_g: parseFloat(carbs) || 0,
-          fat_g: parseFloat(fat) || 0,
-          fiber_g: parseFloat(fiber) || 0,
-        }),
+        body: JSON.stringify(body),
       });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update item');
 
-      if (res.ok) {
-        setEditing(false);
-        onUpdate();
-      }
+      setEditing(false);
+      onUpdate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update item');
     } finally {
       setSaving(false);
     }
@@ -212,11 +529,10 @@ function FoodItemRow({ item, onUpdate }: FoodItemRowProps) {
 
   const handleCancel = () => {
     setFoodName(item.food_name);
-    setCalories(item.calories.toString());
-    setProtein(item.protein_g.toString());
-    setCarbs(item.carbs_g.toString());
-    setFat(item.fat_g.toString());
-    setFiber((item.fiber_g || 0).toString());
+    setGrams(item.grams?.toString() ?? '');
+    setValues(itemValues(item));
+    setRescale(!!item.grams);
+    setError('');
     setEditing(false);
   };
 
@@ -224,68 +540,62 @@ function FoodItemRow({ item, onUpdate }: FoodItemRowProps) {
     return (
       <div className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800/50">
         <div className="space-y-3">
-          <div>
-            <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Name</label>
-            <input
-              type="text"
-              value={foodName}
-              onChange={(e) => setFoodName(e.target.value)}
-              className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
-            />
-          </div>
-          
-          <div className="grid grid-cols-2 gap-3 sm:grid-cols-5">
-            <div>
-              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Calories</label>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Name</label>
               <input
-                type="number"
-                value={calories}
-                onChange={(e) => setCalories(e.target.value)}
+                type="text"
+                value={foodName}
+                onChange={(e) => setFoodName(e.target.value)}
                 className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
               />
             </div>
             <div>
-              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Protein (g)</label>
+              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Weight (g)</label>
               <input
                 type="number"
-                step="0.1"
-                value={protein}
-                onChange={(e) => setProtein(e.target.value)}
+                min="0"
+                step="1"
+                value={grams}
+                onChange={(e) => setGrams(e.target.value)}
                 className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
               />
             </div>
-            <div>
-              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Carbs (g)</label>
-              <input
-                type="number"
-                step="0.1"
-                value={carbs}
-                onChange={(e) => setCarbs(e.target.value)}
-                className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Fat (g)</label>
-              <input
-                type="number"
-                step="0.1"
-                value={fat}
-                onChange={(e) => setFat(e.target.value)}
-                className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
-              />
-            </div>
-            <div>
-              <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Fiber (g)</label>
+          </div>
+
+          {canRescale && (
+            <label className="flex items-center gap-2 text-xs text-zinc-600 dark:text-zinc-400">
               <input
-                type="number"
-                step="0.1"
-                value={fiber}
-                onChange={(e) => setFiber(e.target.value)}
-                className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+                type="checkbox"
+                checked={rescale}
+                onChange={(e) => setRescale(e.target.checked)}
+                className="rounded border-zinc-300 dark:border-zinc-600"
               />
-            </div>
+              Scale all nutrients with the weight
+            </label>
+          )}
+          
+          <div className="grid grid-cols-3 gap-3 sm:grid-cols-5">
+            {ITEM_FIELDS.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">{label}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step={step}
+                  value={rescaling ? rescaledValue(field, step) : values[field]}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+                  disabled={rescaling}
+                  className="mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm disabled:opacity-60 dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+                />
+              </div>
+            ))}
           </div>
 
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+
           <div className="flex justify-end gap-2">
             <button
               onClick={handleCancel}
@@ -319,6 +629,29 @@ function FoodItemRow({ item, onUpdate }: FoodItemRowProps) {
                 edited
               </span>
             )}
+            {item.source === 'reference' && (
+              <span
+                className="rounded bg-emerald-100 px-1.5 py-0.5 text-xs text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400"
+                title="Nutrients computed from a USDA reference food and the weight"
+              >
+                USDA
+              </span>
+            )}
+            {item.source === 'recipe' && (
+              <span className="rounded bg-orange-100 px-1.5 py-0.5 text-xs text-orange-700 dark:bg-orange-900/30 dark:text-orange-400">
+                recipe
+              </span>
+            )}
+            {item.source === 'custom' && (
+              <span className="rounded bg-violet-100 px-1.5 py-0.5 text-xs text-violet-700 dark:bg-violet-900/30 dark:text-violet-400">
+                custom
+              </span>
+            )}
+            {item.source === 'manual' && (
+              <span className="rounded bg-zinc-100 px-1.5 py-0.5 text-xs text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400">
+                entered
+              </span>
+            )}
           </div>
           
           {item.grams && (
@@ -356,12 +689,19 @@ function FoodItemRow({ item, onUpdate }: FoodItemRowProps) {
             </div>
             <div className="flex justify-end gap-x-3">
               <span>Fiber {Math.round(item.fiber_g || 0)}g</span>
-              <span>Sugar {Math.round(item.added_sugar_g || 0)}g</span>
+              <span>Added Sugar {Math.round(item.added_sugar_g || 0)}g</span>
             </div>
             <div className="flex justify-end gap-x-3">
               <span>Sat Fat {Math.round(item.saturated_fat_g || 0)}g</span>
               <span>Sodium {Math.round(item.sodium_mg || 0)}mg</span>
             </div>
+            {EXTRA_NUTRIENTS.some(({ field }) => item[field]) && (
+              <div className="flex flex-wrap justify-end gap-x-3">
+                {EXTRA_NUTRIENTS.filter(({ field }) => item[field]).map(({ key, field, shortLabel, unit }) => (
+                  <span key={key}>{shortLabel} {roundNutrient(key, item[field] || 0)}{unit}</span>
+                ))}
+              </div>
+            )}
           </div>
 
           {/* Action icon buttons */}
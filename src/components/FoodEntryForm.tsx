@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useRef, useCallback } from 'react';
+import { SavedMealPicker } from '@/components/SavedMealPicker';
+import { ManualEntryForm } from '@/components/ManualEntryForm';
 
 function formatDate(dateStr: string): string {
   const date = new Date(dateStr + 'T00:00:00');
@@ -13,6 +15,7 @@ interface FoodEntryFormProps {
   onEntryCreated: () => void;
   today: string;
   yesterday: string;
+  savedMealsKey?: number;
 }
 
 export function FoodEntryForm({ 
@@ -21,13 +24,18 @@ export function FoodEntryForm({
   onEntryCreated,
   today,
   yesterday,
+  savedMealsKey,
 }: FoodEntryFormProps) {
+  const [mode, setMode] = useState<'describe' | 'manual'>('describe');
   const [text, setText] = useState('');
   const [image, setImage] = useState<string | null>(null);
   const [imageName, setImageName] = useState<string>('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [isDragging, setIsDragging] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  // Text of the last entry that reused a saved parse (null if it was freshly parsed)
+  const [cachedText, setCachedText] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -126,25 +134,32 @@ export function FoodEntryForm({
     if ((!text.trim() && !image) || loading) return;
 
     setError('');
+    setCachedText(null);
     setLoading(true);
 
     try {
+      const rawText = text.trim() || (image ? '1 serving' : '');
       const res = await fetch('/api/entries', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          raw_text: text.trim() || (image ? '1 serving' : ''),
+          raw_text: rawText,
           image: image || undefined,
           client_timestamp: new Date().toISOString(),
           override_date: selectedDate !== today ? selectedDate : undefined,
+          bypass_cache: bypassCache || undefined,
         }),
       });
 
+      const data = await res.json();
       if (!res.ok) {
-        const data = await res.json();
         throw new Error(data.error || 'Failed to log food');
       }
 
+      if (data.cached) {
+        setCachedText(rawText);
+      }
+      setBypassCache(false);
       setText('');
       setImage(null);
       setImageName('');
@@ -156,10 +171,59 @@ export function FoodEntryForm({
     }
   };
 
+  const handleForgetCached = async () => {
+    if (!cachedText) return;
+    try {
+      const res = await fetch('/api/parse-cache', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ raw_text: cachedText }),
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to clear saved estimate');
+      }
+      setCachedText(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear saved estimate');
+    }
+  };
+
   const canSubmit = text.trim() || image;
 
+  const modeTabs = (
+    <div className="flex gap-1 text-sm">
+      {(['describe', 'manual'] as const).map((tab) => (
+        <button
+          key={tab}
+          type="button"
+          onClick={() => setMode(tab)}
+          className={`rounded-lg px-3 py-1 font-medium transition-colors ${
+            mode === tab
+              ? 'bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-100'
+              : 'text-zinc-500 hover:text-zinc-700 dark:text-zinc-400 dark:hover:text-zinc-200'
+          }`}
+        >
+          {tab === 'describe' ? 'Describe' : 'Enter manually'}
+        </button>
+      ))}
+    </div>
+  );
+
+  if (mode === 'manual') {
+    return (
+      <div className="space-y-3">
+        {modeTabs}
+        <ManualEntryForm selectedDate={selectedDate} today={today} onSaved={onEntryCreated} />
+        <DateSelector selectedDate={selectedDate} onDateChange={onDateChange} today={today} yesterday={yesterday} />
+      </div>
+    );
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-3">
+      {modeTabs}
+
       {/* Text area with drag-drop support */}
       <div
         className={`relative rounded-xl border-2 transition-colors ${
@@ -212,6 +276,20 @@ export function FoodEntryForm({
         </div>
       )}
 
+      {/* Saved meals: quick picks, or autocomplete while typing */}
+      {!image && (
+        <SavedMealPicker
+          query={text}
+          selectedDate={selectedDate}
+          refreshKey={savedMealsKey}
+          disabled={loading}
+          onLogged={() => {
+            setText('');
+            onEntryCreated();
+          }}
+        />
+      )}
+
       {/* Action buttons row */}
       <div className="flex gap-2">
         {/* Photo button (mobile-friendly) */}
@@ -253,52 +331,32 @@ export function FoodEntryForm({
         </button>
       </div>
 
-      {/* Date selector */}
-      <div className="flex items-center gap-2">
-        <span className="text-sm text-zinc-500 dark:text-zinc-400">Log for:</span>
-        <div className="flex rounded-lg border border-zinc-200 dark:border-zinc-700 overflow-hidden">
-          <button
-            type="button"
-            onClick={() => onDateChange(today)}
-            className={`px-3 py-1.5 text-sm font-medium transition-colors ${
-              selectedDate === today
-                ? 'bg-blue-600 text-white'
-                : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
-            }`}
-          >
-            Today
-          </button>
+      <DateSelector selectedDate={selectedDate} onDateChange={onDateChange} today={today} yesterday={yesterday} />
+
+      {/* Saved estimate controls */}
+      <label className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+        <input
+          type="checkbox"
+          checked={bypassCache}
+          onChange={(e) => setBypassCache(e.target.checked)}
+          disabled={loading}
+          className="rounded border-zinc-300 dark:border-zinc-600"
+        />
+        Fresh estimate (don&apos;t reuse a saved result for this description)
+      </label>
+
+      {cachedText && (
+        <p className="text-xs text-zinc-500 dark:text-zinc-400">
+          Reused a saved estimate for &ldquo;{cachedText}&rdquo;.{' '}
           <button
             type="button"
-            onClick={() => onDateChange(yesterday)}
-            className={`px-3 py-1.5 text-sm font-medium transition-colors ${
-              selectedDate === yesterday
-                ? 'bg-blue-600 text-white'
-                : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
-            }`}
+            onClick={handleForgetCached}
+            className="text-blue-600 hover:text-blue-700 dark:text-blue-400"
           >
-            Yesterday
+            Forget it
           </button>
-          <label
-            className={`relative px-3 py-1.5 text-sm font-medium transition-colors cursor-pointer ${
-              selectedDate !== today && selectedDate !== yesterday
-                ? 'bg-blue-600 text-white'
-                : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
-            }`}
-          >
-            {selectedDate !== today && selectedDate !== yesterday
-              ? formatDate(selectedDate)
-              : 'Pick date'}
-            <input
-              type="date"
-              value={selectedDate}
-              onChange={(e) => onDateChange(e.target.value)}
-              max={today}
-              className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-            />
-          </label>
-        </div>
-      </div>
+        </p>
+      )}
 
       {/* Helper text for photos */}
       {!image && (
@@ -314,6 +372,63 @@ export function FoodEntryForm({
   );
 }
 
+interface DateSelectorProps {
+  selectedDate: string;
+  onDateChange: (date: string) => void;
+  today: string;
+  yesterday: string;
+}
+
+function DateSelector({ selectedDate, onDateChange, today, yesterday }: DateSelectorProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-zinc-500 dark:text-zinc-400">Log for:</span>
+      <div className="flex rounded-lg border border-zinc-200 dark:border-zinc-700 overflow-hidden">
+        <button
+          type="button"
+          onClick={() => onDateChange(today)}
+          className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+            selectedDate === today
+              ? 'bg-blue-600 text-white'
+              : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+          }`}
+        >
+          Today
+        </button>
+        <button
+          type="button"
+          onClick={() => onDateChange(yesterday)}
+          className={`px-3 py-1.5 text-sm font-medium transition-colors ${
+            selectedDate === yesterday
+              ? 'bg-blue-600 text-white'
+              : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+          }`}
+        >
+          Yesterday
+        </button>
+        <label
+          className={`relative px-3 py-1.5 text-sm font-medium transition-colors cursor-pointer ${
+            selectedDate !== today && selectedDate !== yesterday
+              ? 'bg-blue-600 text-white'
+              : 'text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800'
+          }`}
+        >
+          {selectedDate !== today && selectedDate !== yesterday
+            ? formatDate(selectedDate)
+            : 'Pick date'}
+          <input
+            type="date"
+            value={selectedDate}
+            onChange={(e) => onDateChange(e.target.value)}
+            max={today}
+            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+          />
+        </label>
+      </div>
+    </div>
+  );
+}
+
 function LoadingSpinner() {
   return (
     <svg className="h-4 w-4 animate-spin" viewBox="0 0 24 24" fill="none">
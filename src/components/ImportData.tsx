@@ -0,0 +1,206 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface ImportBatch {
+  id: string;
+  source: 'myfitnesspal' | 'cronometer' | 'loseit';
+  filename: string | null;
+  entry_count: number;
+  item_count: number;
+  created_at: string;
+}
+
+interface ImportPreview {
+  source: ImportBatch['source'];
+  entry_count: number;
+  item_count: number;
+  duplicate_count: number;
+  first_date: string;
+  last_date: string;
+  errors: string[];
+  preview: {
+    resolved_date: string;
+    raw_text: string;
+    item_count: number;
+    calories: number;
+    duplicate: boolean;
+  }[];
+}
+
+const SOURCE_LABELS: Record<ImportBatch['source'], string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+  loseit: 'Lose It',
+};
+
+export function ImportData() {
+  const [batches, setBatches] = useState<ImportBatch[]>([]);
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  useEffect(() => {
+    fetchBatches();
+  }, []);
+
+  const fetchBatches = async () => {
+    try {
+      const res = await fetch('/api/import');
+      if (!res.ok) return;
+      const data = await res.json();
+      setBatches(data.batches || []);
+    } catch (err) {
+      console.error('Failed to fetch imports:', err);
+    }
+  };
+
+  const postImport = async (csv: string, filename: string, dryRun: boolean) => {
+    const res = await fetch('/api/import', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ csv, filename, dry_run: dryRun }),
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to import');
+    return data;
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    setPreview(null);
+    setError('');
+    setSuccess('');
+    if (!selected) return;
+
+    setBusy(true);
+    try {
+      const text = await selected.text();
+      setFile({ name: selected.name, text });
+      setPreview(await postImport(text, selected.name, true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const data = await postImport(file.text, file.name, false);
+      setSuccess(`Imported ${data.entry_count} entries from ${SOURCE_LABELS[data.source as ImportBatch['source']]}`);
+      setPreview(null);
+      setFile(null);
+      fetchBatches();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUndo = async (batch: ImportBatch) => {
+    if (!confirm(`Delete the ${batch.entry_count} entries from this import?`)) return;
+
+    try {
+      const res = await fetch(`/api/import/${batch.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to undo import');
+      setBatches((prev) => prev.filter((b) => b.id !== batch.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo import');
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+        Import Data
+      </h2>
+      <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+        Bring in your history from a MyFitnessPal, Cronometer or Lose It CSV export. You&apos;ll see a preview before anything is saved, and entries you&apos;ve already logged are skipped.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={handleFile}
+        disabled={busy}
+        className="block w-full text-sm text-zinc-700 file:mr-4 file:rounded-lg file:border-0 file:bg-zinc-100 file:px-4 file:py-2 file:text-sm file:font-medium hover:file:bg-zinc-200 dark:text-zinc-300 dark:file:bg-zinc-800"
+      />
+
+      {preview && (
+        <div className="mt-4">
+          <p className="text-sm text-zinc-700 dark:text-zinc-300">
+            {SOURCE_LABELS[preview.source]}: {preview.entry_count} entries ({preview.item_count} items) from{' '}
+            {preview.first_date} to {preview.last_date}
+            {preview.duplicate_count > 0 && `, ${preview.duplicate_count} already logged`}
+          </p>
+          {preview.errors.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-amber-600 dark:text-amber-400">
+              {preview.errors.slice(0, 5).map((message) => (
+                <li key={message}>{message}</li>
+              ))}
+              {preview.errors.length > 5 && <li>…and {preview.errors.length - 5} more</li>}
+            </ul>
+          )}
+          <ul className="mt-3 max-h-60 divide-y divide-zinc-100 overflow-y-auto text-sm dark:divide-zinc-800">
+            {preview.preview.map((entry, i) => (
+              <li
+                key={i}
+                className={`flex justify-between py-2 ${entry.duplicate ? 'text-zinc-400 line-through' : 'text-zinc-700 dark:text-zinc-300'}`}
+              >
+                <span>{entry.resolved_date} · {entry.raw_text}</span>
+                <span>{entry.calories} kcal</span>
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={busy || preview.entry_count === 0}
+            className="mt-4 w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {busy ? 'Importing...' : `Import ${preview.entry_count} entries`}
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {success && (
+        <p className="mt-3 text-sm text-green-600 dark:text-green-400">{success}</p>
+      )}
+
+      {batches.length > 0 && (
+        <ul className="mt-6 divide-y divide-zinc-100 border-t border-zinc-100 dark:divide-zinc-800 dark:border-zinc-800">
+          {batches.map((batch) => (
+            <li key={batch.id} className="flex items-center justify-between py-3">
+              <div>
+                <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
+                  {SOURCE_LABELS[batch.source]}{batch.filename && ` · ${batch.filename}`}
+                </p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {batch.entry_count} entries · imported {new Date(batch.created_at).toLocaleString()}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => handleUndo(batch)}
+                className="text-sm text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+              >
+                Undo
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
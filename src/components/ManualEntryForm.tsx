@@ -0,0 +1,179 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { NUTRIENT_INPUTS, type NutrientField } from '@/lib/nutrients';
+
+interface TargetEntry {
+  id: string;
+  raw_text: string;
+}
+
+interface ManualEntryFormProps {
+  selectedDate: string;
+  today: string;
+  onSaved: () => void;
+}
+
+const FIELDS = NUTRIENT_INPUTS;
+
+type Field = NutrientField;
+
+const EMPTY_VALUES = Object.fromEntries(FIELDS.map(({ field }) => [field, ''])) as Record<Field, string>;
+
+const inputClass =
+  'mt-1 block w-full rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100';
+
+/**
+ * Type in a food item's exact values (e.g. from a label) and log it as a new
+ * entry or add it to one of the day's entries, without the parser
+ */
+export function ManualEntryForm({ selectedDate, today, onSaved }: ManualEntryFormProps) {
+  const [foodName, setFoodName] = useState('');
+  const [grams, setGrams] = useState('');
+  const [values, setValues] = useState(EMPTY_VALUES);
+  const [targetId, setTargetId] = useState('');
+  const [entries, setEntries] = useState<TargetEntry[]>([]);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchEntries = async () => {
+      try {
+        const res = await fetch(`/api/entries?date=${selectedDate}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setEntries(data.entries || []);
+      } catch (err) {
+        console.error('Failed to fetch entries:', err);
+      }
+    };
+
+    setTargetId('');
+    fetchEntries();
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedDate, refreshKey]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!foodName.trim() || values.calories === '' || saving) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const item: Record<string, unknown> = { food_name: foodName.trim() };
+      if (grams !== '') item.grams = parseFloat(grams);
+      for (const { field } of FIELDS) {
+        if (values[field] !== '') item[field] = parseFloat(values[field]);
+      }
+
+      const res = targetId
+        ? await fetch(`/api/entries/${targetId}/items`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ items: [item] }),
+          })
+        : await fetch('/api/entries', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              manual_items: [item],
+              client_timestamp: new Date().toISOString(),
+              override_date: selectedDate !== today ? selectedDate : undefined,
+            }),
+          });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save item');
+
+      setFoodName('');
+      setGrams('');
+      setValues(EMPTY_VALUES);
+      setRefreshKey((key) => key + 1);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save item');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 rounded-xl border-2 border-zinc-200 p-4 dark:border-zinc-700">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Food</label>
+          <input
+            type="text"
+            value={foodName}
+            onChange={(e) => setFoodName(e.target.value)}
+            placeholder="e.g. Protein bar"
+            maxLength={200}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">Weight (g)</label>
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={grams}
+            onChange={(e) => setGrams(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 sm:grid-cols-5">
+        {FIELDS.map(({ field, label, step }) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step={step}
+              value={values[field]}
+              onChange={(e) => setValues((prev) => ({ ...prev, [field]: e.target.value }))}
+              placeholder={field === 'calories' ? 'required' : '0'}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center">
+        <label className="flex flex-1 items-center gap-2 text-sm text-zinc-600 dark:text-zinc-400">
+          Add to
+          <select
+            value={targetId}
+            onChange={(e) => setTargetId(e.target.value)}
+            className="min-w-0 flex-1 rounded border border-zinc-300 px-2 py-1.5 text-sm dark:border-zinc-600 dark:bg-zinc-700 dark:text-zinc-100"
+          >
+            <option value="">A new entry</option>
+            {entries.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.raw_text}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="submit"
+          disabled={saving || !foodName.trim() || values.calories === ''}
+          className="rounded-lg bg-blue-600 px-5 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : targetId ? 'Add Item' : 'Log Item'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,368 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface RecipeItem {
+  food_name: string;
+  grams: number | null;
+  calories: number;
+  calories_low: number;
+  calories_high: number;
+  protein_g: number;
+  carbs_g: number;
+  fat_g: number;
+}
+
+interface Recipe {
+  id: string;
+  name: string;
+  ingredients_text: string;
+  ingredients: RecipeItem[];
+  yield_servings: number | null;
+  yield_grams: number | null;
+  per_serving: RecipeItem | null;
+  per_100g: RecipeItem | null;
+}
+
+const INGREDIENT_FIELDS = [
+  { field: 'grams', label: 'g' },
+  { field: 'calories', label: 'kcal' },
+  { field: 'protein_g', label: 'Protein' },
+  { field: 'carbs_g', label: 'Carbs' },
+  { field: 'fat_g', label: 'Fat' },
+] as const;
+
+type IngredientField = typeof INGREDIENT_FIELDS[number]['field'];
+
+type IngredientRow = { food_name: string } & Record<IngredientField, string>;
+
+interface Draft {
+  name: string;
+  mode: 'describe' | 'manual';
+  ingredients_text: string;
+  rows: IngredientRow[];
+  yield_servings: string;
+  yield_grams: string;
+}
+
+const EMPTY_ROW: IngredientRow = { food_name: '', grams: '', calories: '', protein_g: '', carbs_g: '', fat_g: '' };
+
+function draftFrom(recipe?: Recipe): Draft {
+  const rows = recipe?.ingredients.map((item) => ({
+    food_name: item.food_name,
+    ...Object.fromEntries(INGREDIENT_FIELDS.map(({ field }) => [field, item[field]?.toString() ?? ''])),
+  })) as IngredientRow[] | undefined;
+
+  return {
+    name: recipe?.name ?? '',
+    // Recipes without ingredient text were entered manually
+    mode: recipe && !recipe.ingredients_text ? 'manual' : 'describe',
+    ingredients_text: recipe?.ingredients_text ?? '',
+    rows: rows && rows.length > 0 ? rows : [EMPTY_ROW],
+    yield_servings: recipe?.yield_servings?.toString() ?? '',
+    yield_grams: recipe?.yield_grams?.toString() ?? '',
+  };
+}
+
+function optionalNumber(value: string): number | null {
+  return value.trim() === '' ? null : parseFloat(value);
+}
+
+const inputClass =
+  'block w-full rounded border border-zinc-300 px-2 py-1 text-sm dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100';
+
+/**
+ * Settings section for the user's recipes: batch-cooked dishes logged by the
+ * portion ("1.5 servings of chili", "350 g of chili")
+ */
+export function Recipes() {
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  // 'new' while adding a recipe, a recipe id while editing one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Draft>(draftFrom());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchRecipes = async () => {
+      try {
+        const res = await fetch('/api/recipes');
+        if (!res.ok) return;
+        const data = await res.json();
+        if (!cancelled) setRecipes(data.recipes || []);
+      } catch (err) {
+        console.error('Failed to fetch recipes:', err);
+      }
+    };
+
+    fetchRecipes();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const startEditing = (recipe?: Recipe) => {
+    setDraft(draftFrom(recipe));
+    setEditingId(recipe?.id ?? 'new');
+    setError('');
+  };
+
+  const setRow = (index: number, field: keyof IngredientRow, value: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      rows: prev.rows.map((row, i) => (i === index ? { ...row, [field]: value } : row)),
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const body: Record<string, unknown> = {
+        name: draft.name,
+        yield_servings: optionalNumber(draft.yield_servings),
+        yield_grams: optionalNumber(draft.yield_grams),
+      };
+      if (draft.mode === 'manual') {
+        body.ingredients_text = '';
+        body.manual_ingredients = draft.rows
+          .filter((row) => row.food_name.trim())
+          .map((row) => ({
+            food_name: row.food_name.trim(),
+            ...Object.fromEntries(
+              INGREDIENT_FIELDS.filter(({ field }) => row[field].trim() !== '').map(({ field }) => [field, parseFloat(row[field])])
+            ),
+          }));
+      } else {
+        body.ingredients_text = draft.ingredients_text;
+      }
+
+      const isNew = editingId === 'new';
+      const res = await fetch(isNew ? '/api/recipes' : `/api/recipes/${editingId}`, {
+        method: isNew ? 'POST' : 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to save recipe');
+
+      setRecipes((prev) =>
+        [...prev.filter((recipe) => recipe.id !== data.recipe.id), data.recipe].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (recipe: Recipe) => {
+    if (!confirm(`Delete the recipe "${recipe.name}"? Entries already logged from it are kept.`)) return;
+
+    try {
+      const res = await fetch(`/api/recipes/${recipe.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete recipe');
+      setRecipes((prev) => prev.filter((r) => r.id !== recipe.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete recipe');
+    }
+  };
+
+  const describeYield = (recipe: Recipe) => {
+    const parts = [];
+    if (recipe.yield_servings) parts.push(`${recipe.yield_servings} servings`);
+    if (recipe.yield_grams) parts.push(`${recipe.yield_grams} g cooked`);
+    return parts.join(', ');
+  };
+
+  const describeNutrition = (recipe: Recipe) => {
+    const portion = recipe.per_serving ?? recipe.per_100g;
+    if (!portion) return '';
+    const unit = recipe.per_serving ? 'serving' : '100 g';
+    return `${Math.round(portion.calories)} kcal (${Math.round(portion.calories_low)}–${Math.round(portion.calories_high)}) per ${unit}`;
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mb-4 flex items-center justify-between">
+        <h2 className="text-lg font-medium text-zinc-900 dark:text-zinc-100">
+          Recipes
+        </h2>
+        {editingId === null && (
+          <button
+            type="button"
+            onClick={() => startEditing()}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+          >
+            Add recipe
+          </button>
+        )}
+      </div>
+      <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+        Dishes you cook in a batch. Log a portion by name, like &ldquo;1.5 servings of chili&rdquo; or
+        &ldquo;350 g of chili&rdquo;.
+      </p>
+
+      {editingId !== null && (
+        <div className="mb-4 space-y-3 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800/50">
+          <label className="block text-xs font-medium text-zinc-500 dark:text-zinc-400">
+            Name
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Chili"
+              maxLength={100}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+
+          <div className="flex gap-4 text-sm">
+            {(['describe', 'manual'] as const).map((mode) => (
+              <label key={mode} className="flex items-center gap-1.5 text-zinc-600 dark:text-zinc-400">
+                <input
+                  type="radio"
+                  checked={draft.mode === mode}
+                  onChange={() => setDraft({ ...draft, mode })}
+                />
+                {mode === 'describe' ? 'Describe ingredients' : 'Enter ingredients manually'}
+              </label>
+            ))}
+          </div>
+
+          {draft.mode === 'describe' ? (
+            <textarea
+              value={draft.ingredients_text}
+              onChange={(e) => setDraft({ ...draft, ingredients_text: e.target.value })}
+              placeholder={'One ingredient per line, e.g.\n500g ground beef 85% lean\n2 cans kidney beans\n1 onion'}
+              rows={6}
+              maxLength={5000}
+              className={inputClass}
+            />
+          ) : (
+            <div className="space-y-1">
+              <div className="grid grid-cols-[2fr_repeat(5,1fr)] gap-1 text-xs text-zinc-500 dark:text-zinc-400">
+                <span>Ingredient</span>
+                {INGREDIENT_FIELDS.map(({ field, label }) => <span key={field}>{label}</span>)}
+              </div>
+              {draft.rows.map((row, index) => (
+                <div key={index} className="grid grid-cols-[2fr_repeat(5,1fr)] gap-1">
+                  <input
+                    type="text"
+                    value={row.food_name}
+                    onChange={(e) => setRow(index, 'food_name', e.target.value)}
+                    className={inputClass}
+                  />
+                  {INGREDIENT_FIELDS.map(({ field }) => (
+                    <input
+                      key={field}
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={row[field]}
+                      onChange={(e) => setRow(index, field, e.target.value)}
+                      className={inputClass}
+                    />
+                  ))}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, rows: [...draft.rows, EMPTY_ROW] })}
+                className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400"
+              >
+                Add ingredient
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              Makes (servings)
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={draft.yield_servings}
+                onChange={(e) => setDraft({ ...draft, yield_servings: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+            <label className="text-xs font-medium text-zinc-500 dark:text-zinc-400">
+              Cooked weight (g)
+              <input
+                type="number"
+                min="0"
+                value={draft.yield_grams}
+                onChange={(e) => setDraft({ ...draft, yield_grams: e.target.value })}
+                className={`mt-1 ${inputClass}`}
+              />
+            </label>
+          </div>
+          <p className="text-xs text-zinc-400 dark:text-zinc-500">
+            Give servings, the cooked weight, or both. The cooked weight lets you log portions in grams.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="rounded px-3 py-1.5 text-sm text-zinc-600 hover:bg-zinc-200 dark:text-zinc-400 dark:hover:bg-zinc-700"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              className="rounded bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {recipes.length === 0 ? (
+        editingId === null && <p className="text-sm text-zinc-400 dark:text-zinc-500">No recipes yet.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100 border-t border-zinc-100 dark:divide-zinc-800 dark:border-zinc-800">
+          {recipes.map((recipe) => (
+            <li key={recipe.id} className="flex items-center justify-between gap-4 py-3">
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium text-zinc-900 dark:text-zinc-100">{recipe.name}</p>
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  {describeNutrition(recipe)} · {describeYield(recipe)} · {recipe.ingredients.length} ingredient
+                  {recipe.ingredients.length === 1 ? '' : 's'}
+                </p>
+              </div>
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => startEditing(recipe)}
+                  className="text-sm text-zinc-500 hover:text-blue-600 dark:text-zinc-400 dark:hover:text-blue-400"
+                >
+                  Edit
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleDelete(recipe)}
+                  className="text-sm text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </section>
+  );
+}
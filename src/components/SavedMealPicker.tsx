@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface SavedMeal {
+  id: string;
+  name: string;
+  items: { calories: number }[];
+  use_count: number;
+}
+
+interface SavedMealPickerProps {
+  query: string;
+  selectedDate: string;
+  refreshKey?: number;
+  disabled?: boolean;
+  onLogged: () => void;
+}
+
+const QUICK_PICKS = 6;
+const SUGGESTIONS = 5;
+
+/**
+ * Saved meals for the entry form: the most used ones as quick picks when the
+ * text box is empty, or the ones matching what's being typed
+ */
+export function SavedMealPicker({ query, selectedDate, refreshKey, disabled, onLogged }: SavedMealPickerProps) {
+  const [meals, setMeals] = useState<SavedMeal[]>([]);
+  const [servings, setServings] = useState('1');
+  const [loggingId, setLoggingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchMeals();
+  }, [refreshKey]);
+
+  const fetchMeals = async () => {
+    try {
+      const res = await fetch('/api/saved-meals');
+      if (!res.ok) return;
+      const data = await res.json();
+      setMeals(data.meals || []);
+    } catch (err) {
+      console.error('Failed to fetch saved meals:', err);
+    }
+  };
+
+  const handleLog = async (meal: SavedMeal) => {
+    setLoggingId(meal.id);
+    setError('');
+    try {
+      const res = await fetch(`/api/saved-meals/${meal.id}/log`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date: selectedDate, servings: parseFloat(servings) || 1 }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to log saved meal');
+      }
+      setServings('1');
+      fetchMeals();
+      onLogged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log saved meal');
+    } finally {
+      setLoggingId(null);
+    }
+  };
+
+  const search = query.trim().toLowerCase();
+  const shown = search
+    ? meals.filter((meal) => meal.name.toLowerCase().includes(search)).slice(0, SUGGESTIONS)
+    : meals.slice(0, QUICK_PICKS);
+
+  if (shown.length === 0) return null;
+
+  const multiplier = parseFloat(servings) || 1;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+        <span>{search ? 'Saved meals matching' : 'Saved meals'}</span>
+        <span>•</span>
+        <label className="flex items-center gap-1">
+          Servings
+          <input
+            type="number"
+            min="0.25"
+            max="20"
+            step="0.25"
+            value={servings}
+            onChange={(e) => setServings(e.target.value)}
+            className="w-16 rounded border border-zinc-300 px-1.5 py-0.5 text-xs text-zinc-900 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
+          />
+        </label>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {shown.map((meal) => {
+          const calories = meal.items.reduce((sum, item) => sum + item.calories, 0) * multiplier;
+          return (
+            <button
+              key={meal.id}
+              type="button"
+              onClick={() => handleLog(meal)}
+              disabled={disabled || loggingId !== null}
+              className="rounded-full border border-zinc-200 px-3 py-1 text-sm text-zinc-700 transition-colors hover:border-blue-500 hover:text-blue-600 disabled:opacity-50 dark:border-zinc-700 dark:text-zinc-300 dark:hover:text-blue-400"
+              title={`Log ${multiplier === 1 ? '' : `${multiplier} × `}${meal.name} (used ${meal.use_count} time${meal.use_count !== 1 ? 's' : ''})`}
+            >
+              {loggingId === meal.id ? 'Logging...' : meal.name}
+              <span className="ml-1.5 text-xs text-zinc-400">{Math.round(calories)} kcal</span>
+            </button>
+          );
+        })}
+      </div>
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface SavedMealItem {
+  food_name: string;
+  grams: number | null;
+  calories: number;
+  protein_g: number;
+}
+
+interface SavedMeal {
+  id: string;
+  name: string;
+  items: SavedMealItem[];
+  use_count: number;
+  last_used_at: string | null;
+}
+
+export function SavedMeals() {
+  const [meals, setMeals] = useState<SavedMeal[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchMeals();
+  }, []);
+
+  const fetchMeals = async () => {
+    try {
+      const res = await fetch('/api/saved-meals');
+      if (!res.ok) return;
+      const data = await res.json();
+      setMeals(data.meals || []);
+    } catch (err) {
+      console.error('Failed to fetch saved meals:', err);
+    }
+  };
+
+  const updateMeal = async (meal: SavedMeal, updates: { name?: string; items?: SavedMealItem[] }) => {
+    setError('');
+    try {
+      const res = await fetch(`/api/saved-meals/${meal.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to update saved meal');
+      setMeals((prev) => prev.map((m) => (m.id === meal.id ? data.meal : m)));
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update saved meal');
+      return false;
+    }
+  };
+
+  const handleRename = async (meal: SavedMeal) => {
+    if (!draftName.trim() || draftName.trim() === meal.name) {
+      setEditingId(null);
+      return;
+    }
+    if (await updateMeal(meal, { name: draftName.trim() })) {
+      setEditingId(null);
+    }
+  };
+
+  const handleRemoveItem = async (meal: SavedMeal, index: number) => {
+    if (meal.items.length === 1) {
+      setError('A saved meal needs at least one item. Delete the meal instead.');
+      return;
+    }
+    await updateMeal(meal, { items: meal.items.filter((_, i) => i !== index) });
+  };
+
+  const handleDelete = async (meal: SavedMeal) => {
+    if (!confirm(`Delete the saved meal "${meal.name}"? Entries already logged from it are kept.`)) return;
+
+    try {
+      const res = await fetch(`/api/saved-meals/${meal.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete saved meal');
+      setMeals((prev) => prev.filter((m) => m.id !== meal.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete saved meal');
+    }
+  };
+
+  return (
+    <section className="mt-8 rounded-2xl border border-zinc-200 bg-white p-6 dark:border-zinc-800 dark:bg-zinc-900">
+      <h2 className="mb-4 text-lg font-medium text-zinc-900 dark:text-zinc-100">
+        Saved Meals
+      </h2>
+      <p className="mb-4 text-sm text-zinc-500 dark:text-zinc-400">
+        Star an entry on the log page to save it. Saved meals can be logged again from the entry form in one tap, without re-estimating.
+      </p>
+
+      {meals.length === 0 ? (
+        <p className="text-sm text-zinc-400 dark:text-zinc-500">No saved meals yet.</p>
+      ) : (
+        <ul className="divide-y divide-zinc-100 border-t border-zinc-100 dark:divide-zinc-800 dark:border-zinc-800">
+          {meals.map((meal) => {
+            const calories = meal.items.reduce((sum, item) => sum + item.calories, 0);
+            return (
+              <li key={meal.id} className="py-3">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    {editingId === meal.id ? (
+                      <input
+                        type="text"
+                        value={draftName}
+                        onChange={(e) => setDraftName(e.target.value)}
+                        onBlur={() => handleRename(meal)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleRename(meal);
+                          if (e.key === 'Escape') setEditingId(null);
+                        }}
+                        maxLength={100}
+                        autoFocus
+                        className="block w-full rounded border border-zinc-300 px-2 py-1 text-sm dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
+                      />
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(expandedId === meal.id ? null : meal.id)}
+                        className="truncate text-left text-sm font-medium text-zinc-900 dark:text-zinc-100"
+                      >
+                        {meal.name}
+                      </button>
+                    )}
+                    <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                      {meal.items.length} item{meal.items.length !== 1 ? 's' : ''} · {Math.round(calories)} kcal · used{' '}
+                      {meal.use_count} time{meal.use_count !== 1 ? 's' : ''}
+                      {meal.last_used_at && `, last ${new Date(meal.last_used_at).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex gap-3">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setDraftName(meal.name);
+                        setEditingId(meal.id);
+                      }}
+                      className="text-sm text-zinc-500 hover:text-blue-600 dark:text-zinc-400 dark:hover:text-blue-400"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(meal)}
+                      className="text-sm text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {expandedId === meal.id && (
+                  <ul className="mt-2 space-y-1 rounded-lg bg-zinc-50 p-2 dark:bg-zinc-800/50">
+                    {meal.items.map((item, i) => (
+                      <li key={i} className="flex items-center justify-between text-xs text-zinc-600 dark:text-zinc-400">
+                        <span>
+                          {item.food_name}
+                          {item.grams !== null && ` (${Math.round(item.grams)}g)`}
+                        </span>
+                        <span className="flex items-center gap-3">
+                          {Math.round(item.calories)} kcal · {Math.round(item.protein_g)}g protein
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveItem(meal, i)}
+                            className="text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+                            title="Remove from saved meal"
+                          >
+                            ✕
+                          </button>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </section>
+  );
+}
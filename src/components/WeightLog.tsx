@@ -0,0 +1,119 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface WeightLogEntry {
+  id: string;
+  logged_date: string;
+  weight_kg: number;
+}
+
+interface WeightLogProps {
+  date: string;
+  onChange?: () => void;
+}
+
+export function WeightLog({ date, onChange }: WeightLogProps) {
+  const [log, setLog] = useState<WeightLogEntry | null>(null);
+  const [weight, setWeight] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (date) fetchLog();
+  }, [date]);
+
+  const fetchLog = async () => {
+    try {
+      const res = await fetch(`/api/weight?date=${date}`);
+      const data = await res.json();
+      const existing: WeightLogEntry | undefined = data.logs?.[0];
+      setLog(existing || null);
+      setWeight(existing ? String(existing.weight_kg) : '');
+    } catch (err) {
+      console.error('Failed to fetch weigh-in:', err);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const weightKg = parseFloat(weight);
+    if (!weightKg) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      const res = await fetch('/api/weight', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, weight_kg: weightKg }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Failed to log weight');
+
+      setLog(data.log);
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log weight');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!log || !confirm('Delete this weigh-in?')) return;
+
+    try {
+      const res = await fetch(`/api/weight/${log.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete weigh-in');
+
+      setLog(null);
+      setWeight('');
+      onChange?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete weigh-in');
+    }
+  };
+
+  const unchanged = log !== null && parseFloat(weight) === Number(log.weight_kg);
+
+  return (
+    <div className="rounded-2xl border border-zinc-200 bg-white p-4 dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Weigh-in
+        </h3>
+        {log && (
+          <button
+            onClick={handleDelete}
+            className="text-xs text-zinc-400 hover:text-red-600 dark:hover:text-red-400"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="number"
+          step="0.1"
+          min="20"
+          max="400"
+          value={weight}
+          onChange={(e) => setWeight(e.target.value)}
+          placeholder="Weight (kg)"
+          className="block w-full rounded-lg border border-zinc-300 px-3 py-2 text-sm text-zinc-900 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        />
+        <button
+          type="submit"
+          disabled={saving || !weight || unchanged}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : log ? 'Update' : 'Log'}
+        </button>
+      </form>
+      {error && (
+        <p className="mt-2 text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
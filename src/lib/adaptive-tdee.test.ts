@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateAdaptiveTDEE,
+  trendWeights,
+  weightTrendSlope,
+  dailyIntakeFromEntries,
+  type WeighIn,
+  type DailyIntake,
+} from './adaptive-tdee';
+import { KCAL_PER_KG } from './goals';
+
+const END_DATE = '2026-03-28';
+
+function daysBefore(offset: number): string {
+  const date = new Date(Date.UTC(2026, 2, 28 - offset));
+  return date.toISOString().split('T')[0];
+}
+
+// 28 days of weigh-ins losing kgPerDay, with alternating ±noise of water weight
+function weighIns(kgPerDay: number, noise = 0, days = 28): WeighIn[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: daysBefore(days - 1 - i),
+    weight_kg: 80 + kgPerDay * i + (i % 2 === 0 ? noise : -noise),
+  }));
+}
+
+function intake(calories: number, days = 28, spread = 0): DailyIntake[] {
+  return Array.from({ length: days }, (_, i) => ({
+    date: daysBefore(days - 1 - i),
+    calories: calories + (i % 2 === 0 ? spread : -spread),
+    calories_low: calories * 0.85,
+    calories_high: calories * 1.15,
+  }));
+}
+
+describe('weightTrendSlope', () => {
+  it('should recover a steady loss rate', () => {
+    const trend = weightTrendSlope(weighIns(-0.05));
+    expect(trend?.slope).toBeCloseTo(-0.05, 6);
+    expect(trend?.standardError).toBeCloseTo(0, 6);
+  });
+
+  it('should need at least three weigh-ins on different days', () => {
+    expect(weightTrendSlope(weighIns(-0.05).slice(0, 2))).toBeNull();
+    expect(weightTrendSlope([
+      { date: END_DATE, weight_kg: 80 },
+      { date: END_DATE, weight_kg: 81 },
+      { date: END_DATE, weight_kg: 79 },
+    ])).toBeNull();
+  });
+});
+
+describe('estimateAdaptiveTDEE', () => {
+  it('should add back the energy lost from the weight trend', () => {
+    const result = estimateAdaptiveTDEE(weighIns(-0.05), intake(2000), END_DATE);
+
+    expect(result).not.toBeNull();
+    expect(result!.tdee).toBe(Math.round(2000 + 0.05 * KCAL_PER_KG));
+    expect(result!.weight_change_kg_per_week).toBeCloseTo(-0.35, 2);
+    expect(result!.avg_intake).toBe(2000);
+  });
+
+  it('should equal intake when weight is stable', () => {
+    const result = estimateAdaptiveTDEE(weighIns(0), intake(2400), END_DATE);
+    expect(result!.tdee).toBe(2400);
+  });
+
+  it('should bracket the estimate with the logged ranges', () => {
+    const result = estimateAdaptiveTDEE(weighIns(-0.05), intake(2000), END_DATE)!;
+
+    expect(result.tdee_low).toBeLessThan(result.tdee);
+    expect(result.tdee_high).toBeGreaterThan(result.tdee);
+  });
+
+  it('should widen the range for noisier weigh-ins and intake', () => {
+    const clean = estimateAdaptiveTDEE(weighIns(-0.05), intake(2000), END_DATE)!;
+    const noisy = estimateAdaptiveTDEE(weighIns(-0.05, 0.8), intake(2000, 28, 400), END_DATE)!;
+
+    expect(noisy.tdee_high - noisy.tdee_low).toBeGreaterThan(clean.tdee_high - clean.tdee_low);
+  });
+
+  it('should ignore data outside the window', () => {
+    const old = weighIns(-0.5, 0, 60).slice(0, 30);
+    const result = estimateAdaptiveTDEE([...old, ...weighIns(0)], intake(2200), END_DATE);
+
+    expect(result!.tdee).toBe(2200);
+    expect(result!.weigh_ins).toBe(28);
+  });
+
+  it('should return null without enough weigh-ins or logged days', () => {
+    expect(estimateAdaptiveTDEE(weighIns(-0.05).filter((_, i) => i % 4 === 0), intake(2000), END_DATE)).toBeNull();
+    expect(estimateAdaptiveTDEE(weighIns(-0.05), intake(2000, 10), END_DATE)).toBeNull();
+  });
+
+  it('should return null when weigh-ins span less than two weeks', () => {
+    expect(estimateAdaptiveTDEE(weighIns(-0.05, 0, 10), intake(2000), END_DATE)).toBeNull();
+  });
+});
+
+describe('trendWeights', () => {
+  it('should damp day-to-day swings', () => {
+    const trend = trendWeights(weighIns(0, 1));
+    const last = trend[trend.length - 1];
+
+    expect(Math.abs(last.trend_kg - 80)).toBeLessThan(1);
+    expect(trend[0].trend_kg).toBe(trend[0].weight_kg);
+  });
+
+  it('should sort weigh-ins by date', () => {
+    const trend = trendWeights([
+      { date: '2026-03-02', weight_kg: 79 },
+      { date: '2026-03-01', weight_kg: 80 },
+    ]);
+    expect(trend.map((w) => w.date)).toEqual(['2026-03-01', '2026-03-02']);
+  });
+});
+
+describe('dailyIntakeFromEntries', () => {
+  it('should total items per resolved date with independent ranges', () => {
+    const days = dailyIntakeFromEntries([
+      { resolved_date: '2026-03-01', entry_items: [{ calories: 300, calories_low: 250, calories_high: 350 }] },
+      { resolved_date: '2026-03-01', entry_items: [{ calories: 500, calories_low: 400, calories_high: 600 }] },
+      { resolved_date: '2026-03-02', entry_items: null },
+    ]);
+
+    // 50 and 100 kcal either side, combined in quadrature
+    expect(days).toEqual([
+      { date: '2026-03-01', calories: 800, calories_low: expect.closeTo(688.2, 1), calories_high: expect.closeTo(911.8, 1) },
+      { date: '2026-03-02', calories: 0, calories_low: 0, calories_high: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,222 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AdaptiveTDEE, TDEECalculation } from '@/types/nutrition';
+import { dailyRollups, targetsForDay } from '@/lib/aggregation';
+import { KCAL_PER_KG, GOAL_COLUMNS } from '@/lib/goals';
+
+/**
+ * Adaptive (observed) TDEE estimation
+ *
+ * Energy balance: intake - expenditure = stored energy. Over a few weeks,
+ * the slope of the weight trend tells us how much energy was stored, so
+ *
+ *   observed TDEE = average logged intake - (trend slope kg/day × 7700 kcal/kg)
+ *
+ * The trend is a least-squares line through the window's weigh-ins, which
+ * smooths out day-to-day water weight. The confidence range combines the
+ * slope's standard error, the day-to-day spread of intake, and the logged
+ * low/high calorie estimates.
+ */
+
+export const ADAPTIVE_WINDOW_DAYS = 28;
+export const MIN_WEIGH_INS = 8;
+export const MIN_INTAKE_DAYS = 14;
+export const MIN_WEIGH_IN_SPAN_DAYS = 14;
+
+const Z_90 = 1.645; // 90% interval, matching the per-item ranges
+const TREND_SMOOTHING = 0.1; // weight given to each new weigh-in in the trend line
+
+export interface WeighIn {
+  date: string; // YYYY-MM-DD
+  weight_kg: number;
+}
+
+export interface DailyIntake {
+  date: string; // YYYY-MM-DD
+  calories: number;
+  calories_low: number;
+  calories_high: number;
+}
+
+function dayNumber(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / 86_400_000;
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date((dayNumber(date) + days) * 86_400_000).toISOString().split('T')[0];
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Exponentially smoothed trend weight for charting (one point per weigh-in)
+ */
+export function trendWeights(
+  weighIns: WeighIn[],
+  smoothing = TREND_SMOOTHING
+): (WeighIn & { trend_kg: number })[] {
+  const sorted = [...weighIns].sort((a, b) => a.date.localeCompare(b.date));
+  let trend: number | null = null;
+  let lastDay = 0;
+
+  return sorted.map((w) => {
+    const day = dayNumber(w.date);
+    if (trend === null) {
+      trend = w.weight_kg;
+    } else {
+      // Missed days count as skipped smoothing steps
+      const alpha = 1 - Math.pow(1 - smoothing, Math.max(1, day - lastDay));
+      trend = trend + alpha * (w.weight_kg - trend);
+    }
+    lastDay = day;
+    return { ...w, trend_kg: Math.round(trend * 100) / 100 };
+  });
+}
+
+/**
+ * Least-squares slope (kg/day) of weight against day number, with its standard error
+ */
+export function weightTrendSlope(weighIns: WeighIn[]): { slope: number; standardError: number } | null {
+  if (weighIns.length < 3) return null;
+
+  const xs = weighIns.map((w) => dayNumber(w.date));
+  const ys = weighIns.map((w) => w.weight_kg);
+  const xMean = mean(xs);
+  const yMean = mean(ys);
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < xs.length; i++) {
+    sxx += (xs[i] - xMean) ** 2;
+    sxy += (xs[i] - xMean) * (ys[i] - yMean);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = yMean - slope * xMean;
+  const residualSS = xs.reduce((sum, x, i) => sum + (ys[i] - (intercept + slope * x)) ** 2, 0);
+  const standardError = Math.sqrt(residualSS / (xs.length - 2) / sxx);
+
+  return { slope, standardError };
+}
+
+/**
+ * Estimate maintenance calories from weigh-ins and logged intake over the
+ * window ending at endDate. Returns null until there is enough data.
+ */
+export function estimateAdaptiveTDEE(
+  weighIns: WeighIn[],
+  intake: DailyIntake[],
+  endDate: string,
+  windowDays = ADAPTIVE_WINDOW_DAYS
+): AdaptiveTDEE | null {
+  const startDate = shiftDate(endDate, -(windowDays - 1));
+  const inWindow = (d: { date: string }) => d.date >= startDate && d.date <= endDate;
+
+  const weights = weighIns.filter(inWindow);
+  const days = intake.filter(inWindow).filter((d) => d.calories > 0);
+
+  if (weights.length < MIN_WEIGH_INS || days.length < MIN_INTAKE_DAYS) return null;
+
+  const dates = weights.map((w) => dayNumber(w.date));
+  if (Math.max(...dates) - Math.min(...dates) < MIN_WEIGH_IN_SPAN_DAYS) return null;
+
+  const trend = weightTrendSlope(weights);
+  if (!trend) return null;
+
+  const calories = days.map((d) => d.calories);
+  const avgIntake = mean(calories);
+  const intakeVariance = calories.reduce((sum, c) => sum + (c - avgIntake) ** 2, 0) / (calories.length - 1);
+  const intakeError = Math.sqrt(intakeVariance / calories.length);
+
+  const storedPerDay = trend.slope * KCAL_PER_KG;
+  const spread = Z_90 * Math.sqrt((trend.standardError * KCAL_PER_KG) ** 2 + intakeError ** 2);
+
+  return {
+    tdee: Math.round(avgIntake - storedPerDay),
+    tdee_low: Math.round(mean(days.map((d) => d.calories_low)) - storedPerDay - spread),
+    tdee_high: Math.round(mean(days.map((d) => d.calories_high)) - storedPerDay + spread),
+    avg_intake: Math.round(avgIntake),
+    weight_change_kg_per_week: Math.round(trend.slope * 7 * 100) / 100,
+    weigh_ins: weights.length,
+    intake_days: days.length,
+    window_days: windowDays,
+  };
+}
+
+/**
+ * Logged calories per resolved_date
+ */
+export function dailyIntakeFromEntries(
+  entries: { resolved_date: string; entry_items: { calories: number; calories_low: number; calories_high: number }[] | null }[]
+): DailyIntake[] {
+  return dailyRollups(entries).map(({ date, totals: { calories } }) => ({
+    date,
+    calories: calories.value,
+    calories_low: calories.low,
+    calories_high: calories.high,
+  }));
+}
+
+/**
+ * Load everything needed for the formula and observed TDEE on a date
+ * The formula uses the latest weigh-in on or before the date, falling back
+ * to the weight in settings.
+ */
+export async function getTDEEEstimates(
+  supabase: SupabaseClient,
+  userId: string,
+  date: string,
+  windowDays = ADAPTIVE_WINDOW_DAYS
+): Promise<{ weight_kg: number | null; formula: TDEECalculation | null; adaptive: AdaptiveTDEE | null }> {
+  const startDate = shiftDate(date, -(windowDays - 1));
+
+  const [{ data: settings }, { data: activity }, { data: latestWeight }, { data: weights }, { data: entries }] =
+    await Promise.all([
+      supabase
+        .from('user_settings')
+        .select(`weight_kg, height_cm, age_years, sex, ${GOAL_COLUMNS}`)
+        .eq('id', userId)
+        .single(),
+      supabase
+        .from('daily_activity')
+        .select('activity_level_id')
+        .eq('user_id', userId)
+        .eq('resolved_date', date)
+        .maybeSingle(),
+      supabase
+        .from('weight_logs')
+        .select('weight_kg')
+        .eq('user_id', userId)
+        .lte('logged_date', date)
+        .order('logged_date', { ascending: false })
+        .limit(1)
+        .maybeSingle(),
+      supabase
+        .from('weight_logs')
+        .select('logged_date, weight_kg')
+        .eq('user_id', userId)
+        .gte('logged_date', startDate)
+        .lte('logged_date', date),
+      supabase
+        .from('entries')
+        .select('resolved_date, entry_items (calories, calories_low, calories_high)')
+        .eq('user_id', userId)
+        .gte('resolved_date', startDate)
+        .lte('resolved_date', date),
+    ]);
+
+  const weightKg = latestWeight ? Number(latestWeight.weight_kg) : settings?.weight_kg ?? null;
+  const formula = targetsForDay(settings && { ...settings, weight_kg: weightKg }, activity?.activity_level_id, date);
+
+  const adaptive = estimateAdaptiveTDEE(
+    (weights || []).map((w) => ({ date: w.logged_date, weight_kg: Number(w.weight_kg) })),
+    dailyIntakeFromEntries(entries || []),
+    date,
+    windowDays
+  );
+
+  return { weight_kg: weightKg, formula, adaptive };
+}
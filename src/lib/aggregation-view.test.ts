@@ -0,0 +1,289 @@
+import { describe, it, expect } from 'vitest';
+import { loadMigrations } from './migrations';
+import { NUTRIENTS } from './nutrients';
+import { MEAL_SLOTS, type MealSlot } from '@/types/nutrition';
+import type { DailyTotals } from '@/types/database';
+import {
+  aggregateNutrients,
+  combineIntervals,
+  dailyRollupFromView,
+  dailyRollups,
+  periodRollups,
+} from './aggregation';
+
+/**
+ * Property tests: the aggregation module and the daily_totals view agree on
+ * random data. The view is read from the migrations as a database would run
+ * them, and evaluated by a small interpreter for the SQL it uses (columns,
+ * arithmetic, SUM, COUNT, COALESCE, GREATEST, POWER, SQRT), with Postgres'
+ * NULL rules.
+ */
+
+// ---------------------------------------------------------------------------
+// Random data
+
+// Seeded PRNG (mulberry32), so a failing case can be replayed from its seed
+function random(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (max: number) => Math.floor(next() * (max + 1)),
+    pick: <T,>(values: readonly T[]) => values[Math.floor(next() * values.length)],
+  };
+}
+
+type Row = Record<string, unknown>;
+interface Entry { id: string; user_id: string; resolved_date: string; meal_slot: MealSlot | null }
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function randomData(seed: number) {
+  const rand = random(seed);
+  const entries: Entry[] = [];
+  const items: Row[] = [];
+
+  const entryCount = rand.int(25);
+  for (let i = 0; i < entryCount; i++) {
+    const entry: Entry = {
+      id: `entry-${i}`,
+      user_id: rand.pick(['alice', 'bob']),
+      resolved_date: `2026-0${rand.pick([2, 3])}-${String(1 + rand.int(27)).padStart(2, '0')}`,
+      meal_slot: rand.next() < 0.3 ? null : rand.pick(MEAL_SLOTS),
+    };
+    entries.push(entry);
+
+    // Some entries have no items, some items lack a range, and some lack a
+    // value but still have a range
+    const itemCount = rand.int(4);
+    for (let j = 0; j < itemCount; j++) {
+      const item: Row = { id: `${entry.id}-item-${j}`, entry_id: entry.id };
+      for (const { field, low, high } of NUTRIENTS) {
+        const value = round2(rand.next() * 500);
+        item[field] = rand.next() < 0.1 ? null : value;
+        item[low] = rand.next() < 0.1 ? null : round2(value * (1 - rand.next() * 0.4));
+        item[high] = rand.next() < 0.1 ? null : round2(value * (1 + rand.next() * 0.6));
+      }
+      items.push(item);
+    }
+  }
+  return { entries, items };
+}
+
+// ---------------------------------------------------------------------------
+// A SQL interpreter for the view's select list
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'column'; table: string; column: string }
+  | { type: 'call'; name: string; distinct: boolean; args: Node[] }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+function tokenize(sql: string): string[] {
+  return sql.match(/\d+(?:\.\d+)?|\w+(?:\.\w+)?|[(),+\-*/]/g) ?? [];
+}
+
+function parseSelectList(sql: string): { alias: string; node: Node }[] {
+  const tokens = tokenize(sql);
+  let i = 0;
+  const peek = () => tokens[i];
+  const take = (expected?: string) => {
+    const token = tokens[i++];
+    if (expected && token.toUpperCase() !== expected) throw new Error(`Expected ${expected}, found ${token}`);
+    return token;
+  };
+
+  const factor = (): Node => {
+    const token = take();
+    if (token === '(') {
+      const node = expression();
+      take(')');
+      return node;
+    }
+    if (/^\d/.test(token)) return { type: 'number', value: Number(token) };
+    if (peek() === '(') {
+      take('(');
+      const distinct = peek().toUpperCase() === 'DISTINCT' && Boolean(take());
+      const args = [expression()];
+      while (peek() === ',') {
+        take(',');
+        args.push(expression());
+      }
+      take(')');
+      return { type: 'call', name: token.toUpperCase(), distinct, args };
+    }
+    const [table, column] = token.split('.');
+    if (!column) throw new Error(`Unexpected token in the view: ${token}`);
+    return { type: 'column', table, column };
+  };
+  const term = (): Node => {
+    let node = factor();
+    while (peek() === '*' || peek() === '/') node = { type: 'binary', op: take(), left: node, right: factor() };
+    return node;
+  };
+  const expression = (): Node => {
+    let node = term();
+    while (peek() === '+' || peek() === '-') node = { type: 'binary', op: take(), left: node, right: term() };
+    return node;
+  };
+
+  const columns: { alias: string; node: Node }[] = [];
+  while (i < tokens.length) {
+    const node = expression();
+    const alias = peek()?.toUpperCase() === 'AS' ? (take(), take()) : (node as { column: string }).column;
+    columns.push({ alias, node });
+    if (i < tokens.length) take(',');
+  }
+  return columns;
+}
+
+type JoinedRow = { e: Row; ei: Row | null };
+
+function evaluate(node: Node, group: JoinedRow[], row: JoinedRow = group[0]): number | string | null {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'column': {
+      const source = node.table === 'e' ? row.e : row.ei;
+      return (source?.[node.column] ?? null) as number | string | null;
+    }
+    case 'binary': {
+      const left = evaluate(node.left, group, row) as number | null;
+      const right = evaluate(node.right, group, row) as number | null;
+      if (left === null || right === null) return null;
+      return node.op === '+' ? left + right : node.op === '-' ? left - right : node.op === '*' ? left * right : left / right;
+    }
+    case 'call': {
+      if (node.name === 'SUM' || node.name === 'COUNT') {
+        const values = group.map((r) => evaluate(node.args[0], group, r)).filter((v) => v !== null);
+        const counted = node.distinct ? [...new Set(values)] : values;
+        if (node.name === 'COUNT') return counted.length;
+        return counted.length === 0 ? null : (counted as number[]).reduce((sum, v) => sum + v, 0);
+      }
+      const args = node.args.map((arg) => evaluate(arg, group, row));
+      switch (node.name) {
+        case 'COALESCE':
+          return args.find((v) => v !== null) ?? null;
+        case 'GREATEST': {
+          // Postgres ignores NULLs here, unlike in arithmetic
+          const present = args.filter((v) => v !== null) as number[];
+          return present.length === 0 ? null : Math.max(...present);
+        }
+        case 'POWER':
+          return args.includes(null) ? null : (args[0] as number) ** (args[1] as number);
+        case 'SQRT':
+          return args[0] === null ? null : Math.sqrt(args[0] as number);
+      }
+      throw new Error(`The view uses ${node.name}, which this test can't evaluate`);
+    }
+  }
+}
+
+// The daily_totals view as the last migration to define it leaves it
+const viewSql = loadMigrations()
+  .map((migration) => migration.sql.replace(/--.*$/gm, ''))
+  .flatMap((sql) => [...sql.matchAll(/CREATE (?:OR REPLACE )?VIEW daily_totals[^;]*?AS\s+SELECT([\s\S]*?)\sFROM entries e\s+LEFT JOIN entry_items ei ON ei\.entry_id = e\.id\s+GROUP BY e\.user_id, e\.resolved_date/g)])
+  .at(-1)![1];
+const viewColumns = parseSelectList(viewSql);
+
+function dailyTotalsView(entries: Entry[], items: Row[]): DailyTotals[] {
+  const groups = new Map<string, JoinedRow[]>();
+  for (const entry of entries) {
+    const key = `${entry.user_id}|${entry.resolved_date}`;
+    const entryItems = items.filter((item) => item.entry_id === entry.id);
+    const rows = entryItems.length > 0
+      ? entryItems.map((ei) => ({ e: entry as unknown as Row, ei }))
+      : [{ e: entry as unknown as Row, ei: null }];
+    groups.set(key, [...(groups.get(key) ?? []), ...rows]);
+  }
+  return [...groups.values()].map((group) =>
+    Object.fromEntries(viewColumns.map(({ alias, node }) => [alias, evaluate(node, group)])) as unknown as DailyTotals
+  );
+}
+
+// ---------------------------------------------------------------------------
+
+const SEEDS = Array.from({ length: 40 }, (_, i) => i + 1);
+
+function withItems(entries: Entry[], items: Row[]) {
+  return entries.map((entry) => ({ ...entry, entry_items: items.filter((item) => item.entry_id === entry.id) }));
+}
+
+describe('aggregation module and daily_totals view', () => {
+  it('has a total, low and high column in the view for every nutrient', () => {
+    const aliases = viewColumns.map((column) => column.alias);
+    const row = dailyRollupFromView(Object.fromEntries(aliases.map((alias) => [alias, 1])) as unknown as DailyTotals);
+
+    for (const { key } of NUTRIENTS) {
+      expect(row.totals[key], key).toEqual({ value: 1, low: 1, high: 1 });
+    }
+  });
+
+  it.each(SEEDS)('matches the view on random days (seed %i)', (seed) => {
+    const { entries, items } = randomData(seed);
+
+    for (const user of ['alice', 'bob']) {
+      const mine = entries.filter((entry) => entry.user_id === user);
+      const view = dailyTotalsView(mine, items)
+        .map(dailyRollupFromView)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const rollups = dailyRollups(withItems(mine, items));
+
+      expect(rollups.map((day) => [day.date, day.entryCount, day.itemCount]))
+        .toEqual(view.map((day) => [day.date, day.entryCount, day.itemCount]));
+      rollups.forEach((day, i) => {
+        for (const { key } of NUTRIENTS) {
+          for (const bound of ['value', 'low', 'high'] as const) {
+            expect(day.totals[key][bound], `${day.date} ${key} ${bound}`).toBeCloseTo(view[i].totals[key][bound], 6);
+          }
+        }
+      });
+    }
+  });
+});
+
+describe('rollups', () => {
+  it.each(SEEDS)('meal subtotals add up to the day (seed %i)', (seed) => {
+    const { entries, items } = randomData(seed);
+
+    for (const day of dailyRollups(withItems(entries, items))) {
+      const meals = Object.values(day.meals);
+      for (const { key } of NUTRIENTS) {
+        const combined = combineIntervals(meals.map((meal) => meal[key]));
+        expect(combined.value).toBeCloseTo(day.totals[key].value, 6);
+        expect(combined.low).toBeCloseTo(day.totals[key].low, 6);
+        expect(combined.high).toBeCloseTo(day.totals[key].high, 6);
+      }
+    }
+  });
+
+  it.each(SEEDS)('weekly and monthly totals match aggregating their items at once (seed %i)', (seed) => {
+    const { entries, items } = randomData(seed);
+    const mine = withItems(entries.filter((entry) => entry.user_id === 'bob'), items);
+    const days = dailyRollups(mine);
+
+    for (const period of ['week', 'month'] as const) {
+      const rollups = periodRollups(days, period);
+      expect(rollups.reduce((sum, rollup) => sum + rollup.days, 0)).toBe(days.length);
+
+      for (const rollup of rollups) {
+        if (period === 'week') expect(new Date(`${rollup.start}T00:00:00Z`).getUTCDay()).toBe(1);
+        const inPeriod = mine.filter((entry) => entry.resolved_date >= rollup.start && entry.resolved_date <= rollup.end);
+        const direct = aggregateNutrients(inPeriod.flatMap((entry) => entry.entry_items));
+
+        expect(rollup.entryCount).toBe(inPeriod.length);
+        for (const { key } of NUTRIENTS) {
+          expect(rollup.totals[key].value).toBeCloseTo(direct[key].value, 6);
+          expect(rollup.totals[key].low).toBeCloseTo(direct[key].low, 6);
+          expect(rollup.totals[key].high).toBeCloseTo(direct[key].high, 6);
+          expect(rollup.average[key].value).toBeCloseTo(direct[key].value / rollup.days, 6);
+        }
+      }
+    }
+  });
+});
@@ -1,45 +1,19 @@
 import { describe, it, expect } from 'vitest';
-
-/**
- * Aggregation helper - mirrors what the frontend does
- */
-function aggregateItems(items: Array<{
-  calories: number;
-  calories_low: number;
-  calories_high: number;
-  protein_g: number;
-  protein_low: number;
-  protein_high: number;
-  carbs_g: number;
-  carbs_low: number;
-  carbs_high: number;
-  fat_g: number;
-  fat_low: number;
-  fat_high: number;
-}>) {
-  return items.reduce(
-    (acc, item) => {
-      acc.calories.value += item.calories;
-      acc.calories.low += item.calories_low;
-      acc.calories.high += item.calories_high;
-      acc.protein.value += item.protein_g;
-      acc.protein.low += item.protein_low;
-      acc.protein.high += item.protein_high;
-      acc.carbs.value += item.carbs_g;
-      acc.carbs.low += item.carbs_low;
-      acc.carbs.high += item.carbs_high;
-      acc.fat.value += item.fat_g;
-      acc.fat.low += item.fat_low;
-      acc.fat.high += item.fat_high;
-      return acc;
-    },
-    {
-      calories: { value: 0, low: 0, high: 0 },
-      protein: { value: 0, low: 0, high: 0 },
-      carbs: { value: 0, low: 0, high: 0 },
-      fat: { value: 0, low: 0, high: 0 },
-    }
-  );
+import {
+  aggregateNutrients,
+  averageNutrients,
+  combineIntervals,
+  deficitProbability,
+  differenceInterval,
+  probabilityBelow,
+} from './aggregation';
+
+type Item = Parameters<typeof aggregateNutrients>[0][number];
+
+// Ranges added end to end, as daily totals were before they were combined
+// as independent estimates
+function aggregateItems(items: Item[]) {
+  return aggregateNutrients(items, { correlation: 1 });
 }
 
 describe('Aggregation Math', () => {
@@ -136,9 +110,9 @@ describe('Aggregation Math', () => {
     });
   });
 
-  describe('Range independence', () => {
-    it('should sum low bounds independently', () => {
-      // Ranges are summed directly, not compounded
+  describe('Fully correlated ranges', () => {
+    it('should sum low bounds directly', () => {
+      // With correlation 1, ranges are summed directly, not compounded
       const items = [
         { calories: 100, calories_low: 80, calories_high: 120, protein_g: 10, protein_low: 8, protein_high: 12, carbs_g: 10, carbs_low: 8, carbs_high: 12, fat_g: 5, fat_low: 4, fat_high: 6 },
         { calories: 100, calories_low: 80, calories_high: 120, protein_g: 10, protein_low: 8, protein_high: 12, carbs_g: 10, carbs_low: 8, carbs_high: 12, fat_g: 5, fat_low: 4, fat_high: 6 },
@@ -173,3 +147,96 @@ describe('Aggregation Math', () => {
     });
   });
 });
+
+describe('Independent ranges', () => {
+  const egg = { calories: 70, calories_low: 60, calories_high: 90 };
+
+  it('should combine distances from the value in quadrature', () => {
+    const totals = aggregateNutrients([egg, egg, egg, egg]);
+
+    // 10 under and 20 over per item, times sqrt(4)
+    expect(totals.calories.value).toBe(280);
+    expect(totals.calories.low).toBeCloseTo(260);
+    expect(totals.calories.high).toBeCloseTo(320);
+  });
+
+  it('should give a ten-item day a range far narrower than the sum of ranges', () => {
+    const items = Array.from({ length: 10 }, () => ({ calories: 200, calories_low: 150, calories_high: 250 }));
+
+    const independent = aggregateNutrients(items).calories;
+    const summed = aggregateNutrients(items, { correlation: 1 }).calories;
+
+    expect(summed.high - summed.low).toBe(1000);
+    expect(independent.high - independent.low).toBeCloseTo(1000 / Math.sqrt(10));
+  });
+
+  it('should widen with partial correlation', () => {
+    const parts = [{ value: 100, low: 90, high: 110 }, { value: 100, low: 90, high: 110 }];
+
+    expect(combineIntervals(parts, { correlation: 0.5 }).high).toBeCloseTo(100 * 2 + Math.sqrt(300));
+    expect(() => combineIntervals(parts, { correlation: 2 })).toThrow('between 0 and 1');
+  });
+
+  it('should count missing values as 0 and missing ranges as exact', () => {
+    const totals = aggregateNutrients([{ calories: 200, calories_low: 180, calories_high: 220, iron_mg: 2 }, { potassium_mg: null }]);
+
+    expect(totals.calories).toEqual({ value: 200, low: 180, high: 220 });
+    expect(totals.iron).toEqual({ value: 2, low: 2, high: 2 });
+    expect(totals.potassium).toEqual({ value: 0, low: 0, high: 0 });
+  });
+
+  it('should ignore the range of an item without a value, like the view', () => {
+    const totals = aggregateNutrients([{ calories: 200, calories_low: 180, calories_high: 220 }, { calories: null, calories_low: 50, calories_high: 90 }]);
+
+    expect(totals.calories).toEqual({ value: 200, low: 180, high: 220 });
+  });
+});
+
+describe('averageNutrients', () => {
+  it('should narrow the range as independent days are added', () => {
+    const day = (calories: number) => aggregateNutrients([{ calories, calories_low: calories - 300, calories_high: calories + 400 }]);
+    const average = averageNutrients([day(1800), day(2000), day(2200), day(2000)]);
+
+    // 300/400 on each day, over sqrt(4) days
+    expect(average.calories.value).toBe(2000);
+    expect(average.calories.low).toBeCloseTo(1850);
+    expect(average.calories.high).toBeCloseTo(2200);
+  });
+
+  it('should keep a single day\'s range and give zeros for no days', () => {
+    const day = aggregateNutrients([{ protein_g: 30, protein_low: 25, protein_high: 40 }]);
+
+    expect(averageNutrients([day]).protein).toEqual({ value: 30, low: 25, high: 40 });
+    expect(averageNutrients([]).protein).toEqual({ value: 0, low: 0, high: 0 });
+  });
+});
+
+describe('Probabilities', () => {
+  const day = { value: 1800, low: 1600, high: 2000 };
+
+  it('should read the 90% range as 5% either side', () => {
+    expect(probabilityBelow(day, 1800)).toBeCloseTo(0.5);
+    expect(probabilityBelow(day, 2000)).toBeCloseTo(0.95, 3);
+    expect(probabilityBelow(day, 1600)).toBeCloseTo(0.05, 3);
+  });
+
+  it('should be certain when there is no range', () => {
+    const exact = { value: 1800, low: 1800, high: 1800 };
+
+    expect(probabilityBelow(exact, 1800)).toBe(1);
+    expect(probabilityBelow(exact, 1799)).toBe(0);
+  });
+
+  it('should subtract independent estimates', () => {
+    const deficit = differenceInterval({ value: 2300, low: 2000, high: 2600 }, day);
+
+    expect(deficit.value).toBe(500);
+    expect(deficit.low).toBeCloseTo(500 - Math.hypot(300, 200));
+    expect(deficit.high).toBeCloseTo(500 + Math.hypot(300, 200));
+  });
+
+  it('should give the chance of a deficit against maintenance', () => {
+    expect(deficitProbability({ tdee: 1800, tdee_low: 1600, tdee_high: 2000 }, day)).toBeCloseTo(0.5);
+    expect(deficitProbability({ tdee: 2500, tdee_low: 2300, tdee_high: 2700 }, day)).toBeGreaterThan(0.99);
+  });
+});
@@ -0,0 +1,296 @@
+import {
+  NUTRIENTS,
+  emptyNutrientTotals,
+  type Nutrient,
+  type NutrientField,
+  type NutrientRangeField,
+  type NutrientTotal,
+  type NutrientTotals,
+} from '@/lib/nutrients';
+import { calculateFullTDEE, getActivityLevelById, DEFAULT_ACTIVITY_LEVELS } from '@/lib/tdee';
+import { shiftDate } from '@/lib/date-resolution';
+import type { DailyTotals } from '@/types/database';
+import type { MealSlot, TDEECalculation } from '@/types/nutrition';
+
+/**
+ * Nutrition Aggregation
+ *
+ * The one place totals and targets are computed: /api/daily-totals (behind
+ * the dashboard), /api/trends and the observed TDEE all aggregate through
+ * here, and the daily_totals view in supabase/migrations does the same arithmetic in
+ * SQL (aggregation-view.test.ts checks the two agree).
+ *
+ * Every item stores a value and a 90% range. Adding up the ends of the ranges
+ * assumes every item is off in the same direction at once, so a day of ten
+ * items got a range as wide as all ten worst cases together. Here ranges are
+ * combined as independent estimates (their distances from the value add in
+ * quadrature), or partially correlated ones with a correlation between 0 and
+ * 1, where 1 is the old end-to-end sum. The lower and upper sides are combined
+ * separately, since estimates are often lopsided.
+ *
+ * Reading each side of a range as half a normal distribution with that 90%
+ * width also gives probabilities: how likely a day was under its calorie
+ * target, or in deficit against maintenance calories.
+ */
+
+// Standard deviations either side of the value in a 90% range
+const Z_90 = 1.6449;
+
+type AggregatedItem = Partial<Record<NutrientField | NutrientRangeField, number | null>>;
+
+export interface AggregationOptions {
+  // Correlation between any two estimates' errors: 0 independent, 1 identical
+  correlation?: number;
+}
+
+/**
+ * Combine estimates of parts into an estimate of their sum
+ */
+export function combineIntervals(
+  intervals: NutrientTotal[],
+  { correlation = 0 }: AggregationOptions = {}
+): NutrientTotal {
+  if (correlation < 0 || correlation > 1) {
+    throw new Error('correlation must be between 0 and 1');
+  }
+
+  const value = intervals.reduce((sum, interval) => sum + interval.value, 0);
+  // Var(sum) = (1 - r) * sum of variances + r * (sum of deviations)^2
+  const spread = (distances: number[]) => Math.sqrt(
+    (1 - correlation) * distances.reduce((sum, d) => sum + d * d, 0) +
+    correlation * distances.reduce((sum, d) => sum + d, 0) ** 2
+  );
+
+  return {
+    value,
+    low: value - spread(intervals.map((interval) => Math.max(0, interval.value - interval.low))),
+    high: value + spread(intervals.map((interval) => Math.max(0, interval.high - interval.value))),
+  };
+}
+
+/**
+ * Per-nutrient totals of items' values and ranges. A missing value (items
+ * stored before a nutrient was tracked) counts as 0 with no range, whatever
+ * the range columns hold, as it does in the view; a missing range end counts
+ * as no uncertainty on that side.
+ */
+export function aggregateNutrients(
+  items: AggregatedItem[],
+  options?: AggregationOptions
+): NutrientTotals {
+  const totals = emptyNutrientTotals();
+  for (const { key, field, low, high } of NUTRIENTS) {
+    totals[key] = combineIntervals(items.map((item) => {
+      if (item[field] == null) return { value: 0, low: 0, high: 0 };
+      const value = Number(item[field]);
+      return { value, low: Number(item[low] ?? value), high: Number(item[high] ?? value) };
+    }), options);
+  }
+  return totals;
+}
+
+/**
+ * The average day of several days' totals. Days are estimated independently,
+ * so the average's range narrows as days are added instead of staying as
+ * wide as the average day's range.
+ */
+export function averageNutrients(days: NutrientTotals[]): NutrientTotals {
+  const average = emptyNutrientTotals();
+  if (days.length === 0) return average;
+
+  for (const { key } of NUTRIENTS) {
+    const total = combineIntervals(days.map((day) => day[key]));
+    average[key] = {
+      value: total.value / days.length,
+      low: total.low / days.length,
+      high: total.high / days.length,
+    };
+  }
+  return average;
+}
+
+/**
+ * An estimate of a - b from independent estimates of each
+ */
+export function differenceInterval(a: NutrientTotal, b: NutrientTotal): NutrientTotal {
+  const value = a.value - b.value;
+  return {
+    value,
+    low: value - Math.hypot(a.value - a.low, b.high - b.value),
+    high: value + Math.hypot(a.high - a.value, b.value - b.low),
+  };
+}
+
+// Standard normal CDF (Abramowitz and Stegun 7.1.26, error under 1e-7)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * The probability the true amount is at most threshold
+ */
+export function probabilityBelow(interval: NutrientTotal, threshold: number): number {
+  const distance = threshold - interval.value;
+  const sigma = (distance < 0 ? interval.value - interval.low : interval.high - interval.value) / Z_90;
+  if (sigma <= 0) return distance >= 0 ? 1 : 0;
+  return normalCdf(distance / sigma);
+}
+
+/**
+ * The probability calories were under maintenance (a deficit), with the
+ * maintenance estimate's own range as independent uncertainty
+ */
+export function deficitProbability(
+  tdee: { tdee: number; tdee_low: number; tdee_high: number },
+  calories: NutrientTotal
+): number {
+  const deficit = differenceInterval({ value: tdee.tdee, low: tdee.tdee_low, high: tdee.tdee_high }, calories);
+  return 1 - probabilityBelow(deficit, 0);
+}
+
+// ---------------------------------------------------------------------------
+// Rollups
+
+export type MealGroup = MealSlot | 'unassigned';
+
+export interface DailyRollup {
+  date: string;
+  entryCount: number;
+  itemCount: number;
+  totals: NutrientTotals;
+  // Subtotals of each meal logged that day
+  meals: Partial<Record<MealGroup, NutrientTotals>>;
+}
+
+export interface PeriodRollup {
+  start: string; // Monday for weeks, the 1st for months
+  end: string;
+  days: number; // days with entries
+  entryCount: number;
+  itemCount: number;
+  totals: NutrientTotals;
+  average: NutrientTotals; // per day with entries
+}
+
+/**
+ * Totals per resolved_date, with per-meal subtotals, in date order. Only
+ * dates with entries appear.
+ */
+export function dailyRollups(
+  entries: { resolved_date: string; meal_slot?: MealSlot | null; entry_items: AggregatedItem[] | null }[],
+  options?: AggregationOptions
+): DailyRollup[] {
+  type Day = { entryCount: number; items: AggregatedItem[]; meals: Map<MealGroup, AggregatedItem[]> };
+  const byDate = new Map<string, Day>();
+  for (const entry of entries) {
+    const day: Day = byDate.get(entry.resolved_date) ?? { entryCount: 0, items: [], meals: new Map() };
+    const meal = entry.meal_slot ?? 'unassigned';
+    const items = entry.entry_items || [];
+    day.entryCount++;
+    day.items.push(...items);
+    day.meals.set(meal, [...(day.meals.get(meal) ?? []), ...items]);
+    byDate.set(entry.resolved_date, day);
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      entryCount: day.entryCount,
+      itemCount: day.items.length,
+      totals: aggregateNutrients(day.items, options),
+      meals: Object.fromEntries([...day.meals].map(([meal, items]) => [meal, aggregateNutrients(items, options)])),
+    }));
+}
+
+function periodBounds(date: string, period: 'week' | 'month'): { start: string; end: string } {
+  if (period === 'week') {
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const start = shiftDate(date, -((weekday + 6) % 7));
+    return { start, end: shiftDate(start, 6) };
+  }
+  const [year, month] = date.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return { start: `${date.slice(0, 7)}-01`, end: `${date.slice(0, 7)}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Weekly (Monday to Sunday) or calendar-month rollups of daily totals, in
+ * date order. Days are independent estimates, so a period's total has the
+ * same range as aggregating all of its items at once.
+ */
+export function periodRollups(
+  days: Pick<DailyRollup, 'date' | 'entryCount' | 'itemCount' | 'totals'>[],
+  period: 'week' | 'month'
+): PeriodRollup[] {
+  const byPeriod = new Map<string, typeof days>();
+  for (const day of [...days].sort((a, b) => a.date.localeCompare(b.date))) {
+    const { start } = periodBounds(day.date, period);
+    byPeriod.set(start, [...(byPeriod.get(start) ?? []), day]);
+  }
+
+  return [...byPeriod.values()].map((group) => {
+    const totals = emptyNutrientTotals();
+    for (const { key } of NUTRIENTS) {
+      totals[key] = combineIntervals(group.map((day) => day.totals[key]));
+    }
+    return {
+      ...periodBounds(group[0].date, period),
+      days: group.length,
+      entryCount: group.reduce((sum, day) => sum + day.entryCount, 0),
+      itemCount: group.reduce((sum, day) => sum + day.itemCount, 0),
+      totals,
+      average: averageNutrients(group.map((day) => day.totals)),
+    };
+  });
+}
+
+// The view's column for a nutrient: total_ plus the column name without its
+// unit (total_protein for protein_g), except total sugar, which is total_sugar
+function viewColumn(nutrient: Nutrient): string {
+  const column = nutrient.low.replace(/_low$/, '');
+  return column.startsWith('total_') ? column : `total_${column}`;
+}
+
+/**
+ * A daily_totals view row as a daily rollup (the view has no meal subtotals)
+ */
+export function dailyRollupFromView(row: DailyTotals): DailyRollup {
+  const values = row as unknown as Record<string, number | string | null>;
+  const totals = emptyNutrientTotals();
+  for (const nutrient of NUTRIENTS) {
+    const column = viewColumn(nutrient);
+    totals[nutrient.key] = {
+      value: Number(values[column] ?? 0),
+      low: Number(values[`${column}_low`] ?? 0),
+      high: Number(values[`${column}_high`] ?? 0),
+    };
+  }
+  return {
+    date: row.resolved_date,
+    entryCount: Number(row.entry_count ?? 0),
+    itemCount: Number(row.item_count ?? 0),
+    totals,
+    meals: {},
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Targets
+
+/**
+ * Maintenance calories and goal targets for a day at its logged activity
+ * level (moderate when none is logged)
+ */
+export function targetsForDay(
+  settings: Parameters<typeof calculateFullTDEE>[0] | null | undefined,
+  activityLevelId: number | null | undefined,
+  date: string
+): TDEECalculation | null {
+  if (!settings) return null;
+  const activityLevel = getActivityLevelById(activityLevelId ?? 3) ?? DEFAULT_ACTIVITY_LEVELS[2];
+  return calculateFullTDEE(settings, activityLevel, date);
+}
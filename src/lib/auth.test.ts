@@ -1,11 +1,67 @@
-import { describe, it, expect } from 'vitest';
-import { 
-  hashPassword, 
-  verifyPassword, 
-  createSessionToken, 
-  parseSessionToken 
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  hashPassword,
+  verifyPassword,
+  createSessionToken,
+  parseSessionToken,
+  getUserId,
+  describeDevice,
 } from './auth';
 
+const { sessionRows, cookieJar } = vi.hoisted(() => ({
+  sessionRows: new Map<string, Record<string, unknown>>(),
+  cookieJar: new Map<string, string>(),
+}));
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { value: cookieJar.get(name) } : undefined),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+
+// Minimal stand-in for the sessions table queries made by getSession()
+vi.mock('@/lib/supabase', () => ({
+  createServerClient: () => ({
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, id: string) => ({
+          maybeSingle: async () => ({ data: sessionRows.get(id) ?? null, error: null }),
+        }),
+      }),
+      update: (values: Record<string, unknown>) => ({
+        eq: async (_column: string, id: string) => {
+          Object.assign(sessionRows.get(id) ?? {}, values);
+          return { error: null };
+        },
+      }),
+    }),
+  }),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function storeSession(userId: string, overrides: Record<string, unknown> = {}) {
+  const { sessionId, token, tokenHash } = createSessionToken();
+  sessionRows.set(sessionId, {
+    user_id: userId,
+    token_hash: tokenHash,
+    last_seen_at: new Date().toISOString(),
+    expires_at: new Date(Date.now() + 30 * DAY_MS).toISOString(),
+    revoked_at: null,
+    ...overrides,
+  });
+  return { sessionId, token };
+}
+
+beforeEach(() => {
+  vi.stubEnv('SESSION_SECRET', 'test-session-secret');
+  sessionRows.clear();
+  cookieJar.clear();
+});
+
 describe('Password hashing', () => {
   it('should hash and verify a password correctly', async () => {
     const password = 'testpassword123';
@@ -40,71 +96,148 @@ describe('Password hashing', () => {
 });
 
 describe('Session tokens', () => {
-  it('should encode user ID in session token', () => {
-    const userId = 'user-123-abc';
-    const token = createSessionToken(userId);
-    
-    expect(token).toBeTruthy();
-    expect(typeof token).toBe('string');
-    expect(token.length).toBeGreaterThan(0);
+  it('should create a signed token that parses back to its session', () => {
+    const { sessionId, token, tokenHash } = createSessionToken();
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(parseSessionToken(token)).toEqual({ sessionId, tokenHash });
   });
 
-  it('should extract user ID from valid token', () => {
-    const userId = 'user-456-def';
-    const token = createSessionToken(userId);
-    
-    const extractedId = parseSessionToken(token);
-    expect(extractedId).toBe(userId);
+  it('should never put the stored hash in the token', () => {
+    const { token, tokenHash } = createSessionToken();
+    expect(token).not.toContain(tokenHash);
   });
 
-  it('should generate unique tokens for same user', () => {
-    const userId = 'user-789-ghi';
-    const token1 = createSessionToken(userId);
-    const token2 = createSessionToken(userId);
-    
-    expect(token1).not.toBe(token2);
-    
-    // But both should extract the same user ID
-    expect(parseSessionToken(token1)).toBe(userId);
-    expect(parseSessionToken(token2)).toBe(userId);
+  it('should generate unique sessions and tokens', () => {
+    const a = createSessionToken();
+    const b = createSessionToken();
+
+    expect(a.sessionId).not.toBe(b.sessionId);
+    expect(a.token).not.toBe(b.token);
   });
 
   it('should return null for invalid token', () => {
     expect(parseSessionToken('')).toBe(null);
     expect(parseSessionToken('invalid')).toBe(null);
+    expect(parseSessionToken('a.b.c')).toBe(null);
   });
 
-  it('should handle UUID-style user IDs', () => {
+  it('should reject legacy base64 userId tokens', () => {
     const userId = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
-    const token = createSessionToken(userId);
-    
-    const extractedId = parseSessionToken(token);
-    expect(extractedId).toBe(userId);
+    const legacy = Buffer.from(`${userId}:${Math.random().toString(36)}`).toString('base64');
+
+    expect(parseSessionToken(legacy)).toBe(null);
+  });
+
+  it('should reject a token whose session ID was swapped', () => {
+    const { token } = createSessionToken();
+    const other = createSessionToken();
+    const [, secret, signature] = token.split('.');
+
+    expect(parseSessionToken(`${other.sessionId}.${secret}.${signature}`)).toBe(null);
+  });
+
+  it('should reject a token with a tampered signature', () => {
+    const { token } = createSessionToken();
+    const tampered = token.slice(0, -2) + (token.endsWith('AA') ? 'BB' : 'AA');
+
+    expect(parseSessionToken(tampered)).toBe(null);
+  });
+
+  it('should reject a token signed with a different secret', () => {
+    const { sessionId } = createSessionToken();
+    const payload = `${sessionId}.forged-secret`;
+    const signature = createHmac('sha256', 'guessed-secret').update(payload).digest('base64url');
+
+    expect(parseSessionToken(`${payload}.${signature}`)).toBe(null);
+  });
+
+  it('should refuse to sign tokens without SESSION_SECRET', () => {
+    vi.stubEnv('SESSION_SECRET', '');
+    expect(() => createSessionToken()).toThrow('SESSION_SECRET');
+  });
+});
+
+describe('getUserId', () => {
+  it('should resolve the user from an active session', async () => {
+    const { token } = storeSession('user-1');
+    cookieJar.set('nutrition_session', token);
+
+    expect(await getUserId()).toBe('user-1');
+  });
+
+  it('should return null without a session cookie', async () => {
+    expect(await getUserId()).toBe(null);
+  });
+
+  it('should reject a validly signed token with no session row', async () => {
+    cookieJar.set('nutrition_session', createSessionToken().token);
+
+    expect(await getUserId()).toBe(null);
+  });
+
+  it('should reject revoked sessions', async () => {
+    const { token } = storeSession('user-1', { revoked_at: new Date().toISOString() });
+    cookieJar.set('nutrition_session', token);
+
+    expect(await getUserId()).toBe(null);
+  });
+
+  it('should reject expired sessions', async () => {
+    const { token } = storeSession('user-1', { expires_at: new Date(Date.now() - DAY_MS).toISOString() });
+    cookieJar.set('nutrition_session', token);
+
+    expect(await getUserId()).toBe(null);
+  });
+
+  it('should reject a token whose secret does not match the stored hash', async () => {
+    const { sessionId, token } = storeSession('user-1');
+    sessionRows.get(sessionId)!.token_hash = createSessionToken().tokenHash;
+    cookieJar.set('nutrition_session', token);
+
+    expect(await getUserId()).toBe(null);
+  });
+
+  it('should bump last_seen_at on stale sessions', async () => {
+    const stale = new Date(Date.now() - DAY_MS).toISOString();
+    const { sessionId, token } = storeSession('user-1', { last_seen_at: stale });
+    cookieJar.set('nutrition_session', token);
+
+    await getUserId();
+
+    expect(sessionRows.get(sessionId)!.last_seen_at).not.toBe(stale);
   });
 });
 
 describe('Multi-user isolation', () => {
-  it('should create distinct tokens for different users', () => {
-    const user1Id = 'user-1';
-    const user2Id = 'user-2';
-    
-    const token1 = createSessionToken(user1Id);
-    const token2 = createSessionToken(user2Id);
-    
-    expect(token1).not.toBe(token2);
-    expect(parseSessionToken(token1)).toBe(user1Id);
-    expect(parseSessionToken(token2)).toBe(user2Id);
+  it('should map each session to its own user', async () => {
+    const first = storeSession('user-1');
+    const second = storeSession('user-2');
+
+    cookieJar.set('nutrition_session', first.token);
+    expect(await getUserId()).toBe('user-1');
+
+    cookieJar.set('nutrition_session', second.token);
+    expect(await getUserId()).toBe('user-2');
   });
 
-  it('should not allow cross-user token parsing', () => {
-    const user1Id = 'user-1';
-    const user2Id = 'user-2';
-    
-    const token1 = createSessionToken(user1Id);
-    
-    // Token 1 should only extract user1's ID
-    const extractedId = parseSessionToken(token1);
-    expect(extractedId).toBe(user1Id);
-    expect(extractedId).not.toBe(user2Id);
+  it('should not let one user forge a session for another user ID', async () => {
+    storeSession('user-1');
+    const victimId = 'a1b2c3d4-e5f6-7890-abcd-ef1234567890';
+    cookieJar.set('nutrition_session', Buffer.from(`${victimId}:guess`).toString('base64'));
+
+    expect(await getUserId()).toBe(null);
+  });
+});
+
+describe('describeDevice', () => {
+  it('should label common browsers and platforms', () => {
+    expect(describeDevice(
+      'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1'
+    )).toBe('Safari on iPhone');
+    expect(describeDevice(
+      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+    )).toBe('Chrome on Windows');
+    expect(describeDevice(null)).toBe('Unknown device');
   });
 });
@@ -1,8 +1,13 @@
 import bcrypt from 'bcryptjs';
+import { createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
 import { cookies } from 'next/headers';
+import { createServerClient } from '@/lib/supabase';
 
 const SESSION_COOKIE_NAME = 'nutrition_session';
 const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000; // only bump last_seen_at every 5 minutes
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * Hash a password using bcrypt
@@ -18,35 +23,112 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
   return bcrypt.compare(password, hash);
 }
 
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not set');
+  }
+  return secret;
+}
+
+function signSessionPayload(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
 /**
- * Create a session token that includes the user ID
- * Format: base64(userId:randomToken)
+ * SHA-256 of the random part of a token. Only this hash is stored in the
+ * sessions table, so a database leak doesn't leak usable tokens.
  */
-export function createSessionToken(userId: string): string {
-  const randomPart = Math.random().toString(36).substring(2) + Date.now().toString(36);
-  const payload = `${userId}:${randomPart}`;
-  return Buffer.from(payload).toString('base64');
+export function hashSessionSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
 }
 
 /**
- * Extract user ID from session token
+ * Create a session token for a new session
+ * Format: sessionId.randomSecret.hmac(sessionId.randomSecret)
  */
-export function parseSessionToken(token: string): string | null {
+export function createSessionToken(): { sessionId: string; token: string; tokenHash: string } {
+  const sessionId = randomUUID();
+  const secret = randomBytes(32).toString('base64url');
+  const payload = `${sessionId}.${secret}`;
+
+  return {
+    sessionId,
+    token: `${payload}.${signSessionPayload(payload)}`,
+    tokenHash: hashSessionSecret(secret),
+  };
+}
+
+/**
+ * Verify a session token's signature and extract its session ID
+ * Returns null for malformed, unsigned or tampered tokens. The session
+ * itself still has to be checked against the sessions table.
+ */
+export function parseSessionToken(token: string): { sessionId: string; tokenHash: string } | null {
   if (!token || token.length < 10) return null;
-  
-  try {
-    const decoded = Buffer.from(token, 'base64').toString('utf-8');
-    // Valid tokens have format: userId:randomToken
-    if (!decoded.includes(':')) return null;
-    
-    const [userId] = decoded.split(':');
-    // User IDs should be non-empty and look like UUIDs or simple IDs
-    if (!userId || userId.length < 1) return null;
-    
-    return userId;
-  } catch {
+
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [sessionId, secret, signature] = parts;
+  if (!UUID_PATTERN.test(sessionId) || !secret) return null;
+
+  const expected = Buffer.from(signSessionPayload(`${sessionId}.${secret}`));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
     return null;
   }
+
+  return { sessionId, tokenHash: hashSessionSecret(secret) };
+}
+
+/**
+ * Short human-readable device label from a User-Agent header
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device';
+
+  let browser = 'Browser';
+  if (/Edg\//.test(userAgent)) browser = 'Edge';
+  else if (/OPR\//.test(userAgent)) browser = 'Opera';
+  else if (/Firefox\//.test(userAgent)) browser = 'Firefox';
+  else if (/Chrome\/|CriOS\//.test(userAgent)) browser = 'Chrome';
+  else if (/Safari\//.test(userAgent)) browser = 'Safari';
+
+  let os = 'unknown OS';
+  if (/iPhone/.test(userAgent)) os = 'iPhone';
+  else if (/iPad/.test(userAgent)) os = 'iPad';
+  else if (/Android/.test(userAgent)) os = 'Android';
+  else if (/Mac OS X/.test(userAgent)) os = 'macOS';
+  else if (/Windows/.test(userAgent)) os = 'Windows';
+  else if (/Linux/.test(userAgent)) os = 'Linux';
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Create a session row for a user and return its token
+ */
+export async function createSession(userId: string, deviceLabel: string): Promise<string> {
+  const { sessionId, token, tokenHash } = createSessionToken();
+  const supabase = createServerClient();
+
+  const { error } = await supabase
+    .from('sessions')
+    .insert({
+      id: sessionId,
+      user_id: userId,
+      token_hash: tokenHash,
+      device_label: deviceLabel,
+      expires_at: new Date(Date.now() + SESSION_MAX_AGE * 1000).toISOString(),
+    });
+
+  if (error) {
+    console.error('Session creation error:', error);
+    throw new Error('Failed to create session');
+  }
+
+  return token;
 }
 
 /**
@@ -79,6 +161,79 @@ export async function clearSessionCookie(): Promise<void> {
   cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
+/**
+ * Get the current session from the cookie, if it is valid, unexpired and not revoked
+ */
+export async function getSession(): Promise<{ sessionId: string; userId: string } | null> {
+  const token = await getSessionCookie();
+  if (!token) return null;
+
+  const parsed = parseSessionToken(token);
+  if (!parsed) return null;
+
+  const supabase = createServerClient();
+  const { data: session } = await supabase
+    .from('sessions')
+    .select('user_id, token_hash, expires_at, revoked_at, last_seen_at')
+    .eq('id', parsed.sessionId)
+    .maybeSingle();
+
+  if (!session || session.token_hash !== parsed.tokenHash) return null;
+  if (session.revoked_at) return null;
+  if (new Date(session.expires_at).getTime() <= Date.now()) return null;
+
+  if (Date.now() - new Date(session.last_seen_at).getTime() > LAST_SEEN_INTERVAL_MS) {
+    await supabase
+      .from('sessions')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('id', parsed.sessionId);
+  }
+
+  return { sessionId: parsed.sessionId, userId: session.user_id };
+}
+
+/**
+ * Revoke one of a user's sessions
+ * Returns false when there is no such active session, including for an id
+ * that isn't a UUID (which the database would reject with an error).
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  if (!UUID_PATTERN.test(sessionId)) return false;
+
+  const supabase = createServerClient();
+  const { data, error } = await supabase
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('Session revoke error:', error);
+    throw new Error('Failed to revoke session');
+  }
+
+  return (data?.length ?? 0) > 0;
+}
+
+/**
+ * Revoke every active session for a user ("sign out all devices")
+ */
+export async function revokeAllSessions(userId: string): Promise<void> {
+  const supabase = createServerClient();
+  const { error } = await supabase
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Session revoke error:', error);
+    throw new Error('Failed to revoke sessions');
+  }
+}
+
 /**
  * Check if user is authenticated (server-side)
  */
@@ -91,7 +246,6 @@ export async function isAuthenticated(): Promise<boolean> {
  * Get the current user's ID from the session cookie
  */
 export async function getUserId(): Promise<string | null> {
-  const token = await getSessionCookie();
-  if (!token) return null;
-  return parseSessionToken(token);
+  const session = await getSession();
+  return session?.userId ?? null;
 }
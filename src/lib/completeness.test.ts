@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  completenessRule,
+  validateCompletenessRule,
+  dayStatus,
+  coverage,
+  streaks,
+  DEFAULT_COMPLETENESS_RULE,
+} from './completeness';
+
+describe('completenessRule', () => {
+  it('uses the defaults for settings saved before the rule existed', () => {
+    expect(completenessRule(null)).toEqual(DEFAULT_COMPLETENESS_RULE);
+    expect(completenessRule({ complete_day_min_calories: 0 })).toEqual({ minEntries: 1, minCalories: 0 });
+  });
+});
+
+describe('validateCompletenessRule', () => {
+  it('accepts whole numbers in range and missing values', () => {
+    expect(validateCompletenessRule({})).toBeNull();
+    expect(validateCompletenessRule({ complete_day_min_entries: 3, complete_day_min_calories: 0 })).toBeNull();
+  });
+
+  it('rejects fractions, strings and out-of-range values', () => {
+    expect(validateCompletenessRule({ complete_day_min_entries: 1.5 })).toMatch(/complete_day_min_entries/);
+    expect(validateCompletenessRule({ complete_day_min_calories: '1200' })).toMatch(/complete_day_min_calories/);
+    expect(validateCompletenessRule({ complete_day_min_calories: 6000 })).toBe(
+      'complete_day_min_calories must be a whole number from 0 to 5000'
+    );
+  });
+});
+
+describe('dayStatus', () => {
+  const rule = { minEntries: 2, minCalories: 1200 };
+
+  it('needs both minimums for a complete day', () => {
+    expect(dayStatus({ entryCount: 3, calories: 1800 }, rule)).toBe('logged');
+    expect(dayStatus({ entryCount: 1, calories: 1800 }, rule)).toBe('partial');
+    expect(dayStatus({ entryCount: 3, calories: 900 }, rule)).toBe('partial');
+    expect(dayStatus({ entryCount: 0, calories: 0 }, rule)).toBe('unlogged');
+  });
+
+  it('never counts a day without entries as complete', () => {
+    expect(dayStatus({ entryCount: 0, calories: 0 }, { minEntries: 0, minCalories: 0 })).toBe('unlogged');
+  });
+});
+
+describe('coverage', () => {
+  it('counts each status and the share of complete days', () => {
+    expect(coverage(['logged', 'partial', 'unlogged'])).toEqual({
+      days: 3, logged: 1, partial: 1, unlogged: 1, percent: 33,
+    });
+    expect(coverage([]).percent).toBe(0);
+  });
+});
+
+describe('streaks', () => {
+  it('finds the longest run of complete days', () => {
+    expect(streaks(['logged', 'logged', 'logged', 'partial', 'logged', 'logged'])).toEqual({ current: 2, longest: 3 });
+  });
+
+  it('keeps the current streak while today is still being logged', () => {
+    expect(streaks(['logged', 'logged', 'partial'])).toEqual({ current: 2, longest: 2 });
+    expect(streaks(['logged', 'logged', 'unlogged'])).toEqual({ current: 2, longest: 2 });
+  });
+
+  it('breaks the current streak on a missed day before today', () => {
+    expect(streaks(['logged', 'unlogged', 'partial'])).toEqual({ current: 0, longest: 1 });
+    expect(streaks([])).toEqual({ current: 0, longest: 0 });
+  });
+});
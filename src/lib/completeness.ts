@@ -0,0 +1,104 @@
+import type { UserSettings } from '@/types/database';
+
+/**
+ * Tracking completeness
+ *
+ * Every calendar day is logged (complete by the user's rule: at least a
+ * number of entries and of calories), partially logged, or unlogged. Trends
+ * average complete days only, so forgotten meals and skipped days can't
+ * flatter the deficit, and report how many days that leaves out.
+ */
+
+export type DayStatus = 'logged' | 'partial' | 'unlogged';
+
+export interface CompletenessRule {
+  minEntries: number;
+  minCalories: number;
+}
+
+export interface Coverage {
+  days: number;
+  logged: number;
+  partial: number;
+  unlogged: number;
+  percent: number; // complete days, of all days
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+}
+
+export const DEFAULT_COMPLETENESS_RULE: CompletenessRule = { minEntries: 1, minCalories: 1200 };
+
+// Accepted ranges for the rule's settings
+export const COMPLETENESS_RULE_BOUNDS = {
+  complete_day_min_entries: { min: 0, max: 20 },
+  complete_day_min_calories: { min: 0, max: 5000 },
+} as const;
+
+type CompletenessColumns = Partial<Pick<UserSettings, keyof typeof COMPLETENESS_RULE_BOUNDS>>;
+
+/**
+ * The user's rule for a complete day, with defaults for settings saved
+ * before it existed
+ */
+export function completenessRule(settings: CompletenessColumns | null | undefined): CompletenessRule {
+  return {
+    minEntries: settings?.complete_day_min_entries ?? DEFAULT_COMPLETENESS_RULE.minEntries,
+    minCalories: settings?.complete_day_min_calories ?? DEFAULT_COMPLETENESS_RULE.minCalories,
+  };
+}
+
+/**
+ * Validate the rule's settings from a request body (either may be left out).
+ * Returns an error message for invalid input.
+ */
+export function validateCompletenessRule(input: Record<string, unknown>): string | null {
+  for (const [column, { min, max }] of Object.entries(COMPLETENESS_RULE_BOUNDS)) {
+    const value = input[column];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < min || (value as number) > max)) {
+      return `${column} must be a whole number from ${min} to ${max}`;
+    }
+  }
+  return null;
+}
+
+export function dayStatus(day: { entryCount: number; calories: number }, rule: CompletenessRule): DayStatus {
+  if (day.entryCount === 0) return 'unlogged';
+  return day.entryCount >= rule.minEntries && day.calories >= rule.minCalories ? 'logged' : 'partial';
+}
+
+export function coverage(statuses: DayStatus[]): Coverage {
+  const count = (status: DayStatus) => statuses.filter((s) => s === status).length;
+  const logged = count('logged');
+  return {
+    days: statuses.length,
+    logged,
+    partial: count('partial'),
+    unlogged: count('unlogged'),
+    percent: statuses.length > 0 ? Math.round((logged / statuses.length) * 100) : 0,
+  };
+}
+
+/**
+ * Runs of consecutive complete days, given every day in date order. The
+ * current streak ends at the last day, or the day before when the last day
+ * (today, still being logged) isn't complete yet.
+ */
+export function streaks(statuses: DayStatus[]): Streaks {
+  let longest = 0;
+  let run = 0;
+  for (const status of statuses) {
+    run = status === 'logged' ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  }
+
+  const end = statuses.at(-1) === 'logged' ? statuses.length : statuses.length - 1;
+  let current = 0;
+  for (let i = end - 1; i >= 0 && statuses[i] === 'logged'; i--) {
+    current++;
+  }
+
+  return { current, longest };
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import type { FoodItem } from '@/types/nutrition';
+import { exactFoodItem } from './entries';
+import {
+  parseCustomFood,
+  findCustomFoodMentions,
+  customFoodItem,
+  applyCustomFoods,
+  type CustomFoodDefinition,
+} from './custom-foods';
+
+function values(calories: number, protein_g = 0) {
+  return {
+    calories,
+    protein_g,
+    carbs_g: 0,
+    fat_g: 0,
+    saturated_fat_g: 0,
+    unsaturated_fat_g: 0,
+    fiber_g: 0,
+    sodium_mg: 0,
+    added_sugar_g: 0,
+    total_sugar_g: 0,
+    potassium_mg: 0,
+    calcium_mg: 0,
+    iron_mg: 0,
+    vitamin_d_mcg: 0,
+    cholesterol_mg: 0,
+    caffeine_mg: 0,
+    alcohol_g: 0,
+  };
+}
+
+const bowl: CustomFoodDefinition = {
+  id: 'bowl',
+  name: 'burrito bowl',
+  aliases: ['cafeteria bowl'],
+  serving_description: '1 bowl',
+  serving_grams: 450,
+  per_serving: values(700, 35),
+  per_100g: null,
+};
+
+const granola: CustomFoodDefinition = {
+  id: 'granola',
+  name: 'house granola',
+  aliases: [],
+  serving_description: null,
+  serving_grams: null,
+  per_serving: null,
+  per_100g: values(480, 10),
+};
+
+function estimate(food_name: string, calories: number, grams: number | null = null): FoodItem {
+  return { ...exactFoodItem({ food_name, grams, ...values(calories), assumptions: [] }), calories_low: calories - 50, calories_high: calories + 50 };
+}
+
+describe('parseCustomFood', () => {
+  it('fills defaults and drops aliases that repeat the name or each other', () => {
+    const result = parseCustomFood({
+      name: ' Burrito bowl ',
+      aliases: ['burrito BOWL', 'cafeteria bowl', 'Cafeteria Bowl'],
+      per_serving: { calories: 700 },
+    });
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.food).toMatchObject({
+      name: 'Burrito bowl',
+      aliases: ['cafeteria bowl'],
+      serving_grams: null,
+      per_100g: null,
+      per_serving: values(700),
+    });
+  });
+
+  it('requires nutrients per serving or per 100 g', () => {
+    expect(parseCustomFood({ name: 'Mystery' })).toEqual({ error: 'Enter nutrients per serving or per 100 g' });
+  });
+
+  it('names the field that failed', () => {
+    expect(parseCustomFood({ name: 'Bowl', per_serving: { calories: -1 } })).toMatchObject({
+      error: expect.stringContaining('per_serving.calories'),
+    });
+    expect(parseCustomFood({ name: '', per_serving: { calories: 1 } })).toMatchObject({
+      error: expect.stringContaining('name'),
+    });
+  });
+});
+
+describe('findCustomFoodMentions', () => {
+  it('reads servings and grams written before the name', () => {
+    expect(findCustomFoodMentions('2 burrito bowls and 40g of house granola', [bowl, granola])).toEqual([
+      { food: bowl, quantity: { servings: 2 } },
+      { food: granola, quantity: { grams: 40 } },
+    ]);
+  });
+
+  it('understands words and fractions, and defaults to one serving', () => {
+    expect(findCustomFoodMentions('half a burrito bowl', [bowl])[0].quantity).toEqual({ servings: 0.5 });
+    expect(findCustomFoodMentions('1/2 cafeteria bowl', [bowl])[0].quantity).toEqual({ servings: 0.5 });
+    expect(findCustomFoodMentions('lunch was my burrito bowl', [bowl])[0].quantity).toEqual({ servings: 1 });
+  });
+
+  it('matches aliases, counts a food once and ignores partial words', () => {
+    expect(findCustomFoodMentions('cafeteria bowl, then another burrito bowl', [bowl])).toHaveLength(1);
+    expect(findCustomFoodMentions('burrito bowling night', [bowl])).toEqual([]);
+  });
+
+  it('prefers the longer name when one contains another', () => {
+    const chickenBowl = { ...bowl, id: 'chicken', name: 'chicken burrito bowl', aliases: [] };
+    const mentions = findCustomFoodMentions('a chicken burrito bowl', [bowl, chickenBowl]);
+
+    expect(mentions.map((m) => m.food.id)).toEqual(['chicken']);
+  });
+});
+
+describe('customFoodItem', () => {
+  it('scales per-serving values with the serving weight', () => {
+    const item = customFoodItem(bowl, { servings: 1.5 });
+
+    expect(item).toMatchObject({
+      food_name: 'burrito bowl',
+      grams: 675,
+      calories: 1050,
+      calories_low: 1050,
+      calories_high: 1050,
+      protein_g: 52.5,
+      source: 'custom',
+      custom_food_id: 'bowl',
+      assumptions: ['Used your custom food "burrito bowl" (1.5 servings (1 bowl))'],
+    });
+  });
+
+  it('converts grams through per-100g values or the serving weight', () => {
+    expect(customFoodItem(granola, { grams: 50 })).toMatchObject({ grams: 50, calories: 240, protein_g: 5 });
+    expect(customFoodItem(bowl, { grams: 225 })).toMatchObject({ grams: 225, calories: 350 });
+  });
+
+  it('uses the fallback weight for servings of a per-100g food', () => {
+    expect(customFoodItem(granola, { servings: 1 }, 60)).toMatchObject({ grams: 60, calories: 288 });
+    expect(customFoodItem(granola, { servings: 1 })).toBeNull();
+  });
+
+  it('returns null for grams of a per-serving food without a serving weight', () => {
+    expect(customFoodItem({ ...bowl, serving_grams: null }, { grams: 100 })).toBeNull();
+  });
+});
+
+describe('applyCustomFoods', () => {
+  it('replaces the parsed item closest to the custom food', () => {
+    const items = [estimate('Chicken burrito bowl', 850, 500), estimate('Iced tea', 90)];
+    const result = applyCustomFoods('2 burrito bowls and an iced tea', items, [bowl]);
+
+    expect(result.map((item) => item.food_name)).toEqual(['burrito bowl', 'Iced tea']);
+    expect(result[0]).toMatchObject({ calories: 1400, source: 'custom' });
+    expect(result[1]).toBe(items[1]);
+  });
+
+  it('adds the custom food when no parsed item resembles it', () => {
+    const items = [estimate('Iced tea', 90)];
+    const result = applyCustomFoods('iced tea and a cafeteria bowl', items, [bowl]);
+
+    expect(result.map((item) => item.food_name)).toEqual(['Iced tea', 'burrito bowl']);
+  });
+
+  it('doesn\'t replace a parsed item that only shares a word with the custom food', () => {
+    const salad = { ...bowl, id: 'salad', name: 'chicken salad', aliases: [] };
+    const items = [estimate('Chicken curry', 600, 400)];
+    const result = applyCustomFoods('chicken salad and chicken curry', items, [salad]);
+
+    expect(result.map((item) => item.food_name)).toEqual(['Chicken curry', 'chicken salad']);
+    expect(result[0]).toBe(items[0]);
+  });
+
+  it('takes the parsed weight for a per-100g food mentioned without one', () => {
+    const result = applyCustomFoods('house granola with milk', [estimate('Granola', 300, 70)], [granola]);
+
+    expect(result[0]).toMatchObject({ grams: 70, calories: 336, custom_food_id: 'granola' });
+  });
+
+  it('leaves the items alone when no custom food is mentioned', () => {
+    const items = [estimate('Iced tea', 90)];
+
+    expect(applyCustomFoods('iced tea', items, [bowl, granola])).toEqual(items);
+  });
+});
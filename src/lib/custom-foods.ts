@@ -0,0 +1,298 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SourcedFoodItem } from '@/types/nutrition';
+import { exactFoodItem } from '@/lib/entries';
+import { ManualItemSchema } from '@/lib/manual-entry';
+import { foodNameSimilarity, foodNameTokens } from '@/lib/reference-foods';
+
+/**
+ * Custom Foods
+ *
+ * Foods the user defines with exact nutrients (house-made dishes, regional
+ * items no model knows). When a description mentions one by name or alias,
+ * its stored values replace the parser's estimate for that item, scaled by
+ * the quantity in front of it ("2 burrito bowls", "300g of burrito bowl",
+ * "half a burrito bowl"; 1 serving when none is given).
+ */
+
+export const CUSTOM_FOOD_COLUMNS =
+  'id, name, aliases, serving_description, serving_grams, per_serving, per_100g, created_at, updated_at';
+
+export const MAX_CUSTOM_FOOD_NAME_LENGTH = 100;
+export const MAX_CUSTOM_FOOD_ALIASES = 10;
+
+export const NutrientValuesSchema = ManualItemSchema.omit({ food_name: true, grams: true, assumptions: true });
+
+export type NutrientValues = z.infer<typeof NutrientValuesSchema>;
+
+export const CustomFoodSchema = z
+  .object({
+    name: z.string().trim().min(1).max(MAX_CUSTOM_FOOD_NAME_LENGTH),
+    aliases: z.array(z.string().trim().min(1).max(MAX_CUSTOM_FOOD_NAME_LENGTH)).max(MAX_CUSTOM_FOOD_ALIASES).default([]),
+    serving_description: z.string().trim().max(100).nullable().default(null),
+    serving_grams: z.number().finite().positive().nullable().default(null),
+    per_serving: NutrientValuesSchema.nullable().default(null),
+    per_100g: NutrientValuesSchema.nullable().default(null),
+  })
+  .refine((food) => food.per_serving || food.per_100g, {
+    message: 'Enter nutrients per serving or per 100 g',
+  });
+
+export type CustomFoodInput = z.infer<typeof CustomFoodSchema>;
+
+export interface CustomFoodDefinition extends CustomFoodInput {
+  id: string;
+}
+
+export type CustomFoodQuantity = { servings: number } | { grams: number };
+
+// Anything the user can mention by name in a description (custom foods, recipes)
+export interface NamedFood {
+  id: string;
+  name: string;
+  aliases: string[];
+}
+
+export interface CustomFoodMention<T extends NamedFood = CustomFoodDefinition> {
+  food: T;
+  quantity: CustomFoodQuantity;
+}
+
+/**
+ * Validate a custom food from a request body. Aliases are de-duplicated and
+ * never repeat the name. Returns an error message for invalid input.
+ */
+export function parseCustomFood(input: unknown): { food: CustomFoodInput } | { error: string } {
+  const parsed = CustomFoodSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message };
+  }
+
+  const food = parsed.data;
+  const seen = new Set([food.name.toLowerCase()]);
+  const aliases = food.aliases.filter((alias) => {
+    const key = alias.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return { food: { ...food, aliases } };
+}
+
+/**
+ * The user's custom foods. Rows that fail validation are skipped, and a
+ * failed lookup returns none, so parsing can go ahead without them.
+ */
+export async function listCustomFoods(supabase: SupabaseClient, userId: string): Promise<CustomFoodDefinition[]> {
+  const { data, error } = await supabase
+    .from('custom_foods')
+    .select(CUSTOM_FOOD_COLUMNS)
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Custom foods fetch error:', error);
+    return [];
+  }
+
+  return (data || []).flatMap((row) => {
+    const parsed = CustomFoodSchema.safeParse(row);
+    return parsed.success ? [{ ...parsed.data, id: row.id as string }] : [];
+  });
+}
+
+const NUMBER_WORDS: Record<string, number> = { half: 0.5, a: 1, an: 1, one: 1, two: 2, three: 3, four: 4 };
+
+function parseAmount(value: string): number {
+  const word = NUMBER_WORDS[value.toLowerCase()];
+  if (word !== undefined) return word;
+  if (value.includes('/')) {
+    const [numerator, denominator] = value.split('/').map(Number);
+    return denominator ? numerator / denominator : NaN;
+  }
+  return parseFloat(value);
+}
+
+const GRAMS_BEFORE = /(\d+(?:\.\d+)?)\s*(?:g|grams?)\s+(?:of\s+)?(?:(?:my|the|our)\s+)?$/i;
+const SERVINGS_BEFORE =
+  /(\d+\/\d+|\d+(?:\.\d+)?|half|an?|one|two|three|four)\s*(?:(?:x|×|servings?|portions?)\s+)?(?:of\s+)?(?:(?:an?|my|the|our)\s+)?$/i;
+
+// Quantity written right before a mention, 1 serving if none
+function quantityBefore(text: string): CustomFoodQuantity {
+  const grams = text.match(GRAMS_BEFORE);
+  if (grams) return { grams: parseFloat(grams[1]) };
+
+  const servings = text.match(SERVINGS_BEFORE);
+  const amount = servings ? parseAmount(servings[1]) : 1;
+  return { servings: Number.isFinite(amount) && amount > 0 ? amount : 1 };
+}
+
+/**
+ * The quantity when text is nothing but one ("1.5 servings of", "350 g",
+ * "" for 1 serving), otherwise null
+ */
+export function quantityPhrase(text: string): CustomFoodQuantity | null {
+  const phrase = `${text.trim()} `;
+  if (phrase === ' ') return { servings: 1 };
+  const whole = [GRAMS_BEFORE, SERVINGS_BEFORE].some((pattern) => phrase.match(pattern)?.index === 0);
+  return whole ? quantityBefore(phrase) : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Custom foods mentioned in a description, with the quantity given for each.
+ * Longer names win over names they contain ("chicken burrito bowl" over
+ * "burrito bowl"), and each food is counted once.
+ */
+export function findCustomFoodMentions<T extends NamedFood>(text: string, foods: T[]): CustomFoodMention<T>[] {
+  const names = foods
+    .flatMap((food) => [food.name, ...food.aliases].map((name) => ({ food, name })))
+    .sort((a, b) => b.name.length - a.name.length);
+
+  const taken: [number, number][] = [];
+  const mentions = new Map<string, CustomFoodMention<T> & { index: number }>();
+
+  for (const { food, name } of names) {
+    if (mentions.has(food.id)) continue;
+    const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])(${escapeRegExp(name)})(?:e?s)?(?=$|[^\\p{L}\\p{N}])`, 'iu');
+    const match = text.match(pattern);
+    if (!match || match.index === undefined) continue;
+
+    const start = match.index + match[1].length;
+    const end = start + match[0].length - match[1].length;
+    if (taken.some(([from, to]) => start < to && end > from)) continue;
+
+    taken.push([start, end]);
+    mentions.set(food.id, { food, quantity: quantityBefore(text.slice(Math.max(0, start - 40), start)), index: start });
+  }
+
+  return [...mentions.values()]
+    .sort((a, b) => a.index - b.index)
+    .map(({ food, quantity }) => ({ food, quantity }));
+}
+
+function scaleValues(values: NutrientValues, factor: number): NutrientValues {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, Math.round(value * factor * 100) / 100])
+  ) as NutrientValues;
+}
+
+function describeQuantity(food: CustomFoodDefinition, quantity: CustomFoodQuantity): string {
+  if ('grams' in quantity) return `${quantity.grams} g`;
+  const serving = food.serving_description ? ` (${food.serving_description})` : '';
+  return `${quantity.servings} serving${quantity.servings === 1 ? '' : 's'}${serving}`;
+}
+
+/**
+ * A food item from a custom food's stored values, or null when the quantity
+ * can't be converted (grams for a food with only per-serving values and no
+ * serving weight, or the reverse). fallbackGrams is used for a per-100g-only
+ * food mentioned without a weight.
+ */
+export function customFoodItem(
+  food: CustomFoodDefinition,
+  quantity: CustomFoodQuantity,
+  fallbackGrams: number | null = null
+): SourcedFoodItem | null {
+  let values: NutrientValues | null = null;
+  let grams: number | null = null;
+
+  if ('grams' in quantity) {
+    grams = quantity.grams;
+    if (food.per_100g) {
+      values = scaleValues(food.per_100g, grams / 100);
+    } else if (food.per_serving && food.serving_grams) {
+      values = scaleValues(food.per_serving, grams / food.serving_grams);
+    }
+  } else if (food.per_serving) {
+    values = scaleValues(food.per_serving, quantity.servings);
+    grams = food.serving_grams ? Math.round(food.serving_grams * quantity.servings * 100) / 100 : null;
+  } else if (food.per_100g) {
+    grams = food.serving_grams ? food.serving_grams * quantity.servings : fallbackGrams;
+    values = grams !== null ? scaleValues(food.per_100g, grams / 100) : null;
+  }
+
+  if (!values) return null;
+
+  return {
+    ...exactFoodItem({
+      food_name: food.name,
+      grams,
+      ...values,
+      assumptions: [`Used your custom food "${food.name}" (${describeQuantity(food, quantity)})`],
+    }),
+    source: 'custom',
+    custom_food_id: food.id,
+  };
+}
+
+// How well a parsed item's name matches a food's name, or 0 unless one name
+// has every word of the other ("chicken burrito bowl" for "burrito bowl";
+// "chicken salad" shares a word with "chicken curry" but isn't it)
+function mentionMatchScore(itemName: string, foodName: string): number {
+  const itemTokens = foodNameTokens(itemName);
+  const foodTokens = foodNameTokens(foodName);
+  if (itemTokens.length === 0 || foodTokens.length === 0) return 0;
+  const contained =
+    foodTokens.every((token) => itemTokens.includes(token)) ||
+    itemTokens.every((token) => foodTokens.includes(token));
+  return contained ? foodNameSimilarity(itemName, foodName) : 0;
+}
+
+/**
+ * Replace the parser's estimates for foods mentioned in the text. Each
+ * mention takes the place of the parsed item whose name is closest to the
+ * food's, among items whose name contains the food's or is contained in it;
+ * if no parsed item matches, the food's item is added. Mentions toItem can't
+ * build an item for are left to the parser.
+ */
+export function substituteMentionedFoods<T extends NamedFood>(
+  text: string,
+  items: SourcedFoodItem[],
+  foods: T[],
+  toItem: (food: T, quantity: CustomFoodQuantity, fallbackGrams: number | null) => SourcedFoodItem | null
+): SourcedFoodItem[] {
+  const result: SourcedFoodItem[] = [...items];
+  const replaced = new Set<number>();
+
+  for (const { food, quantity } of findCustomFoodMentions(text, foods)) {
+    let bestIndex = -1;
+    let bestScore = 0;
+    result.forEach((item, index) => {
+      if (replaced.has(index)) return;
+      const score = Math.max(...[food.name, ...food.aliases].map((name) => mentionMatchScore(item.food_name, name)));
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+
+    const substitute = toItem(food, quantity, bestIndex >= 0 ? result[bestIndex].grams : null);
+    if (!substitute) continue;
+
+    if (bestIndex >= 0) {
+      result[bestIndex] = substitute;
+      replaced.add(bestIndex);
+    } else {
+      result.push(substitute);
+      replaced.add(result.length - 1);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replace the parser's estimates for custom foods mentioned in the text
+ */
+export function applyCustomFoods(
+  text: string,
+  items: SourcedFoodItem[],
+  foods: CustomFoodDefinition[]
+): SourcedFoodItem[] {
+  return substituteMentionedFoods(text, items, foods, customFoodItem);
+}
@@ -7,6 +7,8 @@ import {
   formatDateForDisplay,
   isToday,
   isYesterday,
+  shiftDate,
+  getDateWindow,
 } from './date-resolution';
 
 describe('Date Resolution', () => {
@@ -157,6 +159,73 @@ describe('Date Resolution', () => {
     });
   });
 
+  describe('shiftDate', () => {
+    it('should cross month, year and leap-day boundaries', () => {
+      expect(shiftDate('2026-03-01', -1)).toBe('2026-02-28');
+      expect(shiftDate('2024-03-01', -1)).toBe('2024-02-29');
+      expect(shiftDate('2026-01-01', -1)).toBe('2025-12-31');
+      expect(shiftDate('2026-12-25', 7)).toBe('2027-01-01');
+    });
+
+    it('should move whole days across DST changes', () => {
+      expect(shiftDate('2026-03-09', -1)).toBe('2026-03-08'); // US spring forward
+      expect(shiftDate('2026-11-01', 1)).toBe('2026-11-02'); // US fall back
+    });
+  });
+
+  // Each case is an instant near a local midnight or DST change, and the
+  // date it is in that timezone. A fixed UTC offset would get the ones
+  // after a DST change wrong; UTC dates get every one near midnight wrong.
+  describe('Timezone matrix', () => {
+    const cases: [string, string, string, string][] = [
+      // zone, instant, local date, why
+      ['Pacific/Pago_Pago', '2026-01-30T10:30:00Z', '2026-01-29', 'UTC-11, 11:30pm'],
+      ['America/Los_Angeles', '2026-01-30T05:30:00Z', '2026-01-29', 'PST evening is the next UTC day'],
+      ['America/Los_Angeles', '2026-03-08T10:30:00Z', '2026-03-08', '3:30am PDT, just after spring forward'],
+      ['America/Los_Angeles', '2026-03-09T06:59:00Z', '2026-03-08', '11:59pm PDT on the day of spring forward'],
+      ['America/Los_Angeles', '2026-03-09T07:00:00Z', '2026-03-09', 'midnight PDT (11pm on PST)'],
+      ['America/Los_Angeles', '2026-11-02T07:30:00Z', '2026-11-01', '11:30pm PST after fall back'],
+      ['America/New_York', '2026-11-01T03:59:00Z', '2026-10-31', '11:59pm EDT before fall back'],
+      ['America/New_York', '2026-11-01T04:30:00Z', '2026-11-01', '12:30am EDT (11:30pm on EST)'],
+      ['UTC', '2026-01-29T23:59:00Z', '2026-01-29', 'UTC itself'],
+      ['Europe/London', '2026-03-29T23:30:00Z', '2026-03-30', '12:30am BST after spring forward'],
+      ['Europe/London', '2026-10-25T23:30:00Z', '2026-10-25', '11:30pm GMT after fall back'],
+      ['Asia/Tokyo', '2026-01-29T15:30:00Z', '2026-01-30', 'UTC+9 morning is the previous UTC day'],
+      ['Pacific/Auckland', '2026-01-29T11:30:00Z', '2026-01-30', '12:30am NZDT'],
+      ['Pacific/Auckland', '2026-04-05T11:30:00Z', '2026-04-05', '11:30pm NZST after DST ends (12:30am on NZDT)'],
+      ['Pacific/Auckland', '2026-09-26T12:30:00Z', '2026-09-27', '12:30am NZST on the day DST starts'],
+      ['Pacific/Kiritimati', '2026-01-29T10:00:00Z', '2026-01-30', 'UTC+14, midnight'],
+    ];
+
+    it.each(cases)('%s at %s is %s (%s)', (zone, instant, date) => {
+      const now = new Date(instant);
+
+      expect(getTodayInTimezone(zone, now)).toBe(date);
+      expect(resolveDate(null, instant, zone).resolved_date).toBe(date);
+      expect(getDateWindow(7, zone, now)).toEqual({ start: shiftDate(date, -7), end: date });
+    });
+
+    it('should count calendar days in a window spanning a DST change', () => {
+      // 30 days back from a PDT date reach into PST
+      expect(getDateWindow(30, 'America/Los_Angeles', new Date('2026-03-20T19:00:00Z'))).toEqual({
+        start: '2026-02-18',
+        end: '2026-03-20',
+      });
+      // and 7 days back from NZST reach into NZDT
+      expect(getDateWindow(7, 'Pacific/Auckland', new Date('2026-04-08T00:00:00Z'))).toEqual({
+        start: '2026-04-01',
+        end: '2026-04-08',
+      });
+    });
+
+    it('should give users on either side of UTC different dates for the same instant', () => {
+      const now = new Date('2026-06-15T11:00:00Z');
+
+      expect(getDateWindow(0, 'Pacific/Pago_Pago', now)).toEqual({ start: '2026-06-15', end: '2026-06-15' });
+      expect(getDateWindow(0, 'Pacific/Kiritimati', now)).toEqual({ start: '2026-06-16', end: '2026-06-16' });
+    });
+  });
+
   describe('formatDateForDisplay', () => {
     it('should format date nicely', () => {
       const formatted = formatDateForDisplay('2026-01-29');
@@ -61,12 +61,33 @@ export function isValidDateString(dateStr: string): boolean {
 /**
  * Gets today's date in the user's timezone
  */
-export function getTodayInTimezone(userTimezone: string = DEFAULT_TIMEZONE): string {
-  const now = new Date();
+export function getTodayInTimezone(userTimezone: string = DEFAULT_TIMEZONE, now: Date = new Date()): string {
   const zonedDate = toZonedTime(now, userTimezone);
   return format(zonedDate, 'yyyy-MM-dd');
 }
 
+/**
+ * Shifts a YYYY-MM-DD date by whole days. Calendar arithmetic, so a DST
+ * change can't skip or repeat a date.
+ */
+export function shiftDate(dateStr: string, days: number): string {
+  const [year, month, day] = dateStr.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * The dates from `days` days before today through today, in the user's
+ * timezone (both ends inclusive)
+ */
+export function getDateWindow(
+  days: number,
+  userTimezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): { start: string; end: string } {
+  const end = getTodayInTimezone(userTimezone, now);
+  return { start: shiftDate(end, -days), end };
+}
+
 /**
  * Gets yesterday's date in the user's timezone
  */
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { copyEntries, createEntryWithItems, scaleFoodItem, sumFoodItems, toEntryItemRow, withoutKeptFoods } from './entries';
+import recordedMeals from './fixtures/meals.json';
+
+const newEntry = {
+  user_id: 'user-1',
+  raw_text: '1 large egg',
+  resolved_date: '2026-01-29',
+  explicit_date_in_text: false,
+};
+
+function fakeSupabase(result: { data: unknown; error: unknown }) {
+  const rpc = vi.fn().mockResolvedValue(result);
+  return { rpc, client: { rpc } as unknown as SupabaseClient };
+}
+
+describe('createEntryWithItems', () => {
+  const items = recordedMeals['1 large egg'].items.map(toEntryItemRow);
+
+  it('should send the entry and items in a single RPC call', async () => {
+    const { rpc, client } = fakeSupabase({ data: { id: 'entry-1', ...newEntry }, error: null });
+
+    const entry = await createEntryWithItems(client, newEntry, items);
+
+    expect(entry.id).toBe('entry-1');
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('create_entry_with_items', {
+      p_entry: newEntry,
+      p_items: items,
+    });
+  });
+
+  it('should throw a retryable error when the transaction fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeSupabase({ data: null, error: { message: 'violates not-null constraint' } });
+
+    await expect(createEntryWithItems(client, newEntry, items)).rejects.toThrow('please try again');
+  });
+});
+
+describe('copyEntries', () => {
+  it('should copy the entries onto the date in a single RPC call', async () => {
+    const { rpc, client } = fakeSupabase({ data: [{ id: 'copy-1', copied_from_entry_id: 'entry-1' }], error: null });
+
+    const copies = await copyEntries(client, 'user-1', ['entry-1'], '2026-01-30');
+
+    expect(copies.map((e) => e.copied_from_entry_id)).toEqual(['entry-1']);
+    expect(rpc).toHaveBeenCalledWith('copy_entries', {
+      p_user_id: 'user-1',
+      p_entry_ids: ['entry-1'],
+      p_date: '2026-01-30',
+    });
+  });
+
+  it('should throw a retryable error when the copy fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { client } = fakeSupabase({ data: null, error: { message: 'timeout' } });
+
+    await expect(copyEntries(client, 'user-1', ['entry-1'], '2026-01-30')).rejects.toThrow('please try again');
+  });
+});
+
+describe('toEntryItemRow', () => {
+  it('should map every parsed nutrient onto its column', () => {
+    const item = recordedMeals['1 large egg'].items[0];
+    const row = toEntryItemRow(item);
+
+    expect(row.food_name).toBe('large egg');
+    expect(row.calories_high).toBe(item.calories_high);
+    expect(row.added_sugar_g).toBe(item.added_sugar_g);
+    expect(row).not.toHaveProperty('entry_id');
+  });
+});
+
+describe('scaleFoodItem', () => {
+  it('should scale every value and range, leaving names and assumptions alone', () => {
+    const item = recordedMeals['1 large egg'].items[0];
+    const doubled = scaleFoodItem(item, 2);
+
+    expect(doubled.food_name).toBe(item.food_name);
+    expect(doubled.calories).toBeCloseTo(item.calories * 2, 2);
+    expect(doubled.calories_low).toBeCloseTo(item.calories_low * 2, 2);
+    expect(doubled.protein_high).toBeCloseTo(item.protein_high * 2, 2);
+    expect(doubled.assumptions).toEqual(item.assumptions);
+    expect(item.calories).toBe(recordedMeals['1 large egg'].items[0].calories);
+  });
+
+  it('should keep unknown grams as null', () => {
+    const item = { ...recordedMeals['1 large egg'].items[0], grams: null, grams_low: null, grams_high: null };
+
+    expect(scaleFoodItem(item, 0.5).grams).toBeNull();
+  });
+});
+
+describe('sumFoodItems', () => {
+  const egg = recordedMeals['1 large egg'].items[0];
+  const rice = recordedMeals['1 cup of cooked white rice'].items[0];
+
+  it('should add up every value under the new name, combining ranges as independent estimates', () => {
+    const total = sumFoodItems('Egg fried rice', [egg, rice]);
+    const calories = egg.calories + rice.calories;
+    const fat = egg.fat_g + rice.fat_g;
+
+    expect(total.food_name).toBe('Egg fried rice');
+    expect(total.calories).toBeCloseTo(calories, 2);
+    expect(total.calories_low).toBeCloseTo(calories - Math.hypot(egg.calories - egg.calories_low, rice.calories - rice.calories_low), 2);
+    expect(total.fat_high).toBeCloseTo(fat + Math.hypot(egg.fat_high - egg.fat_g, rice.fat_high - rice.fat_g), 2);
+    expect(total.calories_low).toBeGreaterThan(egg.calories_low + rice.calories_low);
+    expect(total.grams).toBeCloseTo(egg.grams + rice.grams, 2);
+    expect(total.assumptions).toEqual([]);
+  });
+
+  it('should leave grams unknown when any item has no weight', () => {
+    const total = sumFoodItems('Egg fried rice', [egg, { ...rice, grams: null, grams_low: null, grams_high: null }]);
+
+    expect(total.grams).toBeNull();
+    expect(total.grams_high).toBeNull();
+  });
+});
+
+describe('withoutKeptFoods', () => {
+  const items = recordedMeals['grilled chicken with rice'].items;
+
+  it('should drop items for foods that were kept, ignoring case and spacing', () => {
+    const kept = [{ food_name: ' Cooked  White Rice' }];
+
+    expect(withoutKeptFoods(items, kept).map((item) => item.food_name)).toEqual(['grilled chicken breast']);
+  });
+
+  it('should keep every item when nothing was kept or nothing matches', () => {
+    expect(withoutKeptFoods(items, [])).toEqual(items);
+    expect(withoutKeptFoods(items, [{ food_name: 'chicken breast' }])).toEqual(items);
+  });
+});
@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { FoodItem, MealSlot, SourcedFoodItem } from '@/types/nutrition';
+import type { Entry } from '@/types/database';
+import { NUTRIENTS, type NutrientField, type NutrientRangeField, type OptionalNutrientField } from '@/lib/nutrients';
+import { normalizeMealText } from '@/lib/meal-prompt';
+import { aggregateNutrients, combineIntervals } from '@/lib/aggregation';
+
+type NutrientColumns = Pick<FoodItem, NutrientField | NutrientRangeField>;
+
+export type EntryItemInput = Pick<FoodItem, 'food_name' | 'grams' | 'grams_low' | 'grams_high' | 'assumptions'> &
+  NutrientColumns &
+  Pick<SourcedFoodItem, 'source' | 'reference_food_id' | 'custom_food_id' | 'recipe_id'>;
+
+/**
+ * Map a parsed food item onto entry_items columns (without entry_id)
+ * The source columns are only included when the item has a source; the
+ * insert defaults it to 'estimate'.
+ */
+export function toEntryItemRow(item: SourcedFoodItem): EntryItemInput {
+  const nutrients: Record<string, number> = {};
+  for (const { field, low, high } of NUTRIENTS) {
+    nutrients[field] = item[field];
+    nutrients[low] = item[low];
+    nutrients[high] = item[high];
+  }
+
+  return {
+    food_name: item.food_name,
+    grams: item.grams,
+    grams_low: item.grams_low,
+    grams_high: item.grams_high,
+    ...(nutrients as NutrientColumns),
+    assumptions: item.assumptions,
+    ...(item.source && {
+      source: item.source,
+      reference_food_id: item.reference_food_id ?? null,
+      custom_food_id: item.custom_food_id ?? null,
+      recipe_id: item.recipe_id ?? null,
+    }),
+  };
+}
+
+// Known amounts for an item; nutrients tracked later than the source of the
+// values (an older import format, a label) may be left out and count as 0
+export type ExactFoodValues = Pick<FoodItem, 'food_name' | 'grams' | 'assumptions' | Exclude<NutrientField, OptionalNutrientField>> &
+  Partial<Pick<FoodItem, OptionalNutrientField>>;
+
+/**
+ * A food item whose values are known rather than estimated (imported from
+ * another tracker, typed from a label): every low/high range is zero-width
+ */
+export function exactFoodItem(values: ExactFoodValues): FoodItem {
+  const item: Record<string, unknown> = {
+    ...values,
+    grams_low: values.grams,
+    grams_high: values.grams,
+  };
+  for (const { field, low, high } of NUTRIENTS) {
+    const value = values[field] ?? 0;
+    item[field] = value;
+    item[low] = value;
+    item[high] = value;
+  }
+  return item as FoodItem;
+}
+
+/**
+ * Multiply every amount and range of a food item (e.g. 2 servings, half a portion).
+ * Values are rounded to 0.01; null grams stay null.
+ */
+export function scaleFoodItem(item: FoodItem, factor: number): FoodItem {
+  const scaled = { ...item, assumptions: [...item.assumptions] } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(item)) {
+    if (typeof value === 'number') {
+      scaled[key] = Math.round(value * factor * 100) / 100;
+    }
+  }
+  return scaled as FoodItem;
+}
+
+/**
+ * Add up the amounts and ranges of several food items into one (a recipe's
+ * ingredients). Ranges are combined as independent estimates, as they are for
+ * daily totals (see aggregation.ts). Values are rounded to 0.01; grams are
+ * only totalled when every item has a weight.
+ */
+export function sumFoodItems(foodName: string, items: FoodItem[]): FoodItem {
+  const round2 = (value: number) => Math.round(value * 100) / 100;
+  const total: Record<string, unknown> = { food_name: foodName, grams: null, grams_low: null, grams_high: null, assumptions: [] };
+
+  const totals = aggregateNutrients(items);
+  for (const { key, field, low, high } of NUTRIENTS) {
+    total[field] = round2(totals[key].value);
+    total[low] = round2(totals[key].low);
+    total[high] = round2(totals[key].high);
+  }
+
+  if (items.length > 0 && items.every((item) => item.grams !== null)) {
+    const grams = combineIntervals(items.map((item) => ({
+      value: item.grams!,
+      low: item.grams_low ?? item.grams!,
+      high: item.grams_high ?? item.grams!,
+    })));
+    total.grams = round2(grams.value);
+    total.grams_low = round2(grams.low);
+    total.grams_high = round2(grams.high);
+  }
+  return total as FoodItem;
+}
+
+/**
+ * Drop re-parsed items for foods the entry already has as kept, hand-edited
+ * items (same food_name, ignoring case and spacing), so keeping edits
+ * doesn't log those foods twice
+ */
+export function withoutKeptFoods<T extends { food_name: string }>(
+  items: T[],
+  kept: { food_name: string }[]
+): T[] {
+  const keptNames = new Set(kept.map((item) => normalizeMealText(item.food_name)));
+  return items.filter((item) => !keptNames.has(normalizeMealText(item.food_name)));
+}
+
+export interface NewEntry {
+  user_id: string;
+  raw_text: string;
+  resolved_date: string;
+  explicit_date_in_text: boolean;
+  meal_slot?: MealSlot | null;
+  eaten_at?: string | null;
+}
+
+/**
+ * Create an entry and its items atomically (create_entry_with_items RPC)
+ * Throws if anything fails; nothing is left behind in that case.
+ */
+export async function createEntryWithItems(
+  supabase: SupabaseClient,
+  entry: NewEntry,
+  items: EntryItemInput[]
+): Promise<Entry> {
+  const { data, error } = await supabase.rpc('create_entry_with_items', {
+    p_entry: entry,
+    p_items: items,
+  });
+
+  if (error || !data) {
+    console.error('Entry creation error:', error);
+    throw new Error('Failed to save entry. Nothing was logged, please try again.');
+  }
+
+  return data as Entry;
+}
+
+/**
+ * Copy entries and their items onto another date (copy_entries RPC)
+ * Entries the user doesn't own are skipped by the RPC.
+ */
+export async function copyEntries(
+  supabase: SupabaseClient,
+  userId: string,
+  entryIds: string[],
+  date: string
+): Promise<Entry[]> {
+  const { data, error } = await supabase.rpc('copy_entries', {
+    p_user_id: userId,
+    p_entry_ids: entryIds,
+    p_date: date,
+  });
+
+  if (error) {
+    console.error('Entry copy error:', error);
+    throw new Error('Failed to copy entries. Nothing was copied, please try again.');
+  }
+
+  return (data || []) as Entry[];
+}
+
+/**
+ * Add items to an existing entry (insert_entry_items RPC)
+ * The caller checks that the entry belongs to the user.
+ */
+export async function appendEntryItems(
+  supabase: SupabaseClient,
+  entryId: string,
+  items: EntryItemInput[]
+): Promise<void> {
+  const { error } = await supabase.rpc('insert_entry_items', {
+    p_entry_id: entryId,
+    p_items: items,
+  });
+
+  if (error) {
+    console.error('Entry item insert error:', error);
+    throw new Error('Failed to add items. Nothing was added, please try again.');
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { toCsvValue, csvLine, entryCsvRows, CSV_COLUMNS, type ExportEntry } from './export';
+
+describe('toCsvValue', () => {
+  it('should quote values with commas, quotes or newlines', () => {
+    expect(toCsvValue('toast')).toBe('toast');
+    expect(toCsvValue('eggs, scrambled')).toBe('"eggs, scrambled"');
+    expect(toCsvValue('a "large" egg')).toBe('"a ""large"" egg"');
+    expect(toCsvValue('line 1\nline 2')).toBe('"line 1\nline 2"');
+  });
+
+  it('should write nulls as empty and arrays as JSON', () => {
+    expect(toCsvValue(null)).toBe('');
+    expect(toCsvValue(undefined)).toBe('');
+    expect(toCsvValue(0)).toBe('0');
+    expect(toCsvValue(false)).toBe('false');
+    expect(toCsvValue(['olive oil'])).toBe('"[""olive oil""]"');
+  });
+});
+
+describe('entryCsvRows', () => {
+  const entry: ExportEntry = {
+    id: 'entry-1',
+    resolved_date: '2026-03-01',
+    created_at: '2026-03-01T12:00:00Z',
+    raw_text: 'toast and eggs',
+    meal_slot: 'breakfast',
+    eaten_at: '07:30:00',
+    entry_items: [
+      { id: 'item-1', food_name: 'Toast', calories: 80, calories_low: 70, calories_high: 90, assumptions: [], has_override: false },
+      { id: 'item-2', food_name: 'Eggs', calories: 140, calories_low: 120, calories_high: 160, assumptions: ['2 large'], has_override: true, override_fields: ['calories'] },
+    ],
+  };
+
+  it('should write one row per item with the entry columns', () => {
+    const rows = entryCsvRows(entry).trimEnd().split('\r\n');
+    expect(rows).toHaveLength(2);
+
+    const cells = rows[1].split(',');
+    const cell = (column: string) => cells[CSV_COLUMNS.indexOf(column)];
+    expect(cell('entry_id')).toBe('entry-1');
+    expect(cell('raw_text')).toBe('toast and eggs');
+    expect(cell('meal_slot')).toBe('breakfast');
+    expect(cell('item_id')).toBe('item-2');
+    expect(cell('calories_low')).toBe('120');
+    expect(cell('has_override')).toBe('true');
+  });
+
+  it('should include low/high columns for every nutrient', () => {
+    expect(CSV_COLUMNS).toEqual(expect.arrayContaining(['sodium_mg', 'sodium_low', 'sodium_high', 'grams_low']));
+    expect(csvLine(['a', 1])).toBe('a,1\r\n');
+  });
+
+  it('should write nothing for an entry without items', () => {
+    expect(entryCsvRows({ ...entry, entry_items: null })).toBe('');
+  });
+});
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { NUTRIENTS } from '@/lib/nutrients';
+
+/**
+ * Food log export: all of a user's entries with their items, as JSON or as
+ * flattened CSV with one row per item. Entries are read a page at a time so
+ * large logs can be streamed instead of built up in memory.
+ */
+
+export type ExportFormat = 'json' | 'csv';
+
+export const EXPORT_PAGE_SIZE = 500;
+
+// Item columns exported with each value's low/high range
+const NUTRIENT_COLUMNS = [
+  'grams',
+  'grams_low',
+  'grams_high',
+  ...NUTRIENTS.flatMap(({ field, low, high }) => [field, low, high]),
+];
+
+export const CSV_COLUMNS = [
+  'entry_id',
+  'resolved_date',
+  'entry_created_at',
+  'raw_text',
+  'meal_slot',
+  'eaten_at',
+  'item_id',
+  'food_name',
+  ...NUTRIENT_COLUMNS,
+  'assumptions',
+  'has_override',
+  'override_fields',
+];
+
+type Row = Record<string, unknown>;
+
+export interface ExportEntry extends Row {
+  id: string;
+  resolved_date: string;
+  created_at: string;
+  raw_text: string;
+  meal_slot: string | null;
+  eaten_at: string | null;
+  entry_items: Row[] | null;
+}
+
+/**
+ * Quote a value for CSV (RFC 4180); arrays and objects are written as JSON
+ */
+export function toCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function csvLine(values: unknown[]): string {
+  return values.map(toCsvValue).join(',') + '\r\n';
+}
+
+/**
+ * One CSV row per item, each carrying its entry's columns
+ */
+export function entryCsvRows(entry: ExportEntry): string {
+  return (entry.entry_items || [])
+    .map((item) => csvLine(CSV_COLUMNS.map((column) => {
+      switch (column) {
+        case 'entry_id': return entry.id;
+        case 'resolved_date': return entry.resolved_date;
+        case 'entry_created_at': return entry.created_at;
+        case 'raw_text': return entry.raw_text;
+        case 'meal_slot': return entry.meal_slot;
+        case 'eaten_at': return entry.eaten_at;
+        case 'item_id': return item.id;
+        default: return item[column];
+      }
+    })))
+    .join('');
+}
+
+/**
+ * Page through a user's entries (with items), oldest first (ties in id order)
+ */
+export async function* exportEntryPages(
+  supabase: SupabaseClient,
+  userId: string,
+  from: string | null,
+  to: string | null
+): AsyncGenerator<ExportEntry[]> {
+  for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+    let query = supabase
+      .from('entries')
+      .select('id, raw_text, resolved_date, explicit_date_in_text, meal_slot, eaten_at, created_at, entry_items (*)')
+      .eq('user_id', userId);
+
+    if (from) query = query.gte('resolved_date', from);
+    if (to) query = query.lte('resolved_date', to);
+
+    const { data, error } = await query
+      .order('resolved_date', { ascending: true })
+      .order('created_at', { ascending: true })
+      // Unique last, so rows created together can't shift between pages
+      .order('id', { ascending: true })
+      .range(offset, offset + EXPORT_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to export entries: ${error.message}`);
+
+    const page = (data || []) as ExportEntry[];
+    if (page.length > 0) yield page;
+    if (page.length < EXPORT_PAGE_SIZE) return;
+  }
+}
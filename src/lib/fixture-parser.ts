@@ -0,0 +1,33 @@
+import { ParsedMealSchema, type MealParser, type ParsedMeal } from '@/types/nutrition';
+import { assertNoImageError, normalizeMealText } from '@/lib/meal-prompt';
+import recordedMeals from '@/lib/fixtures/meals.json';
+
+/**
+ * Offline meal parser that replays recorded responses.
+ * Fixtures are keyed on normalized meal text; images are not part of the key.
+ * Used for CI and local development without an API key.
+ */
+export function createFixtureMealParser(
+  fixtures: Record<string, unknown> = recordedMeals
+): MealParser {
+  const byText = new Map<string, ParsedMeal>();
+  for (const [text, meal] of Object.entries(fixtures)) {
+    byText.set(normalizeMealText(text), ParsedMealSchema.parse(meal));
+  }
+
+  return {
+    name: 'fixture',
+    model: 'recorded',
+    async parse(request) {
+      const meal = byText.get(normalizeMealText(request.text));
+      if (!meal) {
+        throw new Error(`No recorded fixture for "${request.text}"`);
+      }
+
+      assertNoImageError(meal);
+
+      // Hand out a copy so callers can't mutate the recorded fixture
+      return structuredClone(meal);
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import {
+  goalFromSettings,
+  calorieAdjustment,
+  applyCalorieFloor,
+  calculateMacroTargets,
+  validateMacroTarget,
+  DEFAULT_GOAL,
+  MAX_DAILY_DEFICIT,
+} from './goals';
+import { calculateFullTDEE, DEFAULT_ACTIVITY_LEVELS } from './tdee';
+import type { GoalSettings } from '@/types/nutrition';
+
+const TODAY = '2026-03-01';
+
+function goal(overrides: Partial<GoalSettings>): GoalSettings {
+  return { ...DEFAULT_GOAL, ...overrides };
+}
+
+describe('goalFromSettings', () => {
+  it('should fill in defaults for rows without goal columns', () => {
+    expect(goalFromSettings({ calorie_deficit: 500 })).toEqual(DEFAULT_GOAL);
+  });
+
+  it('should derive the goal type from the sign of a legacy deficit', () => {
+    expect(goalFromSettings({ calorie_deficit: 0 }).goal_type).toBe('maintain');
+    expect(goalFromSettings({ calorie_deficit: -300 })).toMatchObject({ goal_type: 'gain', calorie_deficit: 300 });
+  });
+
+  it('should ignore the carb value in remainder mode', () => {
+    const result = goalFromSettings({ carb_target_mode: 'remainder', carb_target_value: 40 });
+    expect(result.carb_target).toEqual({ mode: 'remainder', value: null });
+  });
+});
+
+describe('calorieAdjustment', () => {
+  it('should apply the fixed rate without a target date', () => {
+    expect(calorieAdjustment(goal({ calorie_deficit: 400 }), 80, TODAY).adjustment).toBe(-400);
+    expect(calorieAdjustment(goal({ goal_type: 'gain', calorie_deficit: 250 }), 80, TODAY).adjustment).toBe(250);
+    expect(calorieAdjustment(goal({ goal_type: 'maintain' }), 80, TODAY).adjustment).toBe(0);
+  });
+
+  it('should spread the remaining weight change over the days left', () => {
+    // 2 kg in 70 days = 2 × 7700 / 70 = 220 kcal/day
+    const result = calorieAdjustment(
+      goal({ target_weight_kg: 78, target_date: '2026-05-10' }),
+      80,
+      TODAY
+    );
+    expect(result.adjustment).toBe(-220);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('should cap an aggressive deficit', () => {
+    const result = calorieAdjustment(
+      goal({ target_weight_kg: 70, target_date: '2026-03-15' }),
+      120,
+      TODAY
+    );
+    expect(result.adjustment).toBe(-MAX_DAILY_DEFICIT);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('should cap the deficit to 1% of body weight per week', () => {
+    // 60 kg × 1% × 7700 / 7 = 660 kcal/day
+    const result = calorieAdjustment(goal({ calorie_deficit: 900 }), 60, TODAY);
+    expect(result.adjustment).toBe(-660);
+  });
+
+  it('should cap a gain to 0.5% of body weight per week', () => {
+    // 70 kg × 0.5% × 7700 / 7 = 385 kcal/day
+    const result = calorieAdjustment(goal({ goal_type: 'gain', calorie_deficit: 600 }), 70, TODAY);
+    expect(result.adjustment).toBe(385);
+  });
+
+  it('should stop at maintenance once the target is reached', () => {
+    const result = calorieAdjustment(
+      goal({ target_weight_kg: 82, target_date: '2026-05-10' }),
+      80,
+      TODAY
+    );
+    expect(result.adjustment).toBe(0);
+    expect(result.warnings).toHaveLength(1);
+  });
+
+  it('should fall back to the rate when the target date has passed', () => {
+    const result = calorieAdjustment(
+      goal({ target_weight_kg: 78, target_date: '2026-02-01', calorie_deficit: 300 }),
+      80,
+      TODAY
+    );
+    expect(result.adjustment).toBe(-300);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('applyCalorieFloor', () => {
+  it('should raise targets below the minimum for the sex', () => {
+    expect(applyCalorieFloor(1100, 'female')).toEqual({ target: 1200, floored: true });
+    expect(applyCalorieFloor(1400, 'male')).toEqual({ target: 1500, floored: true });
+    expect(applyCalorieFloor(1800, 'male')).toEqual({ target: 1800, floored: false });
+  });
+});
+
+describe('calculateMacroTargets', () => {
+  it('should give carbs the calories left after protein and fat', () => {
+    // protein 80 × 1.6 = 128 g (512 kcal), fat 30% of 2000 = 600 kcal (67 g)
+    const result = calculateMacroTargets(DEFAULT_GOAL, 2000, 80);
+    expect(result).toEqual({ protein_g: 128, fat_g: 67, carbs_g: 222, warnings: [] });
+  });
+
+  it('should support percent protein and g/kg fat', () => {
+    const result = calculateMacroTargets(
+      goal({ protein_target: { mode: 'percent', value: 25 }, fat_target: { mode: 'g_per_kg', value: 1 } }),
+      2400,
+      70
+    );
+    expect(result.protein_g).toBe(150);
+    expect(result.fat_g).toBe(70);
+  });
+
+  it('should warn when fixed targets exceed the calorie target', () => {
+    const result = calculateMacroTargets(
+      goal({ carb_target: { mode: 'percent', value: 60 } }),
+      2000,
+      80
+    );
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe('validateMacroTarget', () => {
+  it('should accept targets within bounds', () => {
+    expect(validateMacroTarget('Protein', { mode: 'g_per_kg', value: 2 })).toBeNull();
+    expect(validateMacroTarget('Carb', { mode: 'remainder', value: null }, true)).toBeNull();
+  });
+
+  it('should reject out-of-range values and unknown modes', () => {
+    expect(validateMacroTarget('Protein', { mode: 'g_per_kg', value: 6 })).toMatch(/between/);
+    expect(validateMacroTarget('Fat', { mode: 'percent', value: 2 })).toMatch(/between/);
+    expect(validateMacroTarget('Fat', { mode: 'remainder', value: null })).toMatch(/remainder/);
+    // @ts-expect-error invalid mode from a request body
+    expect(validateMacroTarget('Fat', { mode: 'grams', value: 50 })).toMatch(/mode/);
+  });
+});
+
+describe('calculateFullTDEE with goals', () => {
+  const body = { weight_kg: 80, height_cm: 180, age_years: 30, sex: 'male' as const };
+  const moderate = DEFAULT_ACTIVITY_LEVELS[2];
+
+  it('should apply the goal adjustment and macro targets', () => {
+    const result = calculateFullTDEE({ ...body, calorie_deficit: 500 }, moderate, TODAY)!;
+
+    expect(result.calorie_adjustment).toBe(-500);
+    expect(result.target_calories).toBe(result.tdee - 500);
+    expect(result.protein_target_g).toBe(128);
+    expect(result.fat_target_g).toBe(Math.round((result.target_calories * 0.3) / 9));
+    expect(result.goal_warnings).toEqual([]);
+  });
+
+  it('should target maintenance for the maintain goal', () => {
+    const result = calculateFullTDEE({ ...body, calorie_deficit: 500, goal_type: 'maintain' }, moderate, TODAY)!;
+    expect(result.target_calories).toBe(result.tdee);
+  });
+
+  it('should never target below the calorie floor', () => {
+    const small = { weight_kg: 50, height_cm: 155, age_years: 60, sex: 'female' as const };
+    const result = calculateFullTDEE({ ...small, calorie_deficit: 1000 }, DEFAULT_ACTIVITY_LEVELS[0], TODAY)!;
+
+    expect(result.target_calories).toBe(1200);
+    expect(result.goal_warnings.length).toBeGreaterThan(0);
+  });
+});
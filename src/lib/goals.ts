@@ -0,0 +1,211 @@
+import type { GoalSettings, GoalType, MacroTarget } from '@/types/nutrition';
+import type { UserSettings } from '@/types/database';
+
+/**
+ * Goal modes: turn a goal (lose / maintain / gain, optionally a target
+ * weight by a target date) into a daily calorie adjustment relative to TDEE,
+ * and turn the resulting calorie target into protein / fat / carb targets.
+ *
+ * Safety bounds keep the computed targets sane regardless of what the goal
+ * asks for; every bound that kicks in is reported as a warning.
+ */
+
+export const KCAL_PER_KG = 7700;
+
+// Rate limits as a fraction of body weight per week
+export const MAX_WEEKLY_LOSS_FRACTION = 0.01;
+export const MAX_WEEKLY_GAIN_FRACTION = 0.005;
+
+// Absolute caps on the daily deficit / surplus
+export const MAX_DAILY_DEFICIT = 1000;
+export const MAX_DAILY_SURPLUS = 750;
+
+// Never target fewer calories than this
+export const MIN_DAILY_CALORIES = { male: 1500, female: 1200 } as const;
+
+// Accepted ranges for user-selected macro targets
+export const MACRO_TARGET_BOUNDS = {
+  g_per_kg: { min: 0.5, max: 4 },
+  percent: { min: 5, max: 70 },
+} as const;
+
+export const DEFAULT_GOAL: GoalSettings = {
+  goal_type: 'lose',
+  calorie_deficit: 500,
+  target_weight_kg: null,
+  target_date: null,
+  protein_target: { mode: 'g_per_kg', value: 1.6 },
+  fat_target: { mode: 'percent', value: 30 },
+  carb_target: { mode: 'remainder', value: null },
+};
+
+export type GoalColumns = Pick<
+  UserSettings,
+  | 'calorie_deficit'
+  | 'goal_type'
+  | 'target_weight_kg'
+  | 'target_date'
+  | 'protein_target_mode'
+  | 'protein_target_value'
+  | 'fat_target_mode'
+  | 'fat_target_value'
+  | 'carb_target_mode'
+  | 'carb_target_value'
+>;
+
+// user_settings columns holding the goal, for select() lists
+export const GOAL_COLUMNS =
+  'calorie_deficit, goal_type, target_weight_kg, target_date, protein_target_mode, protein_target_value, ' +
+  'fat_target_mode, fat_target_value, carb_target_mode, carb_target_value';
+
+/**
+ * Build goal settings from user_settings columns, filling in defaults
+ * Rows from before goal modes only have calorie_deficit; its sign decides
+ * the goal type (positive = lose, 0 = maintain, negative = gain).
+ */
+export function goalFromSettings(settings: Partial<GoalColumns>): GoalSettings {
+  const deficit = settings.calorie_deficit ?? DEFAULT_GOAL.calorie_deficit;
+  const goalType: GoalType = settings.goal_type
+    ?? (deficit > 0 ? 'lose' : deficit < 0 ? 'gain' : 'maintain');
+
+  return {
+    goal_type: goalType,
+    calorie_deficit: Math.abs(deficit),
+    target_weight_kg: settings.target_weight_kg ?? null,
+    target_date: settings.target_date ?? null,
+    protein_target: settings.protein_target_mode && settings.protein_target_value != null
+      ? { mode: settings.protein_target_mode, value: Number(settings.protein_target_value) }
+      : DEFAULT_GOAL.protein_target,
+    fat_target: settings.fat_target_mode && settings.fat_target_value != null
+      ? { mode: settings.fat_target_mode, value: Number(settings.fat_target_value) }
+      : DEFAULT_GOAL.fat_target,
+    carb_target: settings.carb_target_mode && settings.carb_target_mode !== 'remainder' && settings.carb_target_value != null
+      ? { mode: settings.carb_target_mode, value: Number(settings.carb_target_value) }
+      : DEFAULT_GOAL.carb_target,
+  };
+}
+
+function daysBetween(from: string, to: string): number {
+  const [fy, fm, fd] = from.split('-').map(Number);
+  const [ty, tm, td] = to.split('-').map(Number);
+  return Math.round((Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86_400_000);
+}
+
+/**
+ * Daily calories to add to TDEE for a goal (negative = deficit)
+ * A target weight with a future target date takes precedence over the
+ * fixed calorie_deficit rate. The result is capped to safe rates.
+ */
+export function calorieAdjustment(
+  goal: GoalSettings,
+  weightKg: number,
+  today: string
+): { adjustment: number; warnings: string[] } {
+  const warnings: string[] = [];
+
+  if (goal.goal_type === 'maintain') {
+    return { adjustment: 0, warnings };
+  }
+
+  let adjustment: number;
+  const daysLeft = goal.target_date ? daysBetween(today, goal.target_date) : 0;
+
+  if (goal.target_weight_kg && goal.target_date && daysLeft > 0) {
+    adjustment = ((goal.target_weight_kg - weightKg) * KCAL_PER_KG) / daysLeft;
+
+    if ((goal.goal_type === 'lose' && adjustment > 0) || (goal.goal_type === 'gain' && adjustment < 0)) {
+      warnings.push('Target weight already reached, so calories are set to maintenance.');
+      adjustment = 0;
+    }
+  } else {
+    if (goal.target_date && daysLeft <= 0) {
+      warnings.push('Target date has passed, so the daily rate is used instead.');
+    }
+    adjustment = goal.goal_type === 'lose' ? -goal.calorie_deficit : goal.calorie_deficit;
+  }
+
+  if (adjustment < 0) {
+    const maxDeficit = Math.min(MAX_DAILY_DEFICIT, (weightKg * MAX_WEEKLY_LOSS_FRACTION * KCAL_PER_KG) / 7);
+    if (-adjustment > maxDeficit) {
+      warnings.push(`Deficit capped at ${Math.round(maxDeficit)} kcal/day (about 1% of body weight per week).`);
+      adjustment = -maxDeficit;
+    }
+  } else if (adjustment > 0) {
+    const maxSurplus = Math.min(MAX_DAILY_SURPLUS, (weightKg * MAX_WEEKLY_GAIN_FRACTION * KCAL_PER_KG) / 7);
+    if (adjustment > maxSurplus) {
+      warnings.push(`Surplus capped at ${Math.round(maxSurplus)} kcal/day (about 0.5% of body weight per week).`);
+      adjustment = maxSurplus;
+    }
+  }
+
+  return { adjustment: Math.round(adjustment), warnings };
+}
+
+/**
+ * Raise a calorie target to the minimum for the user's sex
+ */
+export function applyCalorieFloor(
+  targetCalories: number,
+  sex: 'male' | 'female'
+): { target: number; floored: boolean } {
+  const floor = MIN_DAILY_CALORIES[sex];
+  return targetCalories < floor
+    ? { target: floor, floored: true }
+    : { target: targetCalories, floored: false };
+}
+
+function macroGrams(target: MacroTarget, kcalPerGram: number, targetCalories: number, weightKg: number): number {
+  if (target.mode === 'g_per_kg') return (target.value ?? 0) * weightKg;
+  if (target.mode === 'percent') return (targetCalories * (target.value ?? 0)) / 100 / kcalPerGram;
+  return 0;
+}
+
+/**
+ * Protein / fat / carb gram targets for a calorie target
+ * Carbs in 'remainder' mode get whatever calories protein and fat leave.
+ */
+export function calculateMacroTargets(
+  goal: GoalSettings,
+  targetCalories: number,
+  weightKg: number
+): { protein_g: number; fat_g: number; carbs_g: number; warnings: string[] } {
+  const warnings: string[] = [];
+  const protein = macroGrams(goal.protein_target, 4, targetCalories, weightKg);
+  const fat = macroGrams(goal.fat_target, 9, targetCalories, weightKg);
+
+  let carbs: number;
+  if (goal.carb_target.mode === 'remainder') {
+    carbs = Math.max(0, (targetCalories - protein * 4 - fat * 9) / 4);
+  } else {
+    carbs = macroGrams(goal.carb_target, 4, targetCalories, weightKg);
+  }
+
+  if (protein * 4 + fat * 9 + carbs * 4 > targetCalories * 1.05) {
+    warnings.push('Macro targets add up to more calories than the daily target.');
+  }
+
+  return {
+    protein_g: Math.round(protein),
+    fat_g: Math.round(fat),
+    carbs_g: Math.round(carbs),
+    warnings,
+  };
+}
+
+/**
+ * Validate a user-selected macro target, returning an error message or null
+ */
+export function validateMacroTarget(label: string, target: MacroTarget, allowRemainder = false): string | null {
+  if (target.mode === 'remainder') {
+    return allowRemainder ? null : `${label} target cannot be the remainder`;
+  }
+  const bounds = MACRO_TARGET_BOUNDS[target.mode];
+  if (!bounds) {
+    return `${label} target mode must be g_per_kg or percent`;
+  }
+  if (typeof target.value !== 'number' || target.value < bounds.min || target.value > bounds.max) {
+    const unit = target.mode === 'percent' ? '%' : ' g/kg';
+    return `${label} target must be between ${bounds.min}${unit} and ${bounds.max}${unit}`;
+  }
+  return null;
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  parseCsv,
+  detectImportSource,
+  parseImportDate,
+  parseImportCsv,
+  entryFingerprint,
+  markDuplicates,
+  DUPLICATE_CHECK_PAGE_SIZE,
+} from './import';
+
+const MFP_CSV = [
+  'Date,Meal,Calories,Fat (g),Saturated Fat,Polyunsaturated Fat,Monounsaturated Fat,Trans Fat,Cholesterol,Sodium (mg),Potassium,Carbohydrates (g),Fiber,Sugar,Protein (g),Note',
+  '2025-01-15,Breakfast,420,12,4,2,5,0,180,510,300,55,6,12,22,',
+  '2025-01-15,Lunch,650,25,8,4,10,0,60,900,500,70,8,5,35,',
+  '2025-01-16,Breakfast,380,10,3,2,4,0,150,400,250,50,5,10,20,',
+].join('\r\n');
+
+const CRONOMETER_CSV = [
+  'Day,Time,Group,Food Name,Amount,Energy (kcal),Carbs (g),Fiber (g),Fat (g),Saturated (g),Monounsaturated (g),Polyunsaturated (g),Protein (g),Sodium (mg)',
+  '2025-02-01,08:00,Breakfast,"Oats, rolled",40.00 g,150,27,4,2.5,0.5,0.8,0.9,5,2',
+  '2025-02-01,08:00,Breakfast,Banana,1.00 medium,105,27,3,0.4,0.1,0,0.1,1.3,1',
+].join('\n');
+
+const LOSEIT_CSV = [
+  'Date,Name,Type,Quantity,Units,Calories,Fat (g),Protein (g),Carbohydrates (g),Saturated Fat (g),Sugars (g),Fiber (g),Cholesterol (mg),Sodium (mg)',
+  '03/09/2025,Greek Yogurt,Breakfast,170,Grams,100,0.7,17,6,0.2,6,0,10,60',
+  '13/40/2025,Bad row,Lunch,1,Each,100,1,1,1,0,0,0,0,0',
+].join('\n');
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and blank lines', () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\n\nlast,\n')).toEqual([
+      ['a', 'b'],
+      ['x, y', 'say "hi"'],
+      ['last', ''],
+    ]);
+  });
+
+  it('should strip a byte order mark', () => {
+    expect(parseCsv('\uFEFFDate,Meal')[0][0]).toBe('Date');
+  });
+});
+
+describe('detectImportSource', () => {
+  it('should recognize each vendor by its headers', () => {
+    expect(detectImportSource(parseCsv(MFP_CSV)[0])).toBe('myfitnesspal');
+    expect(detectImportSource(parseCsv(CRONOMETER_CSV)[0])).toBe('cronometer');
+    expect(detectImportSource(parseCsv(LOSEIT_CSV)[0])).toBe('loseit');
+    expect(detectImportSource(['food', 'kcal'])).toBeNull();
+  });
+});
+
+describe('parseImportDate', () => {
+  it('should accept ISO and US dates', () => {
+    expect(parseImportDate('2025-01-15')).toBe('2025-01-15');
+    expect(parseImportDate('3/9/2025')).toBe('2025-03-09');
+    expect(parseImportDate('2025-01-15 08:30')).toBe('2025-01-15');
+    expect(parseImportDate('13/40/2025')).toBeNull();
+  });
+});
+
+describe('parseImportCsv', () => {
+  it('should group MyFitnessPal meals into one entry per date and meal', () => {
+    const result = parseImportCsv(MFP_CSV);
+
+    expect(result.source).toBe('myfitnesspal');
+    expect(result.entries.map((e) => [e.resolved_date, e.raw_text])).toEqual([
+      ['2025-01-15', 'Breakfast (MyFitnessPal import)'],
+      ['2025-01-15', 'Lunch (MyFitnessPal import)'],
+      ['2025-01-16', 'Breakfast (MyFitnessPal import)'],
+    ]);
+
+    expect(result.entries.map((e) => e.meal_slot)).toEqual(['breakfast', 'lunch', 'breakfast']);
+
+    const item = result.entries[0].items[0];
+    expect(item).toMatchObject({
+      food_name: 'Breakfast',
+      calories: 420,
+      protein_g: 22,
+      carbs_g: 55,
+      fat_g: 12,
+      saturated_fat_g: 4,
+      unsaturated_fat_g: 7,
+      fiber_g: 6,
+      sodium_mg: 510,
+      total_sugar_g: 12,
+      added_sugar_g: 0,
+    });
+  });
+
+  it('should use zero-width ranges for imported values', () => {
+    const item = parseImportCsv(MFP_CSV).entries[0].items[0];
+
+    expect(item.calories_low).toBe(item.calories);
+    expect(item.calories_high).toBe(item.calories);
+    expect(item.protein_low).toBe(item.protein_g);
+    expect(item.sodium_high).toBe(item.sodium_mg);
+  });
+
+  it('should keep Cronometer food names and gram amounts', () => {
+    const [entry] = parseImportCsv(CRONOMETER_CSV).entries;
+
+    expect(entry.items.map((i) => i.food_name)).toEqual(['Oats, rolled', 'Banana']);
+    expect(entry.items[0].grams).toBe(40);
+    expect(entry.items[1].grams).toBeNull();
+    expect(entry.items[0].assumptions).toEqual([
+      'Imported from Cronometer',
+      'Added sugar not in this export; recorded as 0',
+    ]);
+  });
+
+  it('should report rows with bad dates and import the rest', () => {
+    const result = parseImportCsv(LOSEIT_CSV);
+
+    expect(result.entries).toHaveLength(1);
+    expect(result.entries[0].resolved_date).toBe('2025-03-09');
+    expect(result.entries[0].items[0].grams).toBe(170);
+    expect(result.errors).toEqual(['Row 3: invalid date "13/40/2025"']);
+  });
+
+  it('should reject unrecognized files', () => {
+    const result = parseImportCsv('food,kcal\ntoast,80');
+
+    expect(result.source).toBeNull();
+    expect(result.errors[0]).toMatch(/Unrecognized/);
+  });
+});
+
+describe('markDuplicates', () => {
+  function fakeSupabase(existing: unknown[]) {
+    const query = {
+      select: vi.fn(() => query),
+      eq: vi.fn(() => query),
+      gte: vi.fn(() => query),
+      lte: vi.fn(() => query),
+      order: vi.fn(() => query),
+      range: vi.fn((from: number, to: number) => Promise.resolve({ data: existing.slice(from, to + 1), error: null })),
+    };
+    return { from: vi.fn(() => query), query } as unknown as SupabaseClient & { query: typeof query };
+  }
+
+  it('should flag entries already logged with the same foods and calories', async () => {
+    const { entries } = parseImportCsv(MFP_CSV);
+    const supabase = fakeSupabase([
+      { resolved_date: '2025-01-15', entry_items: [{ food_name: 'breakfast', calories: 420.2 }] },
+    ]);
+
+    const marked = await markDuplicates(supabase, 'user-1', entries);
+
+    expect(marked.map((e) => e.duplicate)).toEqual([true, false, false]);
+  });
+
+  it('should flag repeats within the same file', async () => {
+    const { entries } = parseImportCsv(MFP_CSV);
+    const marked = await markDuplicates(fakeSupabase([]), 'user-1', [...entries, entries[2]]);
+
+    expect(marked.map((e) => e.duplicate)).toEqual([false, false, false, true]);
+  });
+
+  it('should page through more existing entries than one response holds', async () => {
+    const { entries } = parseImportCsv(MFP_CSV);
+    const other = { resolved_date: '2025-01-15', entry_items: [{ food_name: 'snacks', calories: 100 }] };
+    const supabase = fakeSupabase([
+      ...Array(DUPLICATE_CHECK_PAGE_SIZE).fill(other),
+      { resolved_date: '2025-01-16', entry_items: [{ food_name: 'breakfast', calories: 380 }] },
+    ]);
+
+    const marked = await markDuplicates(supabase, 'user-1', entries);
+
+    expect(marked.map((e) => e.duplicate)).toEqual([false, false, true]);
+    expect(supabase.query.range).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fingerprint items regardless of order', () => {
+    expect(entryFingerprint('2025-01-15', [{ food_name: 'A', calories: 1 }, { food_name: 'b', calories: 2 }]))
+      .toBe(entryFingerprint('2025-01-15', [{ food_name: 'B', calories: 2 }, { food_name: 'a', calories: 1 }]));
+  });
+});
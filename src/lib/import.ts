@@ -0,0 +1,337 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ImportBatch } from '@/types/database';
+import { exactFoodItem, toEntryItemRow, type EntryItemInput, type ExactFoodValues } from '@/lib/entries';
+import { isValidDateString } from '@/lib/date-resolution';
+import { mealSlotFromLabel } from '@/lib/meal-timing';
+import { NUTRIENTS } from '@/lib/nutrients';
+import type { MealSlot } from '@/types/nutrition';
+
+/**
+ * Import history from other trackers' CSV exports
+ *
+ * Each vendor format maps its columns onto entry_items. Rows are grouped
+ * into one entry per date and meal, and the vendor's meal name sets the meal
+ * slot. Values are known rather than estimated, so every range is zero-width.
+ *
+ * Entries that match an existing entry (same date, same food names and
+ * calories) are flagged as duplicates and skipped on import.
+ */
+
+export type ImportSource = ImportBatch['source'];
+
+export const MAX_IMPORT_ROWS = 20_000;
+
+// Existing entries are read in pages of this many when checking for duplicates
+export const DUPLICATE_CHECK_PAGE_SIZE = 1000;
+
+type NutrientColumn = Exclude<keyof ExactFoodValues, 'food_name' | 'grams' | 'assumptions'>;
+
+interface VendorFormat {
+  label: string;
+  detect: (headers: Set<string>) => boolean;
+  date: string;
+  meal: string;
+  food: string | null; // null = one row per meal (daily totals by meal)
+  amount?: { quantity: string; units?: string };
+  nutrients: Partial<Record<NutrientColumn, string>>;
+  saturatedFat?: string;
+  monounsaturatedFat?: string;
+  polyunsaturatedFat?: string;
+}
+
+// Detection order matters: Cronometer and Lose It have food names, MyFitnessPal doesn't
+export const IMPORT_FORMATS: Record<ImportSource, VendorFormat> = {
+  cronometer: {
+    label: 'Cronometer',
+    detect: (h) => h.has('Food Name') && h.has('Energy (kcal)'),
+    date: 'Day',
+    meal: 'Group',
+    food: 'Food Name',
+    amount: { quantity: 'Amount' },
+    nutrients: {
+      calories: 'Energy (kcal)',
+      protein_g: 'Protein (g)',
+      carbs_g: 'Carbs (g)',
+      fat_g: 'Fat (g)',
+      fiber_g: 'Fiber (g)',
+      sodium_mg: 'Sodium (mg)',
+      total_sugar_g: 'Sugars (g)',
+      added_sugar_g: 'Added Sugars (g)',
+      potassium_mg: 'Potassium (mg)',
+      calcium_mg: 'Calcium (mg)',
+      iron_mg: 'Iron (mg)',
+      cholesterol_mg: 'Cholesterol (mg)',
+      caffeine_mg: 'Caffeine (mg)',
+      alcohol_g: 'Alcohol (g)',
+    },
+    saturatedFat: 'Saturated (g)',
+    monounsaturatedFat: 'Monounsaturated (g)',
+    polyunsaturatedFat: 'Polyunsaturated (g)',
+  },
+  loseit: {
+    label: 'Lose It',
+    detect: (h) => h.has('Name') && h.has('Type') && h.has('Calories'),
+    date: 'Date',
+    meal: 'Type',
+    food: 'Name',
+    amount: { quantity: 'Quantity', units: 'Units' },
+    nutrients: {
+      calories: 'Calories',
+      protein_g: 'Protein (g)',
+      carbs_g: 'Carbohydrates (g)',
+      fat_g: 'Fat (g)',
+      fiber_g: 'Fiber (g)',
+      sodium_mg: 'Sodium (mg)',
+      total_sugar_g: 'Sugars (g)',
+      cholesterol_mg: 'Cholesterol (mg)',
+    },
+    saturatedFat: 'Saturated Fat (g)',
+  },
+  myfitnesspal: {
+    label: 'MyFitnessPal',
+    detect: (h) => h.has('Meal') && h.has('Calories') && h.has('Carbohydrates (g)'),
+    date: 'Date',
+    meal: 'Meal',
+    food: null,
+    nutrients: {
+      calories: 'Calories',
+      protein_g: 'Protein (g)',
+      carbs_g: 'Carbohydrates (g)',
+      fat_g: 'Fat (g)',
+      fiber_g: 'Fiber',
+      sodium_mg: 'Sodium (mg)',
+      total_sugar_g: 'Sugar',
+    },
+    saturatedFat: 'Saturated Fat',
+    monounsaturatedFat: 'Monounsaturated Fat',
+    polyunsaturatedFat: 'Polyunsaturated Fat',
+  },
+};
+
+export interface ImportedEntry {
+  resolved_date: string;
+  raw_text: string;
+  meal_slot: MealSlot | null;
+  items: EntryItemInput[];
+  duplicate: boolean;
+}
+
+export interface ImportParseResult {
+  source: ImportSource | null;
+  entries: ImportedEntry[];
+  errors: string[];
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting, CRLF or LF, optional BOM) into rows
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Work out which tracker a CSV came from by its header row
+ */
+export function detectImportSource(headers: string[]): ImportSource | null {
+  const set = new Set(headers.map((h) => h.trim()));
+  const match = (Object.keys(IMPORT_FORMATS) as ImportSource[]).find((source) => IMPORT_FORMATS[source].detect(set));
+  return match ?? null;
+}
+
+/**
+ * Normalize YYYY-MM-DD or M/D/YYYY to YYYY-MM-DD (null if invalid)
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim();
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(trimmed);
+  const date = us ? `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}` : trimmed.slice(0, 10);
+  return isValidDateString(date) ? date : null;
+}
+
+function parseNumber(value: string | undefined): number {
+  if (!value) return 0;
+  const number = parseFloat(value.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : 0;
+}
+
+// Grams when the amount is in grams ("150 g", or Lose It's Quantity + Units)
+function parseGrams(quantity: string | undefined, units: string | undefined): number | null {
+  const text = `${quantity ?? ''} ${units ?? ''}`.trim().toLowerCase();
+  const match = /^([\d.,]+)\s*(g|gram|grams)$/.exec(text);
+  return match ? parseNumber(match[1]) : null;
+}
+
+/**
+ * Parse a vendor CSV export into entries (one per date and meal)
+ * @param source - Force a format instead of detecting it from the headers
+ */
+export function parseImportCsv(text: string, source?: ImportSource): ImportParseResult {
+  const [headers, ...rows] = parseCsv(text);
+  const errors: string[] = [];
+
+  const detected = source ?? (headers ? detectImportSource(headers) : null);
+  if (!headers || !detected) {
+    return { source: null, entries: [], errors: ['Unrecognized CSV format. Export from MyFitnessPal, Cronometer or Lose It.'] };
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return { source: detected, entries: [], errors: [`Too many rows (max ${MAX_IMPORT_ROWS}). Split the file by date range.`] };
+  }
+
+  const format = IMPORT_FORMATS[detected];
+  const index = new Map(headers.map((h, i) => [h.trim(), i]));
+  const cell = (row: string[], column: string | undefined) => {
+    const i = column ? index.get(column) : undefined;
+    return i === undefined ? undefined : row[i]?.trim();
+  };
+
+  const missing = [format.date, format.meal, format.nutrients.calories!].filter((column) => !index.has(column));
+  if (missing.length > 0) {
+    return { source: detected, entries: [], errors: [`Missing ${format.label} columns: ${missing.join(', ')}`] };
+  }
+
+  const assumptions = [`Imported from ${format.label}`];
+  if (!index.has(format.nutrients.added_sugar_g ?? '')) {
+    assumptions.push('Added sugar not in this export; recorded as 0');
+  }
+
+  // Nutrients tracked since the core set, where the export has them
+  const optionalNutrients = (row: string[]) => Object.fromEntries(
+    NUTRIENTS.filter((nutrient) => 'optional' in nutrient && index.has(format.nutrients[nutrient.field] ?? ''))
+      .map(({ field }) => [field, parseNumber(cell(row, format.nutrients[field]))])
+  );
+
+  const entries = new Map<string, ImportedEntry>();
+
+  rows.forEach((row, i) => {
+    const date = parseImportDate(cell(row, format.date) ?? '');
+    if (!date) {
+      errors.push(`Row ${i + 2}: invalid date "${cell(row, format.date) ?? ''}"`);
+      return;
+    }
+
+    const meal = cell(row, format.meal) || 'Uncategorized';
+    const fat = parseNumber(cell(row, format.nutrients.fat_g));
+    const saturatedFat = parseNumber(cell(row, format.saturatedFat));
+    const unsaturatedFat = index.has(format.monounsaturatedFat ?? '') || index.has(format.polyunsaturatedFat ?? '')
+      ? parseNumber(cell(row, format.monounsaturatedFat)) + parseNumber(cell(row, format.polyunsaturatedFat))
+      : Math.max(0, fat - saturatedFat);
+
+    const item = exactFoodItem({
+      food_name: (format.food ? cell(row, format.food) : null) || meal,
+      grams: format.amount ? parseGrams(cell(row, format.amount.quantity), cell(row, format.amount.units)) : null,
+      calories: parseNumber(cell(row, format.nutrients.calories)),
+      protein_g: parseNumber(cell(row, format.nutrients.protein_g)),
+      carbs_g: parseNumber(cell(row, format.nutrients.carbs_g)),
+      fat_g: fat,
+      saturated_fat_g: saturatedFat,
+      unsaturated_fat_g: Math.round(unsaturatedFat * 100) / 100,
+      fiber_g: parseNumber(cell(row, format.nutrients.fiber_g)),
+      sodium_mg: parseNumber(cell(row, format.nutrients.sodium_mg)),
+      added_sugar_g: parseNumber(cell(row, format.nutrients.added_sugar_g)),
+      ...optionalNutrients(row),
+      assumptions,
+    });
+
+    const key = `${date}|${meal}`;
+    const entry = entries.get(key) ?? {
+      resolved_date: date,
+      raw_text: `${meal} (${format.label} import)`,
+      meal_slot: mealSlotFromLabel(meal),
+      items: [],
+      duplicate: false,
+    };
+    entry.items.push(toEntryItemRow(item));
+    entries.set(key, entry);
+  });
+
+  return {
+    source: detected,
+    entries: [...entries.values()].sort((a, b) => a.resolved_date.localeCompare(b.resolved_date)),
+    errors,
+  };
+}
+
+/**
+ * Identify an entry by its date, food names and calories
+ */
+export function entryFingerprint(date: string, items: { food_name: string; calories: number }[]): string {
+  const foods = items
+    .map((item) => `${item.food_name.trim().toLowerCase()}:${Math.round(Number(item.calories))}`)
+    .sort();
+  return `${date}|${foods.join('|')}`;
+}
+
+/**
+ * Flag imported entries that match one already logged (or earlier in the same file)
+ */
+export async function markDuplicates(
+  supabase: SupabaseClient,
+  userId: string,
+  entries: ImportedEntry[]
+): Promise<ImportedEntry[]> {
+  if (entries.length === 0) return entries;
+
+  // Paged, since a year of history is more entries than one response returns
+  const seen = new Set<string>();
+  for (let offset = 0; ; offset += DUPLICATE_CHECK_PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('entries')
+      .select('resolved_date, entry_items (food_name, calories)')
+      .eq('user_id', userId)
+      .gte('resolved_date', entries[0].resolved_date)
+      .lte('resolved_date', entries[entries.length - 1].resolved_date)
+      .order('id', { ascending: true })
+      .range(offset, offset + DUPLICATE_CHECK_PAGE_SIZE - 1);
+
+    if (error) throw new Error(`Failed to check for duplicates: ${error.message}`);
+
+    for (const entry of page || []) {
+      seen.add(entryFingerprint(entry.resolved_date, entry.entry_items || []));
+    }
+    if (!page || page.length < DUPLICATE_CHECK_PAGE_SIZE) break;
+  }
+
+  return entries.map((entry) => {
+    const fingerprint = entryFingerprint(entry.resolved_date, entry.items);
+    const duplicate = seen.has(fingerprint);
+    seen.add(fingerprint);
+    return { ...entry, duplicate };
+  });
+}
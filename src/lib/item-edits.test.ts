@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { parseItemEdit, itemEditUpdates, type ItemEdit } from './item-edits';
+
+const item = {
+  food_name: 'Chicken breast',
+  grams: 150,
+  grams_low: 120,
+  grams_high: 180,
+  calories: 250,
+  calories_low: 200,
+  calories_high: 300,
+  protein_g: 46,
+  protein_low: 37,
+  protein_high: 55,
+  carbs_g: 0,
+  carbs_low: 0,
+  carbs_high: 0,
+  fat_g: 6,
+  fat_low: 4,
+  fat_high: 8,
+  saturated_fat_g: 2,
+  saturated_fat_low: 1,
+  saturated_fat_high: 3,
+  unsaturated_fat_g: 4,
+  unsaturated_fat_low: 3,
+  unsaturated_fat_high: 5,
+  fiber_g: 0,
+  fiber_low: 0,
+  fiber_high: 0,
+  sodium_mg: 110,
+  sodium_low: 80,
+  sodium_high: 140,
+  added_sugar_g: 0,
+  added_sugar_low: 0,
+  added_sugar_high: 0,
+  has_override: false,
+  override_fields: null,
+};
+
+function edit(body: Record<string, unknown>): ItemEdit {
+  const parsed = parseItemEdit(body);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.edit;
+}
+
+describe('parseItemEdit', () => {
+  it('accepts every nutrient field', () => {
+    const parsed = edit({ sodium_mg: 300, added_sugar_g: 4, saturated_fat_g: 1, unsaturated_fat_g: 5, grams: 100 });
+    expect(parsed.values).toEqual({ sodium_mg: 300, added_sugar_g: 4, saturated_fat_g: 1, unsaturated_fat_g: 5, grams: 100 });
+  });
+
+  it('rejects negative values with the field name', () => {
+    expect(parseItemEdit({ sodium_mg: -1 })).toEqual({ error: 'Sodium cannot be negative' });
+    expect(parseItemEdit({ added_sugar_g: -2 })).toEqual({ error: 'Added sugar cannot be negative' });
+  });
+
+  it('keeps the 5 calorie minimum', () => {
+    expect(parseItemEdit({ calories: 3 })).toEqual({ error: 'Calories must be at least 5' });
+  });
+
+  it('rejects non-numeric values and empty names', () => {
+    expect(parseItemEdit({ protein_g: '12' })).toEqual({ error: 'Protein must be a number' });
+    expect(parseItemEdit({ food_name: '  ' })).toEqual({ error: 'Name cannot be empty' });
+  });
+
+  it('requires a positive weight to rescale', () => {
+    expect(parseItemEdit({ rescale: true })).toHaveProperty('error');
+    expect(parseItemEdit({ rescale: true, grams: 0 })).toHaveProperty('error');
+  });
+
+  it('allows clearing grams outside portion mode', () => {
+    expect(edit({ grams: null }).values).toEqual({ grams: null });
+  });
+});
+
+describe('itemEditUpdates', () => {
+  it('scales the range of a corrected value by the same ratio', () => {
+    const updates = itemEditUpdates(item, edit({ sodium_mg: 220 }));
+    expect(updates).toMatchObject({ sodium_mg: 220, sodium_low: 160, sodium_high: 280 });
+    expect(updates.override_fields).toEqual(['sodium_mg']);
+    expect(updates.has_override).toBe(true);
+  });
+
+  it('gives a zero-width range when the old value was zero', () => {
+    const updates = itemEditUpdates(item, edit({ added_sugar_g: 3 }));
+    expect(updates).toMatchObject({ added_sugar_g: 3, added_sugar_low: 3, added_sugar_high: 3 });
+  });
+
+  it('changes only grams without rescale', () => {
+    const updates = itemEditUpdates(item, edit({ grams: 200 }));
+    expect(updates).toMatchObject({ grams: 200, grams_low: 160, grams_high: 240 });
+    expect(updates.calories).toBeUndefined();
+    expect(updates.override_fields).toEqual(['grams']);
+  });
+
+  it('splits a new fat total into saturated/unsaturated in the old proportion', () => {
+    const updates = itemEditUpdates(item, edit({ fat_g: 12 }));
+    expect(updates).toMatchObject({ fat_g: 12, saturated_fat_g: 4, unsaturated_fat_g: 8 });
+  });
+
+  it('keeps given saturated fat when fat changes too', () => {
+    const updates = itemEditUpdates(item, edit({ fat_g: 12, saturated_fat_g: 1 }));
+    expect(updates).toMatchObject({ fat_g: 12, saturated_fat_g: 1, unsaturated_fat_g: 8 });
+  });
+
+  it('rescales every amount and range with the portion', () => {
+    const updates = itemEditUpdates(item, edit({ grams: 300, rescale: true }));
+    expect(updates).toMatchObject({
+      grams: 300,
+      grams_low: 240,
+      grams_high: 360,
+      calories: 500,
+      calories_low: 400,
+      calories_high: 600,
+      protein_g: 92,
+      protein_low: 74,
+      protein_high: 110,
+      sodium_mg: 220,
+      sodium_low: 160,
+      sodium_high: 280,
+      saturated_fat_g: 4,
+      carbs_g: 0,
+    });
+    expect(updates.override_fields).toContain('calories');
+    expect(updates.override_fields).toContain('grams');
+  });
+
+  it('applies explicit values on top of a rescale', () => {
+    const updates = itemEditUpdates(item, edit({ grams: 75, rescale: true, calories: 130 }));
+    expect(updates).toMatchObject({ grams: 75, calories: 130, protein_g: 23 });
+    expect(updates.calories_low).toBeLessThanOrEqual(130);
+    expect(updates.calories_high).toBeGreaterThanOrEqual(130);
+  });
+
+  it('skips unchanged values but keeps earlier overrides', () => {
+    const updates = itemEditUpdates({ ...item, override_fields: ['food_name'] }, edit({ calories: 250, protein_g: 50 }));
+    expect(updates.calories).toBeUndefined();
+    expect(updates.override_fields).toEqual(['food_name', 'protein_g']);
+  });
+});
@@ -0,0 +1,160 @@
+import { NUTRIENTS } from '@/lib/nutrients';
+
+/**
+ * Manual edits to a logged food item
+ *
+ * Every amount on an item can be corrected by hand. A corrected value keeps
+ * its estimate's relative uncertainty: the low/high range is scaled by the
+ * same ratio as the value (or collapses to the value when there was nothing
+ * to scale). In portion mode, changing grams rescales every amount and range
+ * by new grams / old grams instead.
+ */
+
+interface EditableField {
+  field: string;
+  low: string;
+  high: string;
+  label: string;
+  decimals: number;
+}
+
+export const EDITABLE_FIELDS: readonly EditableField[] = [
+  { field: 'grams', low: 'grams_low', high: 'grams_high', label: 'Grams', decimals: 1 },
+  ...NUTRIENTS.map(({ field, low, high, label, decimals }) => ({ field, low, high, label, decimals })),
+];
+export const MIN_ITEM_CALORIES = 5;
+
+export interface ItemEdit {
+  food_name?: string;
+  values: Record<string, number | null>;
+  rescale?: boolean;
+}
+
+type ItemRow = Record<string, unknown>;
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function asNumber(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Pull an edit out of a PATCH body. Returns an error message for invalid input.
+ */
+export function parseItemEdit(body: Record<string, unknown>): { edit: ItemEdit } | { error: string } {
+  const edit: ItemEdit = { values: {}, rescale: body.rescale === true };
+
+  if (body.food_name !== undefined) {
+    if (typeof body.food_name !== 'string' || !body.food_name.trim()) {
+      return { error: 'Name cannot be empty' };
+    }
+    edit.food_name = body.food_name.trim();
+  }
+
+  for (const { field, label } of EDITABLE_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null && field === 'grams' && !edit.rescale) {
+      edit.values.grams = null;
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { error: `${label} must be a number` };
+    }
+    if (value < 0) {
+      return { error: `${label} cannot be negative` };
+    }
+    if (field === 'calories' && value < MIN_ITEM_CALORIES) {
+      return { error: `Calories must be at least ${MIN_ITEM_CALORIES}` };
+    }
+    edit.values[field] = value;
+  }
+
+  if (edit.rescale && !edit.values.grams) {
+    return { error: 'Rescaling needs a new weight in grams' };
+  }
+
+  return { edit };
+}
+
+/**
+ * Range for a corrected value: the old range scaled by new / old, widened if
+ * rounding left the value outside it. Zero-width when the old value was 0.
+ */
+function scaledRange(current: ItemRow, spec: EditableField, value: number): { low: number; high: number } {
+  const old = asNumber(current[spec.field]);
+  if (old <= 0) return { low: value, high: value };
+
+  const ratio = value / old;
+  const low = round(asNumber(current[spec.low]) * ratio, spec.decimals);
+  const high = round(asNumber(current[spec.high]) * ratio, spec.decimals);
+  return { low: Math.min(low, value), high: Math.max(high, value) };
+}
+
+/**
+ * Column updates for applying an edit to the current row, including
+ * has_override and the accumulated override_fields
+ */
+export function itemEditUpdates(current: ItemRow, edit: ItemEdit): Record<string, unknown> {
+  const updates: Record<string, unknown> = { has_override: true };
+  const overridden = new Set<string>(Array.isArray(current.override_fields) ? current.override_fields : []);
+
+  if (edit.food_name !== undefined && edit.food_name !== current.food_name) {
+    updates.food_name = edit.food_name;
+    overridden.add('food_name');
+  }
+
+  const oldGrams = asNumber(current.grams);
+  if (edit.rescale && edit.values.grams && oldGrams > 0 && edit.values.grams !== oldGrams) {
+    const factor = edit.values.grams / oldGrams;
+    for (const spec of EDITABLE_FIELDS) {
+      updates[spec.field] = round(asNumber(current[spec.field]) * factor, spec.decimals);
+      updates[spec.low] = round(asNumber(current[spec.low]) * factor, spec.decimals);
+      updates[spec.high] = round(asNumber(current[spec.high]) * factor, spec.decimals);
+      overridden.add(spec.field);
+    }
+    updates.grams = edit.values.grams;
+  }
+
+  const fatChanged = edit.values.fat_g !== undefined && edit.values.fat_g !== current.fat_g;
+
+  for (const spec of EDITABLE_FIELDS) {
+    const value = edit.values[spec.field];
+    if (value === undefined || (edit.rescale && spec.field === 'grams')) continue;
+    if (value === current[spec.field]) continue;
+
+    if (value === null) {
+      updates[spec.field] = null;
+      updates[spec.low] = null;
+      updates[spec.high] = null;
+    } else {
+      const base = edit.rescale ? { ...current, ...updates } : current;
+      const { low, high } = scaledRange(base, spec, value);
+      updates[spec.field] = value;
+      updates[spec.low] = low;
+      updates[spec.high] = high;
+    }
+    overridden.add(spec.field);
+  }
+
+  // A new fat total splits into saturated/unsaturated in the old proportion,
+  // unless those were given too
+  if (fatChanged && !edit.rescale) {
+    const ratio = asNumber(current.fat_g) > 0 ? (edit.values.fat_g as number) / asNumber(current.fat_g) : 0;
+    for (const field of ['saturated_fat_g', 'unsaturated_fat_g']) {
+      if (edit.values[field] !== undefined) continue;
+      const spec = EDITABLE_FIELDS.find((f) => f.field === field)!;
+      const value = round(asNumber(current[field]) * ratio, spec.decimals);
+      const { low, high } = scaledRange(current, spec, value);
+      updates[field] = value;
+      updates[spec.low] = low;
+      updates[spec.high] = high;
+    }
+  }
+
+  updates.override_fields = [...overridden];
+  return updates;
+}
@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeAll } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { config } from 'dotenv';
+import { getMealParser, parseMealDescription as parseWithProvider } from './meal-parser';
 
 // Load environment variables from .env.local
 config({ path: '.env.local' });
@@ -7,11 +8,11 @@ config({ path: '.env.local' });
 /**
  * Known Meals Regression Tests
  * 
- * These tests call the real OpenAI API to verify that common meals
- * are parsed within expected ranges. Results should be within 10%
- * of expected values.
+ * With OPENAI_API_KEY set in .env.local, these tests call the real OpenAI
+ * API to verify that common meals are parsed within expected ranges.
+ * Without a key they run against the recorded responses in
+ * src/lib/fixtures/meals.json via the fixture provider.
  * 
- * Note: These tests require OPENAI_API_KEY to be set in .env.local
  * Run with: npm test
  */
 
@@ -25,18 +26,13 @@ function withinTolerance(actual: number, expected: number): boolean {
 
 // Check if API key is available
 const hasApiKey = process.env.OPENAI_API_KEY && process.env.OPENAI_API_KEY !== 'your_openai_api_key_here';
+const provider = hasApiKey ? 'openai' : 'fixture';
 
-// Conditionally run or skip the describe block
-const describeIfApiKey = hasApiKey ? describe : describe.skip;
-
-describeIfApiKey('Known Meals Regression (requires OPENAI_API_KEY)', () => {
+describe(`Known Meals Regression (${provider} provider)`, () => {
   const today = '2026-01-29';
-  let parseMealDescription: typeof import('./openai').parseMealDescription;
-
-  beforeAll(async () => {
-    const module = await import('./openai');
-    parseMealDescription = module.parseMealDescription;
-  });
+  const parser = getMealParser(provider);
+  const parseMealDescription = (mealText: string, todayDate: string) =>
+    parseWithProvider(mealText, todayDate, undefined, parser);
 
   describe('Single items', () => {
     it('should parse "1 large egg" correctly', async () => {
@@ -193,13 +189,3 @@ describeIfApiKey('Known Meals Regression (requires OPENAI_API_KEY)', () => {
     }, 15000);
   });
 });
-
-// If no API key, show a message
-if (!hasApiKey) {
-  describe('Known Meals Regression', () => {
-    it('SKIPPED - Set OPENAI_API_KEY in .env.local to run these tests', () => {
-      console.log('⚠️  Known meals tests skipped - no API key');
-      expect(true).toBe(true);
-    });
-  });
-}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { parseManualItems, manualRawText } from './manual-entry';
+
+describe('parseManualItems', () => {
+  it('expands items into exact food items with zero-width ranges', () => {
+    const result = parseManualItems([{ food_name: ' Protein bar ', grams: 60, calories: 210, protein_g: 20, sodium_mg: 180 }]);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.items).toEqual([
+      expect.objectContaining({
+        food_name: 'Protein bar',
+        grams: 60,
+        grams_low: 60,
+        grams_high: 60,
+        calories_low: 210,
+        calories_high: 210,
+        protein_low: 20,
+        sodium_high: 180,
+        carbs_g: 0,
+        added_sugar_g: 0,
+        assumptions: [],
+      }),
+    ]);
+  });
+
+  it('leaves grams null when not given', () => {
+    const result = parseManualItems([{ food_name: 'Coffee', calories: 5 }]);
+    if ('error' in result) throw new Error(result.error);
+
+    expect(result.items[0]).toMatchObject({ grams: null, grams_low: null, grams_high: null });
+  });
+
+  it('names the item and field that failed', () => {
+    const result = parseManualItems([{ food_name: 'Coffee', calories: 5 }, { food_name: 'Toast', calories: 80, fat_g: -2 }]);
+
+    expect('error' in result && result.error).toMatch(/^Item 2 fat_g:/);
+  });
+
+  it('requires a name and calories', () => {
+    expect(parseManualItems([{ food_name: '', calories: 5 }])).toHaveProperty('error');
+    expect(parseManualItems([{ food_name: 'Toast' }])).toHaveProperty('error');
+  });
+
+  it('rejects an empty or missing list', () => {
+    expect(parseManualItems([])).toEqual({ error: 'Add between 1 and 50 food items' });
+    expect(parseManualItems(undefined)).toEqual({ error: 'Add between 1 and 50 food items' });
+  });
+});
+
+describe('manualRawText', () => {
+  it('joins the item names', () => {
+    expect(manualRawText([{ food_name: 'Toast' }, { food_name: 'Butter' }])).toBe('Toast, Butter');
+  });
+});
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { FoodItemSchema, type FoodItem, type SourcedFoodItem } from '@/types/nutrition';
+import { exactFoodItem } from '@/lib/entries';
+import { NUTRIENTS, type NutrientField } from '@/lib/nutrients';
+
+/**
+ * Manual entry: food items typed in by the user (from a label, a recipe,
+ * or because the parser is unavailable) instead of estimated by the LLM.
+ * The values are taken as exact, so every range is zero-width.
+ */
+
+export const MAX_MANUAL_ITEMS = 50;
+
+const amount = z.number().finite().min(0);
+
+// Calories are required; any other nutrient left out is 0
+function nutrientAmounts() {
+  return Object.fromEntries(
+    NUTRIENTS.map(({ field }) => [field, field === 'calories' ? amount : amount.default(0)])
+  ) as { calories: typeof amount } & { [K in Exclude<NutrientField, 'calories'>]: z.ZodDefault<typeof amount> };
+}
+
+export const ManualItemSchema = z.object({
+  food_name: z.string().trim().min(1).max(200),
+  grams: z.number().finite().positive().nullable().default(null),
+  ...nutrientAmounts(),
+  assumptions: z.array(z.string()).default([]),
+});
+
+export type ManualItemInput = z.input<typeof ManualItemSchema>;
+
+const ManualItemsSchema = z.array(ManualItemSchema).min(1).max(MAX_MANUAL_ITEMS);
+
+/**
+ * Validate manually entered items and expand them into full food items.
+ * Returns an error message naming the first bad field.
+ */
+export function parseManualItems(input: unknown): { items: SourcedFoodItem[] } | { error: string } {
+  const parsed = ManualItemsSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    if (issue.path.length === 0) {
+      return { error: `Add between 1 and ${MAX_MANUAL_ITEMS} food items` };
+    }
+    const [index, field] = issue.path;
+    const where = field === undefined ? `Item ${Number(index) + 1}` : `Item ${Number(index) + 1} ${String(field)}`;
+    return { error: `${where}: ${issue.message}` };
+  }
+
+  return {
+    items: parsed.data.map((values) => ({
+      ...FoodItemSchema.parse(exactFoodItem(values)),
+      source: 'manual' as const,
+    })),
+  };
+}
+
+/**
+ * Entry text for a manual entry without a description: the item names
+ */
+export function manualRawText(items: Pick<FoodItem, 'food_name'>[]): string {
+  return items.map((item) => item.food_name).join(', ');
+}
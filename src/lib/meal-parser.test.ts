@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getMealParser, parseMealDescription, validateParsedMeal } from './meal-parser';
+import { createFixtureMealParser } from './fixture-parser';
+import { createOpenAICompatibleMealParser } from './openai-compatible';
+import { ParsedMealSchema } from '@/types/nutrition';
+import recordedMeals from './fixtures/meals.json';
+
+const egg = recordedMeals['1 large egg'];
+
+describe('Meal parser resolution', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should resolve the provider named in MEAL_PARSER_PROVIDER', () => {
+    vi.stubEnv('MEAL_PARSER_PROVIDER', 'fixture');
+    expect(getMealParser().name).toBe('fixture');
+  });
+
+  it('should prefer an explicitly requested provider', () => {
+    vi.stubEnv('MEAL_PARSER_PROVIDER', 'fixture');
+    expect(getMealParser('openai').name).toBe('openai');
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => getMealParser('gemini')).toThrow('Unknown meal parser provider');
+  });
+
+  it('should require a base URL for openai-compatible', () => {
+    vi.stubEnv('MEAL_PARSER_BASE_URL', '');
+    expect(() => getMealParser('openai-compatible')).toThrow('MEAL_PARSER_BASE_URL');
+  });
+});
+
+describe('Fixture provider', () => {
+  it('should match fixtures regardless of case and whitespace', async () => {
+    const parser = createFixtureMealParser();
+    const result = await parseMealDescription('  1 Large   EGG ', '2026-01-29', undefined, parser);
+
+    expect(result.items[0].food_name).toBe('large egg');
+  });
+
+  it('should throw when no fixture is recorded', async () => {
+    const parser = createFixtureMealParser();
+    await expect(parser.parse({ text: 'a whole cake', todayDate: '2026-01-29' }))
+      .rejects.toThrow('No recorded fixture');
+  });
+
+  it('should not let callers mutate recorded fixtures', async () => {
+    const parser = createFixtureMealParser({ 'egg': egg });
+    const first = await parser.parse({ text: 'egg', todayDate: '2026-01-29' });
+    first.items[0].calories = 9999;
+
+    const second = await parser.parse({ text: 'egg', todayDate: '2026-01-29' });
+    expect(second.items[0].calories).toBe(72);
+  });
+
+  it('should surface image errors from recorded responses', async () => {
+    const parser = createFixtureMealParser({
+      'photo': {
+        items: [{ ...egg.items[0], assumptions: ['ERROR: Cannot analyze photos of food.'] }],
+        explicit_date: null,
+        meal_slot: null,
+        eaten_at: null,
+      },
+    });
+
+    await expect(parser.parse({ text: 'photo', todayDate: '2026-01-29' }))
+      .rejects.toThrow('Cannot analyze photos of food.');
+  });
+
+  it('should only record fixtures that pass validation', () => {
+    for (const [text, meal] of Object.entries(recordedMeals)) {
+      const result = validateParsedMeal(ParsedMealSchema.parse(meal));
+      expect(result.errors, text).toEqual([]);
+    }
+  });
+
+  it('should flag calories far from the reference food for the same weight', () => {
+    const meal = ParsedMealSchema.parse(egg);
+    const result = validateParsedMeal({
+      ...meal,
+      items: [{ ...meal.items[0], calories: 200, calories_low: 180, calories_high: 220 }],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toEqual([expect.stringContaining('72 kcal expected for 50g')]);
+  });
+
+  it('should flag more added sugar than total sugar', () => {
+    const meal = ParsedMealSchema.parse(egg);
+    const result = validateParsedMeal({
+      ...meal,
+      items: [{ ...meal.items[0], added_sugar_g: 5, total_sugar_g: 0.2 }],
+    });
+
+    expect(result.errors).toEqual(['large egg: added sugar exceeds total sugar (5.0 vs 0.2)']);
+  });
+});
+
+describe('OpenAI-compatible provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should post to /chat/completions and validate the response', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(egg) } }] }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    const parser = createOpenAICompatibleMealParser({
+      baseUrl: 'http://localhost:8000/v1/',
+      model: 'llama-3.1-70b',
+      apiKey: 'secret',
+    });
+    const result = await parser.parse({ text: '1 large egg', todayDate: '2026-01-29' });
+
+    expect(result.items[0].calories).toBe(72);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:8000/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body).model).toBe('llama-3.1-70b');
+  });
+
+  it('should reject responses that do not match the schema', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ choices: [{ message: { content: '{"items": "nope"}' } }] }))
+    ));
+
+    const parser = createOpenAICompatibleMealParser({ baseUrl: 'http://localhost:8000/v1', model: 'm' });
+    await expect(parser.parse({ text: 'egg', todayDate: '2026-01-29' }))
+      .rejects.toThrow('unexpected shape');
+  });
+
+  it('should surface HTTP failures', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('down', { status: 503 })));
+
+    const parser = createOpenAICompatibleMealParser({ baseUrl: 'http://localhost:8000/v1', model: 'm' });
+    await expect(parser.parse({ text: 'egg', todayDate: '2026-01-29' }))
+      .rejects.toThrow('503');
+  });
+});
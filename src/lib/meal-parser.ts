@@ -0,0 +1,130 @@
+import type { MealParser, ParsedMeal } from '@/types/nutrition';
+import { createOpenAIMealParser } from '@/lib/openai';
+import { createOpenAICompatibleMealParser } from '@/lib/openai-compatible';
+import { createFixtureMealParser } from '@/lib/fixture-parser';
+import { referenceDisagreement } from '@/lib/reference-foods';
+import { NUTRIENTS } from '@/lib/nutrients';
+
+/**
+ * Meal Parser Resolution
+ *
+ * The provider is chosen by MEAL_PARSER_PROVIDER:
+ * - openai (default): OpenAI API, model from MEAL_PARSER_MODEL (default gpt-4o)
+ * - openai-compatible: any /chat/completions server at MEAL_PARSER_BASE_URL,
+ *   with MEAL_PARSER_MODEL and optional MEAL_PARSER_API_KEY
+ * - fixture: recorded responses from src/lib/fixtures/meals.json (offline)
+ */
+
+export const MEAL_PARSER_PROVIDERS = ['openai', 'openai-compatible', 'fixture'] as const;
+
+export type MealParserProvider = typeof MEAL_PARSER_PROVIDERS[number];
+
+const parsers = new Map<MealParserProvider, MealParser>();
+
+function isMealParserProvider(value: string): value is MealParserProvider {
+  return (MEAL_PARSER_PROVIDERS as readonly string[]).includes(value);
+}
+
+function createMealParser(provider: MealParserProvider): MealParser {
+  switch (provider) {
+    case 'openai':
+      return createOpenAIMealParser({ model: process.env.MEAL_PARSER_MODEL });
+    case 'openai-compatible': {
+      const baseUrl = process.env.MEAL_PARSER_BASE_URL;
+      const model = process.env.MEAL_PARSER_MODEL;
+      if (!baseUrl || !model) {
+        throw new Error('MEAL_PARSER_BASE_URL and MEAL_PARSER_MODEL are required for the openai-compatible provider');
+      }
+      return createOpenAICompatibleMealParser({
+        baseUrl,
+        model,
+        apiKey: process.env.MEAL_PARSER_API_KEY,
+      });
+    }
+    case 'fixture':
+      return createFixtureMealParser();
+  }
+}
+
+/**
+ * Get the configured meal parser (or a specific provider)
+ */
+export function getMealParser(provider?: string): MealParser {
+  const name = provider || process.env.MEAL_PARSER_PROVIDER || 'openai';
+  if (!isMealParserProvider(name)) {
+    throw new Error(`Unknown meal parser provider: ${name}`);
+  }
+
+  let parser = parsers.get(name);
+  if (!parser) {
+    parser = createMealParser(name);
+    parsers.set(name, parser);
+  }
+  return parser;
+}
+
+/**
+ * Parse a meal description with the configured provider
+ * Supports text, images, or both combined
+ */
+export async function parseMealDescription(
+  mealText: string,
+  todayDate: string, // YYYY-MM-DD format, in user's timezone
+  imageBase64?: string, // Optional base64 image data
+  parser: MealParser = getMealParser()
+): Promise<ParsedMeal> {
+  return parser.parse({ text: mealText, todayDate, imageBase64 });
+}
+
+/**
+ * Validate that the response has reasonable values
+ */
+export function validateParsedMeal(meal: ParsedMeal): { valid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  for (const item of meal.items) {
+    // Check that low <= value <= high for all ranges
+    if (item.calories_low > item.calories || item.calories > item.calories_high) {
+      errors.push(`${item.food_name}: calories range invalid`);
+    }
+    if (item.protein_low > item.protein_g || item.protein_g > item.protein_high) {
+      errors.push(`${item.food_name}: protein range invalid`);
+    }
+    if (item.carbs_low > item.carbs_g || item.carbs_g > item.carbs_high) {
+      errors.push(`${item.food_name}: carbs range invalid`);
+    }
+    if (item.fat_low > item.fat_g || item.fat_g > item.fat_high) {
+      errors.push(`${item.food_name}: fat range invalid`);
+    }
+
+    // Check that saturated + unsaturated ≈ total fat (within 20% tolerance)
+    const fatSum = item.saturated_fat_g + item.unsaturated_fat_g;
+    const fatDiff = Math.abs(fatSum - item.fat_g);
+    if (fatDiff > item.fat_g * 0.2 && item.fat_g > 1) {
+      errors.push(`${item.food_name}: fat breakdown doesn't match total (${fatSum.toFixed(1)} vs ${item.fat_g.toFixed(1)})`);
+    }
+
+    // Added sugar is part of total sugar
+    if (item.added_sugar_g > item.total_sugar_g * 1.1 && item.added_sugar_g > 1) {
+      errors.push(`${item.food_name}: added sugar exceeds total sugar (${item.added_sugar_g.toFixed(1)} vs ${item.total_sugar_g.toFixed(1)})`);
+    }
+
+    // Check for negative values
+    for (const { field } of NUTRIENTS) {
+      if (item[field] < 0) {
+        errors.push(`${item.food_name}: ${field} is negative`);
+      }
+    }
+
+    // Check calories against the reference food for the same weight, if any
+    const disagreement = referenceDisagreement(item);
+    if (disagreement) {
+      errors.push(disagreement);
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,111 @@
+import type { MealParseRequest, ParsedMeal } from '@/types/nutrition';
+import { NUTRIENTS, type NutrientDefinition } from '@/lib/nutrients';
+
+/**
+ * Bump whenever SYSTEM_PROMPT or buildUserPrompt changes meaningfully.
+ * Cached parses from older prompt versions are ignored.
+ */
+export const PROMPT_VERSION = '2026-10-19.1';
+
+// Every nutrient with its unit, and the registry's per-nutrient notes
+const NUTRIENT_GUIDANCE = [
+  `- Estimate every nutrient for each item: ${NUTRIENTS.map(({ label, unit }) => `${label.toLowerCase()} (${unit})`).join(', ')}`,
+  '- Use 0 only when a food has none of a nutrient (no cholesterol in plants, no caffeine or alcohol in most foods)',
+  ...(NUTRIENTS as readonly NutrientDefinition[]).flatMap(({ guidance }) => (guidance ? [`- ${guidance}`] : [])),
+].join('\n');
+
+/**
+ * Shared prompt for every meal parsing provider.
+ * Providers must send exactly this prompt so their outputs stay comparable.
+ */
+export const SYSTEM_PROMPT = `You are a nutrition analysis assistant. Your job is to parse meal descriptions (text and/or images) and return structured nutritional data.
+
+RULES:
+1. NEVER ask clarifying questions. Make reasonable assumptions and list them.
+2. Use your best midpoint estimate. Be confident - the user provides specific details.
+3. Include oils, sauces, and cooking fats unless explicitly excluded.
+4. Provide tight confidence intervals: low = estimate × 0.9, high = estimate × 1.1 (±10% bounds).
+5. Only widen beyond ±10% if the description is genuinely vague (e.g., "some rice" vs "1 cup rice").
+6. DATE EXTRACTION - Only extract explicit_date when the user is clearly stating WHEN they ate the food:
+   - Extract date: "I had pizza yesterday", "ate lunch on Monday", "breakfast Jan 15"
+   - Do NOT extract date: "leftover pizza from yesterday", "using chicken from Tuesday", "food from last night"
+   - The key distinction: "from [date]" describes food origin/leftovers, not when it was eaten
+   - When in doubt, set explicit_date to null (let the system use submission timestamp)
+7. For relative dates like "yesterday" or "2 days ago", calculate based on today's date which will be provided.
+8. MEAL TIMING - Only set meal_slot and eaten_at when the user says so:
+   - meal_slot: "for breakfast", "lunch was", "dinner:", "as a snack" → breakfast, lunch, dinner or snack
+   - eaten_at: "at 7am", "around 12:30", "at 9 last night" → 24-hour HH:MM ("07:00", "12:30", "21:00")
+   - Do NOT guess either from the foods (eggs are not necessarily breakfast); otherwise use null
+
+ESTIMATION GUIDELINES:
+- A "serving" or "portion" without size = medium/typical restaurant portion
+- "Some" = moderate amount (e.g., 1-2 tbsp for sauces)
+- Homemade meals: assume reasonable home cooking amounts
+- Restaurant meals: assume typical American restaurant portions (usually larger)
+- When user provides specific amounts (oz, cups, grams, pieces), use those precisely with tight ±10% bounds
+- Only use wider bounds (±15-20%) when description is vague like "a bowl of" or "some"
+
+NUTRITIONAL DATA:
+- Use standard USDA values as baseline
+- Adjust for preparation method (fried adds fat, etc.)
+- saturated_fat + unsaturated_fat should approximately equal total fat
+- Account for cooking oils unless "no oil" or "dry cooked" is specified
+${NUTRIENT_GUIDANCE}
+- ADDED SUGAR: Only count sugars added during processing/cooking, NOT natural sugars from:
+  - Whole fruits (an apple has 0g added sugar)
+  - Plain dairy (milk, plain yogurt have 0g added sugar)
+  - Vegetables
+  Examples: A banana = 0g added sugar. Sweetened yogurt = count the added sweetener only. Soda = all sugar is added. Honey in tea = added sugar.
+
+IMAGE HANDLING:
+- If an image is attached, analyze it for nutritional information
+- VALID images: nutrition facts labels, menus with nutritional info, food packaging
+- INVALID images: photos of actual food/meals (we cannot estimate nutrition from food photos)
+- If image shows actual food (not a label), add to assumptions: "ERROR: Cannot analyze photos of food. Please photograph nutrition labels or menus instead."
+- For valid images: extract the nutrition facts shown and apply any quantity mentioned in the text (e.g., "2 bags" = multiply by 2)
+- Combine image data with any other foods mentioned in the text
+
+OUTPUT FORMAT:
+- Return a list of ALL food items (from both text AND image)
+- Each item should be a distinct food (e.g., "grilled chicken breast", "steamed broccoli")
+- Combine similar items if they're clearly one dish (e.g., "chicken stir fry with vegetables")
+- List assumptions made for transparency`;
+
+/**
+ * Build the user-facing text prompt for a parse request
+ */
+export function buildUserPrompt({ text, todayDate, imageBase64 }: MealParseRequest): string {
+  let textPrompt = `Today's date is ${todayDate}.\n\n`;
+
+  if (imageBase64 && text && text !== '1 serving') {
+    // Both image and meaningful text
+    textPrompt += `Parse this meal. The image shows a nutrition label/menu. The user's description is: "${text}"\n\nExtract nutrition from the image AND parse any other foods mentioned in the text.`;
+  } else if (imageBase64) {
+    // Image only (or image with default "1 serving" text)
+    textPrompt += `Extract nutritional data from this image. Assume 1 serving unless otherwise indicated.`;
+  } else {
+    // Text only
+    textPrompt += `Parse the following meal description and return structured nutritional data:\n\n"${text}"`;
+  }
+
+  return textPrompt;
+}
+
+/**
+ * Throw if the model flagged the image as invalid (e.g. a photo of food)
+ */
+export function assertNoImageError(parsed: ParsedMeal): void {
+  for (const item of parsed.items) {
+    if (item.assumptions?.some(a => a.includes('ERROR:'))) {
+      const errorMsg = item.assumptions.find(a => a.includes('ERROR:'));
+      throw new Error(errorMsg?.replace('ERROR: ', '') || 'Image validation failed');
+    }
+  }
+}
+
+/**
+ * Normalize meal text for lookups (case, surrounding and repeated whitespace)
+ */
+export function normalizeMealText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isValidEatenAt,
+  normalizeEatenAt,
+  slotForTime,
+  mealSlotFromLabel,
+  resolveMealTiming,
+  entryHour,
+  mealTimingSummary,
+} from './meal-timing';
+
+describe('eaten_at validation', () => {
+  it('should accept 24-hour times with optional seconds', () => {
+    expect(isValidEatenAt('07:30')).toBe(true);
+    expect(isValidEatenAt('23:59:00')).toBe(true);
+    expect(isValidEatenAt('24:00')).toBe(false);
+    expect(isValidEatenAt('7:30')).toBe(false);
+    expect(isValidEatenAt(null)).toBe(false);
+  });
+
+  it('should normalize to HH:MM', () => {
+    expect(normalizeEatenAt('07:30:00')).toBe('07:30');
+    expect(normalizeEatenAt('7am')).toBeNull();
+    expect(normalizeEatenAt(undefined)).toBeNull();
+  });
+});
+
+describe('slotForTime', () => {
+  it('should map times of day onto slots', () => {
+    expect(slotForTime('07:00')).toBe('breakfast');
+    expect(slotForTime('12:30')).toBe('lunch');
+    expect(slotForTime('15:30')).toBe('snack');
+    expect(slotForTime('19:00')).toBe('dinner');
+    expect(slotForTime('23:30')).toBe('snack');
+  });
+});
+
+describe('mealSlotFromLabel', () => {
+  it('should recognize common tracker meal names', () => {
+    expect(mealSlotFromLabel('Breakfast')).toBe('breakfast');
+    expect(mealSlotFromLabel('Snacks')).toBe('snack');
+    expect(mealSlotFromLabel('Supper')).toBe('dinner');
+    expect(mealSlotFromLabel('Pre-workout')).toBeNull();
+  });
+});
+
+describe('resolveMealTiming', () => {
+  it('should keep a stated slot and time', () => {
+    expect(resolveMealTiming({ meal_slot: 'lunch', eaten_at: '15:00' })).toEqual({ meal_slot: 'lunch', eaten_at: '15:00' });
+  });
+
+  it('should infer the slot from a time alone', () => {
+    expect(resolveMealTiming({ meal_slot: null, eaten_at: '07:15' })).toEqual({ meal_slot: 'breakfast', eaten_at: '07:15' });
+  });
+
+  it('should drop malformed times', () => {
+    expect(resolveMealTiming({ meal_slot: null, eaten_at: 'noon' })).toEqual({ meal_slot: null, eaten_at: null });
+  });
+});
+
+describe('entryHour', () => {
+  it('should prefer eaten_at over the time it was logged', () => {
+    expect(entryHour({ eaten_at: '08:15:00', created_at: '2026-03-01T20:00:00Z' }, 'UTC')).toBe(8);
+  });
+
+  it('should place entries without a time at created_at in the user timezone', () => {
+    expect(entryHour({ eaten_at: null, created_at: '2026-03-01T20:00:00Z' }, 'America/New_York')).toBe(15);
+    expect(entryHour({ eaten_at: null, created_at: '2026-03-01T00:30:00Z' }, 'UTC')).toBe(0);
+  });
+});
+
+describe('mealTimingSummary', () => {
+  it('should average calories per logged day by slot and hour', () => {
+    const summary = mealTimingSummary([
+      { resolved_date: '2026-03-01', created_at: '2026-03-01T08:00:00Z', meal_slot: 'breakfast', eaten_at: null, calories: 400 },
+      { resolved_date: '2026-03-01', created_at: '2026-03-01T19:00:00Z', meal_slot: 'dinner', eaten_at: null, calories: 800 },
+      { resolved_date: '2026-03-02', created_at: '2026-03-02T20:00:00Z', meal_slot: 'breakfast', eaten_at: '08:30', calories: 200 },
+      { resolved_date: '2026-03-02', created_at: '2026-03-02T15:00:00Z', meal_slot: null, eaten_at: null, calories: 200 },
+    ], 'UTC');
+
+    expect(summary.days).toBe(2);
+    expect(summary.bySlot.find((s) => s.slot === 'breakfast')).toEqual({ slot: 'breakfast', calories: 300, percent: 38 });
+    expect(summary.bySlot.find((s) => s.slot === 'unassigned')?.calories).toBe(100);
+    expect(summary.byHour[8].calories).toBe(300);
+    expect(summary.byHour[19].calories).toBe(400);
+    expect(summary.byHour).toHaveLength(24);
+  });
+
+  it('should return zeros with no entries', () => {
+    const summary = mealTimingSummary([], 'UTC');
+
+    expect(summary.days).toBe(0);
+    expect(summary.bySlot.every((s) => s.calories === 0 && s.percent === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,124 @@
+import { MEAL_SLOTS, type MealSlot } from '@/types/nutrition';
+
+/**
+ * Meal slots and eating times
+ *
+ * Entries can carry a meal slot (breakfast, lunch, dinner, snack) and the
+ * local time the food was eaten. Both are optional: the parser only fills
+ * them in when the description says so, and the user can edit them.
+ * Without an eaten_at time, an entry is placed at its created_at time in the
+ * user's timezone.
+ */
+
+export function isMealSlot(value: unknown): value is MealSlot {
+  return typeof value === 'string' && (MEAL_SLOTS as readonly string[]).includes(value);
+}
+
+/**
+ * HH:MM (24-hour), optionally with seconds as returned by Postgres TIME
+ */
+export function isValidEatenAt(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(value);
+}
+
+/**
+ * Normalize a time to HH:MM (null when missing or invalid)
+ */
+export function normalizeEatenAt(value: string | null | undefined): string | null {
+  return isValidEatenAt(value) ? value.slice(0, 5) : null;
+}
+
+/**
+ * The slot a time of day most likely belongs to
+ */
+export function slotForTime(eatenAt: string): MealSlot {
+  const hour = parseInt(eatenAt.slice(0, 2), 10);
+  if (hour >= 5 && hour < 11) return 'breakfast';
+  if (hour >= 11 && hour < 15) return 'lunch';
+  if (hour >= 17 && hour < 22) return 'dinner';
+  return 'snack';
+}
+
+/**
+ * Map another tracker's meal label ("Breakfast", "Snacks", "Afternoon snack") onto a slot
+ */
+export function mealSlotFromLabel(label: string): MealSlot | null {
+  const normalized = label.trim().toLowerCase();
+  if (normalized.includes('breakfast')) return 'breakfast';
+  if (normalized.includes('lunch')) return 'lunch';
+  if (normalized.includes('dinner') || normalized.includes('supper')) return 'dinner';
+  if (normalized.includes('snack')) return 'snack';
+  return null;
+}
+
+/**
+ * Slot and time to store for a parsed meal. When only a time is given the
+ * slot is inferred from it.
+ */
+export function resolveMealTiming(parsed: { meal_slot: MealSlot | null; eaten_at: string | null }): {
+  meal_slot: MealSlot | null;
+  eaten_at: string | null;
+} {
+  const eatenAt = normalizeEatenAt(parsed.eaten_at);
+  const slot = isMealSlot(parsed.meal_slot) ? parsed.meal_slot : null;
+  return {
+    meal_slot: slot ?? (eatenAt ? slotForTime(eatenAt) : null),
+    eaten_at: eatenAt,
+  };
+}
+
+/**
+ * Local hour (0-23) an entry was eaten: eaten_at if set, else created_at in the timezone
+ */
+export function entryHour(entry: { eaten_at: string | null; created_at: string }, timezone: string): number {
+  const eatenAt = normalizeEatenAt(entry.eaten_at);
+  if (eatenAt) return parseInt(eatenAt.slice(0, 2), 10);
+
+  const hour = new Intl.DateTimeFormat('en-US', { hour: 'numeric', hourCycle: 'h23', timeZone: timezone })
+    .format(new Date(entry.created_at));
+  return parseInt(hour, 10) % 24;
+}
+
+export interface MealTimingEntry {
+  resolved_date: string;
+  created_at: string;
+  meal_slot: MealSlot | null;
+  eaten_at: string | null;
+  calories: number;
+}
+
+export interface MealTiming {
+  days: number;
+  bySlot: { slot: MealSlot | 'unassigned'; calories: number; percent: number }[];
+  byHour: { hour: number; calories: number }[];
+}
+
+/**
+ * How a user's calories are spread across the day: average calories per
+ * logged day by meal slot and by hour eaten
+ */
+export function mealTimingSummary(entries: MealTimingEntry[], timezone: string): MealTiming {
+  const days = new Set(entries.map((entry) => entry.resolved_date)).size;
+  const slots = [...MEAL_SLOTS, 'unassigned'] as const;
+  const slotTotals = new Map<string, number>(slots.map((slot) => [slot, 0]));
+  const hourTotals = Array.from({ length: 24 }, () => 0);
+  let total = 0;
+
+  for (const entry of entries) {
+    slotTotals.set(entry.meal_slot ?? 'unassigned', (slotTotals.get(entry.meal_slot ?? 'unassigned') ?? 0) + entry.calories);
+    hourTotals[entryHour(entry, timezone)] += entry.calories;
+    total += entry.calories;
+  }
+
+  const perDay = (calories: number) => (days > 0 ? Math.round(calories / days) : 0);
+
+  return {
+    days,
+    bySlot: slots.map((slot) => ({
+      slot,
+      calories: perDay(slotTotals.get(slot) ?? 0),
+      percent: total > 0 ? Math.round(((slotTotals.get(slot) ?? 0) / total) * 100) : 0,
+    })),
+    byHour: hourTotals.map((calories, hour) => ({ hour, calories: perDay(calories) })),
+  };
+}
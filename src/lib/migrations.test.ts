@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NUTRIENTS } from './nutrients';
+import {
+  loadMigrations,
+  pendingMigrations,
+  runMigrations,
+  markBaseline,
+  schemaColumns,
+  type Migration,
+  type MigrationTarget,
+} from './migrations';
+
+function migration(version: number): Migration {
+  return { version, name: `step_${version}`, sql: `-- step ${version}` };
+}
+
+function fakeTarget(applied: number[]) {
+  const ran: number[] = [];
+  const target: MigrationTarget = {
+    appliedVersions: async () => [...applied],
+    apply: async ({ version }) => {
+      if (version === 99) throw new Error('syntax error');
+      ran.push(version);
+      applied.push(version);
+    },
+    record: async ({ version }) => {
+      applied.push(version);
+    },
+  };
+  return { target, ran, applied };
+}
+
+function migrationsDir(files: string[]): string {
+  const dir = mkdtempSync(path.join(tmpdir(), 'migrations-'));
+  for (const file of files) writeFileSync(path.join(dir, file), 'SELECT 1;');
+  return dir;
+}
+
+describe('loadMigrations', () => {
+  it('reads migrations in version order', () => {
+    const dir = migrationsDir(['0002_add_sugar.sql', '0001_baseline.sql']);
+
+    expect(loadMigrations(dir).map(({ version, name }) => [version, name])).toEqual([
+      [1, 'baseline'],
+      [2, 'add_sugar'],
+    ]);
+  });
+
+  it('rejects gaps, repeats and badly named files', () => {
+    expect(() => loadMigrations(migrationsDir(['0001_a.sql', '0003_c.sql']))).toThrow(/expected 2, found 0003_c.sql/);
+    expect(() => loadMigrations(migrationsDir(['0001_a.sql', '0001_b.sql']))).toThrow(/expected 2, found 0001_b.sql/);
+    expect(() => loadMigrations(migrationsDir(['1_a.sql']))).toThrow(/named like 0001_description.sql/);
+  });
+});
+
+describe('pendingMigrations', () => {
+  const migrations = [migration(1), migration(2), migration(3)];
+
+  it('returns the migrations not applied yet', () => {
+    expect(pendingMigrations(migrations, [1]).map((m) => m.version)).toEqual([2, 3]);
+    expect(pendingMigrations(migrations, [1, 2, 3])).toEqual([]);
+  });
+
+  it('refuses to run a migration out of order', () => {
+    expect(() => pendingMigrations(migrations, [1, 3])).toThrow('Migration 2 is older than migration 3, which is already applied');
+  });
+
+  it('refuses a database with a migration that is not in the directory', () => {
+    expect(() => pendingMigrations(migrations, [1, 4])).toThrow(/migration 4/);
+  });
+});
+
+describe('runMigrations', () => {
+  it('applies pending migrations in order', async () => {
+    const { target, ran } = fakeTarget([1]);
+
+    const applied = await runMigrations(target, [migration(1), migration(2), migration(3)]);
+
+    expect(ran).toEqual([2, 3]);
+    expect(applied.map((m) => m.version)).toEqual([2, 3]);
+  });
+
+  it('stops at the first failure', async () => {
+    const { target, ran } = fakeTarget([]);
+
+    await expect(runMigrations(target, [migration(1), { ...migration(2), version: 99 }, migration(3)])).rejects.toThrow('syntax error');
+    expect(ran).toEqual([1]);
+  });
+});
+
+describe('markBaseline', () => {
+  it('records the first migration without running it', async () => {
+    const { target, ran, applied } = fakeTarget([]);
+
+    await markBaseline(target, [migration(1), migration(2)]);
+
+    expect(ran).toEqual([]);
+    expect(applied).toEqual([1]);
+  });
+
+  it('only applies to a database without migrations', async () => {
+    const { target } = fakeTarget([1]);
+
+    await expect(markBaseline(target, [migration(1)])).rejects.toThrow(/already has migrations/);
+  });
+});
+
+describe('schemaColumns', () => {
+  it('replays table and view changes', () => {
+    const schema = schemaColumns(`
+      CREATE TABLE items (
+        id UUID PRIMARY KEY,
+        sugar_g DECIMAL(6,2) DEFAULT 0, -- grams; not used
+        kind TEXT CHECK (kind IN ('a', 'b')),
+        UNIQUE(id, kind)
+      );
+      CREATE FUNCTION f() RETURNS void AS $$ BEGIN PERFORM 1; END; $$ LANGUAGE plpgsql;
+      ALTER TABLE items ADD COLUMN IF NOT EXISTS added_sugar_g DECIMAL(6,2), DROP COLUMN sugar_g;
+      ALTER TABLE items RENAME COLUMN kind TO category;
+      ALTER TABLE items ENABLE ROW LEVEL SECURITY;
+      CREATE VIEW totals WITH (security_invoker = true) AS
+      SELECT i.id, COALESCE(SUM(i.added_sugar_g), 0) as total_added_sugar FROM items i GROUP BY i.id;
+    `);
+
+    expect(schema).toEqual({
+      items: ['id', 'category', 'added_sugar_g'],
+      totals: ['id', 'total_added_sugar'],
+    });
+  });
+});
+
+// The columns of each table and view in src/types/database.ts
+function typedColumns(): Record<string, string[]> {
+  const source = readFileSync(path.join(process.cwd(), 'src/types/database.ts'), 'utf8');
+  const columns: Record<string, string[]> = {};
+  for (const [, name, body] of source.matchAll(/^ {6}(\w+): \{\n {8}Row: \{\n([\s\S]*?)\n {8}\};/gm)) {
+    columns[name] = [...body.matchAll(/^ {10}(\w+)\??:/gm)].map(([, column]) => column);
+  }
+  return columns;
+}
+
+describe('schema drift', () => {
+  const migrated = schemaColumns(loadMigrations().map((m) => m.sql).join('\n'));
+  const schemaFile = schemaColumns(readFileSync(path.join(process.cwd(), 'supabase/schema.sql'), 'utf8'));
+  const sorted = (schema: Record<string, string[]>) =>
+    Object.fromEntries(Object.entries(schema).map(([table, columns]) => [table, [...columns].sort()]));
+
+  it('schema.sql matches the result of running every migration', () => {
+    expect(sorted(schemaFile)).toEqual(sorted(migrated));
+  });
+
+  it('database types match the migrated schema', () => {
+    expect(sorted(typedColumns())).toEqual(sorted(migrated));
+  });
+
+  it('entry_items has value and range columns for every nutrient', () => {
+    const missing = NUTRIENTS.flatMap(({ field, low, high }) => [field, low, high])
+      .filter((column) => !migrated.entry_items.includes(column));
+
+    expect(missing).toEqual([]);
+  });
+});
+
+describe('migrations', () => {
+  const [baseline, ...later] = loadMigrations();
+
+  it('start from the tables production databases were set up with', () => {
+    expect(Object.keys(schemaColumns(baseline.sql)).sort()).toEqual([
+      'activity_levels', 'daily_activity', 'daily_totals', 'entries', 'entry_items', 'user_settings',
+    ]);
+  });
+
+  it('can run again on a database that already has their changes', () => {
+    for (const { version, sql } of later) {
+      const statements = sql.replace(/--.*$/gm, '');
+
+      expect(statements, `migration ${version}`).not.toMatch(/CREATE TABLE (?!IF NOT EXISTS)/i);
+      expect(statements, `migration ${version}`).not.toMatch(/CREATE (?:UNIQUE )?INDEX (?!IF NOT EXISTS)/i);
+      expect(statements, `migration ${version}`).not.toMatch(/ADD COLUMN (?!IF NOT EXISTS)/i);
+      for (const [, policy, table] of statements.matchAll(/CREATE POLICY (\w+) ON (\w+)/gi)) {
+        expect(statements, `migration ${version}`).toContain(`DROP POLICY IF EXISTS ${policy} ON ${table};`);
+      }
+    }
+  });
+
+  it('leave the sugar columns alone until 0003 reconciles them', () => {
+    // Production databases have sugar_* or added_sugar_*, not both
+    const appTables = later.find((migration) => migration.version === 2)!;
+
+    expect(appTables.sql.replace(/--.*$/gm, '')).not.toMatch(/\bsugar_(?:g|low|high)\b/);
+  });
+});
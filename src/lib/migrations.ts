@@ -0,0 +1,243 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * Database Migrations
+ *
+ * Versioned SQL files in supabase/migrations, named 0001_description.sql and
+ * applied in version order. Each database records the versions it has in
+ * schema_migrations, so a migration runs once per database. This module
+ * decides what runs and in which order; running the SQL is left to a target
+ * that can reach the database (psql in scripts/migrate.ts).
+ *
+ * supabase/schema.sql is the full schema after every migration. schemaColumns
+ * replays the table and view definitions in SQL text, so tests can check that
+ * the migrations, that file and the app's types describe the same columns.
+ */
+
+export const MIGRATIONS_DIR = path.join(process.cwd(), 'supabase', 'migrations');
+
+export const SCHEMA_MIGRATIONS_TABLE = `CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);`;
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface MigrationTarget {
+  appliedVersions(): Promise<number[]>;
+  // Run a migration and record it, in one transaction
+  apply(migration: Migration): Promise<void>;
+  // Record a migration the database already has without running it
+  record(migration: Migration): Promise<void>;
+}
+
+const MIGRATION_FILE = /^(\d{4})_([a-z0-9_]+)\.sql$/;
+
+/**
+ * Read the migrations in a directory, in version order. Throws on a file
+ * that isn't named like a migration, or versions that skip or repeat.
+ */
+export function loadMigrations(dir: string = MIGRATIONS_DIR): Migration[] {
+  const files = readdirSync(dir).filter((file) => file.endsWith('.sql')).sort();
+
+  return files.map((file, i) => {
+    const match = MIGRATION_FILE.exec(file);
+    if (!match) {
+      throw new Error(`Migration files must be named like 0001_description.sql: ${file}`);
+    }
+    const version = Number(match[1]);
+    if (version !== i + 1) {
+      throw new Error(`Migrations must be numbered 1, 2, 3... without gaps or repeats: expected ${i + 1}, found ${file}`);
+    }
+    return { version, name: match[2], sql: readFileSync(path.join(dir, file), 'utf8') };
+  });
+}
+
+/**
+ * The migrations a database still needs, given the versions it has applied.
+ * Throws when the database has a migration the directory doesn't (a file was
+ * removed or renumbered), or when a pending migration is older than one
+ * already applied and would run out of order.
+ */
+export function pendingMigrations(migrations: Migration[], applied: number[]): Migration[] {
+  const known = new Set(migrations.map((migration) => migration.version));
+  const unknown = applied.find((version) => !known.has(version));
+  if (unknown !== undefined) {
+    throw new Error(`The database has migration ${unknown}, which is not in supabase/migrations`);
+  }
+
+  const done = new Set(applied);
+  const pending = migrations.filter((migration) => !done.has(migration.version));
+  const newest = Math.max(0, ...applied);
+  const outOfOrder = pending.find((migration) => migration.version < newest);
+  if (outOfOrder) {
+    throw new Error(`Migration ${outOfOrder.version} is older than migration ${newest}, which is already applied`);
+  }
+  return pending;
+}
+
+/**
+ * Apply pending migrations in version order, stopping at the first failure.
+ * Returns the migrations applied.
+ */
+export async function runMigrations(target: MigrationTarget, migrations: Migration[]): Promise<Migration[]> {
+  const pending = pendingMigrations(migrations, await target.appliedVersions());
+  for (const migration of pending) {
+    await target.apply(migration);
+  }
+  return pending;
+}
+
+/**
+ * Record the baseline migration as applied on a database set up from
+ * schema.sql before migrations existed, so only later ones run on it
+ */
+export async function markBaseline(target: MigrationTarget, migrations: Migration[]): Promise<void> {
+  if ((await target.appliedVersions()).length > 0) {
+    throw new Error('The database already has migrations recorded');
+  }
+  await target.record(migrations[0]);
+}
+
+/**
+ * SQL recording a migration in schema_migrations. Names are limited to
+ * [a-z0-9_] by the file name check, so they need no escaping.
+ */
+export function recordMigrationSql(migration: Migration): string {
+  return `INSERT INTO schema_migrations (version, name) VALUES (${migration.version}, '${migration.name}');`;
+}
+
+// Split SQL into statements on semicolons outside comments, strings and
+// dollar-quoted function bodies. Comments are dropped.
+function splitStatements(sql: string): string[] {
+  const statements: string[] = [];
+  let current = '';
+  let i = 0;
+
+  while (i < sql.length) {
+    if (sql.startsWith('--', i)) {
+      const end = sql.indexOf('\n', i);
+      i = end === -1 ? sql.length : end;
+      continue;
+    }
+
+    const dollar = /\$[A-Za-z_]*\$/y;
+    dollar.lastIndex = i;
+    const tag = dollar.exec(sql)?.[0];
+    const quoteEnd = tag
+      ? sql.indexOf(tag, i + tag.length) + tag.length
+      : sql[i] === "'" ? sql.indexOf("'", i + 1) + 1 : 0;
+
+    if (quoteEnd > i) {
+      current += sql.slice(i, quoteEnd);
+      i = quoteEnd;
+    } else if (sql[i] === ';') {
+      statements.push(current.replace(/\s+/g, ' ').trim());
+      current = '';
+      i++;
+    } else {
+      current += sql[i];
+      i++;
+    }
+  }
+
+  statements.push(current.replace(/\s+/g, ' ').trim());
+  return statements.filter((statement) => statement !== '');
+}
+
+// Split a list on commas outside parentheses and strings
+function splitList(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of text) {
+    if (char === "'") quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current.trim());
+  return parts.filter((part) => part !== '');
+}
+
+const CONSTRAINTS = new Set(['PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN', 'CONSTRAINT', 'EXCLUDE']);
+
+function alterColumns(columns: string[], action: string): string[] {
+  const add = /^ADD (?:COLUMN )?(?:IF NOT EXISTS )?(\w+)/i.exec(action);
+  if (add && !CONSTRAINTS.has(add[1].toUpperCase())) {
+    return columns.includes(add[1]) ? columns : [...columns, add[1]];
+  }
+
+  const drop = /^DROP (?:COLUMN )?(?:IF EXISTS )?(\w+)/i.exec(action);
+  if (drop && drop[1].toUpperCase() !== 'CONSTRAINT') {
+    return columns.filter((column) => column !== drop[1]);
+  }
+
+  const rename = /^RENAME (?:COLUMN )?(\w+) TO (\w+)/i.exec(action);
+  if (rename) {
+    return columns.map((column) => (column === rename[1] ? rename[2] : column));
+  }
+  return columns;
+}
+
+/**
+ * The columns of every table and view that a sequence of SQL statements
+ * leaves behind, from CREATE/ALTER/DROP TABLE and CREATE/DROP VIEW. Other
+ * statements (functions, indexes, policies, data) are ignored.
+ */
+export function schemaColumns(sql: string): Record<string, string[]> {
+  const schema: Record<string, string[]> = {};
+
+  for (const statement of splitStatements(sql)) {
+    const createTable = /^CREATE TABLE (?:IF NOT EXISTS )?(\w+) \((.*)\)$/i.exec(statement);
+    if (createTable) {
+      schema[createTable[1]] = splitList(createTable[2])
+        .map((definition) => /^\w+/.exec(definition)?.[0] ?? definition)
+        .filter((name) => !CONSTRAINTS.has(name.toUpperCase()));
+      continue;
+    }
+
+    const alterTable = /^ALTER TABLE (?:IF EXISTS )?(?:ONLY )?(\w+) (.*)$/i.exec(statement);
+    if (alterTable && schema[alterTable[1]]) {
+      const [, table, actions] = alterTable;
+      const renameTable = /^RENAME TO (\w+)$/i.exec(actions);
+      if (renameTable) {
+        schema[renameTable[1]] = schema[table];
+        delete schema[table];
+        continue;
+      }
+      schema[table] = splitList(actions).reduce(alterColumns, schema[table]);
+      continue;
+    }
+
+    const createView = /^CREATE (?:OR REPLACE )?VIEW (\w+)(?: WITH \([^)]*\))? AS SELECT (.*?) FROM /i.exec(statement);
+    if (createView) {
+      schema[createView[1]] = splitList(createView[2]).map((expression) => {
+        const alias = /\bAS (\w+)$/i.exec(expression);
+        return alias ? alias[1] : expression.split('.').pop()!;
+      });
+      continue;
+    }
+
+    const drop = /^DROP (?:TABLE|VIEW) (?:IF EXISTS )?(\w+)/i.exec(statement);
+    if (drop) {
+      delete schema[drop[1]];
+    }
+  }
+
+  return schema;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FoodItemSchema } from '@/types/nutrition';
+import meals from './fixtures/meals.json';
+import {
+  dashboardNutrients,
+  parseDashboardNutrients,
+  nutrientReference,
+  roundNutrient,
+  DEFAULT_DASHBOARD_NUTRIENTS,
+} from './nutrients';
+
+describe('dashboardNutrients', () => {
+  it('falls back to the defaults when nothing is chosen', () => {
+    expect(dashboardNutrients(null)).toEqual(DEFAULT_DASHBOARD_NUTRIENTS);
+  });
+
+  it('keeps registry order and drops unknown keys', () => {
+    expect(dashboardNutrients(['caffeine', 'removed', 'fiber'])).toEqual(['fiber', 'caffeine']);
+  });
+});
+
+describe('parseDashboardNutrients', () => {
+  it('accepts null to reset to the defaults', () => {
+    expect(parseDashboardNutrients(null)).toEqual({ nutrients: null });
+  });
+
+  it('rejects unknown and macro nutrients', () => {
+    expect(parseDashboardNutrients(['fiber', 'vitamin_z'])).toEqual({ error: 'Unknown dashboard nutrient: vitamin_z' });
+    expect(parseDashboardNutrients(['calories'])).toEqual({ error: 'Unknown dashboard nutrient: calories' });
+  });
+
+  it('rejects anything but a list of names', () => {
+    expect(parseDashboardNutrients('fiber')).toEqual({ error: 'dashboard_nutrients must be a list of nutrient names' });
+  });
+});
+
+describe('nutrientReference', () => {
+  it('depends on sex where the guidance does', () => {
+    expect(nutrientReference('iron', { sex: 'female' })).toMatchObject({ target: 18 });
+    expect(nutrientReference('iron', { sex: 'male' })).toMatchObject({ target: 8 });
+    expect(nutrientReference('alcohol', { sex: 'female' })).toMatchObject({ limit: 14 });
+  });
+
+  it('scales the saturated fat limit with the calorie target', () => {
+    expect(nutrientReference('saturatedFat', { targetCalories: 1800 })).toMatchObject({ limit: 20 });
+  });
+
+  it('is null for nutrients without one', () => {
+    expect(nutrientReference('calories', {})).toBeNull();
+  });
+});
+
+describe('roundNutrient', () => {
+  it('keeps a decimal for small amounts of finely measured nutrients', () => {
+    expect(roundNutrient('iron', 7.44)).toBe('7.4');
+    expect(roundNutrient('iron', 12.6)).toBe('13');
+    expect(roundNutrient('sodium', 7.4)).toBe('7');
+  });
+});
+
+describe('FoodItemSchema', () => {
+  it('defaults nutrients the parser left out to 0', () => {
+    const [egg] = meals['1 large egg'].items;
+    const older = Object.fromEntries(Object.entries(egg).filter(([key]) => !/^(potassium|vitamin_d)/.test(key)));
+
+    expect(FoodItemSchema.parse(older)).toMatchObject({ potassium_mg: 0, potassium_low: 0, vitamin_d_mcg: 0 });
+  });
+});
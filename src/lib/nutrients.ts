@@ -0,0 +1,398 @@
+/**
+ * Nutrient Registry
+ *
+ * Every nutrient tracked on a food item, in display order. The registry
+ * drives the FoodItem schema (and with it the parser's output format and
+ * prompt), entry_items rows, validation, edit and manual entry forms, daily
+ * totals, dashboard cards and trends charts. Adding a nutrient is one entry
+ * here plus a migration adding its value/low/high columns to entry_items
+ * (and the daily_totals view) in supabase/migrations.
+ */
+
+export type NutrientUnit = 'kcal' | 'g' | 'mg' | 'mcg';
+
+export interface NutrientProfile {
+  sex?: 'male' | 'female' | null;
+  targetCalories?: number | null;
+}
+
+// Daily guideline a nutrient is held to: stay under a limit, or reach a target
+export type NutrientReference =
+  | { type: 'limit'; limit: number; warning?: number; tip: string }
+  | { type: 'target'; target: number; tip: string };
+
+export interface NutrientDefinition {
+  key: string; // camelCase name in totals, trends and settings
+  field: string; // entry_items / FoodItem column
+  low: string;
+  high: string;
+  label: string;
+  shortLabel: string; // dashboard cards and trends
+  unit: NutrientUnit;
+  decimals: number; // precision of edits and recomputed values
+  description: string; // schema description the parser sees
+  guidance?: string; // extra line in the parser prompt
+  macro?: boolean; // always on the dashboard (calories, protein, fat, carbs)
+  optional?: boolean; // added after items were first stored: missing values read as 0
+  color: string;
+  referenceColor: string;
+  reference?: (profile: NutrientProfile) => NutrientReference;
+}
+
+export const NUTRIENTS = [
+  {
+    key: 'calories',
+    field: 'calories',
+    low: 'calories_low',
+    high: 'calories_high',
+    label: 'Calories',
+    shortLabel: 'Calories',
+    unit: 'kcal',
+    decimals: 0,
+    description: 'Estimated calories',
+    macro: true,
+    color: '#3b82f6',
+    referenceColor: '#1e3a8a',
+  },
+  {
+    key: 'protein',
+    field: 'protein_g',
+    low: 'protein_low',
+    high: 'protein_high',
+    label: 'Protein',
+    shortLabel: 'Protein',
+    unit: 'g',
+    decimals: 1,
+    description: 'Protein in grams',
+    macro: true,
+    color: '#22c55e',
+    referenceColor: '#14532d',
+  },
+  {
+    key: 'carbs',
+    field: 'carbs_g',
+    low: 'carbs_low',
+    high: 'carbs_high',
+    label: 'Carbs',
+    shortLabel: 'Carbs',
+    unit: 'g',
+    decimals: 1,
+    description: 'Carbohydrates in grams',
+    macro: true,
+    color: '#f59e0b',
+    referenceColor: '#78350f',
+  },
+  {
+    key: 'fat',
+    field: 'fat_g',
+    low: 'fat_low',
+    high: 'fat_high',
+    label: 'Fat',
+    shortLabel: 'Fat',
+    unit: 'g',
+    decimals: 1,
+    description: 'Total fat in grams',
+    macro: true,
+    color: '#eab308',
+    referenceColor: '#713f12',
+  },
+  {
+    key: 'saturatedFat',
+    field: 'saturated_fat_g',
+    low: 'saturated_fat_low',
+    high: 'saturated_fat_high',
+    label: 'Saturated fat',
+    shortLabel: 'Sat. Fat',
+    unit: 'g',
+    decimals: 1,
+    description: 'Saturated fat in grams',
+    color: '#ef4444',
+    referenceColor: '#7f1d1d',
+    // <10% of daily calories (9 kcal per gram of fat)
+    reference: ({ targetCalories }) => ({
+      type: 'limit',
+      limit: Math.round(((targetCalories || 2000) * 0.1) / 9),
+      tip: '<10% of calories',
+    }),
+  },
+  {
+    key: 'unsaturatedFat',
+    field: 'unsaturated_fat_g',
+    low: 'unsaturated_fat_low',
+    high: 'unsaturated_fat_high',
+    label: 'Unsaturated fat',
+    shortLabel: 'Unsat. Fat',
+    unit: 'g',
+    decimals: 1,
+    description: 'Unsaturated fat in grams',
+    color: '#84cc16',
+    referenceColor: '#365314',
+  },
+  {
+    key: 'fiber',
+    field: 'fiber_g',
+    low: 'fiber_low',
+    high: 'fiber_high',
+    label: 'Fiber',
+    shortLabel: 'Fiber',
+    unit: 'g',
+    decimals: 1,
+    description: 'Fiber in grams',
+    color: '#10b981',
+    referenceColor: '#065f46',
+    reference: ({ sex }) => ({
+      type: 'target',
+      target: sex === 'male' ? 38 : 25,
+      tip: sex === 'male' ? '38g daily goal' : '25g daily goal',
+    }),
+  },
+  {
+    key: 'sodium',
+    field: 'sodium_mg',
+    low: 'sodium_low',
+    high: 'sodium_high',
+    label: 'Sodium',
+    shortLabel: 'Sodium',
+    unit: 'mg',
+    decimals: 0,
+    description: 'Sodium in milligrams',
+    color: '#a855f7',
+    referenceColor: '#581c87',
+    reference: () => ({ type: 'limit', limit: 2750, warning: 2300, tip: '<2750mg (ideal <2300mg)' }),
+  },
+  {
+    key: 'addedSugar',
+    field: 'added_sugar_g',
+    low: 'added_sugar_low',
+    high: 'added_sugar_high',
+    label: 'Added sugar',
+    shortLabel: 'Added Sugar',
+    unit: 'g',
+    decimals: 1,
+    description: 'Added sugar in grams (excludes natural sugars from whole fruits/dairy)',
+    color: '#ec4899',
+    referenceColor: '#831843',
+    // AHA: 36g men, 25g women
+    reference: ({ sex }) => ({
+      type: 'limit',
+      limit: sex === 'male' ? 36 : 25,
+      tip: sex === 'male' ? '<36g added sugar' : '<25g added sugar',
+    }),
+  },
+  {
+    key: 'totalSugar',
+    field: 'total_sugar_g',
+    low: 'total_sugar_low',
+    high: 'total_sugar_high',
+    label: 'Total sugar',
+    shortLabel: 'Total Sugar',
+    unit: 'g',
+    decimals: 1,
+    description: 'Total sugar in grams, natural and added (never less than added sugar)',
+    guidance: 'TOTAL SUGAR: natural sugars (fruit, milk, vegetables) plus added sugar, so never less than added sugar; a banana has ~14g total and 0g added',
+    optional: true,
+    color: '#f43f5e',
+    referenceColor: '#881337',
+  },
+  {
+    key: 'potassium',
+    field: 'potassium_mg',
+    low: 'potassium_low',
+    high: 'potassium_high',
+    label: 'Potassium',
+    shortLabel: 'Potassium',
+    unit: 'mg',
+    decimals: 0,
+    description: 'Potassium in milligrams',
+    optional: true,
+    color: '#f97316',
+    referenceColor: '#7c2d12',
+    // Adequate intake: 3400mg men, 2600mg women
+    reference: ({ sex }) => ({
+      type: 'target',
+      target: sex === 'male' ? 3400 : 2600,
+      tip: sex === 'male' ? '3400mg daily goal' : '2600mg daily goal',
+    }),
+  },
+  {
+    key: 'calcium',
+    field: 'calcium_mg',
+    low: 'calcium_low',
+    high: 'calcium_high',
+    label: 'Calcium',
+    shortLabel: 'Calcium',
+    unit: 'mg',
+    decimals: 0,
+    description: 'Calcium in milligrams',
+    optional: true,
+    color: '#0ea5e9',
+    referenceColor: '#0c4a6e',
+    reference: () => ({ type: 'target', target: 1000, tip: '1000mg daily goal' }),
+  },
+  {
+    key: 'iron',
+    field: 'iron_mg',
+    low: 'iron_low',
+    high: 'iron_high',
+    label: 'Iron',
+    shortLabel: 'Iron',
+    unit: 'mg',
+    decimals: 1,
+    description: 'Iron in milligrams',
+    optional: true,
+    color: '#64748b',
+    referenceColor: '#1e293b',
+    // RDA: 8mg men, 18mg women (before menopause)
+    reference: ({ sex }) => ({
+      type: 'target',
+      target: sex === 'male' ? 8 : 18,
+      tip: sex === 'male' ? '8mg daily goal' : '18mg daily goal',
+    }),
+  },
+  {
+    key: 'vitaminD',
+    field: 'vitamin_d_mcg',
+    low: 'vitamin_d_low',
+    high: 'vitamin_d_high',
+    label: 'Vitamin D',
+    shortLabel: 'Vitamin D',
+    unit: 'mcg',
+    decimals: 1,
+    description: 'Vitamin D in micrograms (1 mcg = 40 IU)',
+    guidance: 'VITAMIN D: report micrograms; labels often list IU (40 IU = 1 mcg)',
+    optional: true,
+    color: '#facc15',
+    referenceColor: '#854d0e',
+    reference: () => ({ type: 'target', target: 15, tip: '15mcg (600 IU) daily goal' }),
+  },
+  {
+    key: 'cholesterol',
+    field: 'cholesterol_mg',
+    low: 'cholesterol_low',
+    high: 'cholesterol_high',
+    label: 'Cholesterol',
+    shortLabel: 'Cholesterol',
+    unit: 'mg',
+    decimals: 0,
+    description: 'Dietary cholesterol in milligrams',
+    optional: true,
+    color: '#d97706',
+    referenceColor: '#78350f',
+    reference: () => ({ type: 'limit', limit: 300, tip: '<300mg cholesterol' }),
+  },
+  {
+    key: 'caffeine',
+    field: 'caffeine_mg',
+    low: 'caffeine_low',
+    high: 'caffeine_high',
+    label: 'Caffeine',
+    shortLabel: 'Caffeine',
+    unit: 'mg',
+    decimals: 0,
+    description: 'Caffeine in milligrams',
+    guidance: 'CAFFEINE: coffee, tea, energy drinks, colas and chocolate have caffeine; decaf has almost none',
+    optional: true,
+    color: '#8b5cf6',
+    referenceColor: '#4c1d95',
+    reference: () => ({ type: 'limit', limit: 400, tip: '<400mg caffeine' }),
+  },
+  {
+    key: 'alcohol',
+    field: 'alcohol_g',
+    low: 'alcohol_low',
+    high: 'alcohol_high',
+    label: 'Alcohol',
+    shortLabel: 'Alcohol',
+    unit: 'g',
+    decimals: 1,
+    description: 'Alcohol (ethanol) in grams',
+    guidance: 'ALCOHOL: grams of ethanol (a standard drink is 14g, 7 kcal per gram); its calories count in the item\'s calories',
+    optional: true,
+    color: '#14b8a6',
+    referenceColor: '#134e4a',
+    // At most 2 drinks a day for men, 1 for women (14g each)
+    reference: ({ sex }) => ({
+      type: 'limit',
+      limit: sex === 'male' ? 28 : 14,
+      tip: sex === 'male' ? '<2 drinks (28g)' : '<1 drink (14g)',
+    }),
+  },
+] as const satisfies readonly NutrientDefinition[];
+
+export type Nutrient = typeof NUTRIENTS[number];
+export type NutrientKey = Nutrient['key'];
+export type NutrientField = Nutrient['field'];
+export type NutrientRangeField = Nutrient['low'] | Nutrient['high'];
+export type OptionalNutrientField = Extract<Nutrient, { optional: true }>['field'];
+
+export type NutrientTotal = { value: number; low: number; high: number };
+export type NutrientRange = Omit<NutrientTotal, 'value'>;
+export type NutrientTotals = Record<NutrientKey, NutrientTotal>;
+
+// Form inputs for every nutrient (item edits, manual entry, custom foods)
+export const NUTRIENT_INPUTS = NUTRIENTS.map(({ field, label, unit, decimals }) => ({
+  field,
+  label: unit === 'kcal' ? label : `${label} (${unit})`,
+  step: decimals > 0 ? '0.1' : '1',
+}));
+
+// Nutrients the user can pick for the dashboard and trends (macros are always shown)
+export const DASHBOARD_NUTRIENTS = NUTRIENTS.filter((nutrient) => !('macro' in nutrient));
+
+// Shown when the user hasn't chosen
+export const DEFAULT_DASHBOARD_NUTRIENTS: NutrientKey[] = ['fiber', 'addedSugar', 'saturatedFat', 'sodium'];
+
+const BY_KEY = new Map<string, Nutrient>(NUTRIENTS.map((nutrient) => [nutrient.key, nutrient]));
+
+export function getNutrient(key: NutrientKey): Nutrient {
+  return BY_KEY.get(key)!;
+}
+
+export function nutrientReference(key: NutrientKey, profile: NutrientProfile): NutrientReference | null {
+  const nutrient: NutrientDefinition = getNutrient(key);
+  return nutrient.reference ? nutrient.reference(profile) : null;
+}
+
+/**
+ * Zeroed value/low/high totals for every nutrient
+ */
+export function emptyNutrientTotals(): NutrientTotals {
+  return Object.fromEntries(
+    NUTRIENTS.map(({ key }) => [key, { value: 0, low: 0, high: 0 }])
+  ) as NutrientTotals;
+}
+
+/**
+ * The user's dashboard nutrients, in registry order. Unknown keys (a nutrient
+ * that was removed) are dropped; null means the defaults.
+ */
+export function dashboardNutrients(keys: unknown): NutrientKey[] {
+  if (!Array.isArray(keys)) return DEFAULT_DASHBOARD_NUTRIENTS;
+  return DASHBOARD_NUTRIENTS.filter((nutrient) => keys.includes(nutrient.key)).map((nutrient) => nutrient.key);
+}
+
+/**
+ * Validate a dashboard nutrient choice from a request body (null resets to
+ * the defaults). Returns an error message for invalid input.
+ */
+export function parseDashboardNutrients(input: unknown): { nutrients: NutrientKey[] | null } | { error: string } {
+  if (input === null) return { nutrients: null };
+  if (!Array.isArray(input) || input.some((key) => typeof key !== 'string')) {
+    return { error: 'dashboard_nutrients must be a list of nutrient names' };
+  }
+
+  const unknown = input.find((key) => !DASHBOARD_NUTRIENTS.some((nutrient) => nutrient.key === key));
+  if (unknown !== undefined) {
+    return { error: `Unknown dashboard nutrient: ${unknown}` };
+  }
+  return { nutrients: dashboardNutrients(input) };
+}
+
+/**
+ * A nutrient amount rounded for display: whole numbers, with one decimal
+ * below 10 for nutrients measured finely (7.4 mg iron, 2.5 mcg vitamin D)
+ */
+export function roundNutrient(key: NutrientKey, value: number): string {
+  const { decimals } = getNutrient(key);
+  return decimals > 0 && Math.abs(value) < 10 ? String(Math.round(value * 10) / 10) : String(Math.round(value));
+}
@@ -0,0 +1,85 @@
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { ParsedMealSchema, type MealParser } from '@/types/nutrition';
+import { SYSTEM_PROMPT, buildUserPrompt, assertNoImageError } from '@/lib/meal-prompt';
+
+interface OpenAICompatibleParserOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Meal parser for any server exposing an OpenAI-compatible
+ * /chat/completions endpoint (vLLM, Ollama, LM Studio, other vendors).
+ * Uses plain fetch so it doesn't depend on SDK-specific response helpers.
+ */
+export function createOpenAICompatibleMealParser(options: OpenAICompatibleParserOptions): MealParser {
+  const endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: 'openai-compatible',
+    model: options.model,
+    async parse(request) {
+      const userContent: unknown[] = [];
+
+      if (request.imageBase64) {
+        userContent.push({
+          type: 'image_url',
+          image_url: { url: request.imageBase64, detail: 'high' },
+        });
+      }
+
+      userContent.push({ type: 'text', text: buildUserPrompt(request) });
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+      }
+
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: userContent },
+          ],
+          response_format: zodResponseFormat(ParsedMealSchema, 'parsed_meal'),
+          temperature: 0.3,
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Meal parser request failed (${res.status})`);
+      }
+
+      const body = (await res.json()) as ChatCompletionResponse;
+      const content = body.choices?.[0]?.message?.content;
+
+      if (!content) {
+        throw new Error('Failed to parse meal description');
+      }
+
+      let json: unknown;
+      try {
+        json = JSON.parse(content);
+      } catch {
+        throw new Error('Meal parser returned invalid JSON');
+      }
+
+      const result = ParsedMealSchema.safeParse(json);
+      if (!result.success) {
+        throw new Error('Meal parser returned an unexpected shape');
+      }
+
+      assertNoImageError(result.data);
+
+      return result.data;
+    },
+  };
+}
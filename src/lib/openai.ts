@@ -1,168 +1,65 @@
 import OpenAI from 'openai';
 import { zodResponseFormat } from 'openai/helpers/zod';
-import { ParsedMealSchema, type ParsedMeal } from '@/types/nutrition';
+import { ParsedMealSchema, type MealParser } from '@/types/nutrition';
+import { SYSTEM_PROMPT, buildUserPrompt, assertNoImageError } from '@/lib/meal-prompt';
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const DEFAULT_MODEL = 'gpt-4o';
 
-const SYSTEM_PROMPT = `You are a nutrition analysis assistant. Your job is to parse meal descriptions (text and/or images) and return structured nutritional data.
-
-RULES:
-1. NEVER ask clarifying questions. Make reasonable assumptions and list them.
-2. Use your best midpoint estimate. Be confident - the user provides specific details.
-3. Include oils, sauces, and cooking fats unless explicitly excluded.
-4. Provide tight confidence intervals: low = estimate × 0.9, high = estimate × 1.1 (±10% bounds).
-5. Only widen beyond ±10% if the description is genuinely vague (e.g., "some rice" vs "1 cup rice").
-6. DATE EXTRACTION - Only extract explicit_date when the user is clearly stating WHEN they ate the food:
-   - Extract date: "I had pizza yesterday", "ate lunch on Monday", "breakfast Jan 15"
-   - Do NOT extract date: "leftover pizza from yesterday", "using chicken from Tuesday", "food from last night"
-   - The key distinction: "from [date]" describes food origin/leftovers, not when it was eaten
-   - When in doubt, set explicit_date to null (let the system use submission timestamp)
-7. For relative dates like "yesterday" or "2 days ago", calculate based on today's date which will be provided.
-
-ESTIMATION GUIDELINES:
-- A "serving" or "portion" without size = medium/typical restaurant portion
-- "Some" = moderate amount (e.g., 1-2 tbsp for sauces)
-- Homemade meals: assume reasonable home cooking amounts
-- Restaurant meals: assume typical American restaurant portions (usually larger)
-- When user provides specific amounts (oz, cups, grams, pieces), use those precisely with tight ±10% bounds
-- Only use wider bounds (±15-20%) when description is vague like "a bowl of" or "some"
-
-NUTRITIONAL DATA:
-- Use standard USDA values as baseline
-- Adjust for preparation method (fried adds fat, etc.)
-- saturated_fat + unsaturated_fat should approximately equal total fat
-- Account for cooking oils unless "no oil" or "dry cooked" is specified
-- ADDED SUGAR: Only count sugars added during processing/cooking, NOT natural sugars from:
-  - Whole fruits (an apple has 0g added sugar)
-  - Plain dairy (milk, plain yogurt have 0g added sugar)
-  - Vegetables
-  Examples: A banana = 0g added sugar. Sweetened yogurt = count the added sweetener only. Soda = all sugar is added. Honey in tea = added sugar.
-
-IMAGE HANDLING:
-- If an image is attached, analyze it for nutritional information
-- VALID images: nutrition facts labels, menus with nutritional info, food packaging
-- INVALID images: photos of actual food/meals (we cannot estimate nutrition from food photos)
-- If image shows actual food (not a label), add to assumptions: "ERROR: Cannot analyze photos of food. Please photograph nutrition labels or menus instead."
-- For valid images: extract the nutrition facts shown and apply any quantity mentioned in the text (e.g., "2 bags" = multiply by 2)
-- Combine image data with any other foods mentioned in the text
-
-OUTPUT FORMAT:
-- Return a list of ALL food items (from both text AND image)
-- Each item should be a distinct food (e.g., "grilled chicken breast", "steamed broccoli")
-- Combine similar items if they're clearly one dish (e.g., "chicken stir fry with vegetables")
-- List assumptions made for transparency`;
+interface OpenAIParserOptions {
+  apiKey?: string;
+  model?: string;
+}
 
 /**
- * Parse a meal description using GPT-4o with structured output
+ * Meal parser backed by the OpenAI API with structured output
  * Supports text, images, or both combined
  */
-export async function parseMealDescription(
-  mealText: string,
-  todayDate: string, // YYYY-MM-DD format, in user's timezone
-  imageBase64?: string // Optional base64 image data
-): Promise<ParsedMeal> {
-  // Build user message content
-  const userContent: OpenAI.Chat.ChatCompletionContentPart[] = [];
-  
-  // Add image if provided
-  if (imageBase64) {
-    userContent.push({
-      type: 'image_url',
-      image_url: {
-        url: imageBase64,
-        detail: 'high',
-      },
-    });
-  }
-  
-  // Build text prompt
-  let textPrompt = `Today's date is ${todayDate}.\n\n`;
-  
-  if (imageBase64 && mealText && mealText !== '1 serving') {
-    // Both image and meaningful text
-    textPrompt += `Parse this meal. The image shows a nutrition label/menu. The user's description is: "${mealText}"\n\nExtract nutrition from the image AND parse any other foods mentioned in the text.`;
-  } else if (imageBase64) {
-    // Image only (or image with default "1 serving" text)
-    textPrompt += `Extract nutritional data from this image. Assume 1 serving unless otherwise indicated.`;
-  } else {
-    // Text only
-    textPrompt += `Parse the following meal description and return structured nutritional data:\n\n"${mealText}"`;
-  }
-  
-  userContent.push({ type: 'text', text: textPrompt });
-
-  const response = await openai.chat.completions.parse({
-    model: 'gpt-4o',
-    messages: [
-      { role: 'system', content: SYSTEM_PROMPT },
-      { role: 'user', content: userContent },
-    ],
-    response_format: zodResponseFormat(ParsedMealSchema, 'parsed_meal'),
-    temperature: 0.3,
-  });
-
-  const parsed = response.choices[0].message.parsed;
-  
-  if (!parsed) {
-    throw new Error('Failed to parse meal description');
-  }
+export function createOpenAIMealParser(options: OpenAIParserOptions = {}): MealParser {
+  const model = options.model || DEFAULT_MODEL;
+  let client: OpenAI | null = null;
 
-  // Check for image validation error in assumptions
-  for (const item of parsed.items) {
-    if (item.assumptions?.some(a => a.includes('ERROR:'))) {
-      const errorMsg = item.assumptions.find(a => a.includes('ERROR:'));
-      throw new Error(errorMsg?.replace('ERROR: ', '') || 'Image validation failed');
-    }
-  }
-
-  return parsed;
-}
+  return {
+    name: 'openai',
+    model,
+    async parse(request) {
+      // Created lazily so importing this module never requires an API key
+      client ??= new OpenAI({ apiKey: options.apiKey ?? process.env.OPENAI_API_KEY });
+
+      // Build user message content
+      const userContent: OpenAI.Chat.ChatCompletionContentPart[] = [];
+
+      // Add image if provided
+      if (request.imageBase64) {
+        userContent.push({
+          type: 'image_url',
+          image_url: {
+            url: request.imageBase64,
+            detail: 'high',
+          },
+        });
+      }
 
-/**
- * Validate that the response has reasonable values
- */
-export function validateParsedMeal(meal: ParsedMeal): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+      userContent.push({ type: 'text', text: buildUserPrompt(request) });
 
-  for (const item of meal.items) {
-    // Check that low <= value <= high for all ranges
-    if (item.calories_low > item.calories || item.calories > item.calories_high) {
-      errors.push(`${item.food_name}: calories range invalid`);
-    }
-    if (item.protein_low > item.protein_g || item.protein_g > item.protein_high) {
-      errors.push(`${item.food_name}: protein range invalid`);
-    }
-    if (item.carbs_low > item.carbs_g || item.carbs_g > item.carbs_high) {
-      errors.push(`${item.food_name}: carbs range invalid`);
-    }
-    if (item.fat_low > item.fat_g || item.fat_g > item.fat_high) {
-      errors.push(`${item.food_name}: fat range invalid`);
-    }
+      const response = await client.chat.completions.parse({
+        model,
+        messages: [
+          { role: 'system', content: SYSTEM_PROMPT },
+          { role: 'user', content: userContent },
+        ],
+        response_format: zodResponseFormat(ParsedMealSchema, 'parsed_meal'),
+        temperature: 0.3,
+      });
 
-    // Check that saturated + unsaturated ≈ total fat (within 20% tolerance)
-    const fatSum = item.saturated_fat_g + item.unsaturated_fat_g;
-    const fatDiff = Math.abs(fatSum - item.fat_g);
-    if (fatDiff > item.fat_g * 0.2 && item.fat_g > 1) {
-      errors.push(`${item.food_name}: fat breakdown doesn't match total (${fatSum.toFixed(1)} vs ${item.fat_g.toFixed(1)})`);
-    }
+      const parsed = response.choices[0].message.parsed;
 
-    // Check for negative values
-    const numericFields = [
-      'calories', 'protein_g', 'carbs_g', 'fat_g', 
-      'saturated_fat_g', 'unsaturated_fat_g', 'fiber_g', 'sodium_mg', 'added_sugar_g'
-    ] as const;
-    
-    for (const field of numericFields) {
-      if (item[field] < 0) {
-        errors.push(`${item.food_name}: ${field} is negative`);
+      if (!parsed) {
+        throw new Error('Failed to parse meal description');
       }
-    }
-  }
 
-  return {
-    valid: errors.length === 0,
-    errors,
+      assertNoImageError(parsed);
+
+      return parsed;
+    },
   };
 }
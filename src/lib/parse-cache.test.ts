@@ -0,0 +1,165 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildParseCacheKey, hashImage, parseMealWithCache } from './parse-cache';
+import { PROMPT_VERSION } from './meal-prompt';
+import { createFixtureMealParser } from './fixture-parser';
+import { createOpenAIMealParser } from './openai';
+
+/**
+ * Minimal in-memory stand-in for the parse_cache table, supporting only the
+ * query shapes parse-cache.ts uses.
+ */
+function createFakeSupabase() {
+  const rows: Record<string, unknown>[] = [];
+  let nextId = 1;
+
+  const client = {
+    from() {
+      return {
+        select() {
+          return {
+            match(key: Record<string, unknown>) {
+              return {
+                async maybeSingle() {
+                  const row = rows.find(r => Object.entries(key).every(([k, v]) => r[k] === v));
+                  return { data: row ?? null, error: null };
+                },
+              };
+            },
+          };
+        },
+        update(values: Record<string, unknown>) {
+          return {
+            async eq(_column: string, id: unknown) {
+              const row = rows.find(r => r.id === id);
+              if (row) Object.assign(row, values);
+              return { error: null };
+            },
+          };
+        },
+        async upsert(values: Record<string, unknown>) {
+          const existing = rows.find(r =>
+            r.user_id === values.user_id &&
+            r.normalized_text === values.normalized_text &&
+            r.image_hash === values.image_hash &&
+            r.prompt_version === values.prompt_version &&
+            r.parser === values.parser
+          );
+          if (existing) {
+            Object.assign(existing, values);
+          } else {
+            rows.push({ id: nextId++, ...values });
+          }
+          return { error: null };
+        },
+      };
+    },
+  };
+
+  return { rows, client: client as unknown as SupabaseClient };
+}
+
+describe('Parse cache key', () => {
+  it('should normalize text so trivial differences share a key', () => {
+    const a = buildParseCacheKey('user-1', '2 Eggs  and toast ');
+    const b = buildParseCacheKey('user-1', '2 eggs and toast');
+    expect(a).toEqual(b);
+    expect(a.prompt_version).toBe(PROMPT_VERSION);
+  });
+
+  it('should scope keys per user', () => {
+    const a = buildParseCacheKey('user-1', '2 eggs');
+    const b = buildParseCacheKey('user-2', '2 eggs');
+    expect(a).not.toEqual(b);
+  });
+
+  it('should key on the parser\'s provider and model', () => {
+    const fixture = buildParseCacheKey('user-1', '2 eggs', undefined, createFixtureMealParser());
+    const gpt4o = buildParseCacheKey('user-1', '2 eggs', undefined, createOpenAIMealParser({ model: 'gpt-4o' }));
+    const mini = buildParseCacheKey('user-1', '2 eggs', undefined, createOpenAIMealParser({ model: 'gpt-4o-mini' }));
+
+    expect(gpt4o.parser).toBe('openai/gpt-4o');
+    expect(new Set([fixture.parser, gpt4o.parser, mini.parser]).size).toBe(3);
+  });
+
+  it('should hash images deterministically', () => {
+    expect(hashImage()).toBe('');
+    expect(hashImage('data:image/jpeg;base64,AAAA')).toBe(hashImage('data:image/jpeg;base64,AAAA'));
+    expect(hashImage('data:image/jpeg;base64,AAAA')).not.toBe(hashImage('data:image/jpeg;base64,AAAB'));
+    expect(hashImage('data:image/jpeg;base64,AAAA')).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('parseMealWithCache', () => {
+  beforeEach(() => {
+    vi.stubEnv('MEAL_PARSER_PROVIDER', 'fixture');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should parse on a miss and reuse the stored items on a hit', async () => {
+    const { rows, client } = createFakeSupabase();
+    const options = { userId: 'user-1', text: '1 Large Egg', todayDate: '2026-01-29' };
+
+    const first = await parseMealWithCache(client, options);
+    expect(first.cached).toBe(false);
+    expect(rows).toHaveLength(1);
+
+    const second = await parseMealWithCache(client, options);
+    expect(second.cached).toBe(true);
+    expect(second.meal.items).toEqual(first.meal.items);
+    expect(rows[0].hit_count).toBe(1);
+  });
+
+  it('should re-parse and overwrite when bypassing the cache', async () => {
+    const { rows, client } = createFakeSupabase();
+    const options = { userId: 'user-1', text: '1 large egg', todayDate: '2026-01-29' };
+
+    await parseMealWithCache(client, options);
+    rows[0].parsed_items = [];
+
+    const result = await parseMealWithCache(client, { ...options, bypassCache: true });
+    expect(result.cached).toBe(false);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].parsed_items).toEqual(result.meal.items);
+  });
+
+  it('should not cache parses that carry an explicit date', async () => {
+    const { rows, client } = createFakeSupabase();
+
+    const result = await parseMealWithCache(client, {
+      userId: 'user-1',
+      text: 'I had a slice of pizza yesterday',
+      todayDate: '2026-01-29',
+    });
+
+    expect(result.meal.explicit_date).toBe('2026-01-28');
+    expect(rows).toHaveLength(0);
+  });
+
+  it('should keep the meal slot and time on a hit', async () => {
+    const { client } = createFakeSupabase();
+    const options = { userId: 'user-1', text: '1 medium banana as a snack at 3:30pm', todayDate: '2026-01-29' };
+
+    await parseMealWithCache(client, options);
+    const hit = await parseMealWithCache(client, options);
+
+    expect(hit.cached).toBe(true);
+    expect(hit.meal.meal_slot).toBe('snack');
+    expect(hit.meal.eaten_at).toBe('15:30');
+  });
+
+  it('should treat malformed cached rows as a miss', async () => {
+    const { rows, client } = createFakeSupabase();
+    const options = { userId: 'user-1', text: '1 large egg', todayDate: '2026-01-29' };
+
+    await parseMealWithCache(client, options);
+    rows[0].parsed_items = [{ food_name: 'egg' }];
+
+    const result = await parseMealWithCache(client, options);
+    expect(result.cached).toBe(false);
+    expect(result.meal.items[0].calories).toBe(72);
+  });
+});
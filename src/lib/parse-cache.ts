@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FoodItemSchema, type MealParser, type ParsedMeal } from '@/types/nutrition';
+import { PROMPT_VERSION, normalizeMealText } from '@/lib/meal-prompt';
+import { getMealParser, parseMealDescription } from '@/lib/meal-parser';
+import { isMealSlot, normalizeEatenAt } from '@/lib/meal-timing';
+
+/**
+ * Parse Cache
+ *
+ * Repeated descriptions ("2 eggs and toast") reuse the stored items instead of
+ * calling the meal parser again. Rows are keyed per user on the normalized
+ * text, a SHA-256 of the image (empty when there is none), PROMPT_VERSION
+ * and the parser's provider and model, so switching either re-parses.
+ *
+ * Parses with an explicit date ("pizza yesterday") are never cached, since
+ * the date is relative to the day they were parsed. Meal slot and time
+ * ("for lunch at 1pm") are stored alongside the items.
+ */
+
+const CachedItemsSchema = z.array(FoodItemSchema);
+
+export interface ParseCacheKey {
+  user_id: string;
+  normalized_text: string;
+  image_hash: string;
+  prompt_version: string;
+  parser: string;
+}
+
+/**
+ * SHA-256 digest of a base64 image data URL ('' when there is no image)
+ */
+export function hashImage(imageBase64?: string): string {
+  if (!imageBase64) return '';
+  return createHash('sha256').update(imageBase64).digest('hex');
+}
+
+/**
+ * Build the cache key for a parse request
+ */
+export function buildParseCacheKey(
+  userId: string,
+  text: string,
+  imageBase64?: string,
+  parser: MealParser = getMealParser()
+): ParseCacheKey {
+  return {
+    user_id: userId,
+    normalized_text: normalizeMealText(text),
+    image_hash: hashImage(imageBase64),
+    prompt_version: PROMPT_VERSION,
+    parser: `${parser.name}/${parser.model}`,
+  };
+}
+
+/**
+ * Parse a meal, reusing a cached result when one exists
+ * @param bypassCache - Skip the lookup and overwrite the cached result
+ */
+export async function parseMealWithCache(
+  supabase: SupabaseClient,
+  options: {
+    userId: string;
+    text: string;
+    todayDate: string;
+    imageBase64?: string;
+    bypassCache?: boolean;
+  }
+): Promise<{ meal: ParsedMeal; cached: boolean }> {
+  const parser = getMealParser();
+  const key = buildParseCacheKey(options.userId, options.text, options.imageBase64, parser);
+
+  if (!options.bypassCache) {
+    const { data: row } = await supabase
+      .from('parse_cache')
+      .select('id, parsed_items, meal_slot, eaten_at, hit_count')
+      .match(key)
+      .maybeSingle();
+
+    const items = row ? CachedItemsSchema.safeParse(row.parsed_items) : null;
+    if (row && items?.success) {
+      const { error } = await supabase
+        .from('parse_cache')
+        .update({ hit_count: row.hit_count + 1, last_used_at: new Date().toISOString() })
+        .eq('id', row.id);
+
+      if (error) {
+        console.warn('Parse cache hit update failed:', error);
+      }
+
+      return {
+        meal: {
+          items: items.data,
+          explicit_date: null,
+          meal_slot: isMealSlot(row.meal_slot) ? row.meal_slot : null,
+          eaten_at: normalizeEatenAt(row.eaten_at),
+        },
+        cached: true,
+      };
+    }
+  }
+
+  const meal = await parseMealDescription(options.text, options.todayDate, options.imageBase64, parser);
+
+  if (meal.explicit_date === null) {
+    const { error } = await supabase
+      .from('parse_cache')
+      .upsert(
+        {
+          ...key,
+          parsed_items: meal.items,
+          meal_slot: isMealSlot(meal.meal_slot) ? meal.meal_slot : null,
+          eaten_at: normalizeEatenAt(meal.eaten_at),
+          hit_count: 0,
+          last_used_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,normalized_text,image_hash,prompt_version,parser' }
+      );
+
+    if (error) {
+      // The parse itself succeeded, so a cache write failure is not fatal
+      console.warn('Parse cache write failed:', error);
+    }
+  }
+
+  return { meal, cached: false };
+}
+
+/**
+ * Remove every cached parse of this text for the user (any image, any prompt version)
+ */
+export async function invalidateParseCache(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('parse_cache')
+    .delete()
+    .eq('user_id', userId)
+    .eq('normalized_text', normalizeMealText(text))
+    .select('id');
+
+  if (error) {
+    throw new Error('Failed to clear cached parse');
+  }
+
+  return data?.length ?? 0;
+}
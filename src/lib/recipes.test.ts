@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import type { FoodItem } from '@/types/nutrition';
+import { exactFoodItem } from './entries';
+import {
+  parseRecipe,
+  recipeNutrition,
+  recipeFoodItem,
+  findRecipePortion,
+  applyRecipes,
+  type RecipeDefinition,
+} from './recipes';
+
+function ingredient(food_name: string, grams: number, calories: number, spread: number): FoodItem {
+  return {
+    ...exactFoodItem({
+      food_name,
+      grams,
+      calories,
+      protein_g: calories / 20,
+      carbs_g: 0,
+      fat_g: 0,
+      saturated_fat_g: 0,
+      unsaturated_fat_g: 0,
+      fiber_g: 0,
+      sodium_mg: 0,
+      added_sugar_g: 0,
+      assumptions: [],
+    }),
+    calories_low: calories - spread,
+    calories_high: calories + spread,
+  };
+}
+
+const ingredients = [ingredient('ground beef', 500, 1200, 120), ingredient('kidney beans', 800, 900, 60), ingredient('onion', 150, 60, 15)];
+
+function chili(yieldServings: number | null, yieldGrams: number | null): RecipeDefinition {
+  return {
+    id: 'chili',
+    name: 'Chili',
+    yield_servings: yieldServings,
+    yield_grams: yieldGrams,
+    ...recipeNutrition('Chili', ingredients, { yield_servings: yieldServings, yield_grams: yieldGrams }),
+  };
+}
+
+describe('parseRecipe', () => {
+  it('requires a yield in servings or cooked weight', () => {
+    expect(parseRecipe({ name: 'Chili', ingredients_text: 'beef' })).toEqual({
+      error: 'Enter the yield in servings or cooked weight',
+    });
+  });
+
+  it('fills defaults and trims the text', () => {
+    expect(parseRecipe({ name: ' Chili ', yield_grams: 2400 })).toEqual({
+      recipe: { name: 'Chili', ingredients_text: '', yield_servings: null, yield_grams: 2400 },
+    });
+  });
+
+  it('rejects a non-positive yield', () => {
+    expect(parseRecipe({ name: 'Chili', yield_servings: 0 })).toMatchObject({
+      error: expect.stringContaining('yield_servings'),
+    });
+  });
+});
+
+describe('recipeNutrition', () => {
+  it('divides the ingredient totals and their ranges by the servings', () => {
+    const { per_serving, per_100g } = recipeNutrition('Chili', ingredients, { yield_servings: 6, yield_grams: null });
+
+    expect(per_100g).toBeNull();
+    expect(per_serving).toMatchObject({
+      food_name: 'Chili',
+      grams: null,
+      calories: 360,
+      // 2160 ± √(120² + 60² + 15²) = 135 over 6 servings
+      calories_low: 337.5,
+      calories_high: 382.5,
+      protein_g: 18,
+    });
+  });
+
+  it('gives per-100g values and the serving weight from the cooked weight', () => {
+    const { per_serving, per_100g } = recipeNutrition('Chili', ingredients, { yield_servings: 6, yield_grams: 2400 });
+
+    expect(per_serving).toMatchObject({ grams: 400, grams_low: 400, grams_high: 400, calories: 360 });
+    expect(per_100g).toMatchObject({ grams: 100, calories: 90, calories_low: 84.38, calories_high: 95.63 });
+  });
+});
+
+describe('recipeFoodItem', () => {
+  it('scales the per-serving values for servings', () => {
+    expect(recipeFoodItem(chili(6, null), { servings: 1.5 })).toMatchObject({
+      food_name: 'Chili',
+      calories: 540,
+      calories_low: 506.25,
+      source: 'recipe',
+      recipe_id: 'chili',
+      assumptions: ['From your recipe "Chili" (1.5 of 6 servings)'],
+    });
+  });
+
+  it('scales the per-100g values for grams', () => {
+    expect(recipeFoodItem(chili(null, 2400), { grams: 350 })).toMatchObject({
+      grams: 350,
+      calories: 315,
+      assumptions: ['From your recipe "Chili" (350 g)'],
+    });
+  });
+
+  it('returns null when the yield can\'t express the portion', () => {
+    expect(recipeFoodItem(chili(6, null), { grams: 350 })).toBeNull();
+    expect(recipeFoodItem(chili(null, 2400), { servings: 1 })).toBeNull();
+  });
+});
+
+describe('findRecipePortion', () => {
+  const recipes = [chili(6, 2400), { ...chili(4, null), id: 'white', name: 'White chili' }];
+
+  it('reads a portion that is the whole description', () => {
+    expect(findRecipePortion('1.5 servings of Chili', recipes)).toMatchObject({ recipe: { id: 'chili' }, quantity: { servings: 1.5 } });
+    expect(findRecipePortion('350g of my chili.', recipes)).toMatchObject({ quantity: { grams: 350 } });
+    expect(findRecipePortion('chili', recipes)).toMatchObject({ quantity: { servings: 1 } });
+    expect(findRecipePortion('2 white chilis', recipes)).toMatchObject({ recipe: { id: 'white' }, quantity: { servings: 2 } });
+  });
+
+  it('ignores descriptions with anything else in them', () => {
+    expect(findRecipePortion('chili and cornbread', recipes)).toBeNull();
+    expect(findRecipePortion('cornbread with chili', recipes)).toBeNull();
+    expect(findRecipePortion('hot chili', [chili(6, null)])).toBeNull();
+  });
+});
+
+describe('applyRecipes', () => {
+  it('replaces the parsed estimate of a mentioned recipe', () => {
+    const parsed = [ingredient('Beef chili', 400, 450, 100), ingredient('Cornbread', 60, 190, 30)];
+    const result = applyRecipes('2 servings of chili and cornbread', parsed, [chili(6, null)]);
+
+    expect(result.map((item) => [item.food_name, item.calories])).toEqual([['Chili', 720], ['Cornbread', 190]]);
+  });
+
+  it('leaves the estimate when the recipe can\'t give the portion', () => {
+    const parsed = [ingredient('Beef chili', 400, 450, 100)];
+
+    expect(applyRecipes('400g chili', parsed, [chili(6, null)])).toEqual(parsed);
+  });
+});
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FoodItemSchema, type FoodItem, type SourcedFoodItem } from '@/types/nutrition';
+import { scaleFoodItem, sumFoodItems } from '@/lib/entries';
+import { parseMealWithCache } from '@/lib/parse-cache';
+import { parseManualItems } from '@/lib/manual-entry';
+import { groundFoodItems } from '@/lib/reference-foods';
+import { getTodayInTimezone } from '@/lib/date-resolution';
+import {
+  applyCustomFoods,
+  listCustomFoods,
+  quantityPhrase,
+  substituteMentionedFoods,
+  type CustomFoodQuantity,
+} from '@/lib/custom-foods';
+
+/**
+ * Recipes
+ *
+ * Batch-cooked dishes eaten a portion at a time. The ingredient lines are
+ * parsed once through the meal parser (or entered manually), totalled with
+ * their ranges and divided by the yield: a number of servings and/or the
+ * cooked weight of the batch. Entries then log a portion by name
+ * ("1.5 servings of chili", "350 g of chili") without estimating the dish.
+ */
+
+export const RECIPE_COLUMNS =
+  'id, name, ingredients_text, ingredients, yield_servings, yield_grams, per_serving, per_100g, created_at, updated_at';
+
+export const MAX_RECIPE_NAME_LENGTH = 100;
+export const MAX_INGREDIENTS_TEXT_LENGTH = 5000;
+
+export const RecipeSchema = z
+  .object({
+    name: z.string().trim().min(1).max(MAX_RECIPE_NAME_LENGTH),
+    ingredients_text: z.string().trim().max(MAX_INGREDIENTS_TEXT_LENGTH).default(''),
+    yield_servings: z.number().finite().positive().nullable().default(null),
+    yield_grams: z.number().finite().positive().nullable().default(null),
+  })
+  .refine((recipe) => recipe.yield_servings !== null || recipe.yield_grams !== null, {
+    message: 'Enter the yield in servings or cooked weight',
+  });
+
+export type RecipeInput = z.infer<typeof RecipeSchema>;
+
+export const RecipeIngredientsSchema = z.array(FoodItemSchema).min(1);
+
+export type RecipeYield = Pick<RecipeInput, 'yield_servings' | 'yield_grams'>;
+
+export interface RecipeNutrition {
+  per_serving: FoodItem | null;
+  per_100g: FoodItem | null;
+}
+
+export interface RecipeDefinition extends RecipeYield, RecipeNutrition {
+  id: string;
+  name: string;
+}
+
+export interface RecipePortion {
+  recipe: RecipeDefinition;
+  quantity: CustomFoodQuantity;
+}
+
+/**
+ * Validate a recipe's name, ingredient text and yield from a request body.
+ * Returns an error message for invalid input.
+ */
+export function parseRecipe(input: unknown): { recipe: RecipeInput } | { error: string } {
+  const parsed = RecipeSchema.safeParse(input);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return { error: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message };
+  }
+  return { recipe: parsed.data };
+}
+
+/**
+ * Parse ingredient lines through the meal parser (cached like any
+ * description), with the user's custom foods and reference grounding applied
+ */
+export async function parseIngredients(
+  supabase: SupabaseClient,
+  userId: string,
+  text: string
+): Promise<SourcedFoodItem[]> {
+  const { data: settings } = await supabase
+    .from('user_settings')
+    .select('timezone')
+    .eq('id', userId)
+    .single();
+
+  const { meal } = await parseMealWithCache(supabase, {
+    userId,
+    text,
+    todayDate: getTodayInTimezone(settings?.timezone || 'America/New_York'),
+  });
+  const customFoods = await listCustomFoods(supabase, userId);
+  return groundFoodItems(applyCustomFoods(text, meal.items, customFoods));
+}
+
+/**
+ * A recipe's ingredients: manual_ingredients as typed when given, else the
+ * parsed ingredient text. Returns an error message when there are none.
+ */
+export async function resolveIngredients(
+  supabase: SupabaseClient,
+  userId: string,
+  ingredientsText: string,
+  manualIngredients: unknown
+): Promise<{ ingredients: SourcedFoodItem[] } | { error: string }> {
+  if (manualIngredients !== undefined) {
+    const manual = parseManualItems(manualIngredients);
+    return 'error' in manual ? manual : { ingredients: manual.items };
+  }
+  if (ingredientsText === '') {
+    return { error: 'Enter the ingredients' };
+  }
+
+  const ingredients = await parseIngredients(supabase, userId, ingredientsText);
+  return ingredients.length > 0 ? { ingredients } : { error: 'No ingredients were recognized in the text' };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Nutrition per serving and per 100 g of cooked dish (each null when the
+ * yield doesn't give it). Ranges combine the ingredient ranges as
+ * independent estimates.
+ */
+export function recipeNutrition(name: string, ingredients: FoodItem[], recipeYield: RecipeYield): RecipeNutrition {
+  const total = sumFoodItems(name, ingredients);
+  const { yield_servings: servings, yield_grams: grams } = recipeYield;
+
+  // The summed ingredient weights are raw; only the cooked weight says what a portion weighs
+  const withGrams = (item: FoodItem, value: number | null): FoodItem => ({
+    ...item,
+    grams: value,
+    grams_low: value,
+    grams_high: value,
+  });
+
+  return {
+    per_serving: servings
+      ? withGrams(scaleFoodItem(total, 1 / servings), grams ? round2(grams / servings) : null)
+      : null,
+    per_100g: grams ? withGrams(scaleFoodItem(total, 100 / grams), 100) : null,
+  };
+}
+
+/**
+ * The user's recipes with their stored nutrition. Rows that fail validation
+ * are skipped, and a failed lookup returns none.
+ */
+export async function listRecipes(supabase: SupabaseClient, userId: string): Promise<RecipeDefinition[]> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select('id, name, yield_servings, yield_grams, per_serving, per_100g')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Recipes fetch error:', error);
+    return [];
+  }
+
+  const nutrition = FoodItemSchema.nullable();
+  return (data || []).flatMap((row) => {
+    const perServing = nutrition.safeParse(row.per_serving);
+    const per100g = nutrition.safeParse(row.per_100g);
+    if (!perServing.success || !per100g.success) return [];
+    return [{
+      id: row.id as string,
+      name: row.name as string,
+      yield_servings: row.yield_servings === null ? null : Number(row.yield_servings),
+      yield_grams: row.yield_grams === null ? null : Number(row.yield_grams),
+      per_serving: perServing.data,
+      per_100g: per100g.data,
+    }];
+  });
+}
+
+function describePortion(recipe: RecipeDefinition, quantity: CustomFoodQuantity): string {
+  if ('grams' in quantity) return `${quantity.grams} g`;
+  return `${quantity.servings} of ${recipe.yield_servings} servings`;
+}
+
+/**
+ * A food item for a portion of a recipe, or null when the yield can't express
+ * it (grams of a recipe without a cooked weight, servings of one without a
+ * serving count)
+ */
+export function recipeFoodItem(recipe: RecipeDefinition, quantity: CustomFoodQuantity): SourcedFoodItem | null {
+  const item = 'grams' in quantity
+    ? recipe.per_100g && scaleFoodItem(recipe.per_100g, quantity.grams / 100)
+    : recipe.per_serving && scaleFoodItem(recipe.per_serving, quantity.servings);
+  if (!item) return null;
+
+  return {
+    ...item,
+    food_name: recipe.name,
+    assumptions: [`From your recipe "${recipe.name}" (${describePortion(recipe, quantity)})`],
+    source: 'recipe',
+    recipe_id: recipe.id,
+  };
+}
+
+/**
+ * The recipe portion a description consists of, if it is nothing else
+ * ("chili", "1.5 servings of chili", "350g of my chili"); such entries are
+ * logged without calling the parser
+ */
+export function findRecipePortion(text: string, recipes: RecipeDefinition[]): RecipePortion | null {
+  const description = text.trim().toLowerCase().replace(/[.!]+$/, '');
+  const byLength = [...recipes].sort((a, b) => b.name.length - a.name.length);
+
+  for (const recipe of byLength) {
+    const name = recipe.name.toLowerCase();
+    for (const suffix of ['', 's', 'es']) {
+      if (!description.endsWith(name + suffix)) continue;
+      const before = description.slice(0, description.length - name.length - suffix.length);
+      if (/[\p{L}\p{N}]$/u.test(before)) continue;
+
+      const quantity = quantityPhrase(before);
+      if (quantity) return { recipe, quantity };
+    }
+  }
+  return null;
+}
+
+/**
+ * Replace the parser's estimates for recipes mentioned in the text with
+ * portions of their stored nutrition
+ */
+export function applyRecipes(text: string, items: SourcedFoodItem[], recipes: RecipeDefinition[]): SourcedFoodItem[] {
+  return substituteMentionedFoods(
+    text,
+    items,
+    recipes.map((recipe) => ({ ...recipe, aliases: [] })),
+    (recipe, quantity) => recipeFoodItem(recipe, quantity)
+  );
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  REFERENCE_FOODS,
+  foodNameTokens,
+  groundFoodItem,
+  matchReferenceFood,
+  referenceDisagreement,
+  searchReferenceFoods,
+} from './reference-foods';
+import { ParsedMealSchema } from '@/types/nutrition';
+import recordedMeals from './fixtures/meals.json';
+
+const egg = ParsedMealSchema.parse(recordedMeals['1 large egg']).items[0];
+const wrap = ParsedMealSchema.parse(recordedMeals['starbucks spinach feta egg white wrap']).items[0];
+
+describe('reference food table', () => {
+  it('should have unique ids and consistent fat breakdowns', () => {
+    expect(new Set(REFERENCE_FOODS.map((food) => food.id)).size).toBe(REFERENCE_FOODS.length);
+    for (const food of REFERENCE_FOODS) {
+      const { fat_g, saturated_fat_g, unsaturated_fat_g } = food.per_100g;
+      expect(saturated_fat_g + unsaturated_fat_g, food.id).toBeLessThanOrEqual(fat_g + 0.01);
+    }
+  });
+});
+
+describe('foodNameTokens', () => {
+  it('should drop portion words and plurals', () => {
+    expect(foodNameTokens('2 Large Eggs, scrambled')).toEqual(['2', 'egg', 'scrambled']);
+    expect(foodNameTokens('Blueberries')).toEqual(['blueberry']);
+  });
+});
+
+describe('matchReferenceFood', () => {
+  it('should match names and aliases regardless of portion words', () => {
+    expect(matchReferenceFood('large egg')?.food.id).toBe('egg-whole-raw');
+    expect(matchReferenceFood('grilled chicken breast')?.food.id).toBe('chicken-breast-roasted');
+    expect(matchReferenceFood('Cooked White Rice')?.food.id).toBe('rice-white-cooked');
+  });
+
+  it('should not match a dish that only contains a reference food', () => {
+    expect(matchReferenceFood('grilled chicken sandwich')).toBeNull();
+    expect(matchReferenceFood('scrambled eggs')).toBeNull();
+    expect(matchReferenceFood(wrap.food_name)).toBeNull();
+  });
+});
+
+describe('searchReferenceFoods', () => {
+  it('should rank partial matches, best first', () => {
+    const results = searchReferenceFoods('chicken', 5);
+
+    expect(results.length).toBeGreaterThan(1);
+    expect(results.every((r) => r.food.description.toLowerCase().includes('chicken'))).toBe(true);
+    expect(results[0].score).toBeGreaterThanOrEqual(results[1].score);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchReferenceFoods('  ')).toEqual([]);
+  });
+});
+
+describe('groundFoodItem', () => {
+  it('should recompute nutrients and ranges from grams for a matched food', () => {
+    const item = { ...egg, grams: 100, grams_low: 80, grams_high: 120, calories: 300 };
+    const grounded = groundFoodItem(item);
+
+    expect(grounded).toMatchObject({
+      source: 'reference',
+      reference_food_id: 'egg-whole-raw',
+      calories: 143,
+      calories_low: 114,
+      calories_high: 172,
+      protein_g: 12.6,
+      sodium_mg: 142,
+    });
+    expect(grounded.assumptions.at(-1)).toBe('Nutrients from USDA reference: Egg, whole, raw, fresh');
+  });
+
+  it('should keep estimates without a weight or a match', () => {
+    expect(groundFoodItem({ ...egg, grams: null, grams_low: null, grams_high: null })).toMatchObject({
+      source: 'estimate',
+      calories: egg.calories,
+    });
+    expect(groundFoodItem(wrap)).toMatchObject({ source: 'estimate', calories: wrap.calories });
+  });
+});
+
+describe('referenceDisagreement', () => {
+  it('should stay quiet when the estimate is close to the reference', () => {
+    expect(referenceDisagreement(egg)).toBeNull();
+  });
+
+  it('should report calories far from the reference', () => {
+    expect(referenceDisagreement({ ...egg, calories: 200 })).toBe(
+      'large egg: 200 kcal estimated but 72 kcal expected for 50g of Egg, whole, raw, fresh'
+    );
+  });
+
+  it('should ignore small absolute gaps', () => {
+    expect(referenceDisagreement({ ...egg, grams: 10, calories: 40 })).toBeNull();
+  });
+});
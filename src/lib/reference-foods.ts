@@ -0,0 +1,191 @@
+import type { FoodItem, SourcedFoodItem } from '@/types/nutrition';
+import referenceFoods from '@/lib/data/reference-foods.json';
+import { NUTRIENTS, type NutrientField, type OptionalNutrientField } from '@/lib/nutrients';
+
+/**
+ * Reference Foods
+ *
+ * A small bundled food composition table (per 100 g, values from the USDA
+ * FoodData Central SR Legacy descriptions they're named after) used to ground
+ * the parser's estimates. When a parsed food_name confidently matches a
+ * reference food and the item has a weight, its nutrients are recomputed from
+ * grams instead of trusting the model's numbers. The grams range carries over
+ * into the nutrient ranges. Nutrients the table doesn't list for a food keep
+ * the parser's estimate.
+ */
+
+export interface ReferenceFood {
+  id: string;
+  description: string;
+  aliases: string[];
+  per_100g: Record<Exclude<NutrientField, OptionalNutrientField>, number> & Partial<Record<OptionalNutrientField, number>>;
+}
+
+export interface ReferenceMatch {
+  food: ReferenceFood;
+  score: number;
+}
+
+export const REFERENCE_FOODS: readonly ReferenceFood[] = referenceFoods;
+
+// Below this a match is only good enough for search results, not for
+// replacing the parser's numbers
+export const CONFIDENT_MATCH_SCORE = 0.8;
+
+// Calorie gap (relative and absolute) between an estimate and its reference
+// food that validateParsedMeal reports
+export const DISAGREEMENT_RATIO = 0.3;
+export const DISAGREEMENT_MIN_CALORIES = 40;
+
+// Words that describe the portion rather than the food
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'fresh', 'plain', 'regular', 'large', 'medium', 'small',
+  'piece', 'slice', 'serving', 'cup', 'bowl', 'homemade',
+]);
+
+function singular(word: string): string {
+  if (word.length > 3 && word.endsWith('ies')) return word.slice(0, -3) + 'y';
+  if (word.length > 3 && word.endsWith('es') && /(ch|sh|x|o)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Lowercased, singular tokens of a food name without portion words
+ */
+export function foodNameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .split(' ')
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .map(singular);
+}
+
+// Dice coefficient of the two token sets: 1 for the same words, 0 for none shared
+function tokenScore(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const shared = [...setA].filter((token) => setB.has(token)).length;
+  return (2 * shared) / (setA.size + setB.size);
+}
+
+/**
+ * How alike two food names are (0-1), ignoring portion words and plurals
+ */
+export function foodNameSimilarity(a: string, b: string): number {
+  return tokenScore(foodNameTokens(a), foodNameTokens(b));
+}
+
+function foodNames(food: ReferenceFood): string[][] {
+  return [food.description, ...food.aliases].map(foodNameTokens);
+}
+
+function scoreFood(tokens: string[], food: ReferenceFood): number {
+  return Math.max(...foodNames(food).map((name) => tokenScore(tokens, name)));
+}
+
+/**
+ * Reference foods matching a query, best first
+ */
+export function searchReferenceFoods(query: string, limit = 10): ReferenceMatch[] {
+  const tokens = foodNameTokens(query);
+  if (tokens.length === 0) return [];
+
+  return REFERENCE_FOODS
+    .map((food) => ({ food, score: scoreFood(tokens, food) }))
+    .filter((match) => match.score > 0)
+    .sort((a, b) => b.score - a.score || a.food.description.localeCompare(b.food.description))
+    .slice(0, limit);
+}
+
+/**
+ * The reference food a parsed food_name refers to, if the match is confident:
+ * one of the food's names must contain every word of food_name ("grilled
+ * chicken sandwich" is not "grilled chicken") and score at least
+ * CONFIDENT_MATCH_SCORE
+ */
+export function matchReferenceFood(foodName: string): ReferenceMatch | null {
+  const tokens = foodNameTokens(foodName);
+  if (tokens.length === 0) return null;
+
+  let best: ReferenceMatch | null = null;
+  for (const food of REFERENCE_FOODS) {
+    for (const name of foodNames(food)) {
+      if (!tokens.every((token) => name.includes(token))) continue;
+      const score = tokenScore(tokens, name);
+      if (score >= CONFIDENT_MATCH_SCORE && (!best || score > best.score)) {
+        best = { food, score };
+      }
+    }
+  }
+  return best;
+}
+
+function amountFor(per100g: number, grams: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(((per100g * grams) / 100) * factor) / factor;
+}
+
+/**
+ * Recompute an item's nutrients from grams when its name confidently matches
+ * a reference food. Items without a weight, or without a match, are returned
+ * as estimates; items that already have exact values are left alone.
+ */
+export function groundFoodItem(item: SourcedFoodItem): SourcedFoodItem {
+  if (item.source && item.source !== 'estimate') return item;
+
+  const match = item.grams !== null && item.grams > 0 ? matchReferenceFood(item.food_name) : null;
+  if (!match || item.grams === null) {
+    return { ...item, source: 'estimate', reference_food_id: null };
+  }
+
+  const { food } = match;
+  const grams = item.grams;
+  const gramsLow = item.grams_low ?? grams;
+  const gramsHigh = item.grams_high ?? grams;
+  const grounded: SourcedFoodItem = {
+    ...item,
+    assumptions: [...item.assumptions, `Nutrients from USDA reference: ${food.description}`],
+    source: 'reference',
+    reference_food_id: food.id,
+  };
+
+  for (const { field, low, high, decimals } of NUTRIENTS) {
+    const per100g = food.per_100g[field];
+    if (per100g === undefined) continue;
+    const value = amountFor(per100g, grams, decimals);
+    Object.assign(grounded, {
+      [field]: value,
+      [low]: Math.min(amountFor(per100g, gramsLow, decimals), value),
+      [high]: Math.max(amountFor(per100g, gramsHigh, decimals), value),
+    });
+  }
+
+  return grounded;
+}
+
+/**
+ * Ground every item of a parsed meal
+ */
+export function groundFoodItems(items: SourcedFoodItem[]): SourcedFoodItem[] {
+  return items.map(groundFoodItem);
+}
+
+/**
+ * A warning when the parser's calories are far from what the matched
+ * reference food gives for the same weight (null when they agree or there is
+ * nothing to compare)
+ */
+export function referenceDisagreement(item: FoodItem): string | null {
+  if (item.grams === null || item.grams <= 0) return null;
+  const match = matchReferenceFood(item.food_name);
+  if (!match) return null;
+
+  const expected = amountFor(match.food.per_100g.calories, item.grams, 0);
+  const gap = Math.abs(item.calories - expected);
+  if (gap < DISAGREEMENT_MIN_CALORIES || gap <= expected * DISAGREEMENT_RATIO) return null;
+
+  return `${item.food_name}: ${Math.round(item.calories)} kcal estimated but ${expected} kcal expected for ${Math.round(item.grams)}g of ${match.food.description}`;
+}
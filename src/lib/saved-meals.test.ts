@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { isValidServings, logSavedMeal, savedMealRawText, snapshotItems } from './saved-meals';
+import recordedMeals from './fixtures/meals.json';
+
+const egg = recordedMeals['1 large egg'].items[0];
+
+describe('snapshotItems', () => {
+  it('should drop row ids, entry links and override flags', () => {
+    const row = { ...egg, id: 'item-1', entry_id: 'entry-1', has_override: true, override_fields: ['calories'] };
+    const [item] = snapshotItems([row]);
+
+    expect(item).toEqual(egg);
+    expect(item).not.toHaveProperty('id');
+    expect(item).not.toHaveProperty('has_override');
+  });
+});
+
+describe('isValidServings', () => {
+  it('should accept quarter servings up to 20', () => {
+    expect(isValidServings(1)).toBe(true);
+    expect(isValidServings(0.25)).toBe(true);
+    expect(isValidServings(20)).toBe(true);
+    expect(isValidServings(0)).toBe(false);
+    expect(isValidServings(21)).toBe(false);
+    expect(isValidServings('2')).toBe(false);
+  });
+});
+
+describe('savedMealRawText', () => {
+  it('should prefix the servings when not 1', () => {
+    expect(savedMealRawText('Usual breakfast', 1)).toBe('Usual breakfast');
+    expect(savedMealRawText('Usual breakfast', 1.5)).toBe('1.5 × Usual breakfast');
+  });
+});
+
+describe('logSavedMeal', () => {
+  function fakeSupabase() {
+    const rpc = vi.fn(async (fn: string, args: { p_entry?: object }) =>
+      fn === 'create_entry_with_items'
+        ? { data: { id: 'entry-1', ...args.p_entry }, error: null }
+        : { data: null, error: null }
+    );
+    return { rpc, client: { rpc } as unknown as SupabaseClient };
+  }
+
+  const meal = { id: 'meal-1', name: 'Egg breakfast', items: [egg] };
+
+  it('should log scaled items onto the date without parsing', async () => {
+    const { rpc, client } = fakeSupabase();
+
+    const entry = await logSavedMeal(client, 'user-1', meal, '2026-02-01', 2);
+
+    expect(entry.resolved_date).toBe('2026-02-01');
+    expect(entry.raw_text).toBe('2 × Egg breakfast');
+    const [, args] = rpc.mock.calls[0] as unknown as [string, { p_items: { calories: number }[] }];
+    expect(args.p_items[0].calories).toBeCloseTo(egg.calories * 2, 2);
+  });
+
+  it('should count the use', async () => {
+    const { rpc, client } = fakeSupabase();
+
+    await logSavedMeal(client, 'user-1', meal, '2026-02-01', 1);
+
+    expect(rpc).toHaveBeenCalledWith('record_saved_meal_use', { p_meal_id: 'meal-1', p_user_id: 'user-1' });
+  });
+});
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { FoodItemSchema, type FoodItem } from '@/types/nutrition';
+import type { Entry } from '@/types/database';
+import { createEntryWithItems, scaleFoodItem, toEntryItemRow } from '@/lib/entries';
+
+/**
+ * Saved meals: named snapshots of an entry's items that can be logged again
+ * on any date, scaled by a serving multiplier, without calling the parser.
+ */
+
+export const SAVED_MEAL_COLUMNS = 'id, name, items, use_count, last_used_at, created_at, updated_at';
+
+export const MAX_SAVED_MEAL_NAME_LENGTH = 100;
+export const MIN_SERVINGS = 0.25;
+export const MAX_SERVINGS = 20;
+
+export const SavedMealItemsSchema = z.array(FoodItemSchema).min(1);
+
+export interface SavedMealTemplate {
+  id: string;
+  name: string;
+  items: FoodItem[];
+}
+
+/**
+ * Copy entry_items rows into a template, dropping ids, entry links and
+ * override flags (a logged copy starts out unedited)
+ */
+export function snapshotItems(rows: FoodItem[]): FoodItem[] {
+  return rows.map((row) => toEntryItemRow(row));
+}
+
+export function isValidServings(servings: unknown): servings is number {
+  return typeof servings === 'number' && Number.isFinite(servings) && servings >= MIN_SERVINGS && servings <= MAX_SERVINGS;
+}
+
+/**
+ * Entry text for a logged template: "Oatmeal breakfast" or "2 × Oatmeal breakfast"
+ */
+export function savedMealRawText(name: string, servings: number): string {
+  return servings === 1 ? name : `${servings} × ${name}`;
+}
+
+/**
+ * Log a saved meal onto a date and bump its usage count
+ */
+export async function logSavedMeal(
+  supabase: SupabaseClient,
+  userId: string,
+  meal: SavedMealTemplate,
+  date: string,
+  servings: number
+): Promise<Entry> {
+  const items = meal.items.map((item) => toEntryItemRow(servings === 1 ? item : scaleFoodItem(item, servings)));
+
+  const entry = await createEntryWithItems(
+    supabase,
+    {
+      user_id: userId,
+      raw_text: savedMealRawText(meal.name, servings),
+      resolved_date: date,
+      explicit_date_in_text: false,
+    },
+    items
+  );
+
+  const { error } = await supabase.rpc('record_saved_meal_use', {
+    p_meal_id: meal.id,
+    p_user_id: userId,
+  });
+
+  // The entry is already logged; a stale count isn't worth failing the request
+  if (error) console.error('Saved meal usage update error:', error);
+
+  return entry;
+}
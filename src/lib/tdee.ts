@@ -1,5 +1,12 @@
 import type { TDEECalculation, ActivityLevelOption } from '@/types/nutrition';
 import type { UserSettings } from '@/types/database';
+import {
+  goalFromSettings,
+  calorieAdjustment,
+  applyCalorieFloor,
+  calculateMacroTargets,
+  type GoalColumns,
+} from '@/lib/goals';
 
 /**
  * TDEE Calculator using Mifflin-St Jeor equation
@@ -40,6 +47,7 @@ export function calculateBMR(
 
 /**
  * Calculate TDEE from BMR and activity level
+ * calorieAdjustment is added to TDEE (negative = deficit, positive = surplus).
  */
 export function calculateTDEE(
   bmr: number,
@@ -48,15 +56,15 @@ export function calculateTDEE(
   activityMultiplier: number,
   activityMultiplierLow: number,
   activityMultiplierHigh: number,
-  calorieDeficit: number
-): TDEECalculation & { protein_target_g: number } {
+  calorieAdjustment: number
+): Omit<TDEECalculation, 'protein_target_g' | 'fat_target_g' | 'carbs_target_g' | 'goal_warnings'> {
   const tdee = Math.round(bmr * activityMultiplier);
   const tdeeLow = Math.round(bmrLow * activityMultiplierLow);
   const tdeeHigh = Math.round(bmrHigh * activityMultiplierHigh);
 
-  const targetCalories = Math.round(tdee - calorieDeficit);
-  const targetCaloriesLow = Math.round(tdeeLow - calorieDeficit);
-  const targetCaloriesHigh = Math.round(tdeeHigh - calorieDeficit);
+  const targetCalories = Math.round(tdee + calorieAdjustment);
+  const targetCaloriesLow = Math.round(tdeeLow + calorieAdjustment);
+  const targetCaloriesHigh = Math.round(tdeeHigh + calorieAdjustment);
 
   return {
     bmr,
@@ -68,16 +76,20 @@ export function calculateTDEE(
     target_calories: targetCalories,
     target_calories_low: targetCaloriesLow,
     target_calories_high: targetCaloriesHigh,
-    protein_target_g: 0, // Will be set separately based on weight
+    calorie_adjustment: calorieAdjustment,
   };
 }
 
 /**
  * Calculate full TDEE from user settings and activity level
+ * The goal columns decide the calorie adjustment and macro targets
+ * (see lib/goals); today (the user's date, in their timezone) is used for
+ * target-date goals.
  */
 export function calculateFullTDEE(
-  settings: Pick<UserSettings, 'weight_kg' | 'height_cm' | 'age_years' | 'sex' | 'calorie_deficit'>,
-  activityLevel: ActivityLevelOption
+  settings: Pick<UserSettings, 'weight_kg' | 'height_cm' | 'age_years' | 'sex'> & Partial<GoalColumns>,
+  activityLevel: ActivityLevelOption,
+  today: string
 ): TDEECalculation | null {
   if (!settings.weight_kg || !settings.height_cm || !settings.age_years || !settings.sex) {
     return null;
@@ -90,6 +102,9 @@ export function calculateFullTDEE(
     settings.sex
   );
 
+  const goal = goalFromSettings(settings);
+  const { adjustment, warnings } = calorieAdjustment(goal, settings.weight_kg, today);
+
   const tdeeCalc = calculateTDEE(
     bmr,
     bmr_low,
@@ -97,15 +112,28 @@ export function calculateFullTDEE(
     activityLevel.multiplier,
     activityLevel.multiplier_low,
     activityLevel.multiplier_high,
-    settings.calorie_deficit
+    adjustment
   );
 
-  // Protein target: 1.6g per kg of body weight
-  const proteinTarget = Math.round(settings.weight_kg * 1.6);
+  const floored = applyCalorieFloor(tdeeCalc.target_calories, settings.sex);
+  if (floored.floored) {
+    warnings.push(`Calorie target raised to the ${floored.target} kcal/day minimum.`);
+  }
+  const targetCalories = floored.target;
+  const targetCaloriesLow = applyCalorieFloor(tdeeCalc.target_calories_low, settings.sex).target;
+  const targetCaloriesHigh = applyCalorieFloor(tdeeCalc.target_calories_high, settings.sex).target;
+
+  const macros = calculateMacroTargets(goal, targetCalories, settings.weight_kg);
 
   return {
     ...tdeeCalc,
-    protein_target_g: proteinTarget,
+    target_calories: targetCalories,
+    target_calories_low: targetCaloriesLow,
+    target_calories_high: targetCaloriesHigh,
+    protein_target_g: macros.protein_g,
+    fat_target_g: macros.fat_g,
+    carbs_target_g: macros.carbs_g,
+    goal_warnings: [...warnings, ...macros.warnings],
   };
 }
 
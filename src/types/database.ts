@@ -20,7 +20,19 @@ export interface Database {
           age_years: number | null;
           sex: 'male' | 'female' | null;
           calorie_deficit: number;
+          goal_type: 'lose' | 'maintain' | 'gain' | null;
+          target_weight_kg: number | null;
+          target_date: string | null;
+          protein_target_mode: 'g_per_kg' | 'percent';
+          protein_target_value: number;
+          fat_target_mode: 'g_per_kg' | 'percent';
+          fat_target_value: number;
+          carb_target_mode: 'g_per_kg' | 'percent' | 'remainder';
+          carb_target_value: number | null;
           timezone: string;
+          dashboard_nutrients: string[] | null;
+          complete_day_min_entries: number;
+          complete_day_min_calories: number;
           created_at: string;
           updated_at: string;
         };
@@ -34,7 +46,19 @@ export interface Database {
           age_years?: number | null;
           sex?: 'male' | 'female' | null;
           calorie_deficit?: number;
+          goal_type?: 'lose' | 'maintain' | 'gain' | null;
+          target_weight_kg?: number | null;
+          target_date?: string | null;
+          protein_target_mode?: 'g_per_kg' | 'percent';
+          protein_target_value?: number;
+          fat_target_mode?: 'g_per_kg' | 'percent';
+          fat_target_value?: number;
+          carb_target_mode?: 'g_per_kg' | 'percent' | 'remainder';
+          carb_target_value?: number | null;
           timezone?: string;
+          dashboard_nutrients?: string[] | null;
+          complete_day_min_entries?: number;
+          complete_day_min_calories?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -48,7 +72,19 @@ export interface Database {
           age_years?: number | null;
           sex?: 'male' | 'female' | null;
           calorie_deficit?: number;
+          goal_type?: 'lose' | 'maintain' | 'gain' | null;
+          target_weight_kg?: number | null;
+          target_date?: string | null;
+          protein_target_mode?: 'g_per_kg' | 'percent';
+          protein_target_value?: number;
+          fat_target_mode?: 'g_per_kg' | 'percent';
+          fat_target_value?: number;
+          carb_target_mode?: 'g_per_kg' | 'percent' | 'remainder';
+          carb_target_value?: number | null;
           timezone?: string;
+          dashboard_nutrients?: string[] | null;
+          complete_day_min_entries?: number;
+          complete_day_min_calories?: number;
           created_at?: string;
           updated_at?: string;
         };
@@ -105,6 +141,35 @@ export interface Database {
           updated_at?: string;
         };
       };
+      import_batches: {
+        Row: {
+          id: string;
+          user_id: string;
+          source: 'myfitnesspal' | 'cronometer' | 'loseit';
+          filename: string | null;
+          entry_count: number;
+          item_count: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          source: 'myfitnesspal' | 'cronometer' | 'loseit';
+          filename?: string | null;
+          entry_count?: number;
+          item_count?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          source?: 'myfitnesspal' | 'cronometer' | 'loseit';
+          filename?: string | null;
+          entry_count?: number;
+          item_count?: number;
+          created_at?: string;
+        };
+      };
       entries: {
         Row: {
           id: string;
@@ -113,6 +178,10 @@ export interface Database {
           created_at: string;
           resolved_date: string;
           explicit_date_in_text: boolean;
+          import_batch_id: string | null;
+          copied_from_entry_id: string | null;
+          meal_slot: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null;
+          eaten_at: string | null;
         };
         Insert: {
           id?: string;
@@ -121,6 +190,10 @@ export interface Database {
           created_at?: string;
           resolved_date: string;
           explicit_date_in_text?: boolean;
+          import_batch_id?: string | null;
+          copied_from_entry_id?: string | null;
+          meal_slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null;
+          eaten_at?: string | null;
         };
         Update: {
           id?: string;
@@ -129,6 +202,10 @@ export interface Database {
           created_at?: string;
           resolved_date?: string;
           explicit_date_in_text?: boolean;
+          import_batch_id?: string | null;
+          copied_from_entry_id?: string | null;
+          meal_slot?: 'breakfast' | 'lunch' | 'dinner' | 'snack' | null;
+          eaten_at?: string | null;
         };
       };
       entry_items: {
@@ -163,10 +240,38 @@ export interface Database {
           sodium_mg: number;
           sodium_low: number;
           sodium_high: number;
-          sugar_g: number;
-          sugar_low: number;
-          sugar_high: number;
+          added_sugar_g: number;
+          added_sugar_low: number;
+          added_sugar_high: number;
+          total_sugar_g: number;
+          total_sugar_low: number;
+          total_sugar_high: number;
+          potassium_mg: number;
+          potassium_low: number;
+          potassium_high: number;
+          calcium_mg: number;
+          calcium_low: number;
+          calcium_high: number;
+          iron_mg: number;
+          iron_low: number;
+          iron_high: number;
+          vitamin_d_mcg: number;
+          vitamin_d_low: number;
+          vitamin_d_high: number;
+          cholesterol_mg: number;
+          cholesterol_low: number;
+          cholesterol_high: number;
+          caffeine_mg: number;
+          caffeine_low: number;
+          caffeine_high: number;
+          alcohol_g: number;
+          alcohol_low: number;
+          alcohol_high: number;
           assumptions: Json;
+          source: 'estimate' | 'reference' | 'manual' | 'custom' | 'recipe';
+          reference_food_id: string | null;
+          custom_food_id: string | null;
+          recipe_id: string | null;
           has_override: boolean;
           override_fields: Json | null;
           created_at: string;
@@ -203,10 +308,38 @@ export interface Database {
           sodium_mg?: number;
           sodium_low?: number;
           sodium_high?: number;
-          sugar_g?: number;
-          sugar_low?: number;
-          sugar_high?: number;
+          added_sugar_g?: number;
+          added_sugar_low?: number;
+          added_sugar_high?: number;
+          total_sugar_g?: number;
+          total_sugar_low?: number;
+          total_sugar_high?: number;
+          potassium_mg?: number;
+          potassium_low?: number;
+          potassium_high?: number;
+          calcium_mg?: number;
+          calcium_low?: number;
+          calcium_high?: number;
+          iron_mg?: number;
+          iron_low?: number;
+          iron_high?: number;
+          vitamin_d_mcg?: number;
+          vitamin_d_low?: number;
+          vitamin_d_high?: number;
+          cholesterol_mg?: number;
+          cholesterol_low?: number;
+          cholesterol_high?: number;
+          caffeine_mg?: number;
+          caffeine_low?: number;
+          caffeine_high?: number;
+          alcohol_g?: number;
+          alcohol_low?: number;
+          alcohol_high?: number;
           assumptions?: Json;
+          source?: 'estimate' | 'reference' | 'manual' | 'custom' | 'recipe';
+          reference_food_id?: string | null;
+          custom_food_id?: string | null;
+          recipe_id?: string | null;
           has_override?: boolean;
           override_fields?: Json | null;
           created_at?: string;
@@ -243,16 +376,257 @@ export interface Database {
           sodium_mg?: number;
           sodium_low?: number;
           sodium_high?: number;
-          sugar_g?: number;
-          sugar_low?: number;
-          sugar_high?: number;
+          added_sugar_g?: number;
+          added_sugar_low?: number;
+          added_sugar_high?: number;
+          total_sugar_g?: number;
+          total_sugar_low?: number;
+          total_sugar_high?: number;
+          potassium_mg?: number;
+          potassium_low?: number;
+          potassium_high?: number;
+          calcium_mg?: number;
+          calcium_low?: number;
+          calcium_high?: number;
+          iron_mg?: number;
+          iron_low?: number;
+          iron_high?: number;
+          vitamin_d_mcg?: number;
+          vitamin_d_low?: number;
+          vitamin_d_high?: number;
+          cholesterol_mg?: number;
+          cholesterol_low?: number;
+          cholesterol_high?: number;
+          caffeine_mg?: number;
+          caffeine_low?: number;
+          caffeine_high?: number;
+          alcohol_g?: number;
+          alcohol_low?: number;
+          alcohol_high?: number;
           assumptions?: Json;
+          source?: 'estimate' | 'reference' | 'manual' | 'custom' | 'recipe';
+          reference_food_id?: string | null;
+          custom_food_id?: string | null;
+          recipe_id?: string | null;
           has_override?: boolean;
           override_fields?: Json | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      parse_cache: {
+        Row: {
+          id: string;
+          user_id: string;
+          normalized_text: string;
+          image_hash: string;
+          prompt_version: string;
+          parser: string;
+          parsed_items: Json;
+          meal_slot: string | null;
+          eaten_at: string | null;
+          hit_count: number;
+          created_at: string;
+          last_used_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          normalized_text: string;
+          image_hash?: string;
+          prompt_version: string;
+          parser?: string;
+          parsed_items: Json;
+          meal_slot?: string | null;
+          eaten_at?: string | null;
+          hit_count?: number;
+          created_at?: string;
+          last_used_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          normalized_text?: string;
+          image_hash?: string;
+          prompt_version?: string;
+          parser?: string;
+          parsed_items?: Json;
+          meal_slot?: string | null;
+          eaten_at?: string | null;
+          hit_count?: number;
+          created_at?: string;
+          last_used_at?: string;
+        };
+      };
+      weight_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          logged_date: string;
+          weight_kg: number;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          logged_date: string;
+          weight_kg: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          logged_date?: string;
+          weight_kg?: number;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      saved_meals: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          items: Json;
+          use_count: number;
+          last_used_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          items: Json;
+          use_count?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          items?: Json;
+          use_count?: number;
+          last_used_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      custom_foods: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          aliases: Json;
+          serving_description: string | null;
+          serving_grams: number | null;
+          per_serving: Json | null;
+          per_100g: Json | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          aliases?: Json;
+          serving_description?: string | null;
+          serving_grams?: number | null;
+          per_serving?: Json | null;
+          per_100g?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          aliases?: Json;
+          serving_description?: string | null;
+          serving_grams?: number | null;
+          per_serving?: Json | null;
+          per_100g?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      recipes: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          ingredients_text: string;
+          ingredients: Json;
+          yield_servings: number | null;
+          yield_grams: number | null;
+          per_serving: Json | null;
+          per_100g: Json | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          ingredients_text?: string;
+          ingredients: Json;
+          yield_servings?: number | null;
+          yield_grams?: number | null;
+          per_serving?: Json | null;
+          per_100g?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          ingredients_text?: string;
+          ingredients?: Json;
+          yield_servings?: number | null;
+          yield_grams?: number | null;
+          per_serving?: Json | null;
+          per_100g?: Json | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      sessions: {
+        Row: {
+          id: string;
+          user_id: string;
+          token_hash: string;
+          device_label: string | null;
+          created_at: string;
+          last_seen_at: string;
+          expires_at: string;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          token_hash: string;
+          device_label?: string | null;
+          created_at?: string;
+          last_seen_at?: string;
+          expires_at: string;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          token_hash?: string;
+          device_label?: string | null;
+          created_at?: string;
+          last_seen_at?: string;
+          expires_at?: string;
+          revoked_at?: string | null;
+        };
+      };
     };
     Views: {
       daily_totals: {
@@ -285,9 +659,33 @@ export interface Database {
           total_sodium: number;
           total_sodium_low: number;
           total_sodium_high: number;
+          total_added_sugar: number;
+          total_added_sugar_low: number;
+          total_added_sugar_high: number;
           total_sugar: number;
           total_sugar_low: number;
           total_sugar_high: number;
+          total_potassium: number;
+          total_potassium_low: number;
+          total_potassium_high: number;
+          total_calcium: number;
+          total_calcium_low: number;
+          total_calcium_high: number;
+          total_iron: number;
+          total_iron_low: number;
+          total_iron_high: number;
+          total_vitamin_d: number;
+          total_vitamin_d_low: number;
+          total_vitamin_d_high: number;
+          total_cholesterol: number;
+          total_cholesterol_low: number;
+          total_cholesterol_high: number;
+          total_caffeine: number;
+          total_caffeine_low: number;
+          total_caffeine_high: number;
+          total_alcohol: number;
+          total_alcohol_low: number;
+          total_alcohol_high: number;
         };
       };
     };
@@ -301,6 +699,53 @@ export interface Database {
         };
         Returns: number;
       };
+      insert_entry_items: {
+        Args: {
+          p_entry_id: string;
+          p_items: Json;
+        };
+        Returns: undefined;
+      };
+      create_entry_with_items: {
+        Args: {
+          p_entry: Json;
+          p_items: Json;
+        };
+        Returns: Database['public']['Tables']['entries']['Row'];
+      };
+      import_entries: {
+        Args: {
+          p_batch: Json;
+          p_entries: Json;
+        };
+        Returns: Database['public']['Tables']['import_batches']['Row'];
+      };
+      copy_entries: {
+        Args: {
+          p_user_id: string;
+          p_entry_ids: string[];
+          p_date: string;
+        };
+        Returns: Database['public']['Tables']['entries']['Row'][];
+      };
+      replace_entry_items: {
+        Args: {
+          p_entry_id: string;
+          p_user_id: string;
+          p_raw_text: string;
+          p_items: Json;
+          p_keep_overrides?: boolean;
+          p_timing?: Json;
+        };
+        Returns: Database['public']['Tables']['entry_items']['Row'][];
+      };
+      record_saved_meal_use: {
+        Args: {
+          p_meal_id: string;
+          p_user_id: string;
+        };
+        Returns: undefined;
+      };
     };
   };
 }
@@ -312,3 +757,10 @@ export type DailyActivity = Database['public']['Tables']['daily_activity']['Row'
 export type Entry = Database['public']['Tables']['entries']['Row'];
 export type EntryItem = Database['public']['Tables']['entry_items']['Row'];
 export type DailyTotals = Database['public']['Views']['daily_totals']['Row'];
+export type ParseCacheEntry = Database['public']['Tables']['parse_cache']['Row'];
+export type WeightLog = Database['public']['Tables']['weight_logs']['Row'];
+export type Session = Database['public']['Tables']['sessions']['Row'];
+export type ImportBatch = Database['public']['Tables']['import_batches']['Row'];
+export type SavedMeal = Database['public']['Tables']['saved_meals']['Row'];
+export type CustomFood = Database['public']['Tables']['custom_foods']['Row'];
+export type Recipe = Database['public']['Tables']['recipes']['Row'];
@@ -1,4 +1,20 @@
 import { z } from 'zod';
+import { NUTRIENTS, type NutrientDefinition, type NutrientField, type NutrientRangeField, type NutrientTotals } from '@/lib/nutrients';
+
+// Nutrient value and 90% range columns, from the registry. Nutrients added
+// after items were first stored default to 0, so older cached parses, saved
+// meals and recipes still validate.
+function nutrientShape() {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  for (const nutrient of NUTRIENTS as readonly NutrientDefinition[]) {
+    const amount = (description: string) =>
+      nutrient.optional ? z.number().default(0).describe(description) : z.number().describe(description);
+    shape[nutrient.field] = amount(nutrient.description);
+    shape[nutrient.low] = amount('Low estimate (90% CI)');
+    shape[nutrient.high] = amount('High estimate (90% CI)');
+  }
+  return shape as { [K in NutrientField | NutrientRangeField]: z.ZodType<number> };
+}
 
 // Schema for a single food item with 90% confidence ranges
 export const FoodItemSchema = z.object({
@@ -6,46 +22,58 @@ export const FoodItemSchema = z.object({
   grams: z.number().nullable().describe('Estimated weight in grams'),
   grams_low: z.number().nullable().describe('Low estimate (90% CI)'),
   grams_high: z.number().nullable().describe('High estimate (90% CI)'),
-  calories: z.number().describe('Estimated calories'),
-  calories_low: z.number().describe('Low estimate (90% CI)'),
-  calories_high: z.number().describe('High estimate (90% CI)'),
-  protein_g: z.number().describe('Protein in grams'),
-  protein_low: z.number().describe('Low estimate (90% CI)'),
-  protein_high: z.number().describe('High estimate (90% CI)'),
-  carbs_g: z.number().describe('Carbohydrates in grams'),
-  carbs_low: z.number().describe('Low estimate (90% CI)'),
-  carbs_high: z.number().describe('High estimate (90% CI)'),
-  fat_g: z.number().describe('Total fat in grams'),
-  fat_low: z.number().describe('Low estimate (90% CI)'),
-  fat_high: z.number().describe('High estimate (90% CI)'),
-  saturated_fat_g: z.number().describe('Saturated fat in grams'),
-  saturated_fat_low: z.number().describe('Low estimate (90% CI)'),
-  saturated_fat_high: z.number().describe('High estimate (90% CI)'),
-  unsaturated_fat_g: z.number().describe('Unsaturated fat in grams'),
-  unsaturated_fat_low: z.number().describe('Low estimate (90% CI)'),
-  unsaturated_fat_high: z.number().describe('High estimate (90% CI)'),
-  fiber_g: z.number().describe('Fiber in grams'),
-  fiber_low: z.number().describe('Low estimate (90% CI)'),
-  fiber_high: z.number().describe('High estimate (90% CI)'),
-  sodium_mg: z.number().describe('Sodium in milligrams'),
-  sodium_low: z.number().describe('Low estimate (90% CI)'),
-  sodium_high: z.number().describe('High estimate (90% CI)'),
-  added_sugar_g: z.number().describe('Added sugar in grams (excludes natural sugars from whole fruits/dairy)'),
-  added_sugar_low: z.number().describe('Low estimate (90% CI)'),
-  added_sugar_high: z.number().describe('High estimate (90% CI)'),
+  ...nutrientShape(),
   assumptions: z.array(z.string()).describe('List of assumptions made (e.g., "assumed olive oil for cooking", "medium sized portion")'),
 });
 
 export type FoodItem = z.infer<typeof FoodItemSchema>;
 
+// Where an item's nutrient values came from
+// - estimate: the meal parser's estimate
+// - reference: recomputed from a reference food (local USDA subset) and grams
+// - manual: typed in by the user as exact values
+// - custom: one of the user's custom foods, mentioned in the description
+// - recipe: a portion of one of the user's recipes
+export const ITEM_SOURCES = ['estimate', 'reference', 'manual', 'custom', 'recipe'] as const;
+
+export type ItemSource = typeof ITEM_SOURCES[number];
+
+// A food item with its provenance (not part of the parser's output schema)
+export type SourcedFoodItem = FoodItem & {
+  source?: ItemSource;
+  reference_food_id?: string | null;
+  custom_food_id?: string | null;
+  recipe_id?: string | null;
+};
+
+export const MEAL_SLOTS = ['breakfast', 'lunch', 'dinner', 'snack'] as const;
+
+export type MealSlot = typeof MEAL_SLOTS[number];
+
 // Schema for the full LLM response
 export const ParsedMealSchema = z.object({
   items: z.array(FoodItemSchema).describe('List of parsed food items'),
   explicit_date: z.string().nullable().describe('If user specified a date in the text, return it as YYYY-MM-DD. Otherwise null.'),
+  meal_slot: z.enum(MEAL_SLOTS).nullable().describe('Meal the user says this was (breakfast, lunch, dinner or snack). Otherwise null.'),
+  eaten_at: z.string().nullable().describe('Local time the user says they ate, as HH:MM (24-hour). Otherwise null.'),
 });
 
 export type ParsedMeal = z.infer<typeof ParsedMealSchema>;
 
+// Input to a meal parsing provider
+export interface MealParseRequest {
+  text: string;
+  todayDate: string; // YYYY-MM-DD format, in user's timezone
+  imageBase64?: string; // Optional base64 image data
+}
+
+// A provider that turns a meal description into ParsedMealSchema output
+export interface MealParser {
+  name: string;
+  model: string; // Part of the parse cache key, so a new model re-parses
+  parse(request: MealParseRequest): Promise<ParsedMeal>;
+}
+
 // TDEE calculation types
 export interface TDEECalculation {
   bmr: number;
@@ -58,6 +86,41 @@ export interface TDEECalculation {
   target_calories_low: number;
   target_calories_high: number;
   protein_target_g: number;
+  fat_target_g: number;
+  carbs_target_g: number;
+  calorie_adjustment: number; // added to TDEE: negative = deficit, positive = surplus
+  goal_warnings: string[]; // safety bounds that changed the targets
+}
+
+// Goal modes
+export type GoalType = 'lose' | 'maintain' | 'gain';
+export type MacroTargetMode = 'g_per_kg' | 'percent';
+
+export interface MacroTarget {
+  mode: MacroTargetMode | 'remainder';
+  value: number | null;
+}
+
+export interface GoalSettings {
+  goal_type: GoalType;
+  calorie_deficit: number; // daily deficit (lose) or surplus (gain) when there is no target date
+  target_weight_kg: number | null;
+  target_date: string | null;
+  protein_target: MacroTarget;
+  fat_target: MacroTarget;
+  carb_target: MacroTarget; // 'remainder' = calories left after protein and fat
+}
+
+// Observed TDEE inferred from weight trend vs logged intake
+export interface AdaptiveTDEE {
+  tdee: number;
+  tdee_low: number;
+  tdee_high: number;
+  avg_intake: number;
+  weight_change_kg_per_week: number;
+  weigh_ins: number;
+  intake_days: number;
+  window_days: number;
 }
 
 // Activity level for UI
@@ -75,17 +138,7 @@ export interface DailySummary {
   date: string;
   activity_level: ActivityLevelOption | null;
   tdee: TDEECalculation | null;
-  totals: {
-    calories: { value: number; low: number; high: number };
-    protein: { value: number; low: number; high: number };
-    carbs: { value: number; low: number; high: number };
-    fat: { value: number; low: number; high: number };
-    saturated_fat: { value: number; low: number; high: number };
-    unsaturated_fat: { value: number; low: number; high: number };
-    fiber: { value: number; low: number; high: number };
-    sodium: { value: number; low: number; high: number };
-    added_sugar: { value: number; low: number; high: number };
-  };
+  totals: NutrientTotals;
   entries: EntryWithItems[];
 }
 
@@ -0,0 +1,471 @@
+-- Tables, columns and functions added since the baseline: sign-in
+-- sessions, the parse cache, weight logs, goals and macro targets, imports,
+-- saved meals, copied entries, meal slots, item sources, custom foods,
+-- recipes, the nutrient registry's columns and row level security.
+-- Databases that followed supabase/schema.sql may have some or all of these
+-- already, so every step is safe to run again.
+
+-- ============================================
+-- USER SETTINGS
+-- ============================================
+ALTER TABLE user_settings
+  -- Goals
+  ADD COLUMN IF NOT EXISTS goal_type TEXT CHECK (goal_type IN ('lose', 'maintain', 'gain')), -- NULL = from the sign of calorie_deficit
+  ADD COLUMN IF NOT EXISTS target_weight_kg DECIMAL(5,2),
+  ADD COLUMN IF NOT EXISTS target_date DATE,
+
+  -- Macro targets: grams per kg of body weight, or percent of calories
+  ADD COLUMN IF NOT EXISTS protein_target_mode TEXT NOT NULL DEFAULT 'g_per_kg' CHECK (protein_target_mode IN ('g_per_kg', 'percent')),
+  ADD COLUMN IF NOT EXISTS protein_target_value DECIMAL(5,2) NOT NULL DEFAULT 1.6,
+  ADD COLUMN IF NOT EXISTS fat_target_mode TEXT NOT NULL DEFAULT 'percent' CHECK (fat_target_mode IN ('g_per_kg', 'percent')),
+  ADD COLUMN IF NOT EXISTS fat_target_value DECIMAL(5,2) NOT NULL DEFAULT 30,
+  ADD COLUMN IF NOT EXISTS carb_target_mode TEXT NOT NULL DEFAULT 'remainder' CHECK (carb_target_mode IN ('g_per_kg', 'percent', 'remainder')),
+  ADD COLUMN IF NOT EXISTS carb_target_value DECIMAL(5,2), -- unused for 'remainder'
+
+  -- Nutrient keys (src/lib/nutrients.ts) shown on the dashboard and trends; NULL = defaults
+  ADD COLUMN IF NOT EXISTS dashboard_nutrients JSONB;
+
+-- ============================================
+-- IMPORT BATCHES (history imported from other trackers)
+-- ============================================
+-- Deleting a batch deletes its entries (and their items), so a bad import
+-- can be rolled back in one step.
+CREATE TABLE IF NOT EXISTS import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('myfitnesspal', 'cronometer', 'loseit')),
+  filename TEXT,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_batches_user_id ON import_batches(user_id);
+
+-- ============================================
+-- ENTRIES
+-- ============================================
+ALTER TABLE entries
+  -- Set for entries imported from another tracker
+  ADD COLUMN IF NOT EXISTS import_batch_id UUID REFERENCES import_batches(id) ON DELETE CASCADE,
+
+  -- Set for entries copied from another day
+  ADD COLUMN IF NOT EXISTS copied_from_entry_id UUID REFERENCES entries(id) ON DELETE SET NULL,
+
+  -- Optional meal slot and local time eaten (from the text, or set by the user).
+  -- Without eaten_at the entry is placed at created_at.
+  ADD COLUMN IF NOT EXISTS meal_slot TEXT CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  ADD COLUMN IF NOT EXISTS eaten_at TIME;
+
+-- ============================================
+-- CUSTOM FOODS (user-defined foods with exact nutrients)
+-- ============================================
+CREATE TABLE IF NOT EXISTS custom_foods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  aliases JSONB NOT NULL DEFAULT '[]', -- other names used in descriptions
+
+  -- What one serving is ("1 bowl") and what it weighs, if known
+  serving_description TEXT,
+  serving_grams DECIMAL(7,2) CHECK (serving_grams > 0),
+
+  -- Nutrient values ({ calories, protein_g, ... }) per serving and/or per 100 g
+  per_serving JSONB,
+  per_100g JSONB,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name),
+  CHECK (per_serving IS NOT NULL OR per_100g IS NOT NULL)
+);
+
+-- ============================================
+-- RECIPES (batch-cooked dishes logged by the portion)
+-- ============================================
+CREATE TABLE IF NOT EXISTS recipes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Ingredient lines as typed, and the items they were parsed or entered as
+  ingredients_text TEXT NOT NULL DEFAULT '',
+  ingredients JSONB NOT NULL,
+
+  -- What the batch makes: a number of servings and/or its cooked weight
+  yield_servings DECIMAL(6,2) CHECK (yield_servings > 0),
+  yield_grams DECIMAL(8,2) CHECK (yield_grams > 0),
+
+  -- FoodItem totals of the ingredients divided by the yield, ranges included
+  per_serving JSONB,
+  per_100g JSONB,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name),
+  CHECK (yield_servings IS NOT NULL OR yield_grams IS NOT NULL)
+);
+
+-- ============================================
+-- ENTRY ITEMS
+-- ============================================
+ALTER TABLE entry_items
+  -- Further nutrients from the registry (src/lib/nutrients.ts)
+  ADD COLUMN IF NOT EXISTS potassium_mg DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS potassium_low DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS potassium_high DECIMAL(8,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS calcium_mg DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS calcium_low DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS calcium_high DECIMAL(8,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS iron_mg DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS iron_low DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS iron_high DECIMAL(6,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS vitamin_d_mcg DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS vitamin_d_low DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS vitamin_d_high DECIMAL(6,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS cholesterol_mg DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cholesterol_low DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS cholesterol_high DECIMAL(8,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS caffeine_mg DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS caffeine_low DECIMAL(8,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS caffeine_high DECIMAL(8,2) DEFAULT 0,
+
+  ADD COLUMN IF NOT EXISTS alcohol_g DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS alcohol_low DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS alcohol_high DECIMAL(6,2) DEFAULT 0,
+
+  -- Where the nutrient values came from: the parser's estimate, a reference
+  -- food recomputed from grams (reference_food_id names it), typed in, one
+  -- of the user's custom foods, or a portion of one of their recipes
+  ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'estimate' CHECK (source IN ('estimate', 'reference', 'manual', 'custom', 'recipe')),
+  ADD COLUMN IF NOT EXISTS reference_food_id TEXT,
+  ADD COLUMN IF NOT EXISTS custom_food_id UUID REFERENCES custom_foods(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL;
+
+-- ============================================
+-- PARSE CACHE (reused LLM parses of repeated meal descriptions)
+-- ============================================
+CREATE TABLE IF NOT EXISTS parse_cache (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+
+  -- Cache key: lowercased/whitespace-collapsed raw_text, SHA-256 of the
+  -- image ('' when none), and the prompt version that produced the parse
+  normalized_text TEXT NOT NULL,
+  image_hash TEXT NOT NULL DEFAULT '',
+  prompt_version TEXT NOT NULL,
+
+  -- The ParsedMeal items array as returned by the parser
+  parsed_items JSONB NOT NULL,
+
+  -- Meal slot and time the parser read from the text, if any
+  meal_slot TEXT,
+  eaten_at TIME,
+
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(user_id, normalized_text, image_hash, prompt_version)
+);
+
+-- ============================================
+-- WEIGHT LOGS (daily weigh-ins for adaptive TDEE)
+-- ============================================
+CREATE TABLE IF NOT EXISTS weight_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  logged_date DATE NOT NULL,
+  weight_kg DECIMAL(5,2) NOT NULL CHECK (weight_kg > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, logged_date) -- One weigh-in per user per day
+);
+
+-- ============================================
+-- SAVED MEALS (named templates of an entry's items)
+-- ============================================
+CREATE TABLE IF NOT EXISTS saved_meals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Snapshot of the items (FoodItem objects) for one serving
+  items JSONB NOT NULL,
+
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- ============================================
+-- SESSIONS (one row per signed-in device, revocable)
+-- ============================================
+CREATE TABLE IF NOT EXISTS sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+
+  -- SHA-256 of the token's random secret; the token itself is never stored
+  token_hash TEXT NOT NULL,
+  device_label TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_user_id ON sessions(user_id);
+
+-- ============================================
+-- FUNCTIONS
+-- ============================================
+
+-- Insert entry items from a JSON array of item objects.
+-- Keys are matched to entry_items columns by name, so this doesn't need to
+-- change when nutrient columns are added. Items without a source are estimates.
+CREATE OR REPLACE FUNCTION insert_entry_items(
+  p_entry_id UUID,
+  p_items JSONB
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO entry_items
+  SELECT (jsonb_populate_record(
+    NULL::entry_items,
+    jsonb_build_object('source', 'estimate') || item || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'entry_id', p_entry_id,
+      'has_override', FALSE,
+      'override_fields', NULL,
+      'created_at', NOW(),
+      'updated_at', NOW()
+    )
+  )).*
+  FROM jsonb_array_elements(p_items) AS item;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an entry and its items in one transaction.
+-- Either both are saved or neither is, so a failed item insert can't leave
+-- an empty entry behind.
+CREATE OR REPLACE FUNCTION create_entry_with_items(
+  p_entry JSONB,
+  p_items JSONB
+) RETURNS entries AS $$
+DECLARE
+  new_entry entries;
+BEGIN
+  INSERT INTO entries
+  SELECT (jsonb_populate_record(
+    NULL::entries,
+    p_entry || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'created_at', NOW()
+    )
+  )).*
+  RETURNING * INTO new_entry;
+
+  PERFORM insert_entry_items(new_entry.id, p_items);
+
+  RETURN new_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an import batch and all of its entries in one transaction.
+-- p_entries is an array of { resolved_date, raw_text, meal_slot, items: [...] }.
+CREATE OR REPLACE FUNCTION import_entries(
+  p_batch JSONB,
+  p_entries JSONB
+) RETURNS import_batches AS $$
+DECLARE
+  new_batch import_batches;
+  entry JSONB;
+BEGIN
+  INSERT INTO import_batches
+  SELECT (jsonb_populate_record(
+    NULL::import_batches,
+    p_batch || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'entry_count', jsonb_array_length(p_entries),
+      'item_count', (SELECT COALESCE(SUM(jsonb_array_length(e->'items')), 0) FROM jsonb_array_elements(p_entries) AS e),
+      'created_at', NOW()
+    )
+  )).*
+  RETURNING * INTO new_batch;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    PERFORM create_entry_with_items(
+      jsonb_build_object(
+        'user_id', new_batch.user_id,
+        'raw_text', entry->>'raw_text',
+        'resolved_date', entry->>'resolved_date',
+        'explicit_date_in_text', FALSE,
+        'import_batch_id', new_batch.id,
+        'meal_slot', entry->'meal_slot'
+      ),
+      entry->'items'
+    );
+  END LOOP;
+
+  RETURN new_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy entries (with their items) onto another date in one transaction.
+-- Copies get a fresh created_at and point back at their source entry.
+-- Entries not owned by p_user_id are ignored.
+CREATE OR REPLACE FUNCTION copy_entries(
+  p_user_id UUID,
+  p_entry_ids UUID[],
+  p_date DATE
+) RETURNS SETOF entries AS $$
+DECLARE
+  source entries;
+  new_entry entries;
+BEGIN
+  FOR source IN
+    SELECT * FROM entries
+    WHERE id = ANY(p_entry_ids) AND user_id = p_user_id
+    ORDER BY created_at
+  LOOP
+    INSERT INTO entries (user_id, raw_text, resolved_date, explicit_date_in_text, copied_from_entry_id, meal_slot, eaten_at)
+    VALUES (p_user_id, source.raw_text, p_date, FALSE, source.id, source.meal_slot, source.eaten_at)
+    RETURNING * INTO new_entry;
+
+    INSERT INTO entry_items
+    SELECT (jsonb_populate_record(
+      NULL::entry_items,
+      to_jsonb(item) || jsonb_build_object(
+        'id', uuid_generate_v4(),
+        'entry_id', new_entry.id,
+        'created_at', NOW(),
+        'updated_at', NOW()
+      )
+    )).*
+    FROM entry_items AS item
+    WHERE item.entry_id = source.id;
+
+    RETURN NEXT new_entry;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace an entry's raw text and items in one transaction (re-parse).
+-- Manually overridden items survive when p_keep_overrides is true.
+CREATE OR REPLACE FUNCTION replace_entry_items(
+  p_entry_id UUID,
+  p_user_id UUID,
+  p_raw_text TEXT,
+  p_items JSONB,
+  p_keep_overrides BOOLEAN DEFAULT TRUE
+) RETURNS SETOF entry_items AS $$
+BEGIN
+  UPDATE entries
+  SET raw_text = p_raw_text
+  WHERE id = p_entry_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM entry_items
+  WHERE entry_id = p_entry_id
+    AND NOT (p_keep_overrides AND COALESCE(has_override, FALSE));
+
+  PERFORM insert_entry_items(p_entry_id, p_items);
+
+  RETURN QUERY
+  SELECT * FROM entry_items
+  WHERE entry_id = p_entry_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+-- API routes use the service role key, which bypasses RLS, and scope every
+-- query to the session user themselves. These policies are the backstop:
+-- any request made with the anon key or a Supabase JWT only ever sees the
+-- caller's own rows.
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entry_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE weight_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_meals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_foods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS user_settings_own ON user_settings;
+CREATE POLICY user_settings_own ON user_settings
+  FOR ALL
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+DROP POLICY IF EXISTS entries_own ON entries;
+CREATE POLICY entries_own ON entries
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Items are owned through their entry
+DROP POLICY IF EXISTS entry_items_own ON entry_items;
+CREATE POLICY entry_items_own ON entry_items
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM entries e WHERE e.id = entry_items.entry_id AND e.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM entries e WHERE e.id = entry_items.entry_id AND e.user_id = auth.uid()
+  ));
+
+DROP POLICY IF EXISTS daily_activity_own ON daily_activity;
+CREATE POLICY daily_activity_own ON daily_activity
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS weight_logs_own ON weight_logs;
+CREATE POLICY weight_logs_own ON weight_logs
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS import_batches_own ON import_batches;
+CREATE POLICY import_batches_own ON import_batches
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS saved_meals_own ON saved_meals;
+CREATE POLICY saved_meals_own ON saved_meals
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS custom_foods_own ON custom_foods;
+CREATE POLICY custom_foods_own ON custom_foods
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS recipes_own ON recipes;
+CREATE POLICY recipes_own ON recipes
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Sessions and cached parses are only ever touched server-side:
+-- RLS on with no policies denies everyone but the service role
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parse_cache ENABLE ROW LEVEL SECURITY;
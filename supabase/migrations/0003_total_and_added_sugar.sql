@@ -0,0 +1,132 @@
+-- Total and added sugar
+-- The app has always written added_sugar_*, but the schema file declared
+-- sugar_* instead, so databases have one set of columns or the other. Bring
+-- both to added_sugar_* plus total_sugar_* (natural + added). Safe to run on
+-- either shape.
+
+-- The view reads the columns being replaced
+DROP VIEW IF EXISTS daily_totals;
+
+ALTER TABLE entry_items
+  ADD COLUMN IF NOT EXISTS added_sugar_g DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS added_sugar_low DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS added_sugar_high DECIMAL(6,2) DEFAULT 0;
+
+-- Nothing ever wrote sugar_* (items have no such key), so it is dropped
+-- rather than carried over
+ALTER TABLE entry_items
+  DROP COLUMN IF EXISTS sugar_g,
+  DROP COLUMN IF EXISTS sugar_low,
+  DROP COLUMN IF EXISTS sugar_high;
+
+ALTER TABLE entry_items
+  ADD COLUMN IF NOT EXISTS total_sugar_g DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_sugar_low DECIMAL(6,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS total_sugar_high DECIMAL(6,2) DEFAULT 0;
+
+-- Items logged so far only recorded added sugar: it is the best known lower
+-- bound of their total sugar
+UPDATE entry_items
+SET total_sugar_g = added_sugar_g,
+    total_sugar_low = added_sugar_low,
+    total_sugar_high = added_sugar_high
+WHERE total_sugar_g < added_sugar_g;
+
+-- Daily totals view (aggregates entry_items by resolved_date)
+-- security_invoker makes the view apply the caller's RLS policies
+CREATE OR REPLACE VIEW daily_totals WITH (security_invoker = true) AS
+SELECT 
+  e.user_id,
+  e.resolved_date,
+  COUNT(DISTINCT e.id) as entry_count,
+  COUNT(ei.id) as item_count,
+  
+  -- Calories
+  COALESCE(SUM(ei.calories), 0) as total_calories,
+  COALESCE(SUM(ei.calories_low), 0) as total_calories_low,
+  COALESCE(SUM(ei.calories_high), 0) as total_calories_high,
+  
+  -- Protein
+  COALESCE(SUM(ei.protein_g), 0) as total_protein,
+  COALESCE(SUM(ei.protein_low), 0) as total_protein_low,
+  COALESCE(SUM(ei.protein_high), 0) as total_protein_high,
+  
+  -- Carbs
+  COALESCE(SUM(ei.carbs_g), 0) as total_carbs,
+  COALESCE(SUM(ei.carbs_low), 0) as total_carbs_low,
+  COALESCE(SUM(ei.carbs_high), 0) as total_carbs_high,
+  
+  -- Fat
+  COALESCE(SUM(ei.fat_g), 0) as total_fat,
+  COALESCE(SUM(ei.fat_low), 0) as total_fat_low,
+  COALESCE(SUM(ei.fat_high), 0) as total_fat_high,
+  
+  -- Saturated Fat
+  COALESCE(SUM(ei.saturated_fat_g), 0) as total_saturated_fat,
+  COALESCE(SUM(ei.saturated_fat_low), 0) as total_saturated_fat_low,
+  COALESCE(SUM(ei.saturated_fat_high), 0) as total_saturated_fat_high,
+  
+  -- Unsaturated Fat
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) as total_unsaturated_fat,
+  COALESCE(SUM(ei.unsaturated_fat_low), 0) as total_unsaturated_fat_low,
+  COALESCE(SUM(ei.unsaturated_fat_high), 0) as total_unsaturated_fat_high,
+  
+  -- Fiber
+  COALESCE(SUM(ei.fiber_g), 0) as total_fiber,
+  COALESCE(SUM(ei.fiber_low), 0) as total_fiber_low,
+  COALESCE(SUM(ei.fiber_high), 0) as total_fiber_high,
+  
+  -- Sodium
+  COALESCE(SUM(ei.sodium_mg), 0) as total_sodium,
+  COALESCE(SUM(ei.sodium_low), 0) as total_sodium_low,
+  COALESCE(SUM(ei.sodium_high), 0) as total_sodium_high,
+  
+  -- Added sugar
+  COALESCE(SUM(ei.added_sugar_g), 0) as total_added_sugar,
+  COALESCE(SUM(ei.added_sugar_low), 0) as total_added_sugar_low,
+  COALESCE(SUM(ei.added_sugar_high), 0) as total_added_sugar_high,
+  
+  -- Total sugar
+  COALESCE(SUM(ei.total_sugar_g), 0) as total_sugar,
+  COALESCE(SUM(ei.total_sugar_low), 0) as total_sugar_low,
+  COALESCE(SUM(ei.total_sugar_high), 0) as total_sugar_high,
+  
+  -- Potassium
+  COALESCE(SUM(ei.potassium_mg), 0) as total_potassium,
+  COALESCE(SUM(ei.potassium_low), 0) as total_potassium_low,
+  COALESCE(SUM(ei.potassium_high), 0) as total_potassium_high,
+  
+  -- Calcium
+  COALESCE(SUM(ei.calcium_mg), 0) as total_calcium,
+  COALESCE(SUM(ei.calcium_low), 0) as total_calcium_low,
+  COALESCE(SUM(ei.calcium_high), 0) as total_calcium_high,
+  
+  -- Iron
+  COALESCE(SUM(ei.iron_mg), 0) as total_iron,
+  COALESCE(SUM(ei.iron_low), 0) as total_iron_low,
+  COALESCE(SUM(ei.iron_high), 0) as total_iron_high,
+  
+  -- Vitamin D
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) as total_vitamin_d,
+  COALESCE(SUM(ei.vitamin_d_low), 0) as total_vitamin_d_low,
+  COALESCE(SUM(ei.vitamin_d_high), 0) as total_vitamin_d_high,
+  
+  -- Cholesterol
+  COALESCE(SUM(ei.cholesterol_mg), 0) as total_cholesterol,
+  COALESCE(SUM(ei.cholesterol_low), 0) as total_cholesterol_low,
+  COALESCE(SUM(ei.cholesterol_high), 0) as total_cholesterol_high,
+  
+  -- Caffeine
+  COALESCE(SUM(ei.caffeine_mg), 0) as total_caffeine,
+  COALESCE(SUM(ei.caffeine_low), 0) as total_caffeine_low,
+  COALESCE(SUM(ei.caffeine_high), 0) as total_caffeine_high,
+  
+  -- Alcohol
+  COALESCE(SUM(ei.alcohol_g), 0) as total_alcohol,
+  COALESCE(SUM(ei.alcohol_low), 0) as total_alcohol_low,
+  COALESCE(SUM(ei.alcohol_high), 0) as total_alcohol_high
+
+FROM entries e
+LEFT JOIN entry_items ei ON ei.entry_id = e.id
+GROUP BY e.user_id, e.resolved_date
+ORDER BY e.resolved_date DESC;
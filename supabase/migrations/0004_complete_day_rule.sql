@@ -0,0 +1,6 @@
+-- Complete day rule
+-- Trends only average days that count as completely logged: at least this
+-- many entries and this many calories. Days with less are partially logged.
+ALTER TABLE user_settings
+  ADD COLUMN IF NOT EXISTS complete_day_min_entries INTEGER NOT NULL DEFAULT 1 CHECK (complete_day_min_entries >= 0),
+  ADD COLUMN IF NOT EXISTS complete_day_min_calories INTEGER NOT NULL DEFAULT 1200 CHECK (complete_day_min_calories >= 0);
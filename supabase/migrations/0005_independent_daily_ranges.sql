@@ -0,0 +1,101 @@
+-- Daily totals with independent ranges
+-- Item ranges are independent estimates, so a day's range combines each
+-- item's distance from its value in quadrature, as src/lib/aggregation.ts
+-- does, instead of adding up every item's worst case. Values are unchanged.
+
+CREATE OR REPLACE VIEW daily_totals WITH (security_invoker = true) AS
+SELECT 
+  e.user_id,
+  e.resolved_date,
+  COUNT(DISTINCT e.id) as entry_count,
+  COUNT(ei.id) as item_count,
+  
+  -- Calories
+  COALESCE(SUM(ei.calories), 0) as total_calories,
+  COALESCE(SUM(ei.calories), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.calories - ei.calories_low, 0), 2)), 0)) as total_calories_low,
+  COALESCE(SUM(ei.calories), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.calories_high - ei.calories, 0), 2)), 0)) as total_calories_high,
+  
+  -- Protein
+  COALESCE(SUM(ei.protein_g), 0) as total_protein,
+  COALESCE(SUM(ei.protein_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.protein_g - ei.protein_low, 0), 2)), 0)) as total_protein_low,
+  COALESCE(SUM(ei.protein_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.protein_high - ei.protein_g, 0), 2)), 0)) as total_protein_high,
+  
+  -- Carbs
+  COALESCE(SUM(ei.carbs_g), 0) as total_carbs,
+  COALESCE(SUM(ei.carbs_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.carbs_g - ei.carbs_low, 0), 2)), 0)) as total_carbs_low,
+  COALESCE(SUM(ei.carbs_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.carbs_high - ei.carbs_g, 0), 2)), 0)) as total_carbs_high,
+  
+  -- Fat
+  COALESCE(SUM(ei.fat_g), 0) as total_fat,
+  COALESCE(SUM(ei.fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.fat_g - ei.fat_low, 0), 2)), 0)) as total_fat_low,
+  COALESCE(SUM(ei.fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.fat_high - ei.fat_g, 0), 2)), 0)) as total_fat_high,
+  
+  -- Saturated Fat
+  COALESCE(SUM(ei.saturated_fat_g), 0) as total_saturated_fat,
+  COALESCE(SUM(ei.saturated_fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.saturated_fat_g - ei.saturated_fat_low, 0), 2)), 0)) as total_saturated_fat_low,
+  COALESCE(SUM(ei.saturated_fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.saturated_fat_high - ei.saturated_fat_g, 0), 2)), 0)) as total_saturated_fat_high,
+  
+  -- Unsaturated Fat
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) as total_unsaturated_fat,
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.unsaturated_fat_g - ei.unsaturated_fat_low, 0), 2)), 0)) as total_unsaturated_fat_low,
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.unsaturated_fat_high - ei.unsaturated_fat_g, 0), 2)), 0)) as total_unsaturated_fat_high,
+  
+  -- Fiber
+  COALESCE(SUM(ei.fiber_g), 0) as total_fiber,
+  COALESCE(SUM(ei.fiber_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.fiber_g - ei.fiber_low, 0), 2)), 0)) as total_fiber_low,
+  COALESCE(SUM(ei.fiber_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.fiber_high - ei.fiber_g, 0), 2)), 0)) as total_fiber_high,
+  
+  -- Sodium
+  COALESCE(SUM(ei.sodium_mg), 0) as total_sodium,
+  COALESCE(SUM(ei.sodium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.sodium_mg - ei.sodium_low, 0), 2)), 0)) as total_sodium_low,
+  COALESCE(SUM(ei.sodium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.sodium_high - ei.sodium_mg, 0), 2)), 0)) as total_sodium_high,
+  
+  -- Added sugar
+  COALESCE(SUM(ei.added_sugar_g), 0) as total_added_sugar,
+  COALESCE(SUM(ei.added_sugar_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.added_sugar_g - ei.added_sugar_low, 0), 2)), 0)) as total_added_sugar_low,
+  COALESCE(SUM(ei.added_sugar_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.added_sugar_high - ei.added_sugar_g, 0), 2)), 0)) as total_added_sugar_high,
+  
+  -- Total sugar
+  COALESCE(SUM(ei.total_sugar_g), 0) as total_sugar,
+  COALESCE(SUM(ei.total_sugar_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.total_sugar_g - ei.total_sugar_low, 0), 2)), 0)) as total_sugar_low,
+  COALESCE(SUM(ei.total_sugar_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.total_sugar_high - ei.total_sugar_g, 0), 2)), 0)) as total_sugar_high,
+  
+  -- Potassium
+  COALESCE(SUM(ei.potassium_mg), 0) as total_potassium,
+  COALESCE(SUM(ei.potassium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.potassium_mg - ei.potassium_low, 0), 2)), 0)) as total_potassium_low,
+  COALESCE(SUM(ei.potassium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.potassium_high - ei.potassium_mg, 0), 2)), 0)) as total_potassium_high,
+  
+  -- Calcium
+  COALESCE(SUM(ei.calcium_mg), 0) as total_calcium,
+  COALESCE(SUM(ei.calcium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.calcium_mg - ei.calcium_low, 0), 2)), 0)) as total_calcium_low,
+  COALESCE(SUM(ei.calcium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.calcium_high - ei.calcium_mg, 0), 2)), 0)) as total_calcium_high,
+  
+  -- Iron
+  COALESCE(SUM(ei.iron_mg), 0) as total_iron,
+  COALESCE(SUM(ei.iron_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.iron_mg - ei.iron_low, 0), 2)), 0)) as total_iron_low,
+  COALESCE(SUM(ei.iron_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.iron_high - ei.iron_mg, 0), 2)), 0)) as total_iron_high,
+  
+  -- Vitamin D
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) as total_vitamin_d,
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.vitamin_d_mcg - ei.vitamin_d_low, 0), 2)), 0)) as total_vitamin_d_low,
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.vitamin_d_high - ei.vitamin_d_mcg, 0), 2)), 0)) as total_vitamin_d_high,
+  
+  -- Cholesterol
+  COALESCE(SUM(ei.cholesterol_mg), 0) as total_cholesterol,
+  COALESCE(SUM(ei.cholesterol_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.cholesterol_mg - ei.cholesterol_low, 0), 2)), 0)) as total_cholesterol_low,
+  COALESCE(SUM(ei.cholesterol_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.cholesterol_high - ei.cholesterol_mg, 0), 2)), 0)) as total_cholesterol_high,
+  
+  -- Caffeine
+  COALESCE(SUM(ei.caffeine_mg), 0) as total_caffeine,
+  COALESCE(SUM(ei.caffeine_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.caffeine_mg - ei.caffeine_low, 0), 2)), 0)) as total_caffeine_low,
+  COALESCE(SUM(ei.caffeine_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.caffeine_high - ei.caffeine_mg, 0), 2)), 0)) as total_caffeine_high,
+  
+  -- Alcohol
+  COALESCE(SUM(ei.alcohol_g), 0) as total_alcohol,
+  COALESCE(SUM(ei.alcohol_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.alcohol_g - ei.alcohol_low, 0), 2)), 0)) as total_alcohol_low,
+  COALESCE(SUM(ei.alcohol_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.alcohol_high - ei.alcohol_g, 0), 2)), 0)) as total_alcohol_high
+
+FROM entries e
+LEFT JOIN entry_items ei ON ei.entry_id = e.id
+GROUP BY e.user_id, e.resolved_date
+ORDER BY e.resolved_date DESC;
@@ -0,0 +1,40 @@
+-- Re-parse meal timing
+-- A re-parse sets the entry's meal slot and time in the same transaction as
+-- its text and items, so a failure can't leave the new items with the old
+-- slot. The new parameter changes the signature, so the old function goes.
+DROP FUNCTION IF EXISTS replace_entry_items(UUID, UUID, TEXT, JSONB, BOOLEAN);
+
+-- Replace an entry's raw text and items in one transaction (re-parse).
+-- Manually overridden items survive when p_keep_overrides is true.
+-- meal_slot and eaten_at are set when p_timing has them (null clears them).
+CREATE OR REPLACE FUNCTION replace_entry_items(
+  p_entry_id UUID,
+  p_user_id UUID,
+  p_raw_text TEXT,
+  p_items JSONB,
+  p_keep_overrides BOOLEAN DEFAULT TRUE,
+  p_timing JSONB DEFAULT '{}'
+) RETURNS SETOF entry_items AS $$
+BEGIN
+  UPDATE entries
+  SET raw_text = p_raw_text,
+      meal_slot = CASE WHEN p_timing ? 'meal_slot' THEN p_timing->>'meal_slot' ELSE meal_slot END,
+      eaten_at = CASE WHEN p_timing ? 'eaten_at' THEN (p_timing->>'eaten_at')::TIME ELSE eaten_at END
+  WHERE id = p_entry_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM entry_items
+  WHERE entry_id = p_entry_id
+    AND NOT (p_keep_overrides AND COALESCE(has_override, FALSE));
+
+  PERFORM insert_entry_items(p_entry_id, p_items);
+
+  RETURN QUERY
+  SELECT * FROM entry_items
+  WHERE entry_id = p_entry_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql;
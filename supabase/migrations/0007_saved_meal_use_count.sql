@@ -0,0 +1,15 @@
+-- Saved meal use count
+-- Logging a saved meal read its use_count and wrote back count + 1, so two
+-- logs at once could count once. The increment now happens in the database.
+
+-- Count a use of a saved meal, as one statement so concurrent logs of the
+-- same meal each count
+CREATE OR REPLACE FUNCTION record_saved_meal_use(
+  p_meal_id UUID,
+  p_user_id UUID
+) RETURNS VOID AS $$
+  UPDATE saved_meals
+  SET use_count = use_count + 1,
+      last_used_at = NOW()
+  WHERE id = p_meal_id AND user_id = p_user_id;
+$$ LANGUAGE sql;
@@ -0,0 +1,23 @@
+-- Parse cache parser
+-- Cached parses are keyed on the provider and model that produced them too,
+-- so switching MEAL_PARSER_PROVIDER or MEAL_PARSER_MODEL re-parses instead of
+-- serving the previous model's items.
+ALTER TABLE parse_cache ADD COLUMN IF NOT EXISTS parser TEXT NOT NULL DEFAULT '';
+
+-- Rows from before this column don't say which parser made them
+DELETE FROM parse_cache WHERE parser = '';
+
+-- The old unique key has a generated name, so drop it by looking it up
+DO $$
+DECLARE
+  old_key TEXT;
+BEGIN
+  FOR old_key IN
+    SELECT conname FROM pg_constraint
+    WHERE conrelid = 'parse_cache'::regclass AND contype = 'u'
+  LOOP
+    EXECUTE format('ALTER TABLE parse_cache DROP CONSTRAINT %I', old_key);
+  END LOOP;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parse_cache_key ON parse_cache(user_id, normalized_text, image_hash, prompt_version, parser);
@@ -1,5 +1,7 @@
 -- Nutrition Tracker Schema
--- Run this in Supabase SQL Editor
+-- The full schema after every migration in supabase/migrations, for reference.
+-- Set up and upgrade databases with `npm run db:migrate`. Schema changes go in
+-- a new migration and are mirrored here; migrations.test.ts checks the two agree.
 
 -- Enable UUID extension
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
@@ -24,10 +26,29 @@ CREATE TABLE user_settings (
   sex TEXT CHECK (sex IN ('male', 'female')),
   
   -- Goals
-  calorie_deficit INTEGER DEFAULT 500, -- subtract from TDEE
+  goal_type TEXT CHECK (goal_type IN ('lose', 'maintain', 'gain')), -- NULL = from the sign of calorie_deficit
+  calorie_deficit INTEGER DEFAULT 500, -- daily deficit (lose) or surplus (gain) without a target date
+  target_weight_kg DECIMAL(5,2),
+  target_date DATE,
+
+  -- Macro targets: grams per kg of body weight, or percent of calories
+  protein_target_mode TEXT NOT NULL DEFAULT 'g_per_kg' CHECK (protein_target_mode IN ('g_per_kg', 'percent')),
+  protein_target_value DECIMAL(5,2) NOT NULL DEFAULT 1.6,
+  fat_target_mode TEXT NOT NULL DEFAULT 'percent' CHECK (fat_target_mode IN ('g_per_kg', 'percent')),
+  fat_target_value DECIMAL(5,2) NOT NULL DEFAULT 30,
+  carb_target_mode TEXT NOT NULL DEFAULT 'remainder' CHECK (carb_target_mode IN ('g_per_kg', 'percent', 'remainder')),
+  carb_target_value DECIMAL(5,2), -- unused for 'remainder'
   
   -- Timezone
   timezone TEXT DEFAULT 'America/New_York',
+
+  -- Nutrient keys (src/lib/nutrients.ts) shown on the dashboard and trends; NULL = defaults
+  dashboard_nutrients JSONB,
+
+  -- What counts as a completely logged day in trends (fewer entries or
+  -- calories = partially logged)
+  complete_day_min_entries INTEGER NOT NULL DEFAULT 1 CHECK (complete_day_min_entries >= 0),
+  complete_day_min_calories INTEGER NOT NULL DEFAULT 1200 CHECK (complete_day_min_calories >= 0),
   
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
@@ -68,6 +89,23 @@ CREATE TABLE daily_activity (
 
 CREATE INDEX idx_daily_activity_date ON daily_activity(resolved_date);
 
+-- ============================================
+-- IMPORT BATCHES (history imported from other trackers)
+-- ============================================
+-- Deleting a batch deletes its entries (and their items), so a bad import
+-- can be rolled back in one step.
+CREATE TABLE import_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('myfitnesspal', 'cronometer', 'loseit')),
+  filename TEXT,
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_import_batches_user_id ON import_batches(user_id);
+
 -- ============================================
 -- ENTRIES (raw user food logs)
 -- ============================================
@@ -88,11 +126,71 @@ CREATE TABLE entries (
   resolved_date DATE NOT NULL,
   
   -- Optional: if user explicitly specified a date
-  explicit_date_in_text BOOLEAN DEFAULT FALSE
+  explicit_date_in_text BOOLEAN DEFAULT FALSE,
+
+  -- Set for entries imported from another tracker
+  import_batch_id UUID REFERENCES import_batches(id) ON DELETE CASCADE,
+
+  -- Set for entries copied from another day
+  copied_from_entry_id UUID REFERENCES entries(id) ON DELETE SET NULL,
+
+  -- Optional meal slot and local time eaten (from the text, or set by the user).
+  -- Without eaten_at the entry is placed at created_at.
+  meal_slot TEXT CHECK (meal_slot IN ('breakfast', 'lunch', 'dinner', 'snack')),
+  eaten_at TIME
 );
 
 CREATE INDEX idx_entries_resolved_date ON entries(resolved_date);
 
+-- ============================================
+-- CUSTOM FOODS (user-defined foods with exact nutrients)
+-- ============================================
+CREATE TABLE custom_foods (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  aliases JSONB NOT NULL DEFAULT '[]', -- other names used in descriptions
+
+  -- What one serving is ("1 bowl") and what it weighs, if known
+  serving_description TEXT,
+  serving_grams DECIMAL(7,2) CHECK (serving_grams > 0),
+
+  -- Nutrient values ({ calories, protein_g, ... }) per serving and/or per 100 g
+  per_serving JSONB,
+  per_100g JSONB,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name),
+  CHECK (per_serving IS NOT NULL OR per_100g IS NOT NULL)
+);
+
+-- ============================================
+-- RECIPES (batch-cooked dishes logged by the portion)
+-- ============================================
+CREATE TABLE recipes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Ingredient lines as typed, and the items they were parsed or entered as
+  ingredients_text TEXT NOT NULL DEFAULT '',
+  ingredients JSONB NOT NULL,
+
+  -- What the batch makes: a number of servings and/or its cooked weight
+  yield_servings DECIMAL(6,2) CHECK (yield_servings > 0),
+  yield_grams DECIMAL(8,2) CHECK (yield_grams > 0),
+
+  -- FoodItem totals of the ingredients divided by the yield, ranges included
+  per_serving JSONB,
+  per_100g JSONB,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name),
+  CHECK (yield_servings IS NOT NULL OR yield_grams IS NOT NULL)
+);
+
 -- ============================================
 -- ENTRY ITEMS (parsed food items from LLM)
 -- ============================================
@@ -144,12 +242,54 @@ CREATE TABLE entry_items (
   sodium_low DECIMAL(8,2) DEFAULT 0,
   sodium_high DECIMAL(8,2) DEFAULT 0,
   
-  sugar_g DECIMAL(6,2) DEFAULT 0,
-  sugar_low DECIMAL(6,2) DEFAULT 0,
-  sugar_high DECIMAL(6,2) DEFAULT 0,
+  -- Added sugar is part of total sugar (natural + added)
+  added_sugar_g DECIMAL(6,2) DEFAULT 0,
+  added_sugar_low DECIMAL(6,2) DEFAULT 0,
+  added_sugar_high DECIMAL(6,2) DEFAULT 0,
+  
+  total_sugar_g DECIMAL(6,2) DEFAULT 0,
+  total_sugar_low DECIMAL(6,2) DEFAULT 0,
+  total_sugar_high DECIMAL(6,2) DEFAULT 0,
+  
+  -- Further nutrients from the registry (src/lib/nutrients.ts)
+  potassium_mg DECIMAL(8,2) DEFAULT 0,
+  potassium_low DECIMAL(8,2) DEFAULT 0,
+  potassium_high DECIMAL(8,2) DEFAULT 0,
+  
+  calcium_mg DECIMAL(8,2) DEFAULT 0,
+  calcium_low DECIMAL(8,2) DEFAULT 0,
+  calcium_high DECIMAL(8,2) DEFAULT 0,
+  
+  iron_mg DECIMAL(6,2) DEFAULT 0,
+  iron_low DECIMAL(6,2) DEFAULT 0,
+  iron_high DECIMAL(6,2) DEFAULT 0,
+  
+  vitamin_d_mcg DECIMAL(6,2) DEFAULT 0,
+  vitamin_d_low DECIMAL(6,2) DEFAULT 0,
+  vitamin_d_high DECIMAL(6,2) DEFAULT 0,
+  
+  cholesterol_mg DECIMAL(8,2) DEFAULT 0,
+  cholesterol_low DECIMAL(8,2) DEFAULT 0,
+  cholesterol_high DECIMAL(8,2) DEFAULT 0,
+  
+  caffeine_mg DECIMAL(8,2) DEFAULT 0,
+  caffeine_low DECIMAL(8,2) DEFAULT 0,
+  caffeine_high DECIMAL(8,2) DEFAULT 0,
+  
+  alcohol_g DECIMAL(6,2) DEFAULT 0,
+  alcohol_low DECIMAL(6,2) DEFAULT 0,
+  alcohol_high DECIMAL(6,2) DEFAULT 0,
   
   -- LLM assumptions for auditability
   assumptions JSONB DEFAULT '[]',
+
+  -- Where the nutrient values came from: the parser's estimate, a reference
+  -- food recomputed from grams (reference_food_id names it), typed in, one
+  -- of the user's custom foods, or a portion of one of their recipes
+  source TEXT NOT NULL DEFAULT 'estimate' CHECK (source IN ('estimate', 'reference', 'manual', 'custom', 'recipe')),
+  reference_food_id TEXT,
+  custom_food_id UUID REFERENCES custom_foods(id) ON DELETE SET NULL,
+  recipe_id UUID REFERENCES recipes(id) ON DELETE SET NULL,
   
   -- Manual override tracking
   has_override BOOLEAN DEFAULT FALSE,
@@ -161,6 +301,85 @@ CREATE TABLE entry_items (
 
 CREATE INDEX idx_entry_items_entry_id ON entry_items(entry_id);
 
+-- ============================================
+-- PARSE CACHE (reused LLM parses of repeated meal descriptions)
+-- ============================================
+CREATE TABLE parse_cache (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+
+  -- Cache key: lowercased/whitespace-collapsed raw_text, SHA-256 of the
+  -- image ('' when none), the prompt version and the parser (provider/model)
+  -- that produced the parse
+  normalized_text TEXT NOT NULL,
+  image_hash TEXT NOT NULL DEFAULT '',
+  prompt_version TEXT NOT NULL,
+  parser TEXT NOT NULL DEFAULT '',
+
+  -- The ParsedMeal items array as returned by the parser
+  parsed_items JSONB NOT NULL,
+
+  -- Meal slot and time the parser read from the text, if any
+  meal_slot TEXT,
+  eaten_at TIME,
+
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_used_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_parse_cache_key ON parse_cache(user_id, normalized_text, image_hash, prompt_version, parser);
+
+-- ============================================
+-- WEIGHT LOGS (daily weigh-ins for adaptive TDEE)
+-- ============================================
+CREATE TABLE weight_logs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  logged_date DATE NOT NULL,
+  weight_kg DECIMAL(5,2) NOT NULL CHECK (weight_kg > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, logged_date) -- One weigh-in per user per day
+);
+
+-- ============================================
+-- SAVED MEALS (named templates of an entry's items)
+-- ============================================
+CREATE TABLE saved_meals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Snapshot of the items (FoodItem objects) for one serving
+  items JSONB NOT NULL,
+
+  use_count INTEGER NOT NULL DEFAULT 0,
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- ============================================
+-- SESSIONS (one row per signed-in device, revocable)
+-- ============================================
+CREATE TABLE sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES user_settings(id) ON DELETE CASCADE NOT NULL,
+
+  -- SHA-256 of the token's random secret; the token itself is never stored
+  token_hash TEXT NOT NULL,
+  device_label TEXT,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  last_seen_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+
 -- ============================================
 -- HELPER FUNCTIONS
 -- ============================================
@@ -181,12 +400,190 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql IMMUTABLE;
 
+-- Insert entry items from a JSON array of item objects.
+-- Keys are matched to entry_items columns by name, so this doesn't need to
+-- change when nutrient columns are added. Items without a source are estimates.
+CREATE OR REPLACE FUNCTION insert_entry_items(
+  p_entry_id UUID,
+  p_items JSONB
+) RETURNS VOID AS $$
+BEGIN
+  INSERT INTO entry_items
+  SELECT (jsonb_populate_record(
+    NULL::entry_items,
+    jsonb_build_object('source', 'estimate') || item || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'entry_id', p_entry_id,
+      'has_override', FALSE,
+      'override_fields', NULL,
+      'created_at', NOW(),
+      'updated_at', NOW()
+    )
+  )).*
+  FROM jsonb_array_elements(p_items) AS item;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an entry and its items in one transaction.
+-- Either both are saved or neither is, so a failed item insert can't leave
+-- an empty entry behind.
+CREATE OR REPLACE FUNCTION create_entry_with_items(
+  p_entry JSONB,
+  p_items JSONB
+) RETURNS entries AS $$
+DECLARE
+  new_entry entries;
+BEGIN
+  INSERT INTO entries
+  SELECT (jsonb_populate_record(
+    NULL::entries,
+    p_entry || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'created_at', NOW()
+    )
+  )).*
+  RETURNING * INTO new_entry;
+
+  PERFORM insert_entry_items(new_entry.id, p_items);
+
+  RETURN new_entry;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create an import batch and all of its entries in one transaction.
+-- p_entries is an array of { resolved_date, raw_text, meal_slot, items: [...] }.
+CREATE OR REPLACE FUNCTION import_entries(
+  p_batch JSONB,
+  p_entries JSONB
+) RETURNS import_batches AS $$
+DECLARE
+  new_batch import_batches;
+  entry JSONB;
+BEGIN
+  INSERT INTO import_batches
+  SELECT (jsonb_populate_record(
+    NULL::import_batches,
+    p_batch || jsonb_build_object(
+      'id', uuid_generate_v4(),
+      'entry_count', jsonb_array_length(p_entries),
+      'item_count', (SELECT COALESCE(SUM(jsonb_array_length(e->'items')), 0) FROM jsonb_array_elements(p_entries) AS e),
+      'created_at', NOW()
+    )
+  )).*
+  RETURNING * INTO new_batch;
+
+  FOR entry IN SELECT * FROM jsonb_array_elements(p_entries) LOOP
+    PERFORM create_entry_with_items(
+      jsonb_build_object(
+        'user_id', new_batch.user_id,
+        'raw_text', entry->>'raw_text',
+        'resolved_date', entry->>'resolved_date',
+        'explicit_date_in_text', FALSE,
+        'import_batch_id', new_batch.id,
+        'meal_slot', entry->'meal_slot'
+      ),
+      entry->'items'
+    );
+  END LOOP;
+
+  RETURN new_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy entries (with their items) onto another date in one transaction.
+-- Copies get a fresh created_at and point back at their source entry.
+-- Entries not owned by p_user_id are ignored.
+CREATE OR REPLACE FUNCTION copy_entries(
+  p_user_id UUID,
+  p_entry_ids UUID[],
+  p_date DATE
+) RETURNS SETOF entries AS $$
+DECLARE
+  source entries;
+  new_entry entries;
+BEGIN
+  FOR source IN
+    SELECT * FROM entries
+    WHERE id = ANY(p_entry_ids) AND user_id = p_user_id
+    ORDER BY created_at
+  LOOP
+    INSERT INTO entries (user_id, raw_text, resolved_date, explicit_date_in_text, copied_from_entry_id, meal_slot, eaten_at)
+    VALUES (p_user_id, source.raw_text, p_date, FALSE, source.id, source.meal_slot, source.eaten_at)
+    RETURNING * INTO new_entry;
+
+    INSERT INTO entry_items
+    SELECT (jsonb_populate_record(
+      NULL::entry_items,
+      to_jsonb(item) || jsonb_build_object(
+        'id', uuid_generate_v4(),
+        'entry_id', new_entry.id,
+        'created_at', NOW(),
+        'updated_at', NOW()
+      )
+    )).*
+    FROM entry_items AS item
+    WHERE item.entry_id = source.id;
+
+    RETURN NEXT new_entry;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace an entry's raw text and items in one transaction (re-parse).
+-- Manually overridden items survive when p_keep_overrides is true.
+-- meal_slot and eaten_at are set when p_timing has them (null clears them).
+CREATE OR REPLACE FUNCTION replace_entry_items(
+  p_entry_id UUID,
+  p_user_id UUID,
+  p_raw_text TEXT,
+  p_items JSONB,
+  p_keep_overrides BOOLEAN DEFAULT TRUE,
+  p_timing JSONB DEFAULT '{}'
+) RETURNS SETOF entry_items AS $$
+BEGIN
+  UPDATE entries
+  SET raw_text = p_raw_text,
+      meal_slot = CASE WHEN p_timing ? 'meal_slot' THEN p_timing->>'meal_slot' ELSE meal_slot END,
+      eaten_at = CASE WHEN p_timing ? 'eaten_at' THEN (p_timing->>'eaten_at')::TIME ELSE eaten_at END
+  WHERE id = p_entry_id AND user_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  DELETE FROM entry_items
+  WHERE entry_id = p_entry_id
+    AND NOT (p_keep_overrides AND COALESCE(has_override, FALSE));
+
+  PERFORM insert_entry_items(p_entry_id, p_items);
+
+  RETURN QUERY
+  SELECT * FROM entry_items
+  WHERE entry_id = p_entry_id
+  ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Count a use of a saved meal, as one statement so concurrent logs of the
+-- same meal each count
+CREATE OR REPLACE FUNCTION record_saved_meal_use(
+  p_meal_id UUID,
+  p_user_id UUID
+) RETURNS VOID AS $$
+  UPDATE saved_meals
+  SET use_count = use_count + 1,
+      last_used_at = NOW()
+  WHERE id = p_meal_id AND user_id = p_user_id;
+$$ LANGUAGE sql;
+
 -- ============================================
 -- VIEWS
 -- ============================================
 
 -- Daily totals view (aggregates entry_items by resolved_date)
-CREATE OR REPLACE VIEW daily_totals AS
+-- Ranges combine items as independent estimates, matching src/lib/aggregation.ts
+-- security_invoker makes the view apply the caller's RLS policies
+CREATE OR REPLACE VIEW daily_totals WITH (security_invoker = true) AS
 SELECT 
   e.user_id,
   e.resolved_date,
@@ -195,48 +592,88 @@ SELECT
   
   -- Calories
   COALESCE(SUM(ei.calories), 0) as total_calories,
-  COALESCE(SUM(ei.calories_low), 0) as total_calories_low,
-  COALESCE(SUM(ei.calories_high), 0) as total_calories_high,
+  COALESCE(SUM(ei.calories), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.calories - ei.calories_low, 0), 2)), 0)) as total_calories_low,
+  COALESCE(SUM(ei.calories), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.calories_high - ei.calories, 0), 2)), 0)) as total_calories_high,
   
   -- Protein
   COALESCE(SUM(ei.protein_g), 0) as total_protein,
-  COALESCE(SUM(ei.protein_low), 0) as total_protein_low,
-  COALESCE(SUM(ei.protein_high), 0) as total_protein_high,
+  COALESCE(SUM(ei.protein_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.protein_g - ei.protein_low, 0), 2)), 0)) as total_protein_low,
+  COALESCE(SUM(ei.protein_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.protein_high - ei.protein_g, 0), 2)), 0)) as total_protein_high,
   
   -- Carbs
   COALESCE(SUM(ei.carbs_g), 0) as total_carbs,
-  COALESCE(SUM(ei.carbs_low), 0) as total_carbs_low,
-  COALESCE(SUM(ei.carbs_high), 0) as total_carbs_high,
+  COALESCE(SUM(ei.carbs_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.carbs_g - ei.carbs_low, 0), 2)), 0)) as total_carbs_low,
+  COALESCE(SUM(ei.carbs_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.carbs_high - ei.carbs_g, 0), 2)), 0)) as total_carbs_high,
   
   -- Fat
   COALESCE(SUM(ei.fat_g), 0) as total_fat,
-  COALESCE(SUM(ei.fat_low), 0) as total_fat_low,
-  COALESCE(SUM(ei.fat_high), 0) as total_fat_high,
+  COALESCE(SUM(ei.fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.fat_g - ei.fat_low, 0), 2)), 0)) as total_fat_low,
+  COALESCE(SUM(ei.fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.fat_high - ei.fat_g, 0), 2)), 0)) as total_fat_high,
   
   -- Saturated Fat
   COALESCE(SUM(ei.saturated_fat_g), 0) as total_saturated_fat,
-  COALESCE(SUM(ei.saturated_fat_low), 0) as total_saturated_fat_low,
-  COALESCE(SUM(ei.saturated_fat_high), 0) as total_saturated_fat_high,
+  COALESCE(SUM(ei.saturated_fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.saturated_fat_g - ei.saturated_fat_low, 0), 2)), 0)) as total_saturated_fat_low,
+  COALESCE(SUM(ei.saturated_fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.saturated_fat_high - ei.saturated_fat_g, 0), 2)), 0)) as total_saturated_fat_high,
   
   -- Unsaturated Fat
   COALESCE(SUM(ei.unsaturated_fat_g), 0) as total_unsaturated_fat,
-  COALESCE(SUM(ei.unsaturated_fat_low), 0) as total_unsaturated_fat_low,
-  COALESCE(SUM(ei.unsaturated_fat_high), 0) as total_unsaturated_fat_high,
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.unsaturated_fat_g - ei.unsaturated_fat_low, 0), 2)), 0)) as total_unsaturated_fat_low,
+  COALESCE(SUM(ei.unsaturated_fat_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.unsaturated_fat_high - ei.unsaturated_fat_g, 0), 2)), 0)) as total_unsaturated_fat_high,
   
   -- Fiber
   COALESCE(SUM(ei.fiber_g), 0) as total_fiber,
-  COALESCE(SUM(ei.fiber_low), 0) as total_fiber_low,
-  COALESCE(SUM(ei.fiber_high), 0) as total_fiber_high,
+  COALESCE(SUM(ei.fiber_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.fiber_g - ei.fiber_low, 0), 2)), 0)) as total_fiber_low,
+  COALESCE(SUM(ei.fiber_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.fiber_high - ei.fiber_g, 0), 2)), 0)) as total_fiber_high,
   
   -- Sodium
   COALESCE(SUM(ei.sodium_mg), 0) as total_sodium,
-  COALESCE(SUM(ei.sodium_low), 0) as total_sodium_low,
-  COALESCE(SUM(ei.sodium_high), 0) as total_sodium_high,
-  
-  -- Sugar
-  COALESCE(SUM(ei.sugar_g), 0) as total_sugar,
-  COALESCE(SUM(ei.sugar_low), 0) as total_sugar_low,
-  COALESCE(SUM(ei.sugar_high), 0) as total_sugar_high
+  COALESCE(SUM(ei.sodium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.sodium_mg - ei.sodium_low, 0), 2)), 0)) as total_sodium_low,
+  COALESCE(SUM(ei.sodium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.sodium_high - ei.sodium_mg, 0), 2)), 0)) as total_sodium_high,
+  
+  -- Added sugar
+  COALESCE(SUM(ei.added_sugar_g), 0) as total_added_sugar,
+  COALESCE(SUM(ei.added_sugar_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.added_sugar_g - ei.added_sugar_low, 0), 2)), 0)) as total_added_sugar_low,
+  COALESCE(SUM(ei.added_sugar_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.added_sugar_high - ei.added_sugar_g, 0), 2)), 0)) as total_added_sugar_high,
+  
+  -- Total sugar
+  COALESCE(SUM(ei.total_sugar_g), 0) as total_sugar,
+  COALESCE(SUM(ei.total_sugar_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.total_sugar_g - ei.total_sugar_low, 0), 2)), 0)) as total_sugar_low,
+  COALESCE(SUM(ei.total_sugar_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.total_sugar_high - ei.total_sugar_g, 0), 2)), 0)) as total_sugar_high,
+  
+  -- Potassium
+  COALESCE(SUM(ei.potassium_mg), 0) as total_potassium,
+  COALESCE(SUM(ei.potassium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.potassium_mg - ei.potassium_low, 0), 2)), 0)) as total_potassium_low,
+  COALESCE(SUM(ei.potassium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.potassium_high - ei.potassium_mg, 0), 2)), 0)) as total_potassium_high,
+  
+  -- Calcium
+  COALESCE(SUM(ei.calcium_mg), 0) as total_calcium,
+  COALESCE(SUM(ei.calcium_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.calcium_mg - ei.calcium_low, 0), 2)), 0)) as total_calcium_low,
+  COALESCE(SUM(ei.calcium_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.calcium_high - ei.calcium_mg, 0), 2)), 0)) as total_calcium_high,
+  
+  -- Iron
+  COALESCE(SUM(ei.iron_mg), 0) as total_iron,
+  COALESCE(SUM(ei.iron_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.iron_mg - ei.iron_low, 0), 2)), 0)) as total_iron_low,
+  COALESCE(SUM(ei.iron_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.iron_high - ei.iron_mg, 0), 2)), 0)) as total_iron_high,
+  
+  -- Vitamin D
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) as total_vitamin_d,
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.vitamin_d_mcg - ei.vitamin_d_low, 0), 2)), 0)) as total_vitamin_d_low,
+  COALESCE(SUM(ei.vitamin_d_mcg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.vitamin_d_high - ei.vitamin_d_mcg, 0), 2)), 0)) as total_vitamin_d_high,
+  
+  -- Cholesterol
+  COALESCE(SUM(ei.cholesterol_mg), 0) as total_cholesterol,
+  COALESCE(SUM(ei.cholesterol_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.cholesterol_mg - ei.cholesterol_low, 0), 2)), 0)) as total_cholesterol_low,
+  COALESCE(SUM(ei.cholesterol_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.cholesterol_high - ei.cholesterol_mg, 0), 2)), 0)) as total_cholesterol_high,
+  
+  -- Caffeine
+  COALESCE(SUM(ei.caffeine_mg), 0) as total_caffeine,
+  COALESCE(SUM(ei.caffeine_mg), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.caffeine_mg - ei.caffeine_low, 0), 2)), 0)) as total_caffeine_low,
+  COALESCE(SUM(ei.caffeine_mg), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.caffeine_high - ei.caffeine_mg, 0), 2)), 0)) as total_caffeine_high,
+  
+  -- Alcohol
+  COALESCE(SUM(ei.alcohol_g), 0) as total_alcohol,
+  COALESCE(SUM(ei.alcohol_g), 0) - SQRT(COALESCE(SUM(POWER(GREATEST(ei.alcohol_g - ei.alcohol_low, 0), 2)), 0)) as total_alcohol_low,
+  COALESCE(SUM(ei.alcohol_g), 0) + SQRT(COALESCE(SUM(POWER(GREATEST(ei.alcohol_high - ei.alcohol_g, 0), 2)), 0)) as total_alcohol_high
 
 FROM entries e
 LEFT JOIN entry_items ei ON ei.entry_id = e.id
@@ -244,7 +681,74 @@ GROUP BY e.user_id, e.resolved_date
 ORDER BY e.resolved_date DESC;
 
 -- ============================================
--- ROW LEVEL SECURITY (disabled for single user, can enable later)
+-- ROW LEVEL SECURITY
 -- ============================================
--- For now, we don't enable RLS since it's single-user with password gate
--- When adding multi-user, add user_id columns and enable RLS policies
+-- API routes use the service role key, which bypasses RLS, and scope every
+-- query to the session user themselves. These policies are the backstop:
+-- any request made with the anon key or a Supabase JWT only ever sees the
+-- caller's own rows.
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE entry_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_activity ENABLE ROW LEVEL SECURITY;
+ALTER TABLE weight_logs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_meals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE custom_foods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recipes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_settings_own ON user_settings
+  FOR ALL
+  USING (id = auth.uid())
+  WITH CHECK (id = auth.uid());
+
+CREATE POLICY entries_own ON entries
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Items are owned through their entry
+CREATE POLICY entry_items_own ON entry_items
+  FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM entries e WHERE e.id = entry_items.entry_id AND e.user_id = auth.uid()
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM entries e WHERE e.id = entry_items.entry_id AND e.user_id = auth.uid()
+  ));
+
+CREATE POLICY daily_activity_own ON daily_activity
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY weight_logs_own ON weight_logs
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY import_batches_own ON import_batches
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY saved_meals_own ON saved_meals
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY custom_foods_own ON custom_foods
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY recipes_own ON recipes
+  FOR ALL
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- Sessions and cached parses are only ever touched server-side:
+-- RLS on with no policies denies everyone but the service role
+ALTER TABLE sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parse_cache ENABLE ROW LEVEL SECURITY;